@@ -0,0 +1,30 @@
+/**
+ * OpenCode plugin that tells the knowledge MCP server which session saved a memory.
+ *
+ * MCP tool calls don't carry the OpenCode session ID, so this plugin copies it
+ * into the `session_id` argument of `save_memory`. The knowledge server then
+ * looks the session up in the sessions table to record the Slack thread,
+ * channel and user the memory came from. Whatever the model put in the
+ * argument is overwritten (or cleared), so it can't claim another thread.
+ */
+
+const MEMORY_TOOLS = new Set(["knowledge_save_memory"]);
+
+export default function memoryProvenancePlugin() {
+  return {
+    name: "memory-provenance",
+    hooks: {
+      "tool.execute.before": async (
+        input: { tool: string; args: Record<string, unknown>; sessionID?: string },
+        output?: { args?: Record<string, unknown> },
+      ) => {
+        if (!MEMORY_TOOLS.has(input.tool)) return;
+        // Newer OpenCode versions pass the (mutable) args on the output object
+        const args = output?.args ?? input.args;
+        if (!args) return;
+        if (input.sessionID) args.session_id = input.sessionID;
+        else delete args.session_id;
+      },
+    },
+  };
+}
@@ -132,17 +132,10 @@ mkdir -p /app/repos
 # ── Create knowledge directory for S3-synced knowledge files ──
 mkdir -p /app/knowledge
 
-# ── Clean up orphaned coding session worktrees and processes ──
+# ── Clean up orphaned coding session processes ──
+# Worktrees are kept: the bot restores saved sessions onto them on startup and
+# removes the ones no session owns (restoreCodingSessions).
 echo "Cleaning up orphaned coding sessions..."
-# Prune worktrees on the default repo
-git -C /app/repo worktree prune 2>/dev/null || true
-# Remove leftover .worktrees directories
-rm -rf /app/repo/.worktrees 2>/dev/null || true
-for repo_dir in /app/repos/*/; do
-  [ -d "${repo_dir}.git" ] || continue
-  git -C "$repo_dir" worktree prune 2>/dev/null || true
-  rm -rf "${repo_dir}.worktrees" 2>/dev/null || true
-done
 # Kill any OpenCode processes on coding session ports (4100+)
 for pid in $(lsof -ti :4100-4200 2>/dev/null || true); do
   kill "$pid" 2>/dev/null || true
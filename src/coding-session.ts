@@ -1,5 +1,7 @@
-import { spawn, execFileSync, type ChildProcess } from "node:child_process";
-import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync, unlinkSync } from "node:fs";
+import { spawn, spawnSync, execFileSync, type ChildProcess } from "node:child_process";
+import {
+  existsSync, mkdirSync, readdirSync, readFileSync, realpathSync, rmSync, statSync, writeFileSync, unlinkSync,
+} from "node:fs";
 import path from "node:path";
 import {
   createOpencodeClient,
@@ -7,12 +9,18 @@ import {
 } from "@opencode-ai/sdk";
 import {
   getCodingSession, saveCodingSession, updateCodingSessionStatus,
-  updateCodingSessionOpencode, touchCodingSession, deleteCodingSession,
-  getActiveCodingSessions, getIdleCodingSessions, getEnabledRepos,
-  getRepo, SessionStatus, getUserGithubPAT,
-  type CodingSessionRow,
+  updateCodingSessionOpencode, updateCodingSessionPR, updateCodingSessionPushed,
+  touchCodingSession, deleteCodingSession,
+  getActiveCodingSessions, getAllCodingSessions, getIdleCodingSessions, getExpiredPausedCodingSessions, getEnabledRepos,
+  getRepo, SessionStatus, getUserForgeCredential, getCodingUserLimit, getChannelIdleTimeout,
+  markCodingSessionIdleWarned, pauseCodingSessionRow, resumeCodingSessionRow, REAPABLE_STATUSES,
+  type CodingSessionRow, type ForgeCredential,
 } from "./sessions.js";
-import { writeOpencodeConfig } from "./opencode-config.js";
+import { writeOpencodeConfig, type ConfigMode } from "./opencode-config.js";
+import {
+  getForgeProvider, resolveForgeRepo,
+  type ForgeProvider, type ForgeRepo,
+} from "./forge.js";
 import {
   HOSTNAME, CODING_BASE_PORT,
   BOT_MANAGED_PATHS, INTERNAL_AGENT_NAMES, INTERNAL_AGENT_PREFIX,
@@ -25,12 +33,19 @@ import {
   type AskResult, type ProgressCallback,
 } from "./opencode.js";
 import { buildPrefix } from "./context-prefix.js";
+import type { UsageAttribution } from "./usage.js";
 import type { SlackContext } from "./utils/slack-context.js";
 import type { ConvertedFile } from "./utils/slack-files.js";
 
 const MAX_CODING_SESSIONS = parseInt(process.env.MAX_CODING_SESSIONS ?? "10", 10);
-const IDLE_TIMEOUT_SECONDS = 30 * 60; // 30 minutes
-const REAPER_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+/** Default concurrent sessions per user (0 = no per-user limit); admins can override per user. */
+const MAX_CODING_SESSIONS_PER_USER = parseInt(process.env.MAX_CODING_SESSIONS_PER_USER ?? "0", 10);
+/** Idle minutes before a session is reaped, unless its channel or repo sets one. */
+const DEFAULT_IDLE_TIMEOUT_MINUTES = parseInt(process.env.CODING_IDLE_TIMEOUT_MINUTES ?? "30", 10);
+/** Days a paused session keeps its worktree before it's closed (0 = never). */
+const PAUSED_EXPIRY_DAYS = parseInt(process.env.CODING_PAUSED_EXPIRY_DAYS ?? "7", 10);
+const IDLE_WARNING_SECONDS = 5 * 60; // warn 5 minutes before reaping
+const REAPER_INTERVAL_MS = 60 * 1000; // 1 minute, so warnings land on time
 
 const BASE_PORT = CODING_BASE_PORT;
 
@@ -58,11 +73,49 @@ function freePort(port: number): void {
   usedPorts.delete(port);
 }
 
+// ── Session slots ──
+// `code` requests that can't start right away are queued (see coding-handler);
+// listeners are told whenever a session ends so the queue can move.
+
+const slotListeners: (() => void)[] = [];
+
+/** Register a callback to run after any coding session is destroyed. */
+export function onCodingSlotFreed(listener: () => void): void {
+  slotListeners.push(listener);
+}
+
+/** A user's concurrent session limit (their override, else the default); 0 = none. */
+export function codingSessionLimitFor(userId: string): number {
+  return getCodingUserLimit(userId) ?? MAX_CODING_SESSIONS_PER_USER;
+}
+
+/**
+ * Why a new session for `userId` can't start right now, or null if it can.
+ * Sessions already queued ahead of this one are the caller's concern.
+ */
+export function codingSlotBlocker(userId: string): string | null {
+  const active = getActiveCodingSessions();
+  if (active.length >= MAX_CODING_SESSIONS) {
+    return `all ${MAX_CODING_SESSIONS} coding session slots are in use`;
+  }
+  const limit = codingSessionLimitFor(userId);
+  const mine = active.filter((s) => s.user_id === userId).length;
+  if (limit > 0 && mine >= limit) {
+    return `you already have ${mine} coding session${mine === 1 ? "" : "s"} running (your limit is ${limit})`;
+  }
+  return null;
+}
+
+export function codingSlotUsage(): { active: number; max: number } {
+  return { active: getActiveCodingSessions().length, max: MAX_CODING_SESSIONS };
+}
+
 // ── Server process tracking ──
 
 const serverProcesses = new Map<string, ChildProcess>(); // threadKey -> process
 const sessionClients = new Map<string, OpencodeClient>(); // threadKey -> client
 const sessionAbortControllers = new Map<string, AbortController>(); // threadKey -> abort controller
+const turnsInFlight = new Set<string>(); // threadKeys with an agent turn running
 
 /**
  * Active coding session info returned to callers.
@@ -108,8 +161,28 @@ export function getActiveCodingSession(threadKey: string): CodingSession | undef
   };
 }
 
+/** An existing PR head to check out instead of branching off the default branch. */
+export interface ReviewCheckout {
+  /** Ref to fetch from origin (see `PullRequestInfo.headRef`). */
+  fetchRef: string;
+  /** Local branch name for the checkout. */
+  branch: string;
+}
+
+/** An existing remote branch to continue (`code --branch` / `code --pr`). */
+export interface ExistingBranchCheckout {
+  branch: string;
+  /** The PR/MR the branch belongs to, when known up front. */
+  pr?: { number: number; url: string; baseBranch: string };
+}
+
 /**
  * Create a new coding session: worktree + dedicated OpenCode server.
+ *
+ * With `opts.existingBranch`, the worktree checks out that branch from origin
+ * instead of starting a new one, and `pr` pushes follow-up commits to it.
+ * With `opts.review`, the worktree checks out a PR head instead and the
+ * session runs the read-only Q&A agent in REVIEWING status.
  */
 export async function createCodingSession(
   threadKey: string,
@@ -118,6 +191,7 @@ export async function createCodingSession(
   agent: string = "code",
   description?: string,
   repoNameOverride?: string,
+  opts: { review?: ReviewCheckout; existingBranch?: ExistingBranchCheckout } = {},
 ): Promise<CodingSession> {
   // Check session limit
   const active = getActiveCodingSessions();
@@ -162,7 +236,7 @@ export async function createCodingSession(
         .slice(0, 40)
         .replace(/-$/, "")
     : shortTs;
-  const branch = `bot/${slug}-${shortTs.slice(-6)}`;
+  const branch = opts.review?.branch ?? opts.existingBranch?.branch ?? `bot/${slug}-${shortTs.slice(-6)}`;
   const worktreeDir = path.join(repoDir, ".worktrees", shortTs);
 
   // Ensure parent directory exists
@@ -180,42 +254,46 @@ export async function createCodingSession(
     console.warn(`[coding] git fetch failed for ${repoDir}:`, err);
   }
 
-  // Determine the default branch to base from
-  const defaultBranch = getDefaultBranch(repoDir);
-
-  // Create worktree with a new branch based on origin's default branch
-  execFileSync(
-    "git",
-    ["worktree", "add", "-b", branch, worktreeDir, `origin/${defaultBranch}`],
-    { cwd: repoDir, encoding: "utf-8", env: process.env, timeout: 30_000 },
-  );
-
-  console.log(`[coding] Worktree created: ${worktreeDir} (branch: ${branch})`);
-
-  // Clean repo agents/skills from the worktree (same as main repo)
-  cleanWorktreeAgents(worktreeDir);
-
-  // Copy .opencode/rules/ to worktree
-  const rulesDir = path.join(worktreeDir, ".opencode/rules");
-  mkdirSync(rulesDir, { recursive: true });
-  const sourceRules = path.join(repoDir, ".opencode/rules");
-  if (existsSync(sourceRules)) {
-    try {
-      execFileSync("cp", ["-r", sourceRules + "/.", rulesDir], { encoding: "utf-8" });
-    } catch {
-      // Non-fatal
-    }
+  if (opts.review) {
+    // Fetch the PR head straight into the local branch, then check that out
+    execFileSync(
+      "git",
+      ["fetch", "origin", `+${opts.review.fetchRef}:refs/heads/${branch}`],
+      { cwd: repoDir, encoding: "utf-8", env: process.env, timeout: 60_000 },
+    );
+    execFileSync(
+      "git",
+      ["worktree", "add", worktreeDir, branch],
+      { cwd: repoDir, encoding: "utf-8", env: process.env, timeout: 30_000 },
+    );
+  } else if (opts.existingBranch) {
+    assertBranchAvailable(repoDir, repoRow.name, branch);
+    // -B resets any stale local copy of the branch to what's on origin
+    execFileSync(
+      "git",
+      ["worktree", "add", "-B", branch, worktreeDir, `origin/${branch}`],
+      { cwd: repoDir, encoding: "utf-8", env: process.env, timeout: 30_000 },
+    );
+  } else {
+    // Determine the default branch to base from
+    const defaultBranch = getDefaultBranch(repoDir);
+
+    // Create worktree with a new branch based on origin's default branch
+    execFileSync(
+      "git",
+      ["worktree", "add", "-b", branch, worktreeDir, `origin/${defaultBranch}`],
+      { cwd: repoDir, encoding: "utf-8", env: process.env, timeout: 30_000 },
+    );
   }
 
-  try {
-    writeSkillManifest(worktreeDir, { allowSkills: repoRow.allow_skills === 1 });
-  } catch (err) {
-    console.warn(`[coding] Skill manifest gen failed for ${worktreeDir}:`, err);
-  }
+  console.log(`[coding] Worktree created: ${worktreeDir} (branch: ${branch})`);
+  const startSha = execFileSync("git", ["rev-parse", "HEAD"], {
+    cwd: worktreeDir, encoding: "utf-8", timeout: 5_000,
+  }).trim();
 
-  // Allocate port and write code-mode config
+  // Bot config (rules, skills, opencode.json) and a port for the server
+  prepareWorktree(worktreeDir, repoDir, repoRow.allow_skills === 1, threadKey, opts.review ? "qa" : "code");
   const port = allocatePort();
-  writeOpencodeConfig(worktreeDir, "code");
 
   // Save to DB before starting server
   saveCodingSession({
@@ -227,6 +305,10 @@ export async function createCodingSession(
     worktreePath: worktreeDir,
     port,
     agent,
+    baseBranch: opts.existingBranch?.pr?.baseBranch,
+    prNumber: opts.existingBranch?.pr?.number,
+    prUrl: opts.existingBranch?.pr?.url,
+    startSha,
   });
 
   // Start dedicated OpenCode server
@@ -238,19 +320,10 @@ export async function createCodingSession(
     throw err;
   }
 
-  // Create SDK client for this server
-  const serverUrl = `http://${HOSTNAME}:${port}`;
-  const client = createOpencodeClient({
-    baseUrl: serverUrl,
-    fetch: (request: Request) =>
-      globalThis.fetch(request, {
-        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
-      }),
-  });
-  sessionClients.set(threadKey, client);
-  sessionAbortControllers.set(threadKey, new AbortController());
+  const client = connectCodingClient(threadKey, port);
 
-  updateCodingSessionStatus(threadKey, SessionStatus.PLANNING);
+  const status = opts.review ? SessionStatus.REVIEWING : SessionStatus.PLANNING;
+  updateCodingSessionStatus(threadKey, status);
 
   console.log(`[coding] Session active: ${threadKey} on port ${port}`);
 
@@ -263,7 +336,7 @@ export async function createCodingSession(
     worktreePath: worktreeDir,
     port,
     agent,
-    status: SessionStatus.PLANNING,
+    status,
     client,
     opencodeSessionId: null,
   };
@@ -310,7 +383,9 @@ export async function askCodingQuestion(opts: {
   const isPlanning = session.status === SessionStatus.PLANNING;
 
   let contextPrefix: string;
-  if (isPlanning) {
+  if (session.status === SessionStatus.REVIEWING) {
+    contextPrefix = buildPrefix({ ctx, isNew, mode: "review", repoName: session.repoName, repoDir: session.worktreePath });
+  } else if (isPlanning) {
     contextPrefix = isBuiltinAgent
       ? buildPlanningContextPrefix(ctx, isNew, session.repoName, session.worktreePath)
       : buildPrefix({ ctx, isNew, mode: "minimal-planning", repoName: session.repoName });
@@ -322,17 +397,38 @@ export async function askCodingQuestion(opts: {
 
   const abortController = sessionAbortControllers.get(session.threadKey);
 
-  return askQuestion({
-    sessionId,
-    question,
-    onProgress,
-    files,
-    agent: session.agent,
-    customClient: session.client,
-    customBaseUrl: serverUrl,
-    customContextPrefix: contextPrefix,
-    abortSignal: abortController?.signal,
-  });
+  turnsInFlight.add(session.threadKey);
+  try {
+    return await askQuestion({
+      sessionId,
+      question,
+      onProgress,
+      files,
+      agent: session.agent,
+      customClient: session.client,
+      customBaseUrl: serverUrl,
+      customContextPrefix: contextPrefix,
+      abortSignal: abortController?.signal,
+      usage: codingUsage(session),
+    });
+  } finally {
+    turnsInFlight.delete(session.threadKey);
+    // Snapshot whatever the agent changed this turn
+    checkpointCodingSession(session.threadKey);
+  }
+}
+
+/**
+ * Usage-ledger attribution for prompts sent to a coding session's server.
+ */
+export function codingUsage(session: CodingSession): UsageAttribution {
+  return {
+    kind: "coding",
+    threadKey: session.threadKey,
+    channelId: session.channelId,
+    userId: session.userId,
+    repoName: session.repoName,
+  };
 }
 
 /**
@@ -354,7 +450,86 @@ async function destroyCodingSessionInternal(
   worktreePath: string,
   port: number,
   repoDir: string,
+  opts: { keepCheckpoint?: boolean } = {},
 ): Promise<void> {
+  const row = getCodingSession(threadKey);
+  const reviewBranch = row?.status === SessionStatus.REVIEWING ? row.branch : null;
+  // A paused session's saved port was released when it paused and may be in use again
+  const holdsPort = row?.status !== SessionStatus.PAUSED;
+  await stopCodingServer(threadKey);
+
+  // Remove worktree
+  try {
+    if (existsSync(worktreePath)) {
+      execFileSync("git", ["worktree", "remove", "--force", worktreePath], {
+        cwd: repoDir,
+        encoding: "utf-8",
+        timeout: 30_000,
+      });
+      console.log(`[coding] Worktree removed: ${worktreePath}`);
+    }
+  } catch (err) {
+    console.warn(`[coding] Failed to remove worktree ${worktreePath}:`, err);
+    // Try force removing the directory
+    try {
+      rmSync(worktreePath, { recursive: true, force: true });
+      execFileSync("git", ["worktree", "prune"], {
+        cwd: repoDir,
+        encoding: "utf-8",
+        timeout: 10_000,
+      });
+    } catch {
+      // Best effort
+    }
+  }
+
+  // Review checkouts are throwaway; coding branches are kept
+  if (reviewBranch) {
+    try {
+      execFileSync("git", ["branch", "-D", reviewBranch], {
+        cwd: repoDir, encoding: "utf-8", timeout: 5_000,
+      });
+    } catch {
+      // Best effort
+    }
+  }
+
+  // Clean up empty .worktrees directory so repo sync can resume pulling
+  const worktreesDir = path.join(repoDir, ".worktrees");
+  try {
+    if (existsSync(worktreesDir) && readdirSync(worktreesDir).length === 0) {
+      rmSync(worktreesDir, { recursive: true, force: true });
+    }
+  } catch {
+    // Best effort
+  }
+
+  // Drop the WIP checkpoint unless the caller wants the work kept recoverable
+  if (!opts.keepCheckpoint) {
+    try {
+      execFileSync("git", ["update-ref", "-d", wipRef(threadKey)], {
+        cwd: repoDir, encoding: "utf-8", timeout: 5_000,
+      });
+    } catch {
+      // No checkpoint — that's fine
+    }
+  }
+
+  // Free port
+  if (holdsPort) freePort(port);
+
+  // Remove from DB
+  deleteCodingSession(threadKey);
+  console.log(`[coding] Session destroyed: ${threadKey}`);
+
+  for (const listener of slotListeners) setImmediate(listener);
+}
+
+/**
+ * Stop a session's OpenCode server and drop its client.
+ * The worktree, port and DB row are left alone.
+ */
+async function stopCodingServer(threadKey: string): Promise<void> {
   // 1. Abort the local SSE listener so askCodingQuestion throws/exits immediately
   const abort = sessionAbortControllers.get(threadKey);
   if (abort) {
@@ -393,48 +568,249 @@ async function destroyCodingSessionInternal(
 
   // Remove client
   sessionClients.delete(threadKey);
+}
+
+// ── WIP checkpoints ──
+// Uncommitted changes are snapshotted to a ref in the parent repo (worktrees
+// share refs), so they survive a restart even if the worktree itself is lost.
+// The snapshot is built in a throwaway index, leaving the worktree untouched.
+
+const WIP_REF_PREFIX = "refs/slackode/wip/";
+
+function wipRef(threadKey: string): string {
+  return WIP_REF_PREFIX + threadKey.replace(".", "-");
+}
+
+/**
+ * Checkpoint a session's uncommitted changes (minus bot-managed files) to its
+ * WIP ref. Returns the ref name, or null if there was nothing to save.
+ */
+export function checkpointCodingSession(threadKey: string): string | null {
+  const row = getCodingSession(threadKey);
+  if (!row || !existsSync(row.worktree_path)) return null;
+
+  const cwd = row.worktree_path;
+  const ref = wipRef(threadKey);
+  const indexPath = `/tmp/slackode-wip-${threadKey.replace(".", "-")}.index`;
+  const env = {
+    ...process.env,
+    GIT_INDEX_FILE: indexPath,
+    GIT_AUTHOR_NAME: "slackode",
+    GIT_AUTHOR_EMAIL: "slackode@localhost",
+    GIT_COMMITTER_NAME: "slackode",
+    GIT_COMMITTER_EMAIL: "slackode@localhost",
+  };
+  const git = (args: string[]) =>
+    execFileSync("git", args, { cwd, encoding: "utf-8", env, timeout: 30_000 }).trim();
 
-  // Remove worktree
   try {
-    if (existsSync(worktreePath)) {
-      execFileSync("git", ["worktree", "remove", "--force", worktreePath], {
-        cwd: repoDir,
-        encoding: "utf-8",
-        timeout: 30_000,
-      });
-      console.log(`[coding] Worktree removed: ${worktreePath}`);
+    git(["read-tree", "HEAD"]);
+    git(["add", "-A", "--", ".", ...BOT_MANAGED_PATHS.map((p) => `:(exclude)${p}`)]);
+    const tree = git(["write-tree"]);
+
+    if (tree === git(["rev-parse", "HEAD^{tree}"])) {
+      // Clean worktree — an older checkpoint would only be stale
+      try { git(["update-ref", "-d", ref]); } catch { /* none to delete */ }
+      return null;
     }
+
+    const commit = git(["commit-tree", tree, "-p", "HEAD", "-m", `WIP checkpoint for coding session ${threadKey}`]);
+    git(["update-ref", ref, commit]);
+    return ref;
   } catch (err) {
-    console.warn(`[coding] Failed to remove worktree ${worktreePath}:`, err);
-    // Try force removing the directory
+    console.warn(`[coding] Failed to checkpoint ${threadKey}:`, err);
+    return null;
+  } finally {
+    try { unlinkSync(indexPath); } catch { /* best effort */ }
+  }
+}
+
+// ── Turn checkpoints ──
+// Each coding turn is committed on the session branch, so turns can be listed
+// and undone one at a time. `pr` pushes them as they are or squashed.
+
+/**
+ * The commit a session started from. Sessions created before start commits
+ * were recorded fall back to the merge base with their PR's base branch.
+ */
+function sessionStart(row: CodingSessionRow): string {
+  if (row.start_sha) return row.start_sha;
+  try {
+    const base = row.base_branch ?? getDefaultBranch(row.worktree_path);
+    return execFileSync("git", ["merge-base", "HEAD", `origin/${base}`], {
+      cwd: row.worktree_path, encoding: "utf-8", timeout: 5_000,
+    }).trim();
+  } catch {
+    return "HEAD";
+  }
+}
+
+/**
+ * Stage everything in a worktree except bot-managed paths.
+ * Returns the staged file names.
+ */
+function stageSessionChanges(cwd: string): string[] {
+  execFileSync("git", ["add", "-A"], { cwd, encoding: "utf-8", timeout: 10_000 });
+  // Unstage bot-managed files/directories that should never be committed
+  for (const managedPath of BOT_MANAGED_PATHS) {
     try {
-      rmSync(worktreePath, { recursive: true, force: true });
-      execFileSync("git", ["worktree", "prune"], {
-        cwd: repoDir,
-        encoding: "utf-8",
-        timeout: 10_000,
-      });
+      execFileSync("git", ["reset", "HEAD", "--", managedPath], { cwd, encoding: "utf-8", timeout: 5_000 });
     } catch {
-      // Best effort
+      // Path may not exist or have no staged changes — that's fine
     }
   }
+  return execFileSync("git", ["diff", "--cached", "--name-only"], {
+    cwd, encoding: "utf-8", timeout: 10_000,
+  }).trim().split("\n").filter(Boolean);
+}
 
-  // Clean up empty .worktrees directory so repo sync can resume pulling
-  const worktreesDir = path.join(repoDir, ".worktrees");
+function commitEnv(identity: { name: string; email: string }): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    GIT_AUTHOR_NAME: identity.name,
+    GIT_AUTHOR_EMAIL: identity.email,
+    GIT_COMMITTER_NAME: identity.name,
+    GIT_COMMITTER_EMAIL: identity.email,
+  };
+}
+
+/** The session owner's forge identity, or the bot's if they haven't connected one. */
+function sessionIdentity(row: CodingSessionRow): { name: string; email: string } {
   try {
-    if (existsSync(worktreesDir) && readdirSync(worktreesDir).length === 0) {
-      rmSync(worktreesDir, { recursive: true, force: true });
-    }
+    return resolveSessionForge(row).credential;
   } catch {
-    // Best effort
+    return { name: "slackode", email: "slackode@localhost" };
   }
+}
 
-  // Free port
-  freePort(port);
+/**
+ * Commit message for a turn: the first line of the agent's summary as the
+ * subject (plain text, at most 72 characters), the full summary as the body.
+ */
+function turnCommitMessage(summary: string): string {
+  const lines = summary
+    .split("\n")
+    .map((l) => l.replace(/^[#>*\-\s\d.]+/, "").replace(/[*_`]/g, "").trim())
+    .filter(Boolean);
+  let subject = lines[0] ?? "Coding session turn";
+  const sentenceEnd = subject.search(/[.!?:](\s|$)/);
+  if (sentenceEnd > 0) subject = subject.slice(0, sentenceEnd);
+  if (subject.length > 72) subject = `${subject.slice(0, 71).trimEnd()}…`;
+
+  const body = summary.trim().slice(0, 2000);
+  return body && body !== subject ? `${subject}\n\n${body}` : subject;
+}
 
-  // Remove from DB
-  deleteCodingSession(threadKey);
-  console.log(`[coding] Session destroyed: ${threadKey}`);
+/**
+ * Commit whatever the agent changed this turn as a checkpoint on the session
+ * branch. Returns the short SHA, or null if nothing changed.
+ */
+export function commitCodingTurn(threadKey: string, summary: string): string | null {
+  const row = getCodingSession(threadKey);
+  if (!row || !existsSync(row.worktree_path)) return null;
+  const cwd = row.worktree_path;
+
+  try {
+    if (stageSessionChanges(cwd).length === 0) return null;
+    // Skip the repo's commit hooks — checks run via the verification profile
+    execFileSync("git", ["commit", "-q", "--no-verify", "-m", turnCommitMessage(summary)], {
+      cwd, encoding: "utf-8", env: commitEnv(sessionIdentity(row)), timeout: 10_000,
+    });
+    // The turn is committed, so the WIP checkpoint is stale
+    checkpointCodingSession(threadKey);
+    return execFileSync("git", ["rev-parse", "--short", "HEAD"], { cwd, encoding: "utf-8", timeout: 5_000 }).trim();
+  } catch (err) {
+    console.warn(`[coding] Failed to commit turn for ${threadKey}:`, err);
+    return null;
+  }
+}
+
+export interface CodingCheckpoint {
+  sha: string;
+  subject: string;
+  /** e.g. "5 minutes ago". */
+  age: string;
+  pushed: boolean;
+}
+
+/** Paths `git status` / `git clean` should ignore in a session worktree. */
+function sessionPathspec(): string[] {
+  return ["--", ".", ...BOT_MANAGED_PATHS.map((p) => `:(exclude)${p}`)];
+}
+
+/** Whether a worktree-relative path is (or is inside) one of the bot's generated config paths. */
+function isBotManagedPath(relative: string): boolean {
+  return BOT_MANAGED_PATHS.some((p) => relative === p || relative.startsWith(`${p}/`));
+}
+
+function hasUncommittedChanges(cwd: string): boolean {
+  return execFileSync("git", ["status", "--porcelain", ...sessionPathspec()], {
+    cwd, encoding: "utf-8", timeout: 10_000,
+  }).trim().length > 0;
+}
+
+/**
+ * A session's turn checkpoints, oldest first, and whether there are
+ * uncommitted changes on top of them. Null if the session is gone.
+ */
+export function listCodingCheckpoints(threadKey: string): {
+  checkpoints: CodingCheckpoint[];
+  uncommitted: boolean;
+} | null {
+  const row = getCodingSession(threadKey);
+  if (!row || !existsSync(row.worktree_path)) return null;
+  const cwd = row.worktree_path;
+  const git = (args: string[]) => execFileSync("git", args, { cwd, encoding: "utf-8", timeout: 10_000 }).trim();
+
+  const start = sessionStart(row);
+  const pushed = new Set(row.pushed_sha ? git(["rev-list", `${start}..${row.pushed_sha}`]).split("\n") : []);
+  const log = git(["log", "--reverse", "--format=%H%x1f%h%x1f%s%x1f%cr", `${start}..HEAD`]);
+  const checkpoints = log.split("\n").filter(Boolean).map((line) => {
+    const [full, sha, subject, age] = line.split("\x1f");
+    return { sha, subject, age, pushed: pushed.has(full) };
+  });
+
+  return { checkpoints, uncommitted: hasUncommittedChanges(cwd) };
+}
+
+/**
+ * Roll back the last turn. Uncommitted changes (a turn that never finished)
+ * are discarded first; otherwise the newest checkpoint commit is dropped.
+ * Commits that were already pushed can't be undone. Throws with a
+ * user-facing message when there's nothing to undo.
+ */
+export function undoCodingTurn(threadKey: string): { undone: CodingCheckpoint | null } {
+  const row = getCodingSession(threadKey);
+  if (!row || !existsSync(row.worktree_path)) throw new Error("No active coding session.");
+  const cwd = row.worktree_path;
+  const git = (args: string[]) => execFileSync("git", args, { cwd, encoding: "utf-8", timeout: 30_000 }).trim();
+  // Not `reset --hard` — that would also revert the bot's config files in the worktree
+  const discardUncommitted = () => {
+    git(["reset", "-q", "HEAD"]);
+    git(["checkout", "HEAD", ...sessionPathspec()]);
+    git(["clean", "-fdq", ...BOT_MANAGED_PATHS.flatMap((p) => ["-e", p])]);
+  };
+
+  let undone: CodingCheckpoint | null = null;
+  if (hasUncommittedChanges(cwd)) {
+    discardUncommitted();
+  } else {
+    const head = git(["rev-parse", "HEAD"]);
+    const floor = row.pushed_sha ?? sessionStart(row);
+    if (head === git(["rev-parse", floor])) {
+      throw new Error(row.pushed_sha
+        ? "Nothing to undo — every checkpoint has already been pushed."
+        : "Nothing to undo yet.");
+    }
+    const [sha, subject, age] = git(["log", "-1", "--format=%h%x1f%s%x1f%cr"]).split("\x1f");
+    undone = { sha, subject, age, pushed: false };
+    git(["reset", "-q", "HEAD~1"]);
+    discardUncommitted();
+  }
+
+  checkpointCodingSession(threadKey);
+  touchCodingSession(threadKey);
+  return { undone };
 }
 
 /**
@@ -448,20 +824,22 @@ export function getCodingSessionDiff(threadKey: string): {
   if (!row) return null;
 
   try {
-    const diffstat = execFileSync("git", ["diff", "--stat", "HEAD"], {
+    // Everything since the session started: checkpoint commits plus uncommitted edits
+    const start = sessionStart(row);
+    const diffstat = execFileSync("git", ["diff", "--stat", start, ...sessionPathspec()], {
       cwd: row.worktree_path,
       encoding: "utf-8",
       timeout: 10_000,
     }).trim();
 
     const changedFiles = execFileSync(
-      "git", ["diff", "--name-only", "HEAD"],
+      "git", ["diff", "--name-only", start, ...sessionPathspec()],
       { cwd: row.worktree_path, encoding: "utf-8", timeout: 10_000 },
     ).trim().split("\n").filter(Boolean);
 
     // Also check for untracked files
     const untracked = execFileSync(
-      "git", ["ls-files", "--others", "--exclude-standard"],
+      "git", ["ls-files", "--others", "--exclude-standard", ...sessionPathspec()],
       { cwd: row.worktree_path, encoding: "utf-8", timeout: 10_000 },
     ).trim().split("\n").filter(Boolean);
 
@@ -476,84 +854,241 @@ export function getCodingSessionDiff(threadKey: string): {
 }
 
 /**
- * Commit, push, and create a draft PR for a coding session.
- * Returns the PR URL on success.
+ * Diffstat of a session's branch against `origin/<baseBranch>` (the changes a
+ * PR would show). Null if the base can't be found.
+ */
+export function getBranchDiffstat(threadKey: string, baseBranch: string): string | null {
+  const row = getCodingSession(threadKey);
+  if (!row) return null;
+
+  try {
+    return execFileSync("git", ["diff", "--stat", `origin/${baseBranch}...HEAD`], {
+      cwd: row.worktree_path,
+      encoding: "utf-8",
+      timeout: 10_000,
+    }).trim();
+  } catch (err) {
+    console.warn(`[coding] Failed to diff ${threadKey} against ${baseBranch}:`, err);
+    return null;
+  }
+}
+
+export interface FileDiff {
+  path: string;
+  /** Unified diff of the file since the session started. */
+  diff: string;
+}
+
+/**
+ * Per-file unified diffs of a session's changes since it started, including
+ * new untracked files. `filterPath` limits them to one file or directory.
+ * Null if the session or its worktree is gone.
+ */
+export function getCodingSessionFileDiffs(threadKey: string, filterPath?: string): FileDiff[] | null {
+  const row = getCodingSession(threadKey);
+  if (!row || !existsSync(row.worktree_path)) return null;
+  const cwd = row.worktree_path;
+  const start = sessionStart(row);
+
+  const prefix = filterPath?.replace(/^\.\/+/, "").replace(/\/+$/, "");
+  const matches = (file: string) => !prefix || file === prefix || file.startsWith(`${prefix}/`);
+  const list = (args: string[]) => execFileSync("git", args, { cwd, encoding: "utf-8", timeout: 10_000 })
+    .trim().split("\n").filter((f) => f && matches(f));
+
+  const diffs: FileDiff[] = [];
+  // Never the bot-managed paths: opencode.json holds MCP auth headers and API keys
+  for (const file of list(["diff", "--name-only", start, ...sessionPathspec()])) {
+    const diff = execFileSync("git", ["diff", start, "--", file], {
+      cwd, encoding: "utf-8", maxBuffer: 20 * 1024 * 1024, timeout: 10_000,
+    });
+    if (diff.trim()) diffs.push({ path: file, diff });
+  }
+  for (const file of list(["ls-files", "--others", "--exclude-standard", ...sessionPathspec()])) {
+    // --no-index exits 1 when the files differ, so read stdout directly
+    const result = spawnSync("git", ["diff", "--no-index", "--", "/dev/null", file], {
+      cwd, encoding: "utf-8", maxBuffer: 20 * 1024 * 1024, timeout: 10_000,
+    });
+    if (result.stdout?.trim()) diffs.push({ path: file, diff: result.stdout });
+  }
+  return diffs;
+}
+
+/** Files larger than this aren't uploaded by `show`. */
+const MAX_SHOW_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Resolve a user-supplied path inside a worktree, following symlinks on the
+ * part that exists. Throws with a user-facing message if it escapes the
+ * worktree or points into `.git`.
+ */
+function resolveWorktreePath(worktree: string, filePath: string): string {
+  const root = realpathSync(worktree);
+  const full = path.resolve(root, filePath);
+  let existing = full;
+  while (!existsSync(existing)) existing = path.dirname(existing);
+  const real = path.join(realpathSync(existing), path.relative(existing, full));
+
+  const relative = path.relative(root, real);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative) || relative.split(path.sep)[0] === ".git") {
+    throw new Error(`\`${filePath}\` is outside the worktree.`);
+  }
+  return real;
+}
+
+/**
+ * Current content of a file in a session's worktree. Throws with a
+ * user-facing message if the path escapes the worktree, doesn't exist,
+ * or isn't a reasonably sized text file.
+ */
+export function readCodingSessionFile(threadKey: string, filePath: string): string {
+  const row = getCodingSession(threadKey);
+  if (!row || !existsSync(row.worktree_path)) throw new Error("No active coding session.");
+
+  const real = resolveWorktreePath(row.worktree_path, filePath);
+  if (isBotManagedPath(path.relative(realpathSync(row.worktree_path), real))) {
+    throw new Error(`\`${filePath}\` is managed by the bot and can't be shown.`);
+  }
+  if (!existsSync(real)) throw new Error(`\`${filePath}\` doesn't exist in the worktree.`);
+
+  const stat = statSync(real);
+  if (stat.isDirectory()) throw new Error(`\`${filePath}\` is a directory — use \`diff ${filePath}\` to see its changes.`);
+  if (stat.size > MAX_SHOW_FILE_BYTES) {
+    throw new Error(`\`${filePath}\` is too large to upload (${Math.round(stat.size / 1024)} KB, max ${MAX_SHOW_FILE_BYTES / 1024} KB).`);
+  }
+  const content = readFileSync(real);
+  if (content.includes(0)) throw new Error(`\`${filePath}\` is a binary file.`);
+  return content.toString("utf-8");
+}
+
+/**
+ * Write a user-supplied file into a session's worktree, creating parent
+ * directories. Overwrites an existing file. Throws with a user-facing
+ * message for paths outside the worktree or bot-managed paths.
+ */
+export function placeCodingSessionFile(threadKey: string, filePath: string, content: string): void {
+  const row = getCodingSession(threadKey);
+  if (!row || !existsSync(row.worktree_path)) throw new Error("No active coding session.");
+
+  const target = resolveWorktreePath(row.worktree_path, filePath);
+  const relative = path.relative(realpathSync(row.worktree_path), target);
+  if (isBotManagedPath(relative)) {
+    throw new Error(`\`${filePath}\` is managed by the bot and can't be overwritten.`);
+  }
+  if (existsSync(target) && statSync(target).isDirectory()) {
+    throw new Error(`\`${filePath}\` is a directory.`);
+  }
+  mkdirSync(path.dirname(target), { recursive: true });
+  writeFileSync(target, content);
+  touchCodingSession(threadKey);
+}
+
+/**
+ * Apply a unified diff to a session's worktree with `git apply --3way`.
+ * Returns the files the patch touches and any left with conflict markers.
+ * Throws with git's error output if the patch doesn't apply at all.
+ */
+export function applyCodingSessionPatch(threadKey: string, patch: string): {
+  files: string[];
+  conflicts: string[];
+} {
+  const row = getCodingSession(threadKey);
+  if (!row || !existsSync(row.worktree_path)) throw new Error("No active coding session.");
+  const cwd = row.worktree_path;
+  const run = (args: string[]) => spawnSync("git", args, { cwd, input: patch, encoding: "utf-8", timeout: 30_000 });
+
+  const numstat = run(["apply", "--numstat", "-z"]);
+  if (numstat.status !== 0) throw new Error(numstat.stderr.trim() || "Not a valid patch.");
+  const files = numstat.stdout.split("\0").filter(Boolean).map((r) => r.split("\t")[2]);
+
+  // numstat only lists a rename's new path — the old one is in the headers
+  const renamedFrom = [...patch.matchAll(/^rename from (.+)$/gm)].map((m) => m[1]);
+  const managed = [...files, ...renamedFrom].find(isBotManagedPath);
+  if (managed) throw new Error(`\`${managed}\` is managed by the bot and can't be patched.`);
+
+  const applied = run(["apply", "--3way", "--whitespace=nowarn"]);
+  const conflicts = execFileSync("git", ["diff", "--name-only", "--diff-filter=U"], {
+    cwd, encoding: "utf-8", timeout: 10_000,
+  }).trim().split("\n").filter(Boolean);
+  if (applied.status !== 0 && conflicts.length === 0) {
+    throw new Error(applied.stderr.trim() || "The patch didn't apply.");
+  }
+  touchCodingSession(threadKey);
+  return { files, conflicts };
+}
+
+/**
+ * Commit, push, and create a draft PR for a coding session. If the branch
+ * already has an open PR (the session continued one, or `pr` ran before),
+ * the new commits go to that PR and a comment describes them instead.
+ *
+ * Unpushed turn checkpoints are squashed into one commit unless
+ * `opts.keepHistory` is set. Returns the PR URL on success.
  */
 export async function createCodingSessionPR(
   threadKey: string,
   title?: string,
-): Promise<{ prUrl: string; diffstat: string; changedFiles: string[] }> {
+  opts: { keepHistory?: boolean } = {},
+): Promise<{ prUrl: string; diffstat: string; changedFiles: string[]; commits: number; updatedExisting: boolean }> {
   const row = getCodingSession(threadKey);
   if (!row) throw new Error("Coding session not found.");
 
   const cwd = row.worktree_path;
+  const git = (args: string[], env?: NodeJS.ProcessEnv) =>
+    execFileSync("git", args, { cwd, encoding: "utf-8", env, timeout: 10_000 }).trim();
 
-  // Stage all changes except bot configuration files
-  execFileSync("git", ["add", "-A"], { cwd, encoding: "utf-8", timeout: 10_000 });
-  // Unstage bot-managed files/directories that should never be committed
-  for (const managedPath of BOT_MANAGED_PATHS) {
-    try {
-      execFileSync("git", ["reset", "HEAD", "--", managedPath], { cwd, encoding: "utf-8", timeout: 5_000 });
-    } catch {
-      // Path may not exist or have no staged changes — that's fine
-    }
-  }
+  // Resolve the user's token on the repo's forge for commit attribution and push auth
+  const { forgeRepo, provider, credential } = resolveSessionForge(row);
+  const env = commitEnv(credential);
 
-  // Determine which files are staged for commit (after excluding bot-managed paths)
-  const stagedFilesOutput = execFileSync("git", ["diff", "--cached", "--name-only"], {
-    cwd, encoding: "utf-8", timeout: 10_000,
-  }).trim();
+  // Commit anything the last turn left uncommitted
+  if (stageSessionChanges(cwd).length > 0) {
+    git(["commit", "-q", "-m", title || `bot: changes from coding session ${row.thread_key}`], env);
+  }
 
-  if (!stagedFilesOutput) {
+  // Only what hasn't been pushed yet goes out
+  const base = row.pushed_sha ?? sessionStart(row);
+  const subjects = git(["log", "--reverse", "--format=- %s", `${base}..HEAD`]).split("\n").filter(Boolean);
+  if (subjects.length === 0) {
     throw new Error("No changes to commit.");
   }
 
-  const changedFiles = stagedFilesOutput.split("\n").filter(Boolean);
+  const changedFiles = git(["diff", "--name-only", base, "HEAD"]).split("\n").filter(Boolean);
+  const diffstat = git(["diff", "--stat", base, "HEAD"]);
 
-  // Get diffstat before commit
-  const diffstat = execFileSync("git", ["diff", "--cached", "--stat"], {
-    cwd, encoding: "utf-8", timeout: 10_000,
-  }).trim();
+  // Squash into one commit (this one runs the repo's hooks); a lone commit only needs the title
+  if (!opts.keepHistory && (subjects.length > 1 || title)) {
+    const head = git(["rev-parse", "HEAD"]);
+    const message = ["-m", title || `bot: changes from coding session ${row.thread_key}`];
+    if (subjects.length > 1) message.push("-m", `Squashed ${subjects.length} turns:\n${subjects.join("\n")}`);
+    git(["reset", "--soft", base]);
+    try {
+      git(["commit", "-q", ...message], env);
+    } catch (err) {
+      // A failed hook would leave the branch at base — put the turn checkpoints back
+      git(["reset", "--soft", head]);
+      throw err;
+    }
+  }
+  const commits = opts.keepHistory ? subjects.length : 1;
 
-  // Resolve user's GitHub PAT for commit attribution and push auth
-  const userPat = getUserGithubPAT(row.user_id);
-  if (!userPat) {
-    throw new Error("No GitHub account connected. Run `github connect <pat>` first.");
-  }
-
-  // Commit with user's identity
-  const commitMessage = title || `bot: changes from coding session ${row.thread_key}`;
-  execFileSync("git", ["commit", "-m", commitMessage], {
-    cwd, encoding: "utf-8", env: {
-      ...process.env,
-      GIT_AUTHOR_NAME: userPat.name,
-      GIT_AUTHOR_EMAIL: userPat.email,
-      GIT_COMMITTER_NAME: userPat.name,
-      GIT_COMMITTER_EMAIL: userPat.email,
-    },
-    timeout: 10_000,
-  });
+  pushBranch(threadKey, cwd, row.branch, provider.pushCredentials(credential.token, credential));
+  updateCodingSessionPushed(threadKey, git(["rev-parse", "HEAD"]));
 
-  // Push branch using user's PAT via GIT_ASKPASS
-  const shortKey = threadKey.replace(".", "-");
-  const askpassPath = `/tmp/git-askpass-${shortKey}.sh`;
-  writeFileSync(askpassPath, `#!/bin/sh\necho '${userPat.token}'\n`, { mode: 0o700 });
-  try {
-    execFileSync("git", ["push", "-u", "origin", row.branch], {
-      cwd, encoding: "utf-8",
-      env: { ...process.env, GIT_ASKPASS: askpassPath, GIT_TERMINAL_PROMPT: "0" },
-      timeout: 60_000,
-    });
-  } finally {
-    try { unlinkSync(askpassPath); } catch { /* best effort */ }
+  // An open PR for this branch gets a comment instead of a duplicate PR
+  let existingPr: { number: number; url: string } | null =
+    row.pr_number && row.pr_url ? { number: row.pr_number, url: row.pr_url } : null;
+  if (!existingPr) {
+    try {
+      existingPr = await provider.findOpenPullRequest(forgeRepo, credential.token, row.branch);
+    } catch (err) {
+      console.warn(`[coding] Open ${provider.requestNoun} lookup failed for ${row.branch}:`, err);
+    }
   }
 
   // Get the full diff for PR description context
   let fullDiff = "";
   try {
-    fullDiff = execFileSync("git", ["diff", "HEAD~1"], {
-      cwd, encoding: "utf-8", timeout: 10_000,
-    }).trim();
+    fullDiff = git(["diff", base, "HEAD"]);
   } catch {
     // Fallback if diff fails
   }
@@ -564,16 +1099,21 @@ export async function createCodingSessionPR(
   if (session?.opencodeSessionId && fullDiff) {
     try {
       const serverUrl = `http://${HOSTNAME}:${session.port}`;
+      const instruction = existingPr
+        ? "Write a short comment for the existing pull request summarizing the follow-up changes you just pushed. " +
+          "Start with one sentence on WHAT changed and WHY, then a bullet list of files and what was done in each. "
+        : "Write a pull request description for the changes you just made. " +
+          "Include a '## Summary' section explaining WHAT was changed and WHY. " +
+          "Then a '## Changes' section with a bullet list of files and what was done in each. ";
       const result = await askQuestion({
         sessionId: session.opencodeSessionId,
-        question: "Write a pull request description for the changes you just made. " +
-          "Include a '## Summary' section explaining WHAT was changed and WHY. " +
-          "Then a '## Changes' section with a bullet list of files and what was done in each. " +
+        question: instruction +
           "Keep it concise. Do NOT include code snippets. Do NOT use tools — just write the description.\n\n" +
           `Diff:\n\`\`\`\n${fullDiff.slice(0, 8000)}\n\`\`\``,
         customClient: session.client,
         customBaseUrl: serverUrl,
         isNewSession: false,
+        usage: codingUsage(session),
       });
       prBody = result.text.trim();
     } catch (err) {
@@ -586,87 +1126,334 @@ export async function createCodingSessionPR(
     prBody = `Automated coding session by <@${row.user_id}>.\n\n**Changed files:**\n${changedFiles.map(f => `- \`${f}\``).join("\n")}\n\n**Diffstat:**\n\`\`\`\n${diffstat}\n\`\`\``;
   }
 
+  // Result of the last verification run (repo checks + agent fix attempts)
+  if (row.verify_summary) {
+    prBody += `\n\n${row.verify_summary}`;
+  }
+
+  if (existingPr) {
+    await provider.commentOnPullRequest(forgeRepo, credential.token, existingPr.number, prBody);
+    updateCodingSessionPR(threadKey, existingPr.number, existingPr.url);
+    return { prUrl: existingPr.url, diffstat, changedFiles, commits, updatedExisting: true };
+  }
+
   const prTitle = title || `[Bot] ${row.branch}`;
 
-  const prUrl = execFileSync(
-    "gh",
-    ["pr", "create", "--draft", "--title", prTitle, "--body", prBody, "--head", row.branch],
-    { cwd, encoding: "utf-8", env: { ...process.env, GH_TOKEN: userPat.token }, timeout: 30_000 },
-  ).trim();
+  const created = await provider.createDraftPullRequest(forgeRepo, credential.token, {
+    head: row.branch,
+    base: row.base_branch ?? getDefaultBranch(cwd),
+    title: prTitle,
+    body: prBody,
+  });
+  updateCodingSessionPR(threadKey, created.number, created.url);
 
-  return { prUrl, diffstat, changedFiles };
+  return { prUrl: created.url, diffstat, changedFiles, commits, updatedExisting: false };
+}
+
+/**
+ * The forge a session's repo lives on, plus the session owner's token for it.
+ * Throws with instructions if the forge is unknown or the user hasn't connected.
+ */
+function resolveSessionForge(row: CodingSessionRow): {
+  forgeRepo: ForgeRepo;
+  provider: ForgeProvider;
+  credential: ForgeCredential;
+} {
+  const repoRow = getRepo(row.repo_name);
+  if (!repoRow) throw new Error(`Repository '${row.repo_name}' not found.`);
+  const forgeRepo = resolveForgeRepo(repoRow);
+  const provider = getForgeProvider(forgeRepo.kind);
+  const credential = getUserForgeCredential(row.user_id, forgeRepo.kind, forgeRepo.host);
+  if (!credential) {
+    throw new Error(
+      `No ${provider.label} account connected for \`${forgeRepo.host}\`. ` +
+      `Run \`forge connect ${forgeRepo.kind}${forgeRepo.host === provider.defaultHost ? "" : ` ${forgeRepo.host}`} <token>\` first.`,
+    );
+  }
+  return { forgeRepo, provider, credential };
+}
+
+/**
+ * Push a branch to origin, answering git's credential prompts via GIT_ASKPASS
+ * so the token never lands in a URL or .git/config.
+ */
+function pushBranch(
+  threadKey: string,
+  cwd: string,
+  branch: string,
+  auth: { username: string; password: string },
+): void {
+  const quote = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+  const shortKey = threadKey.replace(".", "-");
+  const askpassPath = `/tmp/git-askpass-${shortKey}.sh`;
+  writeFileSync(
+    askpassPath,
+    `#!/bin/sh\ncase "$1" in\n  Username*) echo ${quote(auth.username)} ;;\n  *) echo ${quote(auth.password)} ;;\nesac\n`,
+    { mode: 0o700 },
+  );
+  try {
+    execFileSync("git", ["push", "-u", "origin", branch], {
+      cwd, encoding: "utf-8",
+      env: { ...process.env, GIT_ASKPASS: askpassPath, GIT_TERMINAL_PROMPT: "0" },
+      timeout: 60_000,
+    });
+  } finally {
+    try { unlinkSync(askpassPath); } catch { /* best effort */ }
+  }
+}
+
+/**
+ * Idle minutes before a session is reaped: the channel's setting, else the
+ * repo's, else CODING_IDLE_TIMEOUT_MINUTES.
+ */
+export function codingIdleTimeoutMinutes(row: CodingSessionRow): number {
+  return getChannelIdleTimeout(row.channel_id)
+    ?? getRepo(row.repo_name)?.idle_timeout_minutes
+    ?? DEFAULT_IDLE_TIMEOUT_MINUTES;
+}
+
+export interface SessionReaperHooks {
+  /** A session will be reaped in about `minutesLeft` minutes unless there's activity. */
+  onIdleWarning?: (row: CodingSessionRow, minutesLeft: number) => Promise<void>;
+  /** A session was reaped after `idleMinutes` of inactivity (or of being paused, if `row.status` is PAUSED). */
+  onReaped?: (row: CodingSessionRow, idleMinutes: number) => Promise<void>;
 }
 
 /**
  * Start the idle session reaper. Call once at startup.
+ * Sessions get one warning shortly before their idle timeout; sessions with
+ * an agent turn running are left alone. Paused sessions are closed after
+ * CODING_PAUSED_EXPIRY_DAYS.
  * Returns the interval handle for cleanup.
  */
-export function startSessionReaper(): ReturnType<typeof setInterval> {
+export function startSessionReaper(hooks: SessionReaperHooks = {}): ReturnType<typeof setInterval> {
   return setInterval(async () => {
-    const idle = getIdleCodingSessions(IDLE_TIMEOUT_SECONDS);
-    for (const session of idle) {
-      console.log(`[coding] Reaping idle session: ${session.thread_key} (idle ${Math.round((Date.now() / 1000 - session.last_activity_at) / 60)} min)`);
+    const now = Date.now() / 1000;
+    for (const session of getIdleCodingSessions(60)) {
+      if (turnsInFlight.has(session.thread_key)) continue;
+      const idleSeconds = now - session.last_activity_at;
+      const timeoutSeconds = codingIdleTimeoutMinutes(session) * 60;
+      const warningSeconds = Math.min(IDLE_WARNING_SECONDS, timeoutSeconds / 2);
+
+      if (idleSeconds > timeoutSeconds) {
+        const idleMinutes = Math.round(idleSeconds / 60);
+        console.log(`[coding] Reaping idle session: ${session.thread_key} (idle ${idleMinutes} min)`);
+        try {
+          await destroyCodingSession(session.thread_key);
+          await hooks.onReaped?.(session, idleMinutes);
+        } catch (err) {
+          console.error(`[coding] Failed to reap session ${session.thread_key}:`, err);
+        }
+      } else if (idleSeconds > timeoutSeconds - warningSeconds && !session.idle_warned_at) {
+        markCodingSessionIdleWarned(session.thread_key);
+        const minutesLeft = Math.max(1, Math.round((timeoutSeconds - idleSeconds) / 60));
+        try {
+          await hooks.onIdleWarning?.(session, minutesLeft);
+        } catch (err) {
+          console.warn(`[coding] Failed to post idle warning for ${session.thread_key}:`, err);
+        }
+      }
+    }
+
+    if (!(PAUSED_EXPIRY_DAYS > 0)) return;
+    for (const session of getExpiredPausedCodingSessions(PAUSED_EXPIRY_DAYS * 24 * 60 * 60)) {
+      const pausedMinutes = Math.round((now - session.last_activity_at) / 60);
+      console.log(`[coding] Closing expired paused session: ${session.thread_key} (paused ${pausedMinutes} min)`);
       try {
         await destroyCodingSession(session.thread_key);
+        await hooks.onReaped?.(session, pausedMinutes);
       } catch (err) {
-        console.error(`[coding] Failed to reap session ${session.thread_key}:`, err);
+        console.error(`[coding] Failed to close paused session ${session.thread_key}:`, err);
       }
     }
   }, REAPER_INTERVAL_MS);
 }
 
 /**
- * Destroy all active coding sessions (for shutdown).
+ * Pause a session: checkpoint, stop its OpenCode server and release its port
+ * and slot, keeping the worktree and branch. Throws with a user-facing
+ * message if the session can't be paused right now.
+ */
+export async function pauseCodingSession(threadKey: string): Promise<void> {
+  const row = getCodingSession(threadKey);
+  if (!row) throw new Error("No active coding session in this thread.");
+  if (row.status === SessionStatus.PAUSED) throw new Error("This session is already paused.");
+  if (!(REAPABLE_STATUSES as readonly string[]).includes(row.status)) {
+    throw new Error("This session can't be paused right now.");
+  }
+  if (turnsInFlight.has(threadKey)) {
+    throw new Error("The agent is still working — pause once it has replied.");
+  }
+
+  checkpointCodingSession(threadKey);
+  await stopCodingServer(threadKey);
+  freePort(row.port);
+  pauseCodingSessionRow(threadKey, row.status);
+  console.log(`[coding] Session paused: ${threadKey}`);
+
+  for (const listener of slotListeners) setImmediate(listener);
+}
+
+/**
+ * Resume a paused session on a fresh port: recreate the worktree if it's
+ * gone, restart the OpenCode server and reattach to the agent's conversation.
+ * Throws with a user-facing message if there's no slot or it can't start.
+ */
+export async function resumeCodingSession(threadKey: string): Promise<{ session: CodingSession; historyLost: boolean }> {
+  const row = getCodingSession(threadKey);
+  if (!row || row.status !== SessionStatus.PAUSED) throw new Error("No paused coding session in this thread.");
+  const blocker = codingSlotBlocker(row.user_id);
+  if (blocker) throw new Error(`Can't resume yet — ${blocker}. Try again when a session ends.`);
+  const repoRow = getRepo(row.repo_name);
+  if (!repoRow?.enabled) throw new Error(`Repository '${row.repo_name}' not found or disabled.`);
+
+  if (!existsSync(row.worktree_path)) {
+    recreateWorktree(row, repoRow.dir);
+  }
+  prepareWorktree(row.worktree_path, repoRow.dir, repoRow.allow_skills === 1, threadKey);
+
+  const port = allocatePort();
+  let historyLost = false;
+  try {
+    await startCodingServer(threadKey, row.worktree_path, port);
+    const client = connectCodingClient(threadKey, port);
+
+    if (row.opencode_session_id) {
+      const existing = await client.session.get({ path: { id: row.opencode_session_id } });
+      if (!existing.data) {
+        updateCodingSessionOpencode(threadKey, null);
+        historyLost = true;
+      }
+    }
+  } catch (err) {
+    // Stay paused, without a server or port
+    await stopCodingServer(threadKey);
+    freePort(port);
+    throw err;
+  }
+
+  resumeCodingSessionRow(threadKey, port);
+  console.log(`[coding] Session resumed: ${threadKey} on port ${port}`);
+  return { session: getActiveCodingSession(threadKey)!, historyLost };
+}
+
+/**
+ * Stop all coding session servers (for shutdown). Uncommitted work is
+ * checkpointed, and worktrees and DB rows are kept so the sessions can be
+ * restored on the next start.
  */
-export async function destroyAllCodingSessions(): Promise<void> {
+export async function suspendAllCodingSessions(): Promise<void> {
   const sessions = getActiveCodingSessions();
   for (const session of sessions) {
     try {
-      await destroyCodingSession(session.thread_key);
+      checkpointCodingSession(session.thread_key);
+      await stopCodingServer(session.thread_key);
+      freePort(session.port);
+      console.log(`[coding] Session suspended: ${session.thread_key}`);
     } catch (err) {
-      console.error(`[coding] Failed to destroy session ${session.thread_key}:`, err);
+      console.error(`[coding] Failed to suspend session ${session.thread_key}:`, err);
     }
   }
 }
 
+/** Outcome of restoring one coding session on startup. */
+export interface RestoredCodingSession {
+  row: CodingSessionRow;
+  restored: boolean;
+  /** The agent's conversation could not be reattached; it starts fresh. */
+  historyLost: boolean;
+  /** WIP ref holding uncommitted work, kept when the session couldn't be restored. */
+  checkpointRef: string | null;
+}
+
 /**
- * Clean up orphaned worktrees and stale DB entries on startup.
+ * Restore coding sessions that were live before a restart: recreate the
+ * worktree from the branch and WIP checkpoint if it's gone, re-spawn the
+ * OpenCode server on the saved port and reattach to the saved OpenCode session.
+ * Sessions that can't be restored are destroyed, keeping their checkpoint.
  */
-export function cleanupOrphanedSessions(): void {
-  // Mark any sessions that were "starting" or "active" as destroyed
-  // (they can't survive a process restart since the server processes are gone)
+export async function restoreCodingSessions(): Promise<RestoredCodingSession[]> {
+  const results: RestoredCodingSession[] = [];
   const sessions = getActiveCodingSessions();
+
+  // Reserve every saved port up front so restores can't collide with each other
+  for (const session of sessions) usedPorts.add(session.port);
+
   for (const session of sessions) {
-    console.log(`[coding] Cleaning up orphaned session: ${session.thread_key}`);
+    const threadKey = session.thread_key;
     const repoRow = getRepo(session.repo_name);
     const repoDir = repoRow?.dir ?? path.dirname(path.dirname(session.worktree_path));
 
-    // Try to remove the worktree
     try {
-      if (existsSync(session.worktree_path)) {
-        execFileSync("git", ["worktree", "remove", "--force", session.worktree_path], {
-          cwd: repoDir, encoding: "utf-8", timeout: 30_000,
-        });
+      if (!repoRow?.enabled) throw new Error(`Repository '${session.repo_name}' not found or disabled.`);
+      if (session.status === SessionStatus.STARTING) throw new Error("Session was still starting.");
+      if (session.status === SessionStatus.REVIEWING) throw new Error("Review was interrupted.");
+
+      console.log(`[coding] Restoring session ${threadKey} on port ${session.port}...`);
+      if (!existsSync(session.worktree_path)) {
+        recreateWorktree(session, repoDir);
       }
-    } catch {
+      prepareWorktree(session.worktree_path, repoDir, repoRow.allow_skills === 1, threadKey);
+
+      await startCodingServer(threadKey, session.worktree_path, session.port);
+      const client = connectCodingClient(threadKey, session.port);
+
+      // Reattach to the agent's conversation (OpenCode keeps it on disk per project)
+      let historyLost = false;
+      if (session.opencode_session_id) {
+        const existing = await client.session.get({ path: { id: session.opencode_session_id } });
+        if (!existing.data) {
+          updateCodingSessionOpencode(threadKey, null);
+          historyLost = true;
+        }
+      }
+
+      // Don't let the reaper count the downtime as idle time
+      touchCodingSession(threadKey);
+      results.push({ row: session, restored: true, historyLost, checkpointRef: null });
+      console.log(`[coding] Session restored: ${threadKey}`);
+    } catch (err) {
+      console.error(`[coding] Failed to restore session ${threadKey}:`, err);
+      const checkpointRef = checkpointCodingSession(threadKey) ?? existingWipRef(repoDir, threadKey);
       try {
-        rmSync(session.worktree_path, { recursive: true, force: true });
-      } catch {
-        // Best effort
+        await destroyCodingSessionInternal(threadKey, session.worktree_path, session.port, repoDir, {
+          keepCheckpoint: true,
+        });
+      } catch (destroyErr) {
+        console.error(`[coding] Failed to clean up session ${threadKey}:`, destroyErr);
       }
+      results.push({ row: session, restored: false, historyLost: false, checkpointRef });
     }
-
-    deleteCodingSession(session.thread_key);
   }
 
-  // Prune worktrees on all repos
+  removeOrphanedWorktrees();
+  return results;
+}
+
+/**
+ * Remove worktrees under each repo's `.worktrees/` that no coding session
+ * owns (left by a crash mid-create or mid-destroy), then prune stale
+ * worktree metadata. Worktrees with a row — live or paused — are kept.
+ */
+function removeOrphanedWorktrees(): void {
+  const owned = new Set(getAllCodingSessions().map((s) => path.resolve(s.worktree_path)));
   for (const repo of getEnabledRepos()) {
+    const worktreesDir = path.join(repo.dir, ".worktrees");
     try {
+      if (existsSync(worktreesDir)) {
+        for (const name of readdirSync(worktreesDir)) {
+          const worktreePath = path.join(worktreesDir, name);
+          if (owned.has(path.resolve(worktreePath))) continue;
+          console.log(`[coding] Removing orphaned worktree ${worktreePath}`);
+          rmSync(worktreePath, { recursive: true, force: true });
+        }
+        if (readdirSync(worktreesDir).length === 0) rmSync(worktreesDir, { recursive: true, force: true });
+      }
       execFileSync("git", ["worktree", "prune"], {
         cwd: repo.dir, encoding: "utf-8", timeout: 10_000,
       });
-    } catch {
-      // Best effort
+    } catch (err) {
+      console.warn(`[coding] Failed to clean up orphaned worktrees in ${repo.dir}:`, err);
     }
   }
 }
@@ -723,6 +1510,111 @@ function getDefaultBranch(repoDir: string): string {
   }
 }
 
+/**
+ * Check that an existing branch can be checked out for a session: it must be
+ * on origin, not the default branch, and not in use by another live session.
+ */
+function assertBranchAvailable(repoDir: string, repoName: string, branch: string): void {
+  try {
+    execFileSync("git", ["rev-parse", "--verify", "--quiet", `refs/remotes/origin/${branch}`], {
+      cwd: repoDir, encoding: "utf-8", timeout: 5_000,
+    });
+  } catch {
+    throw new Error(`Branch \`${branch}\` was not found on origin.`);
+  }
+  if (branch === getDefaultBranch(repoDir)) {
+    throw new Error(`\`${branch}\` is the default branch — start a normal session with \`code <description>\` instead.`);
+  }
+  const owner = getActiveCodingSessions().find((s) => s.repo_name === repoName && s.branch === branch);
+  if (owner) {
+    throw new Error(`Branch \`${branch}\` is already in use by another coding session (<@${owner.user_id}>).`);
+  }
+}
+
+/**
+ * Copy the bot's config into a coding worktree: strip conflicting repo config,
+ * copy rules, generate the skill manifest and write opencode.json (code mode,
+ * or the read-only Q&A config for reviews).
+ */
+function prepareWorktree(
+  worktreeDir: string,
+  repoDir: string,
+  allowSkills: boolean,
+  threadKey: string,
+  mode: ConfigMode = "code",
+): void {
+  // Clean repo agents/skills from the worktree (same as main repo)
+  cleanWorktreeAgents(worktreeDir);
+
+  // Copy .opencode/rules/ to worktree
+  const rulesDir = path.join(worktreeDir, ".opencode/rules");
+  mkdirSync(rulesDir, { recursive: true });
+  const sourceRules = path.join(repoDir, ".opencode/rules");
+  if (existsSync(sourceRules)) {
+    try {
+      execFileSync("cp", ["-r", sourceRules + "/.", rulesDir], { encoding: "utf-8" });
+    } catch {
+      // Non-fatal
+    }
+  }
+
+  try {
+    writeSkillManifest(worktreeDir, { allowSkills });
+  } catch (err) {
+    console.warn(`[coding] Skill manifest gen failed for ${worktreeDir}:`, err);
+  }
+
+  writeOpencodeConfig(worktreeDir, mode, threadKey);
+}
+
+/**
+ * Create the SDK client for a session's server and register it.
+ */
+function connectCodingClient(threadKey: string, port: number): OpencodeClient {
+  const serverUrl = `http://${HOSTNAME}:${port}`;
+  const client = createOpencodeClient({
+    baseUrl: serverUrl,
+    fetch: (request: Request) =>
+      globalThis.fetch(request, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      }),
+  });
+  sessionClients.set(threadKey, client);
+  sessionAbortControllers.set(threadKey, new AbortController());
+  return client;
+}
+
+function existingWipRef(repoDir: string, threadKey: string): string | null {
+  try {
+    execFileSync("git", ["rev-parse", "--verify", "--quiet", wipRef(threadKey)], {
+      cwd: repoDir, encoding: "utf-8", timeout: 5_000,
+    });
+    return wipRef(threadKey);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-create a lost worktree from the session's branch, then lay the WIP
+ * checkpoint (if any) back on top as unstaged changes.
+ */
+function recreateWorktree(session: CodingSessionRow, repoDir: string): void {
+  execFileSync("git", ["worktree", "prune"], { cwd: repoDir, encoding: "utf-8", timeout: 10_000 });
+  mkdirSync(path.dirname(session.worktree_path), { recursive: true });
+  execFileSync("git", ["worktree", "add", session.worktree_path, session.branch], {
+    cwd: repoDir, encoding: "utf-8", env: process.env, timeout: 30_000,
+  });
+
+  const ref = existingWipRef(repoDir, session.thread_key);
+  if (ref) {
+    const cwd = session.worktree_path;
+    execFileSync("git", ["read-tree", "-u", "--reset", ref], { cwd, encoding: "utf-8", timeout: 30_000 });
+    execFileSync("git", ["reset", "-q"], { cwd, encoding: "utf-8", timeout: 10_000 });
+  }
+  console.log(`[coding] Worktree re-created: ${session.worktree_path}${ref ? ` (from ${ref})` : ""}`);
+}
+
 /**
  * Clean only files that conflict with our generated config in coding worktrees.
  *
@@ -7,11 +7,28 @@ export const Action = {
   CODING_CANCEL: "coding_cancel",
   CODING_APPROVE: "coding_approve",
   CODING_REVISE: "coding_revise",
+  CODING_KEEP_ALIVE: "coding_keep_alive",
   /** Prefix for agent selection buttons: select_agent_0, select_agent_1, etc. */
   SELECT_AGENT_PREFIX: "select_agent_",
   /** Prefix for repo selection buttons: select_repo_0, select_repo_1, etc. */
   SELECT_REPO_PREFIX: "select_repo_",
-  GITHUB_CONNECT: "github_connect",
+  FORGE_CONNECT: "forge_connect",
+  REVIEW_POST: "review_post",
+  FEEDBACK_UP: "feedback_up",
+  FEEDBACK_DOWN: "feedback_down",
+  FEEDBACK_WRONG: "feedback_wrong",
+  MEMORY_REVIEW_KEEP: "memory_review_keep",
+  MEMORY_REVIEW_DELETE: "memory_review_delete",
+  HOME_REFRESH: "home_refresh",
+  HOME_TOOL_ADD: "home_tool_add",
+  HOME_TOOL_MENU: "home_tool_menu",
+  HOME_REPO_MENU: "home_repo_menu",
+  HOME_ROLE_ADD: "home_role_add",
+  HOME_ROLE_MENU: "home_role_menu",
+  HOME_CHANNEL_ADD: "home_channel_add",
+  HOME_CHANNEL_EDIT: "home_channel_edit",
+  HOME_SESSION_CANCEL: "home_session_cancel",
+  HOME_MEMORY_CONFLICT_MENU: "home_memory_conflict_menu",
 } as const;
 
 /** Maximum number of agent selection buttons (Slack allows 5 elements per actions block). */
@@ -26,12 +43,20 @@ export const BlockPrefix = {
   CODING_ACTIONS: "coding_actions_",
   CODING_PR: "coding_pr_",
   CODING_PLAN: "coding_plan_",
+  CODING_IDLE: "coding_idle_",
   AGENT_SELECT: "agent_select_",
   REPO_SELECT: "repo_select_",
-  GITHUB_CONNECT: "github_connect_",
+  FORGE_CONNECT: "forge_connect_",
+  REVIEW: "review_",
+  FEEDBACK: "feedback_",
+  MEMORY_REVIEW: "memory_review_",
 } as const;
 
-export const GITHUB_CONNECT_MODAL_CALLBACK = "github_connect_modal";
+export const FORGE_CONNECT_MODAL_CALLBACK = "forge_connect_modal";
+export const FEEDBACK_CORRECTION_MODAL_CALLBACK = "feedback_correction_modal";
+export const HOME_TOOL_MODAL_CALLBACK = "home_tool_modal";
+export const HOME_ROLE_MODAL_CALLBACK = "home_role_modal";
+export const HOME_CHANNEL_MODAL_CALLBACK = "home_channel_modal";
 
 // ── Paths that should never be committed from coding worktrees ──
 
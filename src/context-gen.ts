@@ -6,6 +6,7 @@ import { execFileSync } from "node:child_process";
 import { readFileSync, writeFileSync, existsSync } from "node:fs";
 import path from "node:path";
 import { getClient, createSession, getBaseUrl, autoAllowPermission } from "./opencode.js";
+import { createUsageAccumulator, recordAccumulatedUsage } from "./usage.js";
 
 const CONTEXT_FILE_NAMES = [
   ".opencode/rules/repo-overview.md",
@@ -53,15 +54,20 @@ function contextFilesExist(repoDir: string): boolean {
 
 /**
  * Get the git log and diffstat between two SHAs.
+ * Also used by channel digests (see digest.ts).
  */
-function getChangesSince(repoDir: string, fromSha: string): { log: string; diffstat: string } {
-  const log = execFileSync("git", ["log", "--oneline", `${fromSha}..HEAD`], {
+export function getChangesSince(
+  repoDir: string,
+  fromSha: string,
+  toRef = "HEAD",
+): { log: string; diffstat: string } {
+  const log = execFileSync("git", ["log", "--oneline", `${fromSha}..${toRef}`], {
     cwd: repoDir,
     encoding: "utf-8",
     maxBuffer: 1024 * 1024,
   }).trim();
 
-  const diffstat = execFileSync("git", ["diff", "--stat", `${fromSha}..HEAD`], {
+  const diffstat = execFileSync("git", ["diff", "--stat", `${fromSha}..${toRef}`], {
     cwd: repoDir,
     encoding: "utf-8",
     maxBuffer: 1024 * 1024,
@@ -70,6 +76,20 @@ function getChangesSince(repoDir: string, fromSha: string): { log: string; diffs
   return { log, diffstat };
 }
 
+/**
+ * The tip of the repo's default branch. Prefers origin/HEAD because the local
+ * checkout is only fetched (not fast-forwarded) while coding worktrees exist.
+ * Used by channel digests and knowledge sync.
+ */
+export function resolveTipSha(repoDir: string): string {
+  const git = (args: string[]) => execFileSync("git", args, { cwd: repoDir, encoding: "utf-8", timeout: 30_000 }).trim();
+  try {
+    return git(["rev-parse", "--verify", "origin/HEAD"]);
+  } catch {
+    return git(["rev-parse", "HEAD"]);
+  }
+}
+
 /**
  * Read only the repo-overview.md for a given repo directory.
  * Returns the content string or null if missing/unreadable.
@@ -250,6 +270,9 @@ export async function generateContext(repoDir: string, repoName: string): Promis
   const subscription = await sseClient.event.subscribe();
   const stream = subscription.stream;
 
+  const startedAt = Date.now();
+  const usageAcc = createUsageAccumulator();
+
   await getClient().session.promptAsync({
     path: { id: sessionId },
     body: {
@@ -280,10 +303,19 @@ export async function generateContext(repoDir: string, repoName: string): Promis
         }
       }
 
+      if (evt.type === "message.updated") {
+        const { info } = evt.properties;
+        if (info.sessionID === sessionId && info.role === "assistant") {
+          usageAcc.setModel(info.providerID, info.modelID);
+        }
+      }
+
       if (evt.type === "message.part.updated") {
         const { part } = evt.properties;
         if (part.sessionID !== sessionId) continue;
-        if (part.type === "tool") {
+        if (part.type === "step-finish") {
+          usageAcc.addStep(part);
+        } else if (part.type === "tool") {
           const stateType = getToolStateType(part);
           if (stateType === "running") {
             console.log(`[context-gen] Running tool: ${part.tool}`);
@@ -296,6 +328,10 @@ export async function generateContext(repoDir: string, repoName: string): Promis
     stream.return(undefined);
   }
 
+  recordAccumulatedUsage(usageAcc, { kind: "context", repoName }, {
+    sessionId, agent: "context", latencyMs: Date.now() - startedAt,
+  });
+
   // Save the SHA so the next run knows where to diff from
   saveContextSha(repoDir, currentSha);
   console.log(`[context-gen] Context generation complete (${mode}, sha: ${currentSha.slice(0, 8)}).`);
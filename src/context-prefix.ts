@@ -8,9 +8,11 @@
 import { getToolInstructions } from "./tools.js";
 import { readRepoContextFiles, readRepoOverview } from "./context-gen.js";
 import { getGlobalKnowledge } from "./knowledge.js";
+import { getPinnedMemories } from "./sessions.js";
+import { hasVerifyProfile } from "./verify.js";
 import type { SlackContext } from "./utils/slack-context.js";
 
-export type PrefixMode = "qa" | "coding" | "planning" | "minimal-coding" | "minimal-planning";
+export type PrefixMode = "qa" | "coding" | "planning" | "review" | "minimal-coding" | "minimal-planning";
 
 export interface RepoInfo {
   name: string;
@@ -23,9 +25,9 @@ export interface PrefixOpts {
   ctx: SlackContext;
   isNew: boolean;
   mode: PrefixMode;
-  /** Required for coding/planning modes. */
+  /** Required for coding/planning/review modes. */
   repoName?: string;
-  /** Required for non-minimal coding/planning modes. */
+  /** Required for non-minimal coding/planning/review modes. */
   repoDir?: string;
   /** Q&A mode: channel tools (e.g. ["linear", "sentry"]). */
   tools?: string[];
@@ -53,6 +55,8 @@ const FOLLOW_UP_REMINDERS: Record<PrefixMode, (opts: PrefixOpts) => string> = {
     `REMINDER: You are a code-writing assistant for ${opts.repoName}. Read, write, and edit files as needed. Do NOT modify git state directly (no git checkout, commit, push — the bot handles that).`,
   planning: (opts) =>
     `REMINDER: You are in PLANNING mode for ${opts.repoName}. Revise your plan based on the user's feedback. Do NOT use write, edit, or patch tools. Do NOT modify any files.`,
+  review: (opts) =>
+    `REMINDER: You are REVIEWING a pull request on ${opts.repoName}. Do NOT modify any files or git state. Reply with the review in the required format.`,
   "minimal-coding": () =>
     "REMINDER: You MUST write code — use write/edit tools to make changes. Do not stop at analysis.",
   "minimal-planning": () =>
@@ -152,6 +156,18 @@ function buildQAInstructions(opts: PrefixOpts): string[] {
   return lines;
 }
 
+/**
+ * What the agent should do about tests/linters. Repos with a verification
+ * profile have their checks run by the bot after each turn.
+ */
+function verificationInstruction(repoName: string | undefined): string {
+  if (repoName && hasVerifyProfile(repoName)) {
+    return "Do NOT run tests, linters, or type checkers yourself. When you finish, the bot runs this repo's configured checks " +
+      "in the worktree and sends you any failures to fix.";
+  }
+  return "Do NOT run tests, linters, or type checkers. The container does not have the target repo's full runtime environment (no database, no service dependencies). Just write the code.";
+}
+
 function buildCodingInstructions(opts: PrefixOpts): string[] {
   return [
     `You are a code-writing assistant for the ${opts.repoName} codebase.`,
@@ -163,7 +179,7 @@ function buildCodingInstructions(opts: PrefixOpts): string[] {
     "",
     "1. Read the relevant code, then WRITE the changes immediately.",
     "2. Follow existing code conventions — match the style, patterns, and structure of the surrounding code.",
-    "3. Do NOT run tests, linters, or type checkers. The container does not have the target repo's full runtime environment (no database, no service dependencies). Just write the code.",
+    `3. ${verificationInstruction(opts.repoName)}`,
     "4. When done, provide a SHORT summary (under 2000 characters). List the files you changed with a one-line description each. Do NOT include code snippets, diffs, or detailed explanations — the PR diff will show those details.",
     "",
     "CONSTRAINTS:",
@@ -202,6 +218,40 @@ function buildPlanningInstructions(opts: PrefixOpts): string[] {
   ];
 }
 
+function buildReviewInstructions(opts: PrefixOpts): string[] {
+  return [
+    `You are a code reviewer for the ${opts.repoName} codebase.`,
+    "",
+    "YOUR #1 RULE: Review the pull request checked out in your working directory. Do NOT modify any files. " +
+    "The message below names the PR and the base branch it targets.",
+    "",
+    "1. Read the diff with `git diff origin/<base>...HEAD` (and `git log origin/<base>..HEAD` for the commits).",
+    "2. Read the surrounding code for every changed area — judge the change in context, not just the diff lines.",
+    "3. Call `recall_memories` and `search_knowledge` for conventions, past decisions and guidelines that apply to the changed code.",
+    "4. Check correctness, edge cases, error handling, security, performance, tests, and consistency with existing conventions.",
+    "",
+    "Reply with the review in this Markdown format and nothing else:",
+    "## Summary",
+    "One or two sentences on what the PR does and your overall assessment.",
+    "## Issues",
+    "Numbered list, most important first. Prefix each with **[blocking]**, **[suggestion]** or **[nit]**, " +
+    "cite `path/to/file.ts:42`, and say why it matters. Write \"None.\" if there are none.",
+    "## Questions",
+    "Anything the author should clarify. Omit the section if there are none.",
+    "## Verdict",
+    "One of: **Approve**, **Approve with suggestions**, **Request changes**.",
+    "",
+    "CONSTRAINTS:",
+    "- Do NOT use write, edit, or patch tools, and do NOT run commands that modify files.",
+    "- Do NOT modify git state (no checkout, commit, reset, fetch or push).",
+    "- Do NOT run tests, linters, or type checkers.",
+    "- Only comment on what the PR changes or directly affects; don't review untouched code.",
+    "",
+    `REPOSITORY: \`${opts.repoName}\` at \`${opts.repoDir}\`.`,
+    `Default your working directory to \`${opts.repoDir}\`.`,
+  ];
+}
+
 function buildMinimalCodingInstructions(opts: PrefixOpts): string[] {
   return [
     `This is a Slack-driven coding session on the ${opts.repoName} repository.`,
@@ -211,7 +261,7 @@ function buildMinimalCodingInstructions(opts: PrefixOpts): string[] {
     "The user started a coding session specifically because they want code written, not a report. " +
     "If you respond without having used write/edit tools to change files, you have failed your task.",
     "Do NOT modify git state directly (no git checkout, commit, push — the bot handles that).",
-    "Do NOT run tests, linters, or type checkers. The container does not have the target repo's full runtime environment (no database, no service dependencies). Just write the code.",
+    verificationInstruction(opts.repoName),
     "When done, provide a SHORT summary (under 2000 characters) of what you changed. No code snippets or diffs.",
   ];
 }
@@ -233,6 +283,7 @@ const INSTRUCTION_BUILDERS: Record<PrefixMode, (opts: PrefixOpts) => string[]> =
   qa: buildQAInstructions,
   coding: buildCodingInstructions,
   planning: buildPlanningInstructions,
+  review: buildReviewInstructions,
   "minimal-coding": buildMinimalCodingInstructions,
   "minimal-planning": buildMinimalPlanningInstructions,
 };
@@ -326,19 +377,36 @@ export function buildPrefix(opts: PrefixOpts): string {
     );
   }
 
+  // Pinned memories apply to every conversation in this repo/channel
+  const pinned = getPinnedMemories(repo?.name ?? repoName, ctx.channelId);
+  if (pinned.length > 0) {
+    lines.push(
+      "",
+      "<pinned_memories>",
+      "The team pinned these memories — they always apply here:",
+      ...pinned.map((m) => `- (#${m.id}) ${m.content}`),
+      "</pinned_memories>",
+    );
+  }
+
   // Hint about on-demand knowledge and memory tools
   lines.push(
     "",
     "KNOWLEDGE & MEMORY TOOLS:",
-    "You have `search_knowledge`, `recall_memories`, and `save_memory` tools available.",
+    "You have `search_knowledge`, `recall_memories`, `save_memory`, and `update_memory` tools available.",
     "IMPORTANT: BEFORE answering any question, call `recall_memories` and/or `search_knowledge` first to check for relevant context. " +
     "This applies to ALL questions — not just ones that obviously involve conventions or standards. " +
     "The team saves corrections, vendor info, terminology, and institutional knowledge as memories. " +
     "If you answer from your own knowledge without checking, you WILL get things wrong. Always check first.",
-    "- `search_knowledge`: company guidelines, coding standards, repo/channel-specific documentation.",
+    "- `search_knowledge`: company guidelines, coding standards, repo/channel-specific documentation. " +
+    "When you cite a result, name its section and include its `knowledge view #<id>@<offset>` link so the user can open it.",
     "- `recall_memories`: past decisions, conventions, corrections, vendor details, terminology the team has saved.",
+    "- Both search tools take a `mode`: leave it as `hybrid` normally; use `keyword` to look up an exact error code, ticket ID or function name.",
     "- `save_memory`: proactively save important information when a user corrects you, states a convention, " +
     "makes a decision, or shares institutional knowledge. Save it without asking — just do it and briefly mention you did.",
+    "- When a new memory replaces a recalled one (a decision or convention changed), pass the old #id as `supersedes` to `save_memory` " +
+    "instead of saving a conflicting one. Use `update_memory` only to fix a memory's wording.",
+    "- For temporary facts (an outage, a freeze \"this week\"), pass `expires_in_days` to `save_memory` so the memory lapses on its own.",
   );
 
   // Security line
@@ -347,10 +415,10 @@ export function buildPrefix(opts: PrefixOpts): string {
   // Repo context injection: OpenCode already loads .opencode/rules/*.md as system
   // instructions for the primary repo, so we only inject full context for non-default
   // repos (where the session directory doesn't match the repo).
-  // Coding/planning sessions always need it since they may use a different working dir.
+  // Coding/planning/review sessions always need it since they may use a different working dir.
   if (mode === "qa" && repo && !repo.isDefault) {
     appendRepoContext(lines, repo.name, repo.dir);
-  } else if ((mode === "coding" || mode === "planning") && repoDir) {
+  } else if ((mode === "coding" || mode === "planning" || mode === "review") && repoDir) {
     appendRepoContext(lines, repoName!, repoDir);
   }
 
@@ -0,0 +1,268 @@
+/**
+ * Scheduled channel digests: "what changed in the repo this week".
+ *
+ * A channel configures a daily or weekly schedule (`config set digest ...`),
+ * in its own time zone or the default one (DIGEST_TIMEZONE, else the server's).
+ * Once a minute the scheduler picks up due digests, collects the commits on the
+ * channel's repo since the last digest (the per-channel SHA watermark), asks the
+ * Q&A agent to summarize them, and posts the summary to the channel.
+ */
+import { execFileSync } from "node:child_process";
+import type { WebClient } from "@slack/web-api";
+import {
+  getDueDigests, recordDigestRun,
+  type ChannelDigestRow,
+} from "./sessions.js";
+import { askQuestion, createSession } from "./opencode.js";
+import { getChangesSince, resolveTipSha } from "./context-gen.js";
+import { resolveRepoForChannel, pullRepo } from "./repo-manager.js";
+import { formatResponse } from "./utils/formatting.js";
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000; // 1 minute
+/** Cap the commit log and diffstat sent to the agent. */
+const MAX_CHANGES_CHARS = 20_000;
+
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export interface DigestSchedule {
+  frequency: "daily" | "weekly";
+  /** 0 = Sunday … 6 = Saturday; null for daily digests. */
+  dayOfWeek: number | null;
+  /** "HH:MM" in `timezone`. */
+  timeOfDay: string;
+  /** IANA time zone; null = defaultDigestTimezone(). */
+  timezone: string | null;
+}
+
+/** DIGEST_TIMEZONE, else the server's zone (the TZ env var, UTC in the container). */
+export function defaultDigestTimezone(): string {
+  return process.env.DIGEST_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Properly cased name of an IANA time zone ("europe/berlin" → "Europe/Berlin"), or null if unknown. */
+function resolveTimezone(name: string): string | null {
+  const listed = Intl.supportedValuesOf("timeZone").find((z) => z.toLowerCase() === name.toLowerCase());
+  if (listed) return listed;
+  try {
+    // Aliases (Asia/Kolkata, UTC) aren't always listed but still work
+    new Intl.DateTimeFormat("en-US", { timeZone: name });
+    return name;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse `daily 09:00` or `weekly mon 09:00`, optionally followed by a time
+ * zone (`weekly mon 09:00 Europe/Berlin`).
+ * Returns the schedule, or an error message for the user.
+ */
+export function parseDigestSchedule(text: string): DigestSchedule | string {
+  const usage = "Usage: `config set digest daily <HH:MM> [time zone]` or " +
+    "`config set digest weekly <mon|tue|...> <HH:MM> [time zone]`";
+  const m = text.trim().match(/^(daily|weekly)(?:\s+([a-z]+))?\s+(\d{1,2}):(\d{2})(?:\s+(\S+))?$/i);
+  if (!m) return usage;
+  const [, frequencyRaw, dayRaw, hh, mm, zone] = m;
+  const frequency = frequencyRaw.toLowerCase();
+  const day = dayRaw?.toLowerCase();
+  const hours = parseInt(hh, 10);
+  const minutes = parseInt(mm, 10);
+  if (hours > 23 || minutes > 59) return `Invalid time \`${hh}:${mm}\`. Use 24-hour \`HH:MM\`.`;
+  const timeOfDay = `${String(hours).padStart(2, "0")}:${mm}`;
+  const timezone = zone ? resolveTimezone(zone) : null;
+  if (zone && !timezone) return `Unknown time zone \`${zone}\`. Use an IANA name such as \`Europe/Berlin\` or \`America/New_York\`.`;
+
+  if (frequency === "daily") {
+    if (day) return usage;
+    return { frequency: "daily", dayOfWeek: null, timeOfDay, timezone };
+  }
+  const dayOfWeek = day ? WEEKDAYS.findIndex((d) => day.startsWith(d)) : -1;
+  if (dayOfWeek < 0) return `Weekly digests need a day: ${WEEKDAYS.map((d) => `\`${d}\``).join(", ")}.`;
+  return { frequency: "weekly", dayOfWeek, timeOfDay, timezone };
+}
+
+export function describeDigestSchedule(schedule: DigestSchedule): string {
+  const zone = schedule.timezone ?? defaultDigestTimezone();
+  return schedule.frequency === "daily"
+    ? `daily at ${schedule.timeOfDay} ${zone}`
+    : `weekly on ${WEEKDAYS[schedule.dayOfWeek ?? 0]} at ${schedule.timeOfDay} ${zone}`;
+}
+
+/** Wall-clock date and time of an instant in a time zone. */
+function zonedParts(ms: number, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone, hourCycle: "h23",
+    year: "numeric", month: "numeric", day: "numeric", hour: "numeric", minute: "numeric", second: "numeric",
+  }).formatToParts(ms);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+/** The instant (ms) a wall-clock time occurs in a time zone. Times skipped by DST move forward. */
+function zonedTimeToUtc(year: number, month: number, day: number, hours: number, minutes: number, timeZone: string): number {
+  const wall = Date.UTC(year, month, day, hours, minutes);
+  const offsetAt = (ms: number) => {
+    const p = zonedParts(ms, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+  };
+  // Re-check the offset at the first guess, in case it crossed a DST change
+  const guess = wall - offsetAt(wall);
+  return wall - offsetAt(guess);
+}
+
+/**
+ * Unix timestamp (seconds) of the next scheduled run strictly after `after`.
+ */
+export function nextDigestRun(schedule: DigestSchedule, after = new Date()): number {
+  const timeZone = schedule.timezone ?? defaultDigestTimezone();
+  const [hours, minutes] = schedule.timeOfDay.split(":").map(Number);
+  const today = zonedParts(after.getTime(), timeZone);
+  // Today, or up to a week ahead (plus a day in case today's run already passed)
+  for (let daysAhead = 0; daysAhead <= 8; daysAhead++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + daysAhead));
+    if (schedule.frequency === "weekly" && date.getUTCDay() !== schedule.dayOfWeek) continue;
+    const run = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), hours, minutes, timeZone);
+    if (run > after.getTime()) return Math.floor(run / 1000);
+  }
+  throw new Error(`No digest run found for ${describeDigestSchedule(schedule)}`);
+}
+
+function git(repoDir: string, args: string[]): string {
+  return execFileSync("git", args, { cwd: repoDir, encoding: "utf-8", timeout: 30_000 }).trim();
+}
+
+/**
+ * Starting point for a channel's first digest (or after its repo changed):
+ * the last commit before one schedule period ago.
+ */
+function initialBaseSha(repoDir: string, tipSha: string, frequency: DigestSchedule["frequency"]): string | null {
+  const since = frequency === "daily" ? "1 day ago" : "7 days ago";
+  try {
+    return git(repoDir, ["rev-list", "-1", `--before=${since}`, tipSha]) || null;
+  } catch {
+    return null;
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_CHANGES_CHARS
+    ? text.slice(0, MAX_CHANGES_CHARS) + "\n... (truncated)"
+    : text;
+}
+
+function buildDigestPrompt(repoName: string, frequency: string, log: string, diffstat: string): string {
+  return [
+    `Write a ${frequency} digest of the changes merged into the \`${repoName}\` repo since the last digest.`,
+    "The audience is a Slack channel of engineers and non-engineers who want to know what changed and why it matters.",
+    "",
+    "Guidelines:",
+    "- Group related commits into a few themes (features, fixes, refactors, infrastructure). Skip trivial churn.",
+    "- Look at the code where it helps explain what a change does.",
+    "- Mention the areas or files most affected.",
+    "- Keep it under 300 words. Do not list every commit.",
+    "- Do not include a title — one is added for you.",
+    "",
+    "Commits:",
+    "```",
+    truncate(log),
+    "```",
+    "",
+    "Diffstat:",
+    "```",
+    truncate(diffstat),
+    "```",
+  ].join("\n");
+}
+
+/**
+ * Run one channel's digest. Posts to the channel if there are new commits,
+ * then advances the watermark and schedules the next run.
+ */
+export async function runDigest(digest: ChannelDigestRow, client: WebClient): Promise<void> {
+  const schedule: DigestSchedule = {
+    frequency: digest.frequency,
+    dayOfWeek: digest.day_of_week,
+    timeOfDay: digest.time_of_day,
+    timezone: digest.timezone,
+  };
+  const nextRunAt = nextDigestRun(schedule);
+
+  const repo = resolveRepoForChannel(digest.channel_id);
+  if (!repo) {
+    console.warn(`[digest] No repo for channel ${digest.channel_id} — skipping.`);
+    recordDigestRun(digest.channel_id, nextRunAt);
+    return;
+  }
+
+  try {
+    pullRepo(repo.dir);
+    const tipSha = resolveTipSha(repo.dir);
+    const baseSha = digest.repo_name === repo.name && digest.last_sha
+      ? digest.last_sha
+      : initialBaseSha(repo.dir, tipSha, digest.frequency);
+    const watermark = { repoName: repo.name, lastSha: tipSha };
+
+    if (!baseSha || baseSha === tipSha) {
+      console.log(`[digest] No new commits in ${repo.name} for #${digest.channel_name}.`);
+      recordDigestRun(digest.channel_id, nextRunAt, watermark);
+      return;
+    }
+
+    const { log, diffstat } = getChangesSince(repo.dir, baseSha, tipSha);
+    if (!log) {
+      recordDigestRun(digest.channel_id, nextRunAt, watermark);
+      return;
+    }
+
+    const commitCount = log.split("\n").length;
+    console.log(`[digest] Summarizing ${commitCount} commit(s) in ${repo.name} for #${digest.channel_name}...`);
+
+    const sessionId = await createSession(`Digest: ${repo.name} → #${digest.channel_name}`, repo.dir);
+    const result = await askQuestion({
+      sessionId,
+      question: buildDigestPrompt(repo.name, digest.frequency, log, diffstat),
+      isNewSession: true,
+      repo,
+      usage: { kind: "digest", channelId: digest.channel_id, repoName: repo.name },
+    });
+
+    const title = `*${digest.frequency === "daily" ? "Daily" : "Weekly"} digest — \`${repo.name}\`* ` +
+      `_(${commitCount} commit${commitCount === 1 ? "" : "s"}, \`${baseSha.slice(0, 7)}..${tipSha.slice(0, 7)}\`)_`;
+    await client.chat.postMessage({ channel: digest.channel_id, text: title });
+    for (const msg of formatResponse(result.text.trim() || "_No summary was produced._")) {
+      await client.chat.postMessage({
+        channel: digest.channel_id,
+        text: msg.text,
+        ...(msg.blocks && { blocks: msg.blocks }),
+      });
+    }
+
+    recordDigestRun(digest.channel_id, nextRunAt, watermark);
+  } catch (err) {
+    // Leave the watermark alone so the next run covers these commits
+    console.error(`[digest] Failed for channel ${digest.channel_id}:`, err);
+    recordDigestRun(digest.channel_id, nextRunAt);
+  }
+}
+
+/**
+ * Start the digest scheduler (checks for due digests every minute).
+ * Digests that came due while the bot was down run on the first tick.
+ */
+export function startDigestScheduler(client: WebClient): ReturnType<typeof setInterval> {
+  let running = false;
+  return setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const due = getDueDigests(Math.floor(Date.now() / 1000));
+      for (const digest of due) {
+        await runDigest(digest, client);
+      }
+    } catch (err) {
+      console.error("[digest] Scheduler tick failed:", err);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,603 @@
+/**
+ * Forge providers: the hosting service behind a repo (GitHub, GitLab,
+ * Bitbucket, Gitea). Each provider knows how to validate a user's token and
+ * look up their identity, which credentials to hand git for a push, and how
+ * to open a draft pull/merge request, and how to look up and comment on
+ * existing PRs (review mode, follow-up pushes to an existing PR).
+ *
+ * A repo's forge comes from its `forge` column when set, otherwise it is
+ * detected from the clone URL's host. Self-hosted instances work as long as
+ * the forge can be detected (or is set explicitly with `repo forge`).
+ */
+import { getUserForgeCredential, type RepoRow } from "./sessions.js";
+
+export type ForgeKind = "github" | "gitlab" | "bitbucket" | "gitea";
+export const FORGE_KINDS: readonly ForgeKind[] = ["github", "gitlab", "bitbucket", "gitea"];
+
+export interface ForgeIdentity {
+  username: string;
+  name: string;
+  email: string;
+}
+
+/** A repo's location on its forge. */
+export interface ForgeRepo {
+  kind: ForgeKind;
+  host: string;
+  /** Path of the project on the forge, e.g. `org/repo` or `group/sub/repo`. */
+  path: string;
+}
+
+export interface DraftPullRequest {
+  head: string;
+  base: string;
+  title: string;
+  body: string;
+}
+
+/** An open pull/merge request, as needed to check it out and review it. */
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  author: string;
+  baseBranch: string;
+  /** Ref to fetch from `origin` to get the PR head, e.g. `refs/pull/12/head`. */
+  headRef: string;
+  /** Source branch name (in the fork, if `fromFork`). */
+  headBranch: string;
+  /** The source branch lives in another repository, so the bot can't push to it. */
+  fromFork: boolean;
+}
+
+export interface ForgeProvider {
+  kind: ForgeKind;
+  /** Display name ("GitHub"). */
+  label: string;
+  /** "PR" or "MR". */
+  requestNoun: string;
+  /** Host used when `forge connect` doesn't name one; null if a host is required. */
+  defaultHost: string | null;
+  /** Where to create a token, with the scopes it needs (Slack mrkdwn). */
+  tokenHelp: (host: string) => string;
+  /** Validate a token and return the identity commits will be attributed to. */
+  validateToken: (host: string, token: string) => Promise<ForgeIdentity>;
+  /** Username/password pair git should use for HTTPS pushes. */
+  pushCredentials: (token: string, identity: ForgeIdentity) => { username: string; password: string };
+  /** Open a draft PR/MR and return its number and web URL. */
+  createDraftPullRequest: (repo: ForgeRepo, token: string, pr: DraftPullRequest) => Promise<{ number: number; url: string }>;
+  /** Look up a PR/MR. The token is optional for public repos. */
+  getPullRequest: (repo: ForgeRepo, token: string | null, number: number) => Promise<PullRequestInfo>;
+  /** Post a review as a single comment on a PR/MR and return its web URL. */
+  postReview: (repo: ForgeRepo, token: string, number: number, body: string) => Promise<string>;
+  /** The open PR/MR whose source is `branch` in this repo, if any. */
+  findOpenPullRequest: (repo: ForgeRepo, token: string, branch: string) => Promise<PullRequestInfo | null>;
+  /** Add a plain comment to a PR/MR's conversation and return its web URL. */
+  commentOnPullRequest: (repo: ForgeRepo, token: string, number: number, body: string) => Promise<string>;
+}
+
+// ── HTTP helpers ──
+
+async function forgeFetch<T>(label: string, url: string, init: RequestInit): Promise<T> {
+  const resp = await fetch(url, { ...init, signal: AbortSignal.timeout(30_000) });
+  if (!resp.ok) {
+    if (resp.status === 401) throw new Error(`Invalid or expired ${label} token.`);
+    let detail = "";
+    try {
+      detail = (await resp.text()).slice(0, 300);
+    } catch {
+      // No body
+    }
+    throw new Error(`${label} API error: ${resp.status} ${resp.statusText}${detail ? ` — ${detail}` : ""}`);
+  }
+  return (await resp.json()) as T;
+}
+
+function jsonBody(body: unknown): Pick<RequestInit, "method" | "body"> {
+  return { method: "POST", body: JSON.stringify(body) };
+}
+
+function noreplyEmail(username: string, host: string): string {
+  return `${username}@users.noreply.${host}`;
+}
+
+// ── GitHub (github.com and Enterprise Server) ──
+
+function githubApi(host: string): string {
+  return host === "github.com" ? "https://api.github.com" : `https://${host}/api/v3`;
+}
+
+function githubHeaders(token: string | null): Record<string, string> {
+  return {
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    Accept: "application/vnd.github+json",
+    "Content-Type": "application/json",
+  };
+}
+
+interface GithubPull {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  user: { login: string };
+  head: { ref: string; repo: { full_name: string } | null };
+  base: { ref: string; repo: { full_name: string } };
+}
+
+function fromGithubPull(pr: GithubPull): PullRequestInfo {
+  return {
+    number: pr.number,
+    title: pr.title,
+    body: pr.body ?? "",
+    url: pr.html_url,
+    author: pr.user.login,
+    baseBranch: pr.base.ref,
+    headRef: `refs/pull/${pr.number}/head`,
+    headBranch: pr.head.ref,
+    fromFork: pr.head.repo?.full_name !== pr.base.repo.full_name,
+  };
+}
+
+const github: ForgeProvider = {
+  kind: "github",
+  label: "GitHub",
+  requestNoun: "PR",
+  defaultHost: "github.com",
+  tokenHelp: (host) => `Create a token at <https://${host}/settings/tokens> with \`repo\` scope.`,
+  async validateToken(host, token) {
+    const api = githubApi(host);
+    const user = await forgeFetch<{ login: string; name: string | null; email: string | null }>(
+      "GitHub", `${api}/user`, { headers: githubHeaders(token) },
+    );
+
+    let email = user.email;
+    if (!email) {
+      // Try to get primary verified email
+      try {
+        const emails = await forgeFetch<Array<{ email: string; primary: boolean; verified: boolean }>>(
+          "GitHub", `${api}/user/emails`, { headers: githubHeaders(token) },
+        );
+        email = emails.find((e) => e.primary && e.verified)?.email ?? null;
+      } catch {
+        // Non-fatal — fall through to noreply
+      }
+    }
+
+    return {
+      username: user.login,
+      name: user.name || user.login,
+      email: email || noreplyEmail(user.login, host),
+    };
+  },
+  pushCredentials: (token) => ({ username: "x-access-token", password: token }),
+  async createDraftPullRequest(repo, token, pr) {
+    const created = await forgeFetch<{ number: number; html_url: string }>(
+      "GitHub", `${githubApi(repo.host)}/repos/${repo.path}/pulls`,
+      {
+        headers: githubHeaders(token),
+        ...jsonBody({ title: pr.title, body: pr.body, head: pr.head, base: pr.base, draft: true }),
+      },
+    );
+    return { number: created.number, url: created.html_url };
+  },
+  async getPullRequest(repo, token, number) {
+    const pr = await forgeFetch<GithubPull>(
+      "GitHub", `${githubApi(repo.host)}/repos/${repo.path}/pulls/${number}`, { headers: githubHeaders(token) },
+    );
+    return fromGithubPull(pr);
+  },
+  async postReview(repo, token, number, body) {
+    const review = await forgeFetch<{ html_url: string }>(
+      "GitHub", `${githubApi(repo.host)}/repos/${repo.path}/pulls/${number}/reviews`,
+      { headers: githubHeaders(token), ...jsonBody({ body, event: "COMMENT" }) },
+    );
+    return review.html_url;
+  },
+  async findOpenPullRequest(repo, token, branch) {
+    const owner = repo.path.split("/")[0];
+    const pulls = await forgeFetch<GithubPull[]>(
+      "GitHub",
+      `${githubApi(repo.host)}/repos/${repo.path}/pulls?state=open&head=${encodeURIComponent(`${owner}:${branch}`)}`,
+      { headers: githubHeaders(token) },
+    );
+    return pulls.length > 0 ? fromGithubPull(pulls[0]) : null;
+  },
+  async commentOnPullRequest(repo, token, number, body) {
+    const comment = await forgeFetch<{ html_url: string }>(
+      "GitHub", `${githubApi(repo.host)}/repos/${repo.path}/issues/${number}/comments`,
+      { headers: githubHeaders(token), ...jsonBody({ body }) },
+    );
+    return comment.html_url;
+  },
+};
+
+// ── GitLab (gitlab.com and self-managed) ──
+
+function gitlabHeaders(token: string | null): Record<string, string> {
+  return { ...(token ? { Authorization: `Bearer ${token}` } : {}), "Content-Type": "application/json" };
+}
+
+interface GitlabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  web_url: string;
+  author: { username: string };
+  target_branch: string;
+  source_branch: string;
+  source_project_id: number;
+  target_project_id: number;
+}
+
+function fromGitlabMergeRequest(mr: GitlabMergeRequest): PullRequestInfo {
+  return {
+    number: mr.iid,
+    title: mr.title,
+    body: mr.description ?? "",
+    url: mr.web_url,
+    author: mr.author.username,
+    baseBranch: mr.target_branch,
+    headRef: `refs/merge-requests/${mr.iid}/head`,
+    headBranch: mr.source_branch,
+    fromFork: mr.source_project_id !== mr.target_project_id,
+  };
+}
+
+async function gitlabNote(repo: ForgeRepo, token: string, number: number, body: string): Promise<string> {
+  const note = await forgeFetch<{ id: number }>(
+    "GitLab", `https://${repo.host}/api/v4/projects/${encodeURIComponent(repo.path)}/merge_requests/${number}/notes`,
+    { headers: gitlabHeaders(token), ...jsonBody({ body }) },
+  );
+  return `https://${repo.host}/${repo.path}/-/merge_requests/${number}#note_${note.id}`;
+}
+
+const gitlab: ForgeProvider = {
+  kind: "gitlab",
+  label: "GitLab",
+  requestNoun: "MR",
+  defaultHost: "gitlab.com",
+  tokenHelp: (host) =>
+    `Create a personal access token at <https://${host}/-/user_settings/personal_access_tokens> ` +
+    "with `api` and `write_repository` scopes.",
+  async validateToken(host, token) {
+    const user = await forgeFetch<{ username: string; name: string | null; email?: string; commit_email?: string; public_email?: string }>(
+      "GitLab", `https://${host}/api/v4/user`, { headers: gitlabHeaders(token) },
+    );
+    return {
+      username: user.username,
+      name: user.name || user.username,
+      email: user.commit_email || user.email || user.public_email || noreplyEmail(user.username, host),
+    };
+  },
+  pushCredentials: (token) => ({ username: "oauth2", password: token }),
+  async createDraftPullRequest(repo, token, pr) {
+    const created = await forgeFetch<{ iid: number; web_url: string }>(
+      "GitLab", `https://${repo.host}/api/v4/projects/${encodeURIComponent(repo.path)}/merge_requests`,
+      {
+        headers: gitlabHeaders(token),
+        ...jsonBody({
+          title: `Draft: ${pr.title}`,
+          description: pr.body,
+          source_branch: pr.head,
+          target_branch: pr.base,
+          remove_source_branch: true,
+        }),
+      },
+    );
+    return { number: created.iid, url: created.web_url };
+  },
+  async getPullRequest(repo, token, number) {
+    const mr = await forgeFetch<GitlabMergeRequest>(
+      "GitLab", `https://${repo.host}/api/v4/projects/${encodeURIComponent(repo.path)}/merge_requests/${number}`,
+      { headers: gitlabHeaders(token) },
+    );
+    return fromGitlabMergeRequest(mr);
+  },
+  // GitLab has no separate review object; a review is a note on the MR
+  postReview: gitlabNote,
+  async findOpenPullRequest(repo, token, branch) {
+    const mrs = await forgeFetch<GitlabMergeRequest[]>(
+      "GitLab",
+      `https://${repo.host}/api/v4/projects/${encodeURIComponent(repo.path)}/merge_requests?state=opened&source_branch=${encodeURIComponent(branch)}`,
+      { headers: gitlabHeaders(token) },
+    );
+    const mr = mrs.find((m) => m.source_project_id === m.target_project_id);
+    return mr ? fromGitlabMergeRequest(mr) : null;
+  },
+  commentOnPullRequest: gitlabNote,
+};
+
+// ── Bitbucket Cloud ──
+// Accepts either an access token (sent as a bearer token) or
+// `username:app-password` (sent as basic auth).
+
+function bitbucketHeaders(token: string | null): Record<string, string> {
+  if (!token) return { "Content-Type": "application/json" };
+  const auth = token.includes(":")
+    ? `Basic ${Buffer.from(token).toString("base64")}`
+    : `Bearer ${token}`;
+  return { Authorization: auth, "Content-Type": "application/json" };
+}
+
+interface BitbucketPullRequest {
+  id: number;
+  title: string;
+  description?: string;
+  links: { html: { href: string } };
+  author?: { display_name?: string; nickname?: string };
+  source: { branch: { name: string }; repository?: { full_name: string } };
+  destination: { branch: { name: string }; repository?: { full_name: string } };
+}
+
+function fromBitbucketPullRequest(pr: BitbucketPullRequest): PullRequestInfo {
+  // Bitbucket has no PR refs; fetch the source branch (same-repo PRs only)
+  return {
+    number: pr.id,
+    title: pr.title,
+    body: pr.description ?? "",
+    url: pr.links.html.href,
+    author: pr.author?.nickname || pr.author?.display_name || "unknown",
+    baseBranch: pr.destination.branch.name,
+    headRef: `refs/heads/${pr.source.branch.name}`,
+    headBranch: pr.source.branch.name,
+    fromFork: pr.source.repository?.full_name !== pr.destination.repository?.full_name,
+  };
+}
+
+async function bitbucketComment(repo: ForgeRepo, token: string, number: number, body: string): Promise<string> {
+  const comment = await forgeFetch<{ links: { html: { href: string } } }>(
+    "Bitbucket", `https://api.bitbucket.org/2.0/repositories/${repo.path}/pullrequests/${number}/comments`,
+    { headers: bitbucketHeaders(token), ...jsonBody({ content: { raw: body } }) },
+  );
+  return comment.links.html.href;
+}
+
+const bitbucket: ForgeProvider = {
+  kind: "bitbucket",
+  label: "Bitbucket",
+  requestNoun: "PR",
+  defaultHost: "bitbucket.org",
+  tokenHelp: () =>
+    "Use `<username>:<app-password>` (create an app password at <https://bitbucket.org/account/settings/app-passwords/> " +
+    "with *Repositories: Write* and *Pull requests: Write*), or a repository access token.",
+  async validateToken(host, token) {
+    const user = await forgeFetch<{ username?: string; nickname?: string; display_name?: string }>(
+      "Bitbucket", "https://api.bitbucket.org/2.0/user", { headers: bitbucketHeaders(token) },
+    );
+    const username = user.username || user.nickname || "bitbucket-user";
+
+    let email: string | undefined;
+    try {
+      const emails = await forgeFetch<{ values: Array<{ email: string; is_primary: boolean; is_confirmed: boolean }> }>(
+        "Bitbucket", "https://api.bitbucket.org/2.0/user/emails", { headers: bitbucketHeaders(token) },
+      );
+      email = emails.values.find((e) => e.is_primary && e.is_confirmed)?.email;
+    } catch {
+      // Non-fatal — needs the email scope
+    }
+
+    return {
+      username,
+      name: user.display_name || username,
+      email: email || noreplyEmail(username, host),
+    };
+  },
+  pushCredentials: (token) => {
+    const sep = token.indexOf(":");
+    return sep > 0
+      ? { username: token.slice(0, sep), password: token.slice(sep + 1) }
+      : { username: "x-token-auth", password: token };
+  },
+  async createDraftPullRequest(repo, token, pr) {
+    const created = await forgeFetch<{ id: number; links: { html: { href: string } } }>(
+      "Bitbucket", `https://api.bitbucket.org/2.0/repositories/${repo.path}/pullrequests`,
+      {
+        headers: bitbucketHeaders(token),
+        ...jsonBody({
+          title: pr.title,
+          description: pr.body,
+          source: { branch: { name: pr.head } },
+          destination: { branch: { name: pr.base } },
+          draft: true,
+        }),
+      },
+    );
+    return { number: created.id, url: created.links.html.href };
+  },
+  async getPullRequest(repo, token, number) {
+    const pr = await forgeFetch<BitbucketPullRequest>(
+      "Bitbucket", `https://api.bitbucket.org/2.0/repositories/${repo.path}/pullrequests/${number}`,
+      { headers: bitbucketHeaders(token) },
+    );
+    return fromBitbucketPullRequest(pr);
+  },
+  postReview: bitbucketComment,
+  async findOpenPullRequest(repo, token, branch) {
+    const query = encodeURIComponent(`source.branch.name="${branch}" AND state="OPEN"`);
+    const page = await forgeFetch<{ values: BitbucketPullRequest[] }>(
+      "Bitbucket", `https://api.bitbucket.org/2.0/repositories/${repo.path}/pullrequests?q=${query}`,
+      { headers: bitbucketHeaders(token) },
+    );
+    const pr = page.values.map(fromBitbucketPullRequest).find((p) => !p.fromFork);
+    return pr ?? null;
+  },
+  commentOnPullRequest: bitbucketComment,
+};
+
+// ── Gitea / Forgejo ──
+
+function giteaHeaders(token: string | null): Record<string, string> {
+  return { ...(token ? { Authorization: `token ${token}` } : {}), "Content-Type": "application/json" };
+}
+
+interface GiteaPull {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  user: { login: string };
+  head: { ref: string; repo_id: number };
+  base: { ref: string; repo_id: number };
+}
+
+function fromGiteaPull(pr: GiteaPull): PullRequestInfo {
+  return {
+    number: pr.number,
+    title: pr.title,
+    body: pr.body ?? "",
+    url: pr.html_url,
+    author: pr.user.login,
+    baseBranch: pr.base.ref,
+    headRef: `refs/pull/${pr.number}/head`,
+    headBranch: pr.head.ref,
+    fromFork: pr.head.repo_id !== pr.base.repo_id,
+  };
+}
+
+const gitea: ForgeProvider = {
+  kind: "gitea",
+  label: "Gitea",
+  requestNoun: "PR",
+  defaultHost: null,
+  tokenHelp: (host) =>
+    `Create an access token at <https://${host}/user/settings/applications> with *repository* and *user* read/write scopes.`,
+  async validateToken(host, token) {
+    const user = await forgeFetch<{ login: string; full_name?: string; email?: string }>(
+      "Gitea", `https://${host}/api/v1/user`, { headers: giteaHeaders(token) },
+    );
+    return {
+      username: user.login,
+      name: user.full_name || user.login,
+      email: user.email || noreplyEmail(user.login, host),
+    };
+  },
+  pushCredentials: (token, identity) => ({ username: identity.username, password: token }),
+  async createDraftPullRequest(repo, token, pr) {
+    // Gitea marks a PR as work-in-progress by its title prefix
+    const created = await forgeFetch<{ number: number; html_url: string }>(
+      "Gitea", `https://${repo.host}/api/v1/repos/${repo.path}/pulls`,
+      {
+        headers: giteaHeaders(token),
+        ...jsonBody({ title: `WIP: ${pr.title}`, body: pr.body, head: pr.head, base: pr.base }),
+      },
+    );
+    return { number: created.number, url: created.html_url };
+  },
+  async getPullRequest(repo, token, number) {
+    const pr = await forgeFetch<GiteaPull>(
+      "Gitea", `https://${repo.host}/api/v1/repos/${repo.path}/pulls/${number}`, { headers: giteaHeaders(token) },
+    );
+    return fromGiteaPull(pr);
+  },
+  async postReview(repo, token, number, body) {
+    const review = await forgeFetch<{ html_url?: string }>(
+      "Gitea", `https://${repo.host}/api/v1/repos/${repo.path}/pulls/${number}/reviews`,
+      { headers: giteaHeaders(token), ...jsonBody({ body, event: "COMMENT" }) },
+    );
+    return review.html_url || `https://${repo.host}/${repo.path}/pulls/${number}`;
+  },
+  async findOpenPullRequest(repo, token, branch) {
+    // No head-branch filter in the API; scan the most recent open PRs
+    const pulls = await forgeFetch<GiteaPull[]>(
+      "Gitea", `https://${repo.host}/api/v1/repos/${repo.path}/pulls?state=open&limit=50`,
+      { headers: giteaHeaders(token) },
+    );
+    const pr = pulls.map(fromGiteaPull).find((p) => p.headBranch === branch && !p.fromFork);
+    return pr ?? null;
+  },
+  async commentOnPullRequest(repo, token, number, body) {
+    const comment = await forgeFetch<{ html_url: string }>(
+      "Gitea", `https://${repo.host}/api/v1/repos/${repo.path}/issues/${number}/comments`,
+      { headers: giteaHeaders(token), ...jsonBody({ body }) },
+    );
+    return comment.html_url;
+  },
+};
+
+const PROVIDERS: Record<ForgeKind, ForgeProvider> = { github, gitlab, bitbucket, gitea };
+
+export function getForgeProvider(kind: ForgeKind): ForgeProvider {
+  return PROVIDERS[kind];
+}
+
+export function isForgeKind(value: string): value is ForgeKind {
+  return (FORGE_KINDS as readonly string[]).includes(value);
+}
+
+// ── Repo → forge resolution ──
+
+/**
+ * Split a clone URL (https, ssh:// or scp-style) into host and project path.
+ */
+export function parseRepoUrl(url: string): { host: string; path: string } | null {
+  const scp = url.match(/^[\w.-]+@([^:/]+):(.+)$/);
+  if (scp) return { host: scp[1].toLowerCase(), path: scp[2].replace(/\.git$/, "").replace(/^\/+|\/+$/g, "") };
+  try {
+    const u = new URL(url);
+    const path = u.pathname.replace(/\.git$/, "").replace(/^\/+|\/+$/g, "");
+    if (!u.hostname || !path) return null;
+    return { host: u.host.toLowerCase(), path };
+  } catch {
+    return null;
+  }
+}
+
+/** Guess the forge from a host name. */
+export function detectForgeKind(host: string): ForgeKind | null {
+  if (host === "github.com" || host.startsWith("github.")) return "github";
+  if (host === "gitlab.com" || host.includes("gitlab")) return "gitlab";
+  if (host === "bitbucket.org") return "bitbucket";
+  if (host === "codeberg.org" || host.includes("gitea") || host.includes("forgejo")) return "gitea";
+  return null;
+}
+
+/**
+ * Resolve where a repo lives. Throws with an actionable message if the forge
+ * can't be determined.
+ */
+export function resolveForgeRepo(repo: Pick<RepoRow, "name" | "url" | "forge">): ForgeRepo {
+  const parsed = parseRepoUrl(repo.url);
+  if (!parsed) throw new Error(`Can't parse the URL of repo \`${repo.name}\` (${repo.url}).`);
+  const kind = repo.forge && isForgeKind(repo.forge) ? repo.forge : detectForgeKind(parsed.host);
+  if (!kind) {
+    throw new Error(
+      `Can't tell which forge hosts \`${repo.name}\` (${parsed.host}). ` +
+      `An admin can set it with \`repo forge ${repo.name} <${FORGE_KINDS.join("|")}>\`.`,
+    );
+  }
+  return { kind, host: parsed.host, path: parsed.path };
+}
+
+/**
+ * The forge a coding session on `repo` would push to, if the user hasn't
+ * connected an account for it yet. Null when they have one, or when the
+ * forge can't be determined (PR creation reports that later).
+ */
+export function missingForgeConnection(userId: string, repo: RepoRow): ForgeRepo | null {
+  let forgeRepo: ForgeRepo;
+  try {
+    forgeRepo = resolveForgeRepo(repo);
+  } catch {
+    return null;
+  }
+  return getUserForgeCredential(userId, forgeRepo.kind, forgeRepo.host) ? null : forgeRepo;
+}
+
+/**
+ * Split a PR/MR web URL into the project URL and number. Understands GitHub
+ * (`/pull/12`), GitLab (`/-/merge_requests/12`), Bitbucket (`/pull-requests/12`)
+ * and Gitea (`/pulls/12`) forms.
+ */
+export function parsePullRequestUrl(url: string): { host: string; path: string; number: number } | null {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return null;
+  }
+  const match = u.pathname.match(/^\/(.+?)\/(?:-\/merge_requests|pull-requests|pulls|pull)\/(\d+)(?:\/.*)?$/);
+  if (!match) return null;
+  return { host: u.host.toLowerCase(), path: match[1], number: parseInt(match[2], 10) };
+}
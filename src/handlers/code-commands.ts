@@ -1,16 +1,38 @@
 import type { WebClient } from "@slack/web-api";
+import { createHash } from "node:crypto";
 import {
   getActiveCodingSession,
   getCodingSessionDiff,
+  getCodingSessionFileDiffs,
+  readCodingSessionFile,
   createCodingSessionPR,
   destroyCodingSession,
   listCodingAgents,
+  listCodingCheckpoints,
+  undoCodingTurn,
+  pauseCodingSession,
+  codingIdleTimeoutMinutes,
 } from "../coding-session.js";
-import { SessionStatus } from "../sessions.js";
+import { SessionStatus, getCodingSession, touchCodingSession } from "../sessions.js";
+import { uploadSnippets, type Snippet } from "../utils/slack-files.js";
+
+/** Diffs larger than this are uploaded as one snippet per file. */
+const MAX_COMBINED_DIFF_CHARS = 40_000;
+/** Status uploads per-file diffs to link to only when this few files changed. */
+const MAX_STATUS_DIFF_LINKS = 10;
+/** Threads whose status diff links are remembered; the oldest is dropped beyond this. */
+const MAX_CACHED_STATUS_THREADS = 100;
+
+/**
+ * Per thread: each file's last uploaded status diff (by hash) and its
+ * permalink, so repeated status checks only upload files that changed.
+ */
+const statusDiffLinks = new Map<string, Map<string, { hash: string; url: string }>>();
 
 /**
  * Handle commands inside an active coding thread.
  * Returns a reply string if the command was handled, or null if not a command.
+ * An empty string means the command already posted its own reply.
  */
 export async function handleCodeCommand(
   text: string,
@@ -22,7 +44,17 @@ export async function handleCodeCommand(
   const trimmed = text.trim().toLowerCase();
 
   if (trimmed === "status") {
-    return handleStatus(threadKey);
+    return handleStatus(threadKey, { client, channelId });
+  }
+
+  const diffMatch = text.trim().match(/^diff(?:\s+(\S+))?$/i);
+  if (diffMatch) {
+    return handleDiff(threadKey, client, channelId, diffMatch[1] && cleanPath(diffMatch[1]));
+  }
+
+  const showMatch = text.trim().match(/^show\s+(\S+)$/i);
+  if (showMatch) {
+    return handleShow(threadKey, client, channelId, cleanPath(showMatch[1]));
   }
 
   if (trimmed === "agents") {
@@ -33,21 +65,64 @@ export async function handleCodeCommand(
     return handleCancel(threadKey, userId);
   }
 
+  if (trimmed === "pause") {
+    return handlePause(threadKey);
+  }
+
+  if (trimmed === "resume") {
+    // A paused session is resumed before commands run, so it's already back
+    return "_The coding session is running._";
+  }
+
+  if (trimmed === "history") {
+    return handleHistory(threadKey);
+  }
+
+  if (trimmed === "undo") {
+    return handleUndo(threadKey);
+  }
+
   const prMatch = trimmed.startsWith("pr") ? 2 : trimmed.startsWith("done") ? 4 : 0;
   if (prMatch) {
     const session = getActiveCodingSession(threadKey);
     if (session && (session.status === SessionStatus.PLANNING || session.status === SessionStatus.AWAITING_APPROVAL)) {
       return "The plan hasn't been approved yet. Approve the plan first, then create a PR.";
     }
-    const title = text.trim().slice(prMatch).trim() || undefined;
-    return handlePR(threadKey, userId, title, prMatch === 4);
+    if (session?.status === SessionStatus.REVIEWING) {
+      return "This thread is reviewing an existing PR — there's nothing to open a PR for. Use `cancel` to stop the review.";
+    }
+    // `pr --keep-history <title>` pushes each turn's checkpoint; the default squashes them
+    let rest = text.trim().slice(prMatch).trim();
+    let keepHistory = false;
+    const flagMatch = rest.match(/^--(squash|keep-history)\b\s*/i);
+    if (flagMatch) {
+      keepHistory = flagMatch[1].toLowerCase() === "keep-history";
+      rest = rest.slice(flagMatch[0].length);
+    }
+    return handlePR(threadKey, userId, rest || undefined, prMatch === 4, { keepHistory });
   }
 
   // Not a code command — continue to coding Q&A
   return null;
 }
 
-export async function handleStatus(threadKey: string): Promise<string> {
+/** Strip Slack formatting (backticks, auto-link brackets) from a path argument. */
+function cleanPath(raw: string): string {
+  return raw.replace(/^`+|`+$/g, "").replace(/^<([^|>]+)(?:\|[^>]*)?>$/, "$1");
+}
+
+function diffSnippet(filePath: string, diff: string): Snippet {
+  return { filename: `${filePath.replace(/\//g, "__")}.diff`, title: filePath, content: diff };
+}
+
+/**
+ * Show the status of a coding session. With `thread`, the per-file diffs are
+ * uploaded to the thread first and the changed-file list links to them.
+ */
+export async function handleStatus(
+  threadKey: string,
+  thread?: { client: WebClient; channelId: string },
+): Promise<string> {
   const session = getActiveCodingSession(threadKey);
   if (!session) return "_No active coding session in this thread._";
 
@@ -56,6 +131,7 @@ export async function handleStatus(threadKey: string): Promise<string> {
 
   const phaseLabel = session.status === SessionStatus.PLANNING ? " (planning)"
     : session.status === SessionStatus.AWAITING_APPROVAL ? " (awaiting plan approval)"
+    : session.status === SessionStatus.REVIEWING ? " (reviewing PR)"
     : "";
   const agentLabel = session.agent !== "code" ? `\nAgent: \`${session.agent}\`` : "";
   const header = `*Coding session active${phaseLabel}*\nRepo: \`${session.repoName}\`\nBranch: \`${session.branch}\`${agentLabel}`;
@@ -64,8 +140,112 @@ export async function handleStatus(threadKey: string): Promise<string> {
     return `${header}\n\nNo changes yet.`;
   }
 
-  const fileList = diff.changedFiles.map((f) => `• \`${f}\``).join("\n");
-  return `${header}\n\n*Changed files:*\n${fileList}\n\n\`\`\`\n${diff.diffstat}\n\`\`\``;
+  let links = new Map<string, string>();
+  if (thread && diff.changedFiles.length <= MAX_STATUS_DIFF_LINKS) {
+    try {
+      links = await statusDiffPermalinks(threadKey, thread.client, thread.channelId);
+    } catch (err) {
+      console.warn(`[code-commands] Failed to upload diffs for ${threadKey}:`, err);
+    }
+  }
+
+  const fileList = diff.changedFiles
+    .map((f) => links.has(f) ? `• <${links.get(f)}|\`${f}\`>` : `• \`${f}\``)
+    .join("\n");
+  const hint = links.size > 0 ? "_Click a file to see its diff._" : "_`diff <path>` uploads a file's diff._";
+  return `${header}\n\n*Changed files:*\n${fileList}\n${hint}\n\n\`\`\`\n${diff.diffstat}\n\`\`\``;
+}
+
+/** Permalinks to each changed file's diff, uploading only diffs not already in the thread. */
+async function statusDiffPermalinks(
+  threadKey: string,
+  client: WebClient,
+  channelId: string,
+): Promise<Map<string, string>> {
+  const fileDiffs = (getCodingSessionFileDiffs(threadKey) ?? [])
+    .map((d) => ({ ...d, hash: createHash("sha1").update(d.diff).digest("hex") }));
+  const cached = statusDiffLinks.get(threadKey) ?? new Map<string, { hash: string; url: string }>();
+  const stale = fileDiffs.filter((d) => cached.get(d.path)?.hash !== d.hash);
+
+  const permalinks = await uploadSnippets(client, channelId, threadKey, stale.map((d) => diffSnippet(d.path, d.diff)));
+  const current = new Map<string, { hash: string; url: string }>();
+  for (const d of fileDiffs) {
+    const url = cached.get(d.path)?.hash === d.hash
+      ? cached.get(d.path)!.url
+      : permalinks.get(diffSnippet(d.path, d.diff).filename);
+    if (url) current.set(d.path, { hash: d.hash, url });
+  }
+
+  statusDiffLinks.delete(threadKey);
+  statusDiffLinks.set(threadKey, current);
+  if (statusDiffLinks.size > MAX_CACHED_STATUS_THREADS) {
+    statusDiffLinks.delete(statusDiffLinks.keys().next().value!);
+  }
+  return new Map([...current].map(([file, link]) => [file, link.url]));
+}
+
+/**
+ * Upload the session's unified diff (or one file's/directory's) as snippets.
+ * Large diffs are split into one snippet per file.
+ */
+async function handleDiff(
+  threadKey: string,
+  client: WebClient,
+  channelId: string,
+  filterPath?: string,
+): Promise<string> {
+  const session = getActiveCodingSession(threadKey);
+  if (!session) return "_No active coding session in this thread._";
+
+  const fileDiffs = getCodingSessionFileDiffs(threadKey, filterPath);
+  if (!fileDiffs) return "_Could not retrieve changes._";
+  if (fileDiffs.length === 0) return filterPath ? `No changes in \`${filterPath}\`.` : "No changes yet.";
+
+  const total = fileDiffs.reduce((n, d) => n + d.diff.length, 0);
+  const combinedName = filterPath && fileDiffs.length === 1 ? fileDiffs[0].path : filterPath ?? session.branch;
+  const snippets = total <= MAX_COMBINED_DIFF_CHARS
+    ? [diffSnippet(combinedName, fileDiffs.map((d) => d.diff).join(""))]
+    : fileDiffs.map((d) => diffSnippet(d.path, d.diff));
+
+  const noun = fileDiffs.length === 1 ? "1 file" : `${fileDiffs.length} files`;
+  const scope = filterPath ? ` in \`${filterPath}\`` : "";
+  try {
+    await uploadSnippets(client, channelId, threadKey, snippets, `*Diff*${scope} — ${noun} changed`);
+    return "";
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return `_Failed to upload the diff: ${msg}_`;
+  }
+}
+
+/** Upload a file's current content from the session worktree. */
+async function handleShow(
+  threadKey: string,
+  client: WebClient,
+  channelId: string,
+  filePath: string,
+): Promise<string> {
+  const session = getActiveCodingSession(threadKey);
+  if (!session) return "_No active coding session in this thread._";
+
+  let content: string;
+  try {
+    content = readCodingSessionFile(threadKey, filePath);
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+
+  try {
+    await uploadSnippets(client, channelId, threadKey, [{
+      filename: filePath.split("/").pop()!,
+      title: filePath,
+      content,
+    }], `\`${filePath}\` on \`${session.branch}\``);
+    return "";
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return `_Failed to upload \`${filePath}\`: ${msg}_`;
+  }
 }
 
 async function handleListAgents(threadKey: string): Promise<string> {
@@ -85,6 +265,60 @@ async function handleListAgents(threadKey: string): Promise<string> {
   return `*Available agents:*\n${lines.join("\n")}\n\nTo start a session with a specific agent: \`code --agent <name> <description>\``;
 }
 
+function handleHistory(threadKey: string): string {
+  const session = getActiveCodingSession(threadKey);
+  if (!session) return "_No active coding session in this thread._";
+
+  const history = listCodingCheckpoints(threadKey);
+  if (!history) return "_Could not read the session's history._";
+  if (history.checkpoints.length === 0) {
+    return history.uncommitted
+      ? "No checkpoints yet — there are uncommitted changes from an unfinished turn."
+      : "No checkpoints yet.";
+  }
+
+  const lines = history.checkpoints.map((c, i) =>
+    `${i + 1}. \`${c.sha}\` ${c.subject} _(${c.age}${c.pushed ? ", pushed" : ""})_`);
+  if (history.uncommitted) lines.push("• _uncommitted changes from an unfinished turn_");
+  return `*Checkpoints* _(oldest first)_:\n${lines.join("\n")}\n\n\`undo\` rolls back the latest one that hasn't been pushed.`;
+}
+
+function handleUndo(threadKey: string): string {
+  const session = getActiveCodingSession(threadKey);
+  if (!session) return "_No active coding session in this thread._";
+  if (session.status === SessionStatus.REVIEWING) {
+    return "This thread is reviewing an existing PR — there's nothing to undo.";
+  }
+
+  try {
+    const { undone } = undoCodingTurn(threadKey);
+    return undone
+      ? `Rolled back checkpoint \`${undone.sha}\` (${undone.subject}).`
+      : "Discarded the uncommitted changes from the last turn.";
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+async function handlePause(threadKey: string): Promise<string> {
+  try {
+    await pauseCodingSession(threadKey);
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+  return "Coding session paused — the agent's server is stopped and its slot freed, but the worktree and checkpoints are kept. " +
+    "Send any message here (or `resume`) to pick up where you left off.";
+}
+
+/** Reset a session's idle clock (the idle warning's "Keep alive" button). */
+export function handleKeepAlive(threadKey: string): string {
+  const session = getActiveCodingSession(threadKey);
+  const row = getCodingSession(threadKey);
+  if (!session || !row) return "_No active coding session in this thread._";
+  touchCodingSession(threadKey);
+  return `Session kept alive — it closes after ${codingIdleTimeoutMinutes(row)} more idle minutes.`;
+}
+
 export async function handleCancel(threadKey: string, userId: string): Promise<string> {
   const session = getActiveCodingSession(threadKey);
   if (!session) return "_No active coding session to cancel._";
@@ -105,15 +339,19 @@ export async function handlePR(
   userId: string,
   title: string | undefined,
   destroyAfter: boolean,
+  opts: { keepHistory?: boolean } = {},
 ): Promise<string> {
   const session = getActiveCodingSession(threadKey);
   if (!session) return "_No active coding session._";
 
   try {
-    const { prUrl, diffstat, changedFiles } = await createCodingSessionPR(threadKey, title);
+    const { prUrl, diffstat, changedFiles, commits, updatedExisting } =
+      await createCodingSessionPR(threadKey, title, opts);
 
     const fileList = changedFiles.map((f) => `• \`${f}\``).join("\n");
-    let msg = `*Draft PR created!*\n${prUrl}\n\n*Changed files:*\n${fileList}\n\n\`\`\`\n${diffstat}\n\`\`\``;
+    const heading = updatedExisting ? "*Pushed to the existing PR and commented!*" : "*Draft PR created!*";
+    const commitNote = commits === 1 ? "1 commit" : `${commits} commits`;
+    let msg = `${heading}\n${prUrl} _(${commitNote})_\n\n*Changed files:*\n${fileList}\n\n\`\`\`\n${diffstat}\n\`\`\``;
 
     if (destroyAfter) {
       await destroyCodingSession(threadKey);
@@ -1,22 +1,35 @@
 import type { WebClient } from "@slack/web-api";
 import type { KnownBlock } from "@slack/types";
 import {
-  getChannelConfig,
-  updateCodingSessionAgent, updateCodingSessionStatus,
-  SessionStatus,
+  getChannelConfig, getCodingSession,
+  updateCodingSessionAgent, updateCodingSessionStatus, updateCodingSessionVerify,
+  enqueueCodingRequest, listCodingQueue, removeQueuedCodingRequest,
+  getQueuedCodingRequestForThread, getCodingQueuePosition,
+  SessionStatus, type CodingSessionRow,
 } from "../sessions.js";
 import { enrichContextForCoding } from "../opencode.js";
 import {
   getActiveCodingSession, createCodingSession, askCodingQuestion,
-  listCodingAgents,
+  listCodingAgents, codingUsage, commitCodingTurn, applyCodingSessionPatch, placeCodingSessionFile,
+  codingSlotBlocker, onCodingSlotFreed, resumeCodingSession, codingIdleTimeoutMinutes,
+  type CodingSession, type RestoredCodingSession, type ExistingBranchCheckout, type SessionReaperHooks,
 } from "../coding-session.js";
+import {
+  runVerification, buildVerifyFixPrompt, formatVerifySummary, MAX_VERIFY_FIX_ATTEMPTS,
+} from "../verify.js";
 import { getSlackContext, fetchThreadContext, fetchLinkedThreads, type SlackContext } from "../utils/slack-context.js";
-import { downloadFiles, type SlackFile, type ConvertedFile } from "../utils/slack-files.js";
+import {
+  downloadFiles, downloadTextFiles, isPatchFile, isTextFile,
+  type SlackFile, type ConvertedFile,
+} from "../utils/slack-files.js";
 import { createProgressUpdater } from "../utils/progress.js";
+import { checkUsageBudget } from "../usage.js";
 import { safePostResponse } from "./shared.js";
 import { Action, BlockPrefix, MAX_AGENT_BUTTONS, MAX_REPO_BUTTONS, HOSTNAME } from "../constants.js";
-import { getEnabledRepos, getUserGithubToken } from "../sessions.js";
+import { getEnabledRepos, getRepo, getUserForgeCredential } from "../sessions.js";
 import { resolveRepoForChannel } from "../repo-manager.js";
+import { getForgeProvider, missingForgeConnection, type ForgeRepo } from "../forge.js";
+import { resolvePullRequestTarget, type PullRequestTarget } from "./review-handler.js";
 
 // ── Coding session button builders ──
 
@@ -142,7 +155,8 @@ async function stripPriorCodingButtons(
         b.type === "actions" && "block_id" in b &&
         typeof (b as { block_id?: string }).block_id === "string" &&
         ((b as { block_id: string }).block_id.startsWith(BlockPrefix.CODING_PR) ||
-         (b as { block_id: string }).block_id.startsWith(BlockPrefix.CODING_PLAN));
+         (b as { block_id: string }).block_id.startsWith(BlockPrefix.CODING_PLAN) ||
+         (b as { block_id: string }).block_id.startsWith(BlockPrefix.CODING_IDLE));
       const hasActionBlock = blocks.some(isStrippable);
       if (!hasActionBlock) continue;
       const cleaned = blocks.filter((b) => !isStrippable(b));
@@ -193,6 +207,22 @@ export async function handleCodingMessage(opts: CodingMessageOpts): Promise<void
     return;
   }
 
+  // Reviews are a single turn; follow-ups go to Q&A once it's posted
+  if (session.status === SessionStatus.REVIEWING) {
+    await client.chat.postMessage({
+      channel: channelId,
+      thread_ts: threadTs,
+      text: "_A PR review is in progress in this thread — I'll post it here when it's done._",
+    });
+    return;
+  }
+
+  const budgetReply = checkUsageBudget(channelId, userId);
+  if (budgetReply) {
+    await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: budgetReply });
+    return;
+  }
+
   // Strip buttons from prior messages while the bot is working
   await stripPriorCodingButtons(client, channelId, threadTs);
 
@@ -217,12 +247,34 @@ export async function handleCodingMessage(opts: CodingMessageOpts): Promise<void
       }
     }
 
+    // Patches and `put this at <path>` files go into the worktree before the agent runs
+    const attachments = await applyAttachments(threadTs, text, eventFiles, client);
+    if (attachments.failed) {
+      // The agent didn't run, so put back the buttons stripped above
+      const buttons = session.status === SessionStatus.PLANNING
+        ? codingPlanButtons(threadTs)
+        : codingPRButtons(threadTs);
+      await client.chat.update({
+        channel: channelId,
+        ts: placeholderTs,
+        text: attachments.userNote,
+        blocks: [
+          { type: "section", text: { type: "mrkdwn", text: attachments.userNote } },
+          buttons,
+        ],
+      });
+      return;
+    }
+    if (attachments.userNote) {
+      await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: attachments.userNote });
+    }
+
     // Download files
     const files = allFiles.length > 0
       ? await downloadFiles(allFiles, client)
       : undefined;
 
-    const question = text || "Continue with the task.";
+    const question = `${text || "Continue with the task."}${attachments.agentNote}`;
 
     // Attach custom prompt
     const channelConfig = getChannelConfig(channelId);
@@ -248,6 +300,11 @@ export async function handleCodingMessage(opts: CodingMessageOpts): Promise<void
       files,
     });
 
+    // Plans aren't verified — there's no code yet
+    const responseText = session.status === SessionStatus.PLANNING
+      ? result.text
+      : await verifyCodingTurn(session, result.text, slackCtx, (status) => progress.update(status));
+
     progress.stop();
 
     // Check if the session was cancelled/destroyed while the agent was working.
@@ -266,11 +323,12 @@ export async function handleCodingMessage(opts: CodingMessageOpts): Promise<void
     const serverUrl = `http://${HOSTNAME}:${stillActive.port}`;
     await safePostResponse({
       client, channel: channelId, threadTs, placeholderTs,
-      rawMarkdown: result.text,
+      rawMarkdown: isPlanning ? responseText : checkpointTurn(threadTs, result.text, responseText),
       sessionId: stillActive.opencodeSessionId ?? undefined,
       customClient: stillActive.client,
       customBaseUrl: serverUrl,
       actionButtons: buttons,
+      usage: codingUsage(stillActive),
     });
 
     // After posting the plan, transition to awaiting approval
@@ -295,6 +353,145 @@ export async function handleCodingMessage(opts: CodingMessageOpts): Promise<void
   }
 }
 
+// ── Verification ──
+
+/**
+ * Run the repo's verification profile after a coding turn, giving the agent
+ * up to MAX_VERIFY_FIX_ATTEMPTS turns to fix failures. Returns the agent's
+ * latest response with the pass/fail summary appended (unchanged if the repo
+ * has no profile). The summary is also saved for the PR body.
+ */
+async function verifyCodingTurn(
+  session: CodingSession,
+  responseText: string,
+  slackCtx: SlackContext,
+  onProgress: (status: string) => void,
+): Promise<string> {
+  const onStep = (step: string) => onProgress(`_Running ${step} checks..._`);
+  let report = await runVerification(session.worktreePath, session.repoName, { onStep });
+  if (!report) return responseText;
+
+  // Install is only re-run until it passes; its result stays in the summary
+  const install = report.steps.find((s) => s.step === "install" && s.passed);
+  let text = responseText;
+  let attempts = 0;
+  let budgetReply: string | null = null;
+  while (!report.passed && attempts < MAX_VERIFY_FIX_ATTEMPTS) {
+    // Stop if the session was cancelled mid-loop
+    if (!getActiveCodingSession(session.threadKey)) return text;
+    // Each fix attempt is a full agent turn — stop once the budget runs out
+    budgetReply = checkUsageBudget(session.channelId, session.userId);
+    if (budgetReply) break;
+    attempts++;
+    onProgress(`_Checks failed — fix attempt ${attempts} of ${MAX_VERIFY_FIX_ATTEMPTS}..._`);
+    const fix = await askCodingQuestion({
+      session,
+      question: buildVerifyFixPrompt(report),
+      ctx: slackCtx,
+      onProgress,
+    });
+    if (fix.text.trim()) text = fix.text;
+    const rerun = await runVerification(session.worktreePath, session.repoName, { skipInstall: !!install, onStep });
+    if (!rerun) break;
+    report = install ? { ...rerun, steps: [install, ...rerun.steps] } : rerun;
+  }
+
+  report.fixAttempts = attempts;
+  const summary = formatVerifySummary(report);
+  updateCodingSessionVerify(session.threadKey, summary);
+  return budgetReply ? `${text}\n\n${summary}\n\n${budgetReply}` : `${text}\n\n${summary}`;
+}
+
+// ── Attachments ──
+
+/** e.g. "put this at src/foo.ts", "put these in `lib/`". */
+const PLACE_FILE_RE = /\bput\s+(?:this|it|these|them|the\s+files?)\s+(?:at|in|into|to)\s+`?([^\s`]+)/i;
+
+/**
+ * Apply `.patch`/`.diff` attachments with `git apply` and write other text
+ * attachments to the path given by "put this at <path>". Returns a note for
+ * the thread, a note for the agent's prompt, and whether anything failed
+ * (the turn doesn't run then, so the user can fix the attachment first).
+ */
+async function applyAttachments(
+  threadKey: string,
+  text: string,
+  eventFiles: SlackFile[],
+  client: WebClient,
+): Promise<{ userNote: string; agentNote: string; failed: boolean }> {
+  const none = { userNote: "", agentNote: "", failed: false };
+  const placeMatch = text.match(PLACE_FILE_RE);
+  const wanted = eventFiles.filter((f) => isPatchFile(f) || (placeMatch && isTextFile(f)));
+  if (wanted.length === 0) return none;
+
+  const downloaded = await downloadTextFiles(wanted, client);
+  const patchNames = new Set(wanted.filter(isPatchFile).map((f) => f.name));
+  const patches = downloaded.filter((f) => patchNames.has(f.filename));
+  const others = downloaded.filter((f) => !patches.includes(f));
+
+  const userLines: string[] = [];
+  const agentLines: string[] = [];
+  let failed = false;
+
+  for (const patch of patches) {
+    try {
+      const { files, conflicts } = applyCodingSessionPatch(threadKey, patch.content);
+      const fileList = files.map((f) => `\`${f}\``).join(", ");
+      if (conflicts.length > 0) {
+        const conflictList = conflicts.map((f) => `\`${f}\``).join(", ");
+        userLines.push(`⚠️ Applied \`${patch.filename}\` with conflicts in ${conflictList} — asking the agent to resolve them.`);
+        agentLines.push(`The user's patch ${patch.filename} was applied to ${fileList}, but left conflict markers in ` +
+          `${conflicts.join(", ")}. Resolve those conflicts first.`);
+      } else {
+        userLines.push(`Applied \`${patch.filename}\` (${fileList}).`);
+        agentLines.push(`The user's patch ${patch.filename} has been applied to ${files.join(", ")}. Build on it.`);
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      userLines.push(`❌ \`${patch.filename}\` didn't apply:\n\`\`\`\n${msg.slice(0, 1500)}\n\`\`\``);
+      failed = true;
+    }
+  }
+
+  if (placeMatch && others.length > 0) {
+    // A single file goes to the path as given; several go into it as a directory
+    const target = placeMatch[1].replace(/[.,;:!?]+$/, "");
+    const asDir = others.length > 1 || target.endsWith("/");
+    for (const file of others) {
+      const dest = asDir ? `${target.replace(/\/+$/, "")}/${file.filename}` : target;
+      try {
+        placeCodingSessionFile(threadKey, dest, file.content);
+        userLines.push(`Placed \`${file.filename}\` at \`${dest}\`.`);
+        agentLines.push(`The user's file ${file.filename} has been written to ${dest}.`);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        userLines.push(`❌ Couldn't place \`${file.filename}\`: ${msg}`);
+        failed = true;
+      }
+    }
+  }
+
+  if (userLines.length === 0) return none;
+  if (failed) userLines.push("_Fix the attachment and send it again — the agent hasn't run. Anything already applied stays in the worktree; \`undo\` discards it._");
+  return {
+    userNote: userLines.join("\n"),
+    agentNote: agentLines.length > 0 ? `\n\n[Attachments]\n${agentLines.join("\n")}` : "",
+    failed,
+  };
+}
+
+// ── Checkpoints ──
+
+/**
+ * Commit the turn's changes as a checkpoint (the agent's reply becomes the
+ * commit message) and mention it at the end of the response.
+ */
+function checkpointTurn(threadKey: string, agentText: string, responseText: string): string {
+  const sha = commitCodingTurn(threadKey, agentText);
+  if (!sha) return responseText;
+  return `${responseText}\n\n_Checkpoint \`${sha}\` saved — \`undo\` rolls it back, \`history\` lists checkpoints._`;
+}
+
 // ── Agent selection ──
 
 interface PendingCodingRequest {
@@ -309,6 +506,10 @@ interface PendingCodingRequest {
   botUserId?: string;
   repoName?: string;
   agent?: string;
+  /** Raw `--branch` / `--pr` arguments, re-resolved when resuming after a forge connect. */
+  branch?: string;
+  pr?: string;
+  existingBranch?: ExistingBranchCheckout;
   /** Timestamp (ms) when the pending request was created — used for TTL cleanup. */
   createdAt: number;
 }
@@ -374,20 +575,28 @@ export async function resumeCodingWithAgent(
 }
 
 /**
- * Resume a pending coding request after GitHub PAT connect.
+ * Resume a pending coding request after the user connects their forge account.
  */
-export async function resumeCodingAfterPATConnect(
+export async function resumeCodingAfterForgeConnect(
   threadTs: string,
   client: WebClient,
   channelId: string,
 ): Promise<void> {
   const pending = pendingCodingRequests.get(threadTs);
   if (!pending) return; // No pending request — user may have started fresh
+
+  // The repo was already picked from the selection buttons — start there
+  if (pending.repoName) {
+    await resumeCodingWithRepo(threadTs, pending.repoName, client, channelId);
+    return;
+  }
   pendingCodingRequests.delete(threadTs);
 
   await handleCodeStart({
     description: pending.description,
     agent: pending.agent,
+    branch: pending.branch,
+    pr: pending.pr,
     channelId: pending.channelId,
     userId: pending.userId,
     threadTs: pending.threadTs,
@@ -437,12 +646,16 @@ export async function handleApprove(
 
     // The agent already has the plan in its conversation context —
     // just tell it to execute
+    const activeSession = { ...session, status: SessionStatus.ACTIVE };
     const result = await askCodingQuestion({
-      session: { ...session, status: SessionStatus.ACTIVE },
+      session: activeSession,
       question: "The user has approved your plan. Now execute it — write all the code changes you described.",
       ctx: slackCtx,
       onProgress: (status: string) => { progress.update(status); },
     });
+    const responseText = await verifyCodingTurn(
+      activeSession, result.text, slackCtx, (status) => progress.update(status),
+    );
 
     progress.stop();
 
@@ -457,11 +670,12 @@ export async function handleApprove(
     const serverUrl = `http://${HOSTNAME}:${stillActive.port}`;
     await safePostResponse({
       client, channel: channelId, threadTs, placeholderTs: placeholder.ts!,
-      rawMarkdown: result.text,
+      rawMarkdown: checkpointTurn(threadTs, result.text, responseText),
       sessionId: stillActive.opencodeSessionId ?? undefined,
       customClient: stillActive.client,
       customBaseUrl: serverUrl,
       actionButtons: codingPRButtons(threadTs),
+      usage: codingUsage(stillActive),
     });
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
@@ -506,6 +720,10 @@ export async function handleRevise(
 interface CodeStartOpts {
   description: string;
   agent?: string;
+  /** `code --branch <name>`: continue an existing remote branch. */
+  branch?: string;
+  /** `code --pr <url|number>`: continue an existing PR's branch. */
+  pr?: string;
   channelId: string;
   userId: string;
   threadTs: string;
@@ -521,54 +739,67 @@ interface CodeStartOpts {
  *
  * Flow:
  * 1. If multiple repos and no explicit agent → show repo selection buttons
+ *    (skipped for `--pr`, which names its repo)
  * 2. After repo is selected (or only one repo) → create session
  * 3. If repo agents exist → show agent selection buttons
  * 4. After agent is selected (or no repo agents) → proceed to coding
  */
 export async function handleCodeStart(opts: CodeStartOpts): Promise<void> {
-  const { description, agent, channelId, userId, threadTs, client, slackCtx, files: eventFiles, isThread, botUserId } = opts;
+  const { description, agent, branch, pr, channelId, userId, threadTs, client, slackCtx, files: eventFiles, isThread, botUserId } = opts;
 
-  // ── PAT gate: require GitHub connection before starting a coding session ──
+  const reply = async (text: string) => {
+    await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text });
+  };
+  if (branch && pr) {
+    await reply("Use either `--branch` or `--pr`, not both.");
+    return;
+  }
+
+  // `--pr` pins the session to the PR's repo
+  let prTarget: PullRequestTarget | undefined;
+  if (pr) {
+    try {
+      prTarget = resolvePullRequestTarget(pr, channelId);
+    } catch (err) {
+      await reply(err instanceof Error ? err.message : String(err));
+      return;
+    }
+  }
+
+  // ── Forge gate: require a token for the repo's forge before starting a coding session ──
   purgeStalePendingRequests();
-  const ghToken = getUserGithubToken(userId);
-  if (!ghToken) {
-    // Store pending request so we can resume after PAT connect
+  const channelRepo = resolveRepoForChannel(channelId);
+  const gateRepoRow = prTarget?.repo ?? (channelRepo ? getRepo(channelRepo.name) : undefined);
+  const missingForge = gateRepoRow ? missingForgeConnection(userId, gateRepoRow) : null;
+  if (missingForge) {
+    // Store pending request so we can resume after connecting
     pendingCodingRequests.set(threadTs, {
-      description, agent, channelId, userId, threadTs, client, slackCtx,
+      description, agent, branch, pr, channelId, userId, threadTs, client, slackCtx,
       files: eventFiles, isThread, botUserId, createdAt: Date.now(),
     });
 
-    await client.chat.postMessage({
-      channel: channelId,
-      thread_ts: threadTs,
-      text: "You need to connect your GitHub account before starting a coding session. " +
-        "This ensures commits and PRs are attributed to you.",
-      blocks: [
-        {
-          type: "section",
-          text: {
-            type: "mrkdwn",
-            text: "You need to connect your GitHub account before starting a coding session.\n" +
-              "This ensures commits and PRs are attributed to you.",
-          },
-        },
-        {
-          type: "actions",
-          block_id: `${BlockPrefix.GITHUB_CONNECT}${threadTs}`,
-          elements: [
-            {
-              type: "button",
-              text: { type: "plain_text", text: "Connect GitHub" },
-              action_id: Action.GITHUB_CONNECT,
-              value: JSON.stringify({ threadTs, channelId }),
-              style: "primary",
-            },
-          ],
-        },
-      ],
+    await postForgeConnectPrompt(client, channelId, threadTs, missingForge);
+    return;
+  }
+
+  if (prTarget) {
+    let existingBranch: ExistingBranchCheckout;
+    let prNote: string;
+    try {
+      ({ existingBranch, prNote } = await checkoutForPullRequest(prTarget, userId));
+    } catch (err) {
+      await reply(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    await createSessionAndProceed({
+      description: `${description}\n\n${prNote}`,
+      agent, channelId, userId, threadTs, client, slackCtx,
+      files: eventFiles, isThread, botUserId,
+      repoName: prTarget.repo.name, existingBranch,
     });
     return;
   }
+  const existingBranch: ExistingBranchCheckout | undefined = branch ? { branch } : undefined;
 
   // Check if multiple repos exist and no agent was explicitly specified
   const allRepos = getEnabledRepos();
@@ -604,7 +835,7 @@ export async function handleCodeStart(opts: CodeStartOpts): Promise<void> {
     // Store pending request — session created after repo selection
     pendingCodingRequests.set(threadTs, {
       description, channelId, userId, threadTs, client, slackCtx,
-      files: eventFiles, isThread, botUserId, createdAt: Date.now(),
+      files: eventFiles, isThread, botUserId, existingBranch, createdAt: Date.now(),
     });
     return;
   }
@@ -612,7 +843,76 @@ export async function handleCodeStart(opts: CodeStartOpts): Promise<void> {
   // Single repo (or explicit agent) — create session immediately
   await createSessionAndProceed({
     description, agent, channelId, userId, threadTs, client, slackCtx,
-    files: eventFiles, isThread, botUserId,
+    files: eventFiles, isThread, botUserId, existingBranch,
+  });
+}
+
+/**
+ * Look up a `code --pr` target and work out which branch to check out.
+ * Returns the checkout plus a note for the agent about the PR it's continuing.
+ * Throws with a user-facing message if the PR can't be continued.
+ */
+async function checkoutForPullRequest(
+  target: PullRequestTarget,
+  userId: string,
+): Promise<{ existingBranch: ExistingBranchCheckout; prNote: string }> {
+  const { forgeRepo, number } = target;
+  const provider = getForgeProvider(forgeRepo.kind);
+  const credential = getUserForgeCredential(userId, forgeRepo.kind, forgeRepo.host);
+  let info;
+  try {
+    info = await provider.getPullRequest(forgeRepo, credential?.token ?? null, number);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Couldn't load ${provider.requestNoun} #${number}: ${msg}`);
+  }
+  if (info.fromFork) {
+    throw new Error(`${provider.requestNoun} #${number} comes from a fork, so I can't push to its branch. ` +
+      `Use \`review ${info.url}\` to review it instead.`);
+  }
+  return {
+    existingBranch: {
+      branch: info.headBranch,
+      pr: { number: info.number, url: info.url, baseBranch: info.baseBranch },
+    },
+    prNote: `(You are continuing ${provider.requestNoun} #${info.number} "${info.title}" on branch \`${info.headBranch}\`, ` +
+      `which targets \`${info.baseBranch}\`: ${info.url}. Build on the changes already on the branch.)`,
+  };
+}
+
+/** Ask the user to connect their forge account; the pending request resumes once they do. */
+async function postForgeConnectPrompt(
+  client: WebClient,
+  channelId: string,
+  threadTs: string,
+  missingForge: ForgeRepo,
+): Promise<void> {
+  const label = getForgeProvider(missingForge.kind).label;
+  const prompt = `You need to connect your ${label} account (\`${missingForge.host}\`) before starting a coding session.\n` +
+    "This ensures commits and pull requests are attributed to you.";
+  await client.chat.postMessage({
+    channel: channelId,
+    thread_ts: threadTs,
+    text: prompt,
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: prompt },
+      },
+      {
+        type: "actions",
+        block_id: `${BlockPrefix.FORGE_CONNECT}${threadTs}`,
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: `Connect ${label}` },
+            action_id: Action.FORGE_CONNECT,
+            value: JSON.stringify({ threadTs, channelId, forge: missingForge.kind, host: missingForge.host }),
+            style: "primary",
+          },
+        ],
+      },
+    ],
   });
 }
 
@@ -635,9 +935,17 @@ export async function resumeCodingWithRepo(
     });
     return;
   }
-  // Don't delete yet — agent selection may still need it
+  // Don't delete yet — agent selection (or a forge connect) may still need it
   pending.repoName = repoName;
 
+  // Same forge gate as handleCodeStart, now that the repo is known
+  const repoRow = getRepo(repoName);
+  const missingForge = repoRow ? missingForgeConnection(pending.userId, repoRow) : null;
+  if (missingForge) {
+    await postForgeConnectPrompt(client, channelId, threadTs, missingForge);
+    return;
+  }
+
   await createSessionAndProceed({
     description: pending.description,
     channelId: pending.channelId,
@@ -649,30 +957,43 @@ export async function resumeCodingWithRepo(
     isThread: pending.isThread,
     botUserId: pending.botUserId,
     repoName,
+    existingBranch: pending.existingBranch,
   });
 }
 
 /**
  * Create a coding session and proceed to agent selection or coding.
- * Shared by handleCodeStart (single repo) and resumeCodingWithRepo (after repo selection).
+ * Shared by handleCodeStart (single repo), resumeCodingWithRepo (after repo
+ * selection) and the queue. Requests that can't start yet are queued.
  */
-async function createSessionAndProceed(opts: CodeStartOpts & { repoName?: string }): Promise<void> {
-  const { description, agent, channelId, userId, threadTs, client, slackCtx, files: eventFiles, isThread, botUserId, repoName } = opts;
+async function createSessionAndProceed(opts: SessionStartOpts): Promise<void> {
+  const {
+    description, agent, channelId, userId, threadTs, client, slackCtx, files: eventFiles, isThread, botUserId,
+    repoName, existingBranch,
+  } = opts;
 
-  const startMsg = await client.chat.postMessage({
-    channel: channelId,
-    thread_ts: threadTs,
-    text: "_Starting coding session... This may take 10-15 seconds while the environment initializes._",
-  });
-  const startMsgTs = startMsg.ts!;
+  if (!opts.onStarted && await queueIfBusy(opts)) return;
 
+  let startMsgTs = "";
   try {
+    const startMsg = await client.chat.postMessage({
+      channel: channelId,
+      thread_ts: threadTs,
+      text: "_Starting coding session... This may take 10-15 seconds while the environment initializes._",
+    });
+    startMsgTs = startMsg.ts!;
+
     // Enrich the description with external context (Linear tickets, etc.) in parallel
     // with session creation — enrichment uses the Q&A server, session creation starts coding server
     const [enrichedDescription, session] = await Promise.all([
-      enrichContextForCoding(description),
-      createCodingSession(threadTs, userId, channelId, agent ?? "code", description, repoName),
+      enrichContextForCoding(description, { channelId, userId, threadKey: threadTs }),
+      createCodingSession(threadTs, userId, channelId, agent ?? "code", description, repoName, { existingBranch }),
     ]);
+    opts.onStarted?.();
+
+    const branchLabel = existingBranch
+      ? `\`${session.branch}\` (existing${existingBranch.pr ? ` — ${existingBranch.pr.url}` : ""})`
+      : `\`${session.branch}\``;
 
     // If no agent was explicitly specified, check for repo-provided agents
     if (!agent) {
@@ -684,7 +1005,7 @@ async function createSessionAndProceed(opts: CodeStartOpts & { repoName?: string
         // Store/update pending request and show agent selection
         pendingCodingRequests.set(threadTs, {
           description: enrichedDescription, channelId, userId, threadTs, client, slackCtx,
-          files: eventFiles, isThread, botUserId, repoName, createdAt: Date.now(),
+          files: eventFiles, isThread, botUserId, repoName, existingBranch, createdAt: Date.now(),
         });
 
         const agentButtons: KnownBlock = {
@@ -706,7 +1027,7 @@ async function createSessionAndProceed(opts: CodeStartOpts & { repoName?: string
           ],
         } as KnownBlock;
 
-        const selectText = `*Coding session ready!*\nRepo: \`${session.repoName}\`\nBranch: \`${session.branch}\`\n\nSelect an agent:`;
+        const selectText = `*Coding session ready!*\nRepo: \`${session.repoName}\`\nBranch: ${branchLabel}\n\nSelect an agent:`;
         await client.chat.update({
           channel: channelId,
           ts: startMsgTs,
@@ -724,7 +1045,7 @@ async function createSessionAndProceed(opts: CodeStartOpts & { repoName?: string
     pendingCodingRequests.delete(threadTs);
     const agentLabel = session.agent !== "code" ? `\nAgent: \`${session.agent}\`` : "";
 
-    const startText = `*Coding session started!*\nRepo: \`${session.repoName}\`\nBranch: \`${session.branch}\`${agentLabel}\n\n_Processing your request..._`;
+    const startText = `*Coding session started!*\nRepo: \`${session.repoName}\`\nBranch: ${branchLabel}${agentLabel}\n\n_Processing your request..._`;
     await client.chat.update({
       channel: channelId,
       ts: startMsgTs,
@@ -747,10 +1068,278 @@ async function createSessionAndProceed(opts: CodeStartOpts & { repoName?: string
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
     console.error("[coding] Failed to start session:", err.message);
+    const text = `_Failed to start coding session: ${err.message}_`;
+    await (startMsgTs
+      ? client.chat.update({ channel: channelId, ts: startMsgTs, text })
+      : client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text })
+    ).catch((postErr) => console.error("[coding] Failed to report the start failure:", postErr));
+  } finally {
+    // The queue drain waits on this, so it must run even if Slack calls fail
+    opts.onStarted?.();
+  }
+}
+
+// ── Queue ──
+// `code` requests beyond the global or per-user session limit wait in a
+// persistent FIFO queue (admins can bump priority) and start automatically
+// when a session ends.
+
+type SessionStartOpts = CodeStartOpts & {
+  repoName?: string;
+  existingBranch?: ExistingBranchCheckout;
+  /** Set when started from the queue; called once the session exists or failed (possibly more than once). */
+  onStarted?: () => void;
+};
+
+/** What's stored in `coding_queue.request`. */
+interface QueuedCodingRequest {
+  description: string;
+  agent?: string;
+  repoName?: string;
+  existingBranch?: ExistingBranchCheckout;
+  files: SlackFile[];
+  isThread: boolean;
+  botUserId?: string;
+  slackCtx: SlackContext;
+}
+
+let queueClient: WebClient | null = null;
+let drainingQueue = false;
+
+/**
+ * Queue the request if it can't start now — no free slot, the user is at
+ * their limit, or someone queued earlier could take the slot. Returns true
+ * if it was queued (the user has been told their position).
+ */
+async function queueIfBusy(opts: SessionStartOpts): Promise<boolean> {
+  const { channelId, userId, threadTs, client } = opts;
+  const blocker = codingSlotBlocker(userId);
+  const waiting = listCodingQueue().some((r) => codingSlotBlocker(r.user_id) === null);
+  if (!blocker && !waiting) return false;
+
+  pendingCodingRequests.delete(threadTs);
+  const existing = getQueuedCodingRequestForThread(threadTs);
+  if (existing) {
+    await client.chat.postMessage({
+      channel: channelId,
+      thread_ts: threadTs,
+      text: `This thread is already queued (position ${getCodingQueuePosition(existing.id)}). \`code queue cancel\` to leave the queue.`,
+    });
+    return true;
+  }
+
+  const request: QueuedCodingRequest = {
+    description: opts.description,
+    agent: opts.agent,
+    repoName: opts.repoName,
+    existingBranch: opts.existingBranch,
+    files: opts.files,
+    isThread: opts.isThread,
+    botUserId: opts.botUserId,
+    slackCtx: opts.slackCtx,
+  };
+  const id = enqueueCodingRequest({ threadKey: threadTs, channelId, userId, request: JSON.stringify(request) });
+  const reason = blocker ?? "other requests are waiting for a slot";
+  await client.chat.postMessage({
+    channel: channelId,
+    thread_ts: threadTs,
+    text: `_Queued — ${reason}._ You're *#${getCodingQueuePosition(id)}* in line; ` +
+      "the session will start here automatically when a slot frees up. `code queue` shows the queue, `code queue cancel` leaves it.",
+  });
+  console.log(`[coding] Queued request ${id} for ${threadTs} (${reason})`);
+  return true;
+}
+
+/**
+ * Start queued requests while slots are free, in priority then arrival order.
+ * Entries whose user is at their per-user limit are skipped, not blocking
+ * the ones behind them.
+ */
+async function drainCodingQueue(): Promise<void> {
+  const client = queueClient;
+  if (!client || drainingQueue) return;
+  drainingQueue = true;
+  try {
+    for (;;) {
+      const next = listCodingQueue().find((r) => codingSlotBlocker(r.user_id) === null);
+      if (!next) break;
+      removeQueuedCodingRequest(next.id);
+
+      let request: QueuedCodingRequest;
+      try {
+        request = JSON.parse(next.request) as QueuedCodingRequest;
+      } catch (err) {
+        console.error(`[coding] Dropping unreadable queue entry ${next.id}:`, err);
+        continue;
+      }
+      console.log(`[coding] Starting queued request ${next.id} for ${next.thread_key}`);
+      await client.chat.postMessage({
+        channel: next.channel_id,
+        thread_ts: next.thread_key,
+        text: `<@${next.user_id}> a coding slot freed up — starting your session.`,
+      }).catch(() => {});
+
+      // Wait until the session exists so the next iteration sees the slot as taken
+      await new Promise<void>((resolve) => {
+        createSessionAndProceed({
+          ...request,
+          channelId: next.channel_id,
+          userId: next.user_id,
+          threadTs: next.thread_key,
+          client,
+          onStarted: resolve,
+        }).catch((err) => {
+          console.error(`[coding] Queued request ${next.id} failed:`, err);
+          resolve();
+        });
+      });
+    }
+  } finally {
+    drainingQueue = false;
+  }
+}
+
+/**
+ * Start processing the coding queue: requests queued before a restart start
+ * now if slots are free, later ones whenever a session ends.
+ */
+export function startCodingQueue(client: WebClient): void {
+  queueClient = client;
+  onCodingSlotFreed(kickCodingQueue);
+  kickCodingQueue();
+}
+
+/** Start whatever queued requests can run now (e.g. after a limit was raised). */
+export function kickCodingQueue(): void {
+  drainCodingQueue().catch((err) => console.error("[coding] Queue drain failed:", err));
+}
+
+/**
+ * Tell each coding thread whether its session survived a bot restart.
+ */
+export async function announceRestoredSessions(
+  client: WebClient,
+  results: RestoredCodingSession[],
+): Promise<void> {
+  for (const { row, restored, historyLost, checkpointRef } of results) {
+    let text: string;
+    if (restored) {
+      text = `_♻️ Session restored after a restart — \`${row.repo_name}\` on branch \`${row.branch}\`. ` +
+        "Your changes are intact. If I was in the middle of something, send your last message again._";
+      if (historyLost) {
+        text += "\n_I couldn't recover our earlier conversation, so give me a quick recap of where we were._";
+      }
+    } else if (row.status === SessionStatus.REVIEWING) {
+      text = "_⚠️ This PR review was interrupted by a restart. Send `review <PR URL or number>` to run it again._";
+    } else {
+      text = "_⚠️ This coding session couldn't be restored after a restart and has been closed._";
+      if (checkpointRef) {
+        text += `\n_Uncommitted changes were saved to \`${checkpointRef}\` in the \`${row.repo_name}\` repo ` +
+          `(on top of branch \`${row.branch}\`)._`;
+      }
+    }
+
+    try {
+      await client.chat.postMessage({
+        channel: row.channel_id,
+        thread_ts: row.thread_key,
+        text,
+        ...(restored && row.status === SessionStatus.ACTIVE && { blocks: [
+          { type: "section", text: { type: "mrkdwn", text } } as KnownBlock,
+          codingActionButtons(row.thread_key),
+        ] }),
+      });
+    } catch (err) {
+      console.error(`[coding] Failed to announce restore for ${row.thread_key}:`, err);
+    }
+  }
+}
+
+// ── Idle sessions and pause ──
+
+function idleWarningButtons(threadTs: string): KnownBlock {
+  return {
+    type: "actions",
+    block_id: `${BlockPrefix.CODING_IDLE}${threadTs}_${Date.now()}`,
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: "Keep alive" },
+        action_id: Action.CODING_KEEP_ALIVE,
+        value: threadTs,
+        style: "primary",
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: "Create PR now" },
+        action_id: Action.CODING_PR,
+        value: threadTs,
+      },
+    ],
+  } as KnownBlock;
+}
+
+/**
+ * Reaper hooks that tell the thread before an idle session is closed, and
+ * when it has been.
+ */
+export function idleSessionNotifier(client: WebClient): SessionReaperHooks {
+  return {
+    onIdleWarning: async (row: CodingSessionRow, minutesLeft: number) => {
+      const text = `<@${row.user_id}> this coding session has been idle for a while and will be closed in about ` +
+        `${minutesLeft} minute${minutesLeft === 1 ? "" : "s"}. Keep it alive, open a PR with the changes so far, ` +
+        "or `pause` it to keep the worktree without holding a slot.";
+      await client.chat.postMessage({
+        channel: row.channel_id,
+        thread_ts: row.thread_key,
+        text,
+        blocks: [
+          { type: "section", text: { type: "mrkdwn", text } },
+          idleWarningButtons(row.thread_key),
+        ],
+      });
+    },
+    onReaped: async (row: CodingSessionRow, idleMinutes: number) => {
+      await stripPriorCodingButtons(client, row.channel_id, row.thread_key);
+      const reason = row.status === SessionStatus.PAUSED
+        ? `after being paused for ${Math.round(idleMinutes / (24 * 60))} days`
+        : `after ${idleMinutes} minutes without activity`;
+      await client.chat.postMessage({
+        channel: row.channel_id,
+        thread_ts: row.thread_key,
+        text: `_Coding session closed ${reason}. ` +
+          `Checkpoints that weren't pushed with \`pr\` stay on the bot's local \`${row.branch}\` branch._`,
+      });
+    },
+  };
+}
+
+/**
+ * Wake a paused session before handling a message in its thread.
+ * Returns false (after telling the thread why) if it couldn't be resumed.
+ */
+export async function resumePausedSession(threadTs: string, channelId: string, client: WebClient): Promise<boolean> {
+  const row = getCodingSession(threadTs);
+  if (row?.status !== SessionStatus.PAUSED) return true;
+
+  const msg = await client.chat.postMessage({
+    channel: channelId,
+    thread_ts: threadTs,
+    text: "_Resuming the paused coding session..._",
+  });
+  try {
+    const { historyLost } = await resumeCodingSession(threadTs);
+    const minutes = codingIdleTimeoutMinutes(row);
     await client.chat.update({
       channel: channelId,
-      ts: startMsgTs,
-      text: `_Failed to start coding session: ${err.message}_`,
+      ts: msg.ts!,
+      text: `Coding session resumed. It closes after ${minutes} idle minutes.` +
+        (historyLost ? "\n_The agent's earlier conversation couldn't be recovered — it starts fresh, but the code is intact._" : ""),
     });
+    return true;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await client.chat.update({ channel: channelId, ts: msg.ts!, text: `_Couldn't resume the session: ${message}_` });
+    return false;
   }
 }
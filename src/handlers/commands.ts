@@ -0,0 +1,148 @@
+import type { WebClient } from "@slack/web-api";
+import { hasRole } from "../sessions.js";
+import { handleConfigCommand } from "./config-commands.js";
+import { handleToolCommand, advanceToolAdd } from "./tool-commands.js";
+import { handleRepoCommand } from "./repo-commands.js";
+import { handleRoleCommand } from "./role-commands.js";
+import { handleForgeCommand } from "./forge-commands.js";
+import { handleMemoryCommand, handleMemoryAdminCommand } from "./memory-commands.js";
+import { handleKnowledgeCommand } from "./knowledge-commands.js";
+import { handleHelpCommand } from "./help-commands.js";
+import { handleUsageCommand } from "./usage-commands.js";
+import { handleFeedbackCommand } from "./feedback-commands.js";
+import { handleQueueCommand } from "./queue-commands.js";
+
+// ── Shared command registry ──
+// Used by both the @mention/DM pipeline (processIncoming) and the /slackode
+// slash command, so every command is parsed and permission-checked in one place.
+
+export interface CommandContext {
+  text: string;
+  channelId: string;
+  /** Display name for the channel ("DM" for direct messages). */
+  channelName: string;
+  userId: string;
+  /** True when nobody else can see the command text (DMs, slash commands). */
+  isPrivate: boolean;
+  /** Thread to reply in; undefined for slash commands. */
+  threadTs?: string;
+  /** ts of the user's message, so handlers can delete it (e.g. a pasted PAT). */
+  eventTs?: string;
+  client: WebClient;
+  /** Post an interim status message while a slow command runs. */
+  notify: (text: string) => Promise<void>;
+}
+
+interface CommandSpec {
+  /** Which text this entry handles. */
+  pattern: RegExp;
+  /** Role required to run it. Omit for commands open to everyone. */
+  role?: "admin" | "developer";
+  /** Sub-commands exempt from `role` (e.g. `tool list`). */
+  openTo?: RegExp;
+  /**
+   * Returns the reply, "" if handled with no reply, or null/undefined to fall
+   * through to the next entry (and eventually to Q&A).
+   */
+  run: (ctx: CommandContext) => Promise<string | null | undefined> | string | null | undefined;
+}
+
+export type CommandResult =
+  | { kind: "reply"; text: string }
+  | { kind: "denied"; text: string };
+
+export function accessDeniedText(requiredRole: string): string {
+  return `This command requires *${requiredRole}* permissions. Ask an admin to run \`role add @you ${requiredRole}\`.`;
+}
+
+/** Entries are tried in order; the first one that returns a reply wins. */
+const COMMANDS: CommandSpec[] = [
+  {
+    pattern: /^(help\b|commands$|\?$)/i,
+    run: (ctx) => handleHelpCommand(ctx.text, ctx.userId),
+  },
+  {
+    pattern: /^tool\s+/i,
+    role: "admin",
+    openTo: /^tool\s+list$/i,
+    run: (ctx) => handleToolCommand(ctx.text, ctx.channelId, ctx.userId, ctx.notify),
+  },
+  {
+    // Answers to an in-progress `tool add` conversation (any text). Only
+    // channel messages and DMs answer it — not `/slackode` text that matched no command.
+    pattern: /[\s\S]/,
+    run: (ctx) => ctx.threadTs && hasRole(ctx.userId, "admin") ? advanceToolAdd(ctx.channelId, ctx.userId, ctx.text) : null,
+  },
+  {
+    pattern: /^config\s+/i,
+    run: (ctx) => handleConfigCommand(ctx.text, ctx.channelId, ctx.channelName, ctx.userId),
+  },
+  {
+    pattern: /^repo\s+/i,
+    role: "admin",
+    run: (ctx) => handleRepoCommand(ctx.text, ctx.notify),
+  },
+  {
+    pattern: /^role\s+/i,
+    role: "admin",
+    openTo: /^role\s+list$/i,
+    run: (ctx) => handleRoleCommand(ctx.text, ctx.userId),
+  },
+  {
+    pattern: /^(forge|github)\s+/i,
+    run: (ctx) => handleForgeCommand(
+      ctx.text, ctx.channelId, ctx.isPrivate, ctx.userId, ctx.threadTs, ctx.client, ctx.eventTs,
+    ),
+  },
+  {
+    pattern: /^(memories\s+(conflicts|resolve|consolidate|stale|review)|memory\s+(pin|unpin))\b/i,
+    role: "admin",
+    run: (ctx) => handleMemoryAdminCommand(ctx.text, ctx.userId, ctx.channelId, ctx.client),
+  },
+  {
+    pattern: /^(remember|recall|forget|memories|memory\s+(edit|history))\b/i,
+    run: (ctx) => handleMemoryCommand(ctx.text, ctx.channelId, ctx.userId, ctx.threadTs, ctx.client),
+  },
+  {
+    pattern: /^knowledge\s+/i,
+    role: "admin",
+    openTo: /^knowledge\s+(list|view|history|diff)\b/i,
+    run: (ctx) => handleKnowledgeCommand(ctx.text, ctx.channelId, ctx.userId),
+  },
+  {
+    pattern: /^usage\s+(report|budgets?)\b/i,
+    role: "admin",
+    run: (ctx) => handleUsageCommand(ctx.text, ctx.channelId, ctx.userId),
+  },
+  {
+    pattern: /^code\s+queue\s+(priority|limits?)\b/i,
+    role: "admin",
+    run: (ctx) => handleQueueCommand(ctx.text, ctx.userId, ctx.threadTs, ctx.client),
+  },
+  {
+    pattern: /^code\s+queue\b/i,
+    role: "developer",
+    run: (ctx) => handleQueueCommand(ctx.text, ctx.userId, ctx.threadTs, ctx.client),
+  },
+  {
+    pattern: /^feedback\s+report\b/i,
+    role: "admin",
+    run: (ctx) => handleFeedbackCommand(ctx.text),
+  },
+];
+
+/**
+ * Run the first command that handles `ctx.text`.
+ * Returns null if no command matched, so the caller can treat the text as a question.
+ */
+export async function dispatchCommand(ctx: CommandContext): Promise<CommandResult | null> {
+  for (const spec of COMMANDS) {
+    if (!spec.pattern.test(ctx.text)) continue;
+    if (spec.role && !spec.openTo?.test(ctx.text) && !hasRole(ctx.userId, spec.role)) {
+      return { kind: "denied", text: accessDeniedText(spec.role) };
+    }
+    const reply = await spec.run(ctx);
+    if (reply !== null && reply !== undefined) return { kind: "reply", text: reply };
+  }
+  return null;
+}
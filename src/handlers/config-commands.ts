@@ -4,8 +4,11 @@ import {
   getChannelConfig, setChannelConfig, clearChannelConfig,
   getChannelRepo, setChannelRepo, clearChannelRepo, listChannelRepos,
   getRepo, getDefaultRepo, getAllRepos,
+  getChannelDigest, setChannelDigest, clearChannelDigest,
+  getChannelIdleTimeout, setChannelIdleTimeout, clearChannelIdleTimeout,
 } from "../sessions.js";
 import { getKnownTools, MAX_CUSTOM_PROMPT_LENGTH } from "../tools.js";
+import { parseDigestSchedule, describeDigestSchedule, nextDigestRun } from "../digest.js";
 
 /**
  * Handle config commands like:
@@ -21,6 +24,12 @@ import { getKnownTools, MAX_CUSTOM_PROMPT_LENGTH } from "../tools.js";
  *   config set prompt <text>
  *   config get prompt
  *   config clear prompt
+ *   config set digest daily <HH:MM> | weekly <day> <HH:MM> [time zone]
+ *   config get digest
+ *   config clear digest
+ *   config set idle-timeout <minutes>
+ *   config get idle-timeout
+ *   config clear idle-timeout
  *
  * Returns the reply text if it was a config command, or null if not.
  * Shared between mention and DM handlers.
@@ -212,6 +221,65 @@ export async function handleConfigCommand(
     return `*Available repos:*\n${lines.join("\n")}`;
   }
 
+  // --- Digest commands ---
+
+  // config set digest daily 09:00 | weekly mon 09:00
+  const setDigestMatch = subcommand.match(/^set\s+digest\s+(.+)$/i);
+  if (setDigestMatch) {
+    const schedule = parseDigestSchedule(setDigestMatch[1]);
+    if (typeof schedule === "string") return schedule;
+    const nextRunAt = nextDigestRun(schedule);
+    setChannelDigest({ channelId, channelName, ...schedule, nextRunAt, configuredBy: userId });
+    const repoName = getChannelRepo(channelId) ?? getDefaultRepo()?.name;
+    return `Digest scheduled ${describeDigestSchedule(schedule)}` +
+      `${repoName ? ` for \`${repoName}\`` : ""}. First one: <!date^${nextRunAt}^{date_short_pretty} at {time}|soon>.`;
+  }
+
+  // config get digest
+  if (/^get\s+digest$/i.test(subcommand)) {
+    const digest = getChannelDigest(channelId);
+    if (!digest) return "No digest scheduled for this channel.";
+    const schedule = {
+      frequency: digest.frequency, dayOfWeek: digest.day_of_week, timeOfDay: digest.time_of_day, timezone: digest.timezone,
+    };
+    const last = digest.last_run_at
+      ? ` Last covered \`${digest.last_sha?.slice(0, 7)}\` (<!date^${digest.last_run_at}^{date_short_pretty}|earlier>).`
+      : "";
+    return `Digest runs ${describeDigestSchedule(schedule)}, set by <@${digest.configured_by}>. ` +
+      `Next: <!date^${digest.next_run_at}^{date_short_pretty} at {time}|soon>.${last}`;
+  }
+
+  // config clear digest
+  if (/^clear\s+digest$/i.test(subcommand)) {
+    return clearChannelDigest(channelId) ? "Digest cancelled." : "No digest was scheduled.";
+  }
+
+  // --- Coding session idle timeout ---
+
+  // config set idle-timeout <minutes>
+  const setIdleMatch = subcommand.match(/^set\s+idle-timeout\s+(\d+)(?:m|min|minutes)?$/i);
+  if (setIdleMatch) {
+    const minutes = parseInt(setIdleMatch[1], 10);
+    if (minutes < 5) return "The idle timeout must be at least 5 minutes.";
+    setChannelIdleTimeout(channelId, minutes, userId);
+    return `Coding sessions started here now close after ${minutes} idle minutes (with a warning shortly before).`;
+  }
+
+  // config get idle-timeout
+  if (/^get\s+idle-timeout$/i.test(subcommand)) {
+    const minutes = getChannelIdleTimeout(channelId);
+    return minutes !== undefined
+      ? `Coding sessions here close after ${minutes} idle minutes.`
+      : "No idle timeout set for this channel — the repo's (or the default) applies.";
+  }
+
+  // config clear idle-timeout
+  if (/^clear\s+idle-timeout$/i.test(subcommand)) {
+    return clearChannelIdleTimeout(channelId)
+      ? "Idle timeout cleared. The repo's (or the default) applies."
+      : "No idle timeout was set for this channel.";
+  }
+
   return [
     "Unrecognized config command. Available config commands:",
     "• `config set agent <name>`",
@@ -231,5 +299,11 @@ export async function handleConfigCommand(
     "• `config clear repo`",
     "• `config list repos`",
     "• `config available repos`",
+    "• `config set digest daily <HH:MM> [time zone]` / `config set digest weekly <day> <HH:MM> [time zone]`",
+    "• `config get digest`",
+    "• `config clear digest`",
+    "• `config set idle-timeout <minutes>` — close idle coding sessions after this long",
+    "• `config get idle-timeout`",
+    "• `config clear idle-timeout`",
   ].join("\n");
 }
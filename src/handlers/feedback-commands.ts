@@ -0,0 +1,125 @@
+/**
+ * Answer feedback for Q&A responses:
+ *   👍 / 👎 / "Wrong answer" buttons appended to every Q&A answer
+ *   feedback report [--channel|--repo] [--since 30d]  → accuracy trends (admin-only)
+ *
+ * A "Wrong answer" rating carries a correction, which is saved as a memory
+ * so future answers in the same repo (or channel) can use it.
+ */
+import type { KnownBlock } from "@slack/types";
+import {
+  addMemory, getQaAnswer, saveAnswerFeedback, getFeedbackReport,
+  type FeedbackRating, type FeedbackGroupBy, type FeedbackReportRow,
+} from "../sessions.js";
+import { Action, BlockPrefix } from "../constants.js";
+import { parseDuration } from "../utils/duration.js";
+
+export function feedbackButtons(answerId: number): KnownBlock {
+  const value = String(answerId);
+  return {
+    type: "actions",
+    block_id: `${BlockPrefix.FEEDBACK}${answerId}`,
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: "👍", emoji: true },
+        action_id: Action.FEEDBACK_UP,
+        value,
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: "👎", emoji: true },
+        action_id: Action.FEEDBACK_DOWN,
+        value,
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: "Wrong answer" },
+        action_id: Action.FEEDBACK_WRONG,
+        value,
+      },
+    ],
+  } as KnownBlock;
+}
+
+/**
+ * Record a 👍 or 👎 click. Returns an ephemeral acknowledgement for the user.
+ */
+export function recordAnswerRating(answerId: number, userId: string, rating: Exclude<FeedbackRating, "wrong">): string {
+  if (!getQaAnswer(answerId)) return "_That answer is no longer tracked, so feedback can't be recorded._";
+  saveAnswerFeedback(answerId, userId, rating);
+  return rating === "up"
+    ? "_Thanks — glad that helped._"
+    : "_Thanks for the feedback. Use *Wrong answer* if you can tell me what the right answer is._";
+}
+
+/**
+ * Save a "wrong answer" correction: stored as a repo-scoped memory (or channel-scoped
+ * if the answer had no repo) and linked to the rating. Returns the memory ID.
+ */
+export function saveAnswerCorrection(answerId: number, userId: string, correction: string): number {
+  const answer = getQaAnswer(answerId);
+  if (!answer) throw new Error("That answer is no longer tracked.");
+  const provenance = { threadKey: answer.thread_key, channelId: answer.channel_id, sessionId: answer.session_id, userId };
+  const memoryId = answer.repo_name
+    ? addMemory(correction, "repo", answer.repo_name, "correction", userId, provenance)
+    : addMemory(correction, "channel", answer.channel_id, "correction", userId, provenance);
+  saveAnswerFeedback(answerId, userId, "wrong", correction, memoryId);
+  return memoryId;
+}
+
+function accuracy(r: Pick<FeedbackReportRow, "up" | "total">): number {
+  return r.total > 0 ? r.up / r.total : 0;
+}
+
+function formatGroupKey(groupBy: FeedbackGroupBy, key: string | null): string {
+  if (!key) return groupBy === "repo" ? "_(no repo)_" : "_(unknown)_";
+  return groupBy === "channel" ? `<#${key}>` : `\`${key}\``;
+}
+
+function formatTrend(current: FeedbackReportRow, previous: FeedbackReportRow | undefined): string {
+  if (!previous || previous.total === 0) return "no prior data";
+  const delta = Math.round((accuracy(current) - accuracy(previous)) * 100);
+  if (delta === 0) return "→ flat";
+  return delta > 0 ? `↑ ${delta} pts` : `↓ ${-delta} pts`;
+}
+
+/**
+ * Handle `feedback report` (admin-only; permission is checked by the caller).
+ * Compares accuracy in the window against the window before it.
+ */
+export function handleFeedbackCommand(command: string): string | null {
+  const match = command.match(/^feedback\s+report(?:\s+(.*))?$/is);
+  if (!match) return null;
+
+  const args = (match[1] ?? "").trim();
+  const groupBy: FeedbackGroupBy = /(^|\s)--repo\b/i.test(args) ? "repo" : "channel";
+  const sinceLabel = (args.match(/--since\s+(\S+)/i)?.[1] ?? "30d").toLowerCase();
+  const window = parseDuration(sinceLabel);
+  if (window === null) return "Invalid `--since` value. Use a duration like `24h`, `7d`, or `4w`.";
+
+  const now = Math.floor(Date.now() / 1000);
+  const current = getFeedbackReport(groupBy, now - window, now + 1);
+  if (current.length === 0) return `No answer feedback recorded in the last ${sinceLabel}.`;
+  const previous = new Map(
+    getFeedbackReport(groupBy, now - 2 * window, now - window).map((r) => [r.group_key, r]),
+  );
+
+  const lines = current.map((r) => {
+    const pct = Math.round(accuracy(r) * 100);
+    return `• ${formatGroupKey(groupBy, r.group_key)} — ${pct}% helpful ` +
+      `(👍 ${r.up} / 👎 ${r.down} / wrong ${r.wrong}), ${formatTrend(r, previous.get(r.group_key))}`;
+  });
+
+  const totals = current.reduce(
+    (acc, r) => ({ up: acc.up + r.up, total: acc.total + r.total }),
+    { up: 0, total: 0 },
+  );
+
+  return [
+    `*Answer feedback by ${groupBy} (last ${sinceLabel}, trend vs. the ${sinceLabel} before):*`,
+    ...lines,
+    "",
+    `_Overall: ${Math.round(accuracy(totals) * 100)}% helpful across ${totals.total} ratings_`,
+  ].join("\n");
+}
@@ -0,0 +1,143 @@
+import type { WebClient } from "@slack/web-api";
+import { encrypt } from "../crypto.js";
+import {
+  saveUserForgeToken, listUserForgeTokens, deleteUserForgeTokens,
+} from "../sessions.js";
+import {
+  getForgeProvider, isForgeKind, FORGE_KINDS,
+  type ForgeKind, type ForgeIdentity,
+} from "../forge.js";
+
+/**
+ * Validate a forge token, fetch the user's identity, encrypt, and store.
+ * Throws on invalid token or API errors.
+ * Returns the identity commits and PRs will be attributed to.
+ */
+export async function validateAndStoreForgeToken(
+  userId: string,
+  kind: ForgeKind,
+  host: string,
+  token: string,
+): Promise<ForgeIdentity> {
+  const identity = await getForgeProvider(kind).validateToken(host, token);
+  const enc = encrypt(token);
+  saveUserForgeToken(userId, kind, host, enc.ciphertext, enc.iv, enc.tag, identity.username, identity.name, identity.email);
+  return identity;
+}
+
+export function forgeConnectedText(kind: ForgeKind, host: string, identity: ForgeIdentity): string {
+  const provider = getForgeProvider(kind);
+  return `${provider.label} (\`${host}\`) connected! Commits and ${provider.requestNoun}s will be attributed to ` +
+    `*${identity.name}* (${identity.username}, ${identity.email}).`;
+}
+
+function connectUsage(): string {
+  return [
+    "Usage: `forge connect <forge> [host] <token>`",
+    `Forges: ${FORGE_KINDS.map((k) => `\`${k}\``).join(", ")}. ` +
+      "The host defaults to github.com / gitlab.com / bitbucket.org; Gitea always needs one.",
+    "",
+    ...FORGE_KINDS.map((k) => {
+      const provider = getForgeProvider(k);
+      return `• *${provider.label}*: ${provider.tokenHelp(provider.defaultHost ?? "<your-gitea-host>")}`;
+    }),
+  ].join("\n");
+}
+
+/** Normalize a host argument: strip Slack link markup, scheme and trailing slashes. */
+function normalizeHost(raw: string): string {
+  return raw
+    .replace(/^<([^|>]+)(?:\|[^>]*)?>$/, "$1")
+    .replace(/^https?:\/\//i, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+}
+
+/**
+ * Handle `forge connect|disconnect|status` (and the older `github ...` form,
+ * which is shorthand for the GitHub forge).
+ * Returns a reply string if the command was handled, or undefined if not a forge command.
+ *
+ * `isPrivate` is true when nobody else can see the command text (DMs and slash
+ * commands); `connect` refuses to accept a token anywhere else.
+ */
+export async function handleForgeCommand(
+  text: string,
+  channelId: string,
+  isPrivate: boolean,
+  userId: string,
+  threadTs: string | undefined,
+  client: WebClient,
+  eventTs?: string,
+): Promise<string | undefined> {
+  const match = text.match(/^(forge|github)\s+(connect|disconnect|status)(?:\s+([\s\S]*))?$/i);
+  if (!match) return undefined;
+
+  const isGithubAlias = match[1].toLowerCase() === "github";
+  const subcommand = match[2].toLowerCase();
+  const args = (match[3]?.trim() ?? "").split(/\s+/).filter(Boolean);
+  if (isGithubAlias) args.unshift("github");
+
+  if (subcommand === "connect") {
+    if (!isPrivate) {
+      // Post ephemeral so only the user sees it
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: userId,
+        thread_ts: threadTs,
+        text: "For security, please DM me `forge connect <forge> [host] <token>` (or use `/slackode forge connect ...`) instead.",
+      });
+      return ""; // Return empty string to indicate handled (caller won't post again)
+    }
+
+    const [kindArg, ...rest] = args;
+    const kind = kindArg?.toLowerCase();
+    if (!kind || !isForgeKind(kind) || rest.length === 0 || rest.length > 2) {
+      return connectUsage();
+    }
+    const provider = getForgeProvider(kind);
+    const token = rest[rest.length - 1];
+    const host = rest.length === 2 ? normalizeHost(rest[0]) : provider.defaultHost;
+    if (!host) {
+      return `${provider.label} needs a host: \`forge connect ${kind} <host> <token>\`.`;
+    }
+
+    try {
+      const identity = await validateAndStoreForgeToken(userId, kind, host, token);
+      // Delete the DM containing the plaintext token for security
+      if (eventTs) {
+        try { await client.chat.delete({ channel: channelId, ts: eventTs }); } catch { /* best effort */ }
+      }
+      return forgeConnectedText(kind, host, identity);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return `Failed to connect ${provider.label}: ${msg}`;
+    }
+  }
+
+  if (subcommand === "disconnect") {
+    const [kindArg, hostArg] = args;
+    const kind = kindArg?.toLowerCase();
+    if (kind && !isForgeKind(kind)) {
+      return `Unknown forge \`${kindArg}\`. Forges: ${FORGE_KINDS.map((k) => `\`${k}\``).join(", ")}.`;
+    }
+    const removed = deleteUserForgeTokens(userId, kind, hostArg ? normalizeHost(hostArg) : undefined);
+    if (removed === 0) return "No matching forge connection found.";
+    return `Disconnected ${removed} forge account${removed === 1 ? "" : "s"}. ` +
+      "You'll need to reconnect before starting a coding session on those repos.";
+  }
+
+  if (subcommand === "status") {
+    const rows = listUserForgeTokens(userId);
+    if (rows.length === 0) {
+      return "No forge accounts connected. Run `forge connect <forge> [host] <token>` to connect one.";
+    }
+    const lines = rows.map((r) => {
+      const label = isForgeKind(r.forge) ? getForgeProvider(r.forge).label : r.forge;
+      return `• *${label}* \`${r.host}\` — *${r.name}* (\`${r.username}\`, ${r.email})`;
+    });
+    return `*Connected forge accounts:*\n${lines.join("\n")}`;
+  }
+
+  return undefined;
+}
@@ -27,6 +27,9 @@ const FAMILIES: Family[] = [
       "• `config set tools <a,b>` / `config get tools` / `config clear tools`",
       "• `config set prompt <text>` / `config get prompt` / `config clear prompt`",
       "• `config set repo <name>` / `config get repo` / `config clear repo`",
+      "• `config set digest weekly mon 09:00` / `config set digest daily 09:00` — scheduled \"what changed\" digest",
+      "• `config set idle-timeout <minutes>` — close idle coding sessions started here after this long",
+      "• `config get digest` / `config clear digest`",
       "• `config available agents|tools|repos` — list what can be selected",
     ],
   },
@@ -41,6 +44,9 @@ const FAMILIES: Family[] = [
       "• `repo remove <name>`",
       "• `repo set-default <name>`",
       "• `repo allow-skills <name> on|off` — toggle `.claude/skills/` and `.opencode/skill[s]/`",
+      "• `repo forge <name> <github|gitlab|bitbucket|gitea|auto>` — which forge hosts the repo",
+      "• `repo verify <name> [set <step> <command> | clear <step|all>]` — install/lint/typecheck/test checks run after each coding turn",
+      "• `repo idle-timeout <name> <minutes|default>` — idle timeout for coding sessions on this repo",
       "• `repo sync` — pull latest for all repos",
     ],
   },
@@ -64,17 +70,20 @@ const FAMILIES: Family[] = [
     key: "knowledge",
     title: "Knowledge",
     visibleTo: "anyone",
-    note: "`list`, `view`, `sources` are open to all; mutations are admin-only.",
+    note: "`list`, `view`, `sources`, `history`, `diff` are open to all; mutations are admin-only.",
     blurb: "Curate the bot's shared knowledge base.",
     lines: [
       "• `knowledge list` — show all entries",
-      "• `knowledge view <id>` — show one entry",
+      "• `knowledge view <id>` — show one entry (`<id>@<offset>` shows one section)",
       "• `knowledge sources` — show source attribution",
       "• `knowledge add <title>: <body>` — create",
       "• `knowledge update <id>: <body>` — replace",
       "• `knowledge remove <id>`",
+      "• `knowledge history <id>` — list revisions · `knowledge diff <id> <rev>` — compare with the current version",
+      "• `knowledge revert <id> <rev>` — restore a revision (also brings back removed entries)",
       "• `knowledge import` — attach `.md` files in the same message",
-      "• `knowledge sync` — re-index",
+      "• `knowledge sync --repo <name> --path <dir>` — mirror a repo's docs directory",
+      "• `knowledge sync` — re-sync now · `knowledge sync list` · `knowledge sync remove <id>`",
     ],
   },
   {
@@ -90,15 +99,16 @@ const FAMILIES: Family[] = [
     ],
   },
   {
-    key: "github",
-    title: "GitHub PAT",
+    key: "forge",
+    title: "Forge accounts",
     visibleTo: "anyone",
-    note: "DM only. Each user manages their own PAT.",
-    blurb: "Connect a personal-access token for coding sessions.",
+    note: "DM or `/slackode` only. Each user manages their own tokens.",
+    blurb: "Connect GitHub, GitLab, Bitbucket or Gitea tokens for coding sessions.",
     lines: [
-      "• `github connect <pat>` — store an encrypted PAT",
-      "• `github status` — show whether you have a PAT and its scopes",
-      "• `github disconnect` — remove your PAT",
+      "• `forge connect <github|gitlab|bitbucket|gitea> [host] <token>` — store an encrypted token",
+      "• `forge status` — show your connected accounts",
+      "• `forge disconnect [forge] [host]` — remove tokens",
+      "• `github connect <pat>` — shorthand for `forge connect github <pat>`",
     ],
   },
   {
@@ -110,9 +120,17 @@ const FAMILIES: Family[] = [
       "• `remember <text>` — save to current scope",
       "• `remember --channel <text>` — save to channel scope",
       "• `remember --global <text>` — save globally",
-      "• `recall <query>` — search saved memories",
+      "• `remember --ttl 14d <text>` — save a temporary fact that expires (h/d/w)",
+      "• `recall <query>` — search saved memories (each links to the thread it came from)",
+      "• `recall --keyword <query>` — exact-term search (e.g. an error code); `--semantic` for meaning only",
       "• `memories` — list everything you've saved",
+      "• `memory edit #<id>: <text>` — replace one's text",
+      "• `memory history #<id>` — earlier and later versions of a memory",
       "• `forget #<id>` — delete one",
+      "• `memories conflicts` / `memories resolve <n> supersede|keep` — (admin) review possibly contradicting memories",
+      "• `memories consolidate` — (admin) merge overlapping memories now",
+      "• `memory pin #<id>` / `memory unpin #<id>` — (admin) always include a memory in new conversations",
+      "• `memories stale` / `memories review here|off|now` — (admin) find unused memories; periodic Keep/Delete review",
     ],
   },
   {
@@ -123,14 +141,52 @@ const FAMILIES: Family[] = [
     lines: [
       "• `code <description>` — start a session in the current thread",
       "• `code --agent <name> <description>` — pick a specific agent",
+      "• `code --branch <name> <description>` — continue an existing branch",
+      "• `code --pr <PR URL or number> <description>` — push follow-up commits to an existing PR",
+      "• `review <PR URL or number>` — review an existing PR in the current thread",
+      "• `code queue` — show requests waiting for a free session slot",
+      "• `code queue cancel [#id]` — take your request out of the queue",
+      "• `code queue priority #<id> <n>` — (admin) reorder the queue (higher starts first)",
+      "• `code queue limit @user <n|default>` / `code queue limits` — (admin) per-user session limits",
       "Inside a coding thread:",
-      "• `status` — show diff summary and session state",
+      "• `status` — show diff summary and session state, with links to each file's diff",
+      "• `diff [path]` — upload the unified diff (of one file or directory, if given)",
+      "• `show <path>` — upload a file's current content",
+      "• attach a `.patch`/`.diff` — applied to the worktree with `git apply` before the agent continues",
+      "• attach files with `put this at <path>` — written to the worktree before the agent continues",
       "• `agents` — list available coding agents",
-      "• `pr [title]` — open a PR with the current changes",
-      "• `done [title]` — finish + open PR + close session",
+      "• `history` — list the session's per-turn checkpoint commits",
+      "• `undo` — roll back the last turn",
+      "• `pr [--squash|--keep-history] [title]` — open a PR with the current changes (or push + comment on the existing one); turns are squashed unless `--keep-history`",
+      "• `done [--squash|--keep-history] [title]` — finish + open PR + close session",
+      "• `pause` — stop the agent's server but keep the worktree; any message resumes it",
       "• `cancel` — discard the worktree",
     ],
   },
+  {
+    key: "usage",
+    title: "Usage & budgets",
+    visibleTo: "admin",
+    blurb: "Report LLM token/cost usage and cap spend.",
+    lines: [
+      "• `usage report` — usage by channel over the last 7 days",
+      "• `usage report --user|--repo --since 30d` — group differently, change the window",
+      "• `usage budget list` — show budgets and current spend",
+      "• `usage budget set --global|--channel [#channel]|--user @user daily|monthly <limit> [tokens|usd]`",
+      "• `usage budget clear --global|--channel [#channel]|--user @user daily|monthly`",
+    ],
+  },
+  {
+    key: "feedback",
+    title: "Answer feedback",
+    visibleTo: "admin",
+    note: "Anyone can rate answers with the 👍 / 👎 / Wrong answer buttons.",
+    blurb: "Track how often answers are helpful.",
+    lines: [
+      "• `feedback report` — helpful rate by channel over the last 30 days, with trend",
+      "• `feedback report --repo --since 7d` — group by repo, change the window",
+    ],
+  },
 ];
 
 function userCanSee(userId: string, role: Role): boolean {
@@ -201,3 +257,26 @@ export function handleHelpCommand(question: string, userId: string): string | nu
 
   return null;
 }
+
+/**
+ * Sub-command hints for partial or unrecognized input — e.g. `rep` or `repo a`
+ * lists the matching `repo ...` commands. Only families the user can see are
+ * searched. Returns null if nothing matches.
+ */
+export function commandHints(partial: string, userId: string): string | null {
+  const prefix = partial.trim().toLowerCase();
+  if (!prefix) return null;
+  const firstWord = prefix.split(/\s+/)[0];
+
+  const visible = FAMILIES.filter((f) => userCanSee(userId, f.visibleTo));
+  const startsWithPrefix = (line: string) =>
+    Array.from(line.matchAll(/`([^`]+)`/g), (m) => m[1].toLowerCase()).some((c) => c.startsWith(prefix));
+
+  // Prefer lines whose command starts with the input; fall back to the whole family
+  let matches = visible.flatMap((f) => f.lines.filter(startsWithPrefix));
+  if (matches.length === 0) {
+    matches = visible.filter((f) => f.key.startsWith(firstWord)).flatMap((f) => f.lines);
+  }
+  if (matches.length === 0) return null;
+  return [`*Commands matching \`${partial.trim()}\`:*`, ...matches].join("\n");
+}
@@ -0,0 +1,680 @@
+import type { WebClient } from "@slack/web-api";
+import type { KnownBlock, ModalView, PlainTextOption } from "@slack/types";
+import type { ViewOutput } from "@slack/bolt";
+import {
+  hasRole, setRole, removeRole, listPermissions,
+  getAllTools, getToolFromDb, upsertTool, setToolEnabled, setToolKey, getToolKey,
+  getAllRepos, setRepoEnabled, setRepoAllowSkills, setDefaultRepo, getRepo,
+  listChannelRepos, listChannelTools, listChannelAgents,
+  getChannelRepo, setChannelRepo, clearChannelRepo,
+  getChannelTools, setChannelTools, clearChannelTools,
+  getChannelAgent, setChannelAgent, clearChannelAgent,
+  getActiveCodingSessions,
+  listOpenMemoryConflicts, getMemoryConflict, getMemory, supersedeMemories, keepConflictingMemories,
+  type ToolRow,
+} from "../sessions.js";
+import { removeMemoryFromIndex } from "../mcp/vector-store.js";
+import { restartServer } from "../opencode-server.js";
+import { writeSkillManifest } from "../skill-manifest.js";
+import { isToolActive } from "./tool-commands.js";
+import { handleCancel } from "./code-commands.js";
+import {
+  Action,
+  HOME_TOOL_MODAL_CALLBACK, HOME_ROLE_MODAL_CALLBACK, HOME_CHANNEL_MODAL_CALLBACK,
+} from "../constants.js";
+
+// ── App Home admin console ──
+// Admins see tools, repos, roles, channel bindings, live coding sessions and
+// memories flagged as possibly contradicting each other,
+// with overflow menus and modals that call the same sessions.ts setters as
+// the chat commands. Everyone else sees a short intro.
+
+/** Slack caps a Home tab at 100 blocks — keep each list short. */
+const MAX_ROWS_PER_SECTION = 15;
+
+function plain(text: string): { type: "plain_text"; text: string } {
+  return { type: "plain_text", text };
+}
+
+function option(text: string, value: string): PlainTextOption {
+  return { text: plain(text), value };
+}
+
+function sectionHeader(title: string, buttons: Array<{ text: string; actionId: string }> = []): KnownBlock[] {
+  const blocks: KnownBlock[] = [{ type: "header", text: plain(title) }];
+  if (buttons.length > 0) {
+    blocks.push({
+      type: "actions",
+      elements: buttons.map((b) => ({ type: "button", text: plain(b.text), action_id: b.actionId })),
+    } as KnownBlock);
+  }
+  return blocks;
+}
+
+function row(text: string, accessory?: unknown): KnownBlock {
+  return {
+    type: "section",
+    text: { type: "mrkdwn", text },
+    ...(accessory ? { accessory } : {}),
+  } as KnownBlock;
+}
+
+function overflow(actionId: string, options: PlainTextOption[]): unknown {
+  return { type: "overflow", action_id: actionId, options };
+}
+
+function truncated<T>(items: T[], what: string, command: string): { shown: T[]; more: KnownBlock[] } {
+  if (items.length <= MAX_ROWS_PER_SECTION) return { shown: items, more: [] };
+  return {
+    shown: items.slice(0, MAX_ROWS_PER_SECTION),
+    more: [{
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `…and ${items.length - MAX_ROWS_PER_SECTION} more ${what} — use \`${command}\`.` }],
+    } as KnownBlock],
+  };
+}
+
+function toolBlocks(): KnownBlock[] {
+  const tools = getAllTools();
+  const blocks = sectionHeader("Tools (MCP)", [{ text: "Add tool", actionId: Action.HOME_TOOL_ADD }]);
+  if (tools.length === 0) return [...blocks, row("_No tools registered._")];
+  const { shown, more } = truncated(tools, "tools", "tool list");
+  for (const t of shown) {
+    const active = isToolActive(t, getToolKey(t));
+    const badges = [
+      t.enabled ? "enabled" : "disabled",
+      t.mcp_type,
+      t.encrypted_key || (t.env_var && process.env[t.env_var]) ? "key ✓" : "key ✗",
+      active ? "active" : "inactive",
+    ].join(" · ");
+    blocks.push(row(
+      `*\`${t.name}\`* — ${t.description}\n_${badges}_`,
+      overflow(Action.HOME_TOOL_MENU, [
+        option("Edit…", `edit:${t.name}`),
+        t.enabled ? option("Disable", `disable:${t.name}`) : option("Enable", `enable:${t.name}`),
+      ]),
+    ));
+  }
+  return [...blocks, ...more];
+}
+
+function repoBlocks(): KnownBlock[] {
+  const repos = getAllRepos();
+  const blocks = sectionHeader("Repos");
+  if (repos.length === 0) return [...blocks, row("_No repos registered. Use `repo add <name> <url>`._")];
+  const { shown, more } = truncated(repos, "repos", "repo list");
+  for (const r of shown) {
+    const badges = [
+      r.is_default ? "default" : "",
+      r.enabled ? "enabled" : "disabled",
+      r.allow_skills ? "skills:on" : "skills:off",
+    ].filter(Boolean).join(" · ");
+    const options = [
+      r.enabled ? option("Disable", `disable:${r.name}`) : option("Enable", `enable:${r.name}`),
+      r.allow_skills ? option("Skills off", `skills-off:${r.name}`) : option("Skills on", `skills-on:${r.name}`),
+    ];
+    if (!r.is_default) options.push(option("Make default", `default:${r.name}`));
+    blocks.push(row(`*\`${r.name}\`* — ${r.url}\n_${badges}_`, overflow(Action.HOME_REPO_MENU, options)));
+  }
+  return [...blocks, ...more];
+}
+
+function roleBlocks(viewerId: string): KnownBlock[] {
+  const rows = listPermissions();
+  const blocks = sectionHeader("Roles", [{ text: "Assign role", actionId: Action.HOME_ROLE_ADD }]);
+  if (rows.length === 0) return [...blocks, row("_No roles assigned yet._")];
+  const { shown, more } = truncated(rows, "roles", "role list");
+  for (const r of shown) {
+    const grantedBy = r.granted_by === "ENV" ? "environment" : `<@${r.granted_by}>`;
+    const text = `<@${r.user_id}> — *${r.role}* _(granted by ${grantedBy})_`;
+    if (r.user_id === viewerId) {
+      blocks.push(row(`${text} _(you)_`));
+      continue;
+    }
+    const other = r.role === "admin" ? "developer" : "admin";
+    blocks.push(row(text, overflow(Action.HOME_ROLE_MENU, [
+      option(`Make ${other}`, `${other}:${r.user_id}`),
+      option("Remove role", `remove:${r.user_id}`),
+    ])));
+  }
+  return [...blocks, ...more];
+}
+
+interface ChannelBinding {
+  channelId: string;
+  channelName: string;
+  repo?: string;
+  tools?: string;
+  agent?: string;
+}
+
+function listChannelBindings(): ChannelBinding[] {
+  const byId = new Map<string, ChannelBinding>();
+  const get = (id: string, name: string) => {
+    let b = byId.get(id);
+    if (!b) {
+      b = { channelId: id, channelName: name };
+      byId.set(id, b);
+    }
+    return b;
+  };
+  for (const r of listChannelRepos()) get(r.channel_id, r.channel_name).repo = r.repo_name;
+  for (const t of listChannelTools()) get(t.channel_id, t.channel_name).tools = t.tools;
+  for (const a of listChannelAgents()) get(a.channel_id, a.channel_name).agent = a.agent;
+  return [...byId.values()].sort((a, b) => a.channelName.localeCompare(b.channelName));
+}
+
+function channelBlocks(): KnownBlock[] {
+  const bindings = listChannelBindings();
+  const blocks = sectionHeader("Channel bindings", [{ text: "Configure a channel", actionId: Action.HOME_CHANNEL_ADD }]);
+  if (bindings.length === 0) return [...blocks, row("_No channels configured — all channels use the default repo._")];
+  const { shown, more } = truncated(bindings, "channels", "config list repos");
+  for (const b of shown) {
+    const parts = [
+      `repo: ${b.repo ? `\`${b.repo}\`` : "_default_"}`,
+      `tools: ${b.tools ? b.tools.split(",").map((t) => `\`${t}\``).join(", ") : "_none_"}`,
+      `agent: ${b.agent ? `\`${b.agent}\`` : "_default_"}`,
+    ];
+    blocks.push(row(`<#${b.channelId}>\n${parts.join(" · ")}`, {
+      type: "button",
+      text: plain("Edit"),
+      action_id: Action.HOME_CHANNEL_EDIT,
+      value: b.channelId,
+    }));
+  }
+  return [...blocks, ...more];
+}
+
+function sessionBlocks(): KnownBlock[] {
+  const sessions = getActiveCodingSessions();
+  const blocks = sectionHeader("Active coding sessions");
+  if (sessions.length === 0) return [...blocks, row("_No active coding sessions._")];
+  const now = Math.floor(Date.now() / 1000);
+  const { shown, more } = truncated(sessions, "sessions", "status");
+  for (const s of shown) {
+    const idleMin = Math.round((now - s.last_activity_at) / 60);
+    blocks.push(row(
+      `<@${s.user_id}> in <#${s.channel_id}> — \`${s.repo_name}\` on \`${s.branch}\`\n` +
+        `_${s.status} · agent ${s.agent} · idle ${idleMin}m_`,
+      {
+        type: "button",
+        text: plain("Cancel"),
+        action_id: Action.HOME_SESSION_CANCEL,
+        value: s.thread_key,
+        style: "danger",
+        confirm: {
+          title: plain("Cancel coding session?"),
+          text: plain("The worktree and any uncommitted changes will be discarded."),
+          confirm: plain("Cancel session"),
+          deny: plain("Keep it"),
+        },
+      },
+    ));
+  }
+  return [...blocks, ...more];
+}
+
+/** Memory text cut to fit a Home tab row. */
+function memorySnippet(id: number): string {
+  const m = getMemory(id);
+  if (!m) return `\`#${id}\` _(deleted)_`;
+  return `\`#${id}\` ${m.content.length > 200 ? `${m.content.slice(0, 200)}…` : m.content}`;
+}
+
+function memoryConflictBlocks(): KnownBlock[] {
+  const conflicts = listOpenMemoryConflicts();
+  if (conflicts.length === 0) return [];
+  const blocks = sectionHeader("Memory conflicts");
+  const { shown, more } = truncated(conflicts, "conflicts", "memories conflicts");
+  for (const c of shown) {
+    blocks.push(row(
+      `*newer* ${memorySnippet(c.memory_id)}\n*older* ${memorySnippet(c.other_id)}\n` +
+        `_${(c.similarity * 100).toFixed(0)}% similar_`,
+      overflow(Action.HOME_MEMORY_CONFLICT_MENU, [
+        option("Newer replaces older", `supersede:${c.id}`),
+        option("Keep both", `keep:${c.id}`),
+      ]),
+    ));
+  }
+  return [...blocks, ...more];
+}
+
+function homeBlocks(userId: string): KnownBlock[] {
+  if (!hasRole(userId, "admin")) {
+    return [
+      { type: "header", text: plain("Slackode") },
+      row(
+        "@mention me in a channel or send me a DM to ask about the codebase.\n" +
+        "Type `help` (or `/slackode help`) to see the commands you can run.",
+      ),
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: "_The admin console is available to users with the admin role._" }],
+      } as KnownBlock,
+    ];
+  }
+
+  const divider: KnownBlock = { type: "divider" };
+  const conflictBlocks = memoryConflictBlocks();
+  return [
+    {
+      type: "actions",
+      elements: [{ type: "button", text: plain("Refresh"), action_id: Action.HOME_REFRESH }],
+    } as KnownBlock,
+    ...toolBlocks(), divider,
+    ...repoBlocks(), divider,
+    ...roleBlocks(userId), divider,
+    ...channelBlocks(), divider,
+    ...sessionBlocks(),
+    ...(conflictBlocks.length > 0 ? [divider, ...conflictBlocks] : []),
+  ];
+}
+
+/**
+ * Render and publish the Home tab for a user.
+ */
+export async function publishHome(client: WebClient, userId: string): Promise<void> {
+  try {
+    await client.views.publish({
+      user_id: userId,
+      view: { type: "home", blocks: homeBlocks(userId) },
+    });
+  } catch (err) {
+    console.error("[home] Failed to publish home view:", err);
+  }
+}
+
+/** Split an overflow value like `enable:linear` into verb and target. */
+function parseMenuValue(value: string): { verb: string; target: string } {
+  const idx = value.indexOf(":");
+  return { verb: value.slice(0, idx), target: value.slice(idx + 1) };
+}
+
+// ── Tools ──
+
+function toolModal(tool?: ToolRow): ModalView {
+  const command = tool?.mcp_command ? (JSON.parse(tool.mcp_command) as string[]).join(" ") : undefined;
+  const blocks: KnownBlock[] = [];
+  if (!tool) {
+    blocks.push({
+      type: "input",
+      block_id: "name",
+      label: plain("Name"),
+      element: { type: "plain_text_input", action_id: "value", placeholder: plain("e.g. linear") },
+    } as KnownBlock);
+  }
+  blocks.push(
+    {
+      type: "input",
+      block_id: "description",
+      label: plain("Description"),
+      element: { type: "plain_text_input", action_id: "value", initial_value: tool?.description },
+    } as KnownBlock,
+    {
+      type: "input",
+      block_id: "instruction",
+      label: plain("Instructions for the agent"),
+      element: { type: "plain_text_input", action_id: "value", multiline: true, initial_value: tool?.instruction },
+    } as KnownBlock,
+    {
+      type: "input",
+      block_id: "mcp_type",
+      label: plain("MCP server type"),
+      element: {
+        type: "static_select",
+        action_id: "value",
+        options: [option("remote — hosted MCP endpoint", "remote"), option("local — run a command", "local")],
+        initial_option: tool?.mcp_type === "local"
+          ? option("local — run a command", "local")
+          : option("remote — hosted MCP endpoint", "remote"),
+      },
+    } as KnownBlock,
+    {
+      type: "input",
+      block_id: "mcp_url",
+      optional: true,
+      label: plain("MCP server URL (remote)"),
+      element: { type: "plain_text_input", action_id: "value", initial_value: tool?.mcp_url ?? undefined },
+    } as KnownBlock,
+    {
+      type: "input",
+      block_id: "mcp_command",
+      optional: true,
+      label: plain("MCP command (local)"),
+      hint: plain("Space-separated, e.g. npx -y @sentry/mcp-server"),
+      element: { type: "plain_text_input", action_id: "value", initial_value: command },
+    } as KnownBlock,
+    {
+      type: "input",
+      block_id: "api_key",
+      optional: true,
+      label: plain("API key"),
+      hint: plain(tool ? "Leave blank to keep the current key." : "Optional. Stored encrypted."),
+      element: { type: "plain_text_input", action_id: "value" },
+    } as KnownBlock,
+  );
+
+  return {
+    type: "modal",
+    callback_id: HOME_TOOL_MODAL_CALLBACK,
+    private_metadata: tool?.name ?? "",
+    title: plain(tool ? `Edit ${tool.name}`.slice(0, 24) : "Add tool"),
+    submit: plain("Save"),
+    close: plain("Cancel"),
+    blocks,
+  };
+}
+
+export async function openToolModal(client: WebClient, triggerId: string, toolName?: string): Promise<void> {
+  const tool = toolName ? getToolFromDb(toolName) : undefined;
+  await client.views.open({ trigger_id: triggerId, view: toolModal(tool) });
+}
+
+export async function handleHomeToolMenu(
+  client: WebClient, userId: string, triggerId: string, value: string,
+): Promise<void> {
+  if (!hasRole(userId, "admin")) return;
+  const { verb, target } = parseMenuValue(value);
+  const tool = getToolFromDb(target);
+  if (!tool) return;
+
+  if (verb === "edit") {
+    await openToolModal(client, triggerId, target);
+    return;
+  }
+
+  const enable = verb === "enable";
+  setToolEnabled(target, enable);
+  const wasActive = isToolActive(tool, getToolKey(tool));
+  const nowActive = isToolActive({ ...tool, enabled: enable ? 1 : 0 }, getToolKey(tool));
+  if (wasActive !== nowActive) {
+    restartServer().catch((err) => console.error("[home] OpenCode restart failed:", err));
+  }
+  await publishHome(client, userId);
+}
+
+/**
+ * Save the tool modal. Returns field errors to show in the modal, or null on success.
+ */
+export function submitToolModal(view: ViewOutput, userId: string): Record<string, string> | null {
+  if (!hasRole(userId, "admin")) return { description: "Only admins can edit tools." };
+  const v = view.state.values;
+  const existing = view.private_metadata ? getToolFromDb(view.private_metadata) : undefined;
+  const name = existing?.name ?? v.name?.value.value?.trim().toLowerCase() ?? "";
+  const mcpType = v.mcp_type.value.selected_option?.value ?? "remote";
+  const mcpUrl = v.mcp_url.value.value?.trim().replace(/^<|>$/g, "");
+  const mcpCommand = v.mcp_command.value.value?.trim();
+  const apiKey = v.api_key.value.value?.trim();
+
+  if (!existing) {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(name)) return { name: "Use lowercase letters, digits and dashes." };
+    if (getToolFromDb(name)) return { name: `Tool \`${name}\` already exists.` };
+  }
+  if (mcpType === "remote" && !mcpUrl) return { mcp_url: "Remote tools need an MCP server URL." };
+  if (mcpType === "local" && !mcpCommand) return { mcp_command: "Local tools need a command." };
+
+  const wasActive = existing ? isToolActive(existing, getToolKey(existing)) : false;
+  upsertTool({
+    name,
+    description: v.description.value.value?.trim() ?? "",
+    instruction: v.instruction.value.value?.trim() ?? "",
+    mcpType,
+    ...(mcpType === "remote"
+      ? { mcpUrl, mcpHeaderAuth: existing?.mcp_header_auth ?? "Bearer" }
+      : {
+          mcpCommand: mcpCommand!.split(/\s+/),
+          mcpEnvPassthrough: existing ? existing.mcp_env_passthrough === 1 : !!apiKey,
+          envVar: existing?.env_var ?? (apiKey ? `${name.toUpperCase().replace(/-/g, "_")}_API_KEY` : undefined),
+        }),
+  });
+  if (apiKey) setToolKey(name, apiKey);
+
+  const updated = getToolFromDb(name)!;
+  if (wasActive || isToolActive(updated, getToolKey(updated))) {
+    restartServer().catch((err) => console.error("[home] OpenCode restart failed:", err));
+  }
+  return null;
+}
+
+// ── Repos ──
+
+export async function handleHomeRepoMenu(client: WebClient, userId: string, value: string): Promise<void> {
+  if (!hasRole(userId, "admin")) return;
+  const { verb, target } = parseMenuValue(value);
+  const repo = getRepo(target);
+  if (!repo) return;
+
+  if (verb === "enable" || verb === "disable") {
+    setRepoEnabled(target, verb === "enable");
+  } else if (verb === "skills-on" || verb === "skills-off") {
+    const allow = verb === "skills-on";
+    setRepoAllowSkills(target, allow);
+    try {
+      writeSkillManifest(repo.dir, { allowSkills: allow });
+    } catch (err) {
+      console.warn(`[home] Skill manifest refresh failed for ${target}:`, err);
+    }
+  } else if (verb === "default") {
+    setDefaultRepo(target);
+  }
+  await publishHome(client, userId);
+}
+
+// ── Roles ──
+
+export async function openRoleModal(client: WebClient, triggerId: string): Promise<void> {
+  await client.views.open({
+    trigger_id: triggerId,
+    view: {
+      type: "modal",
+      callback_id: HOME_ROLE_MODAL_CALLBACK,
+      title: plain("Assign role"),
+      submit: plain("Assign"),
+      close: plain("Cancel"),
+      blocks: [
+        {
+          type: "input",
+          block_id: "user",
+          label: plain("User"),
+          element: { type: "users_select", action_id: "value" },
+        },
+        {
+          type: "input",
+          block_id: "role",
+          label: plain("Role"),
+          element: {
+            type: "static_select",
+            action_id: "value",
+            options: [option("developer", "developer"), option("admin", "admin")],
+            initial_option: option("developer", "developer"),
+          },
+        },
+      ],
+    },
+  });
+}
+
+/** Whether taking admin away from `target` would leave the workspace without one. */
+function isLastAdmin(target: string): boolean {
+  const admins = listPermissions().filter((p) => p.role === "admin");
+  return admins.length === 1 && admins[0].user_id === target;
+}
+
+export function submitRoleModal(view: ViewOutput, userId: string): Record<string, string> | null {
+  if (!hasRole(userId, "admin")) return { user: "Only admins can assign roles." };
+  const targetId = view.state.values.user.value.selected_user;
+  const role = view.state.values.role.value.selected_option?.value as "admin" | "developer" | undefined;
+  if (!targetId) return { user: "Pick a user." };
+  if (!role) return { role: "Pick a role." };
+  if (targetId === userId) return { user: "You can't change your own role. Ask another admin to do it." };
+  if (role !== "admin" && isLastAdmin(targetId)) return { role: "That's the last admin — make someone else an admin first." };
+  setRole(targetId, role, userId);
+  return null;
+}
+
+export async function handleHomeRoleMenu(client: WebClient, userId: string, value: string): Promise<void> {
+  if (!hasRole(userId, "admin")) return;
+  const { verb, target } = parseMenuValue(value);
+  if (target === userId) return;
+  if (verb !== "admin" && isLastAdmin(target)) return;
+  if (verb === "remove") {
+    removeRole(target);
+  } else if (verb === "admin" || verb === "developer") {
+    setRole(target, verb, userId);
+  }
+  await publishHome(client, userId);
+}
+
+// ── Channel bindings ──
+
+const DEFAULT_REPO_OPTION = "__default__";
+
+export async function openChannelModal(client: WebClient, triggerId: string, channelId?: string): Promise<void> {
+  const repos = getAllRepos().filter((r) => r.enabled);
+  const tools = getAllTools();
+  const currentRepo = channelId ? getChannelRepo(channelId) : undefined;
+  const currentTools = channelId ? getChannelTools(channelId) ?? [] : [];
+  const currentAgent = channelId ? getChannelAgent(channelId) : undefined;
+
+  const defaultOption = option("Workspace default", DEFAULT_REPO_OPTION);
+  const repoOptions = [defaultOption, ...repos.map((r) => option(r.name, r.name))];
+  const toolOptions = tools.map((t) => option(t.name, t.name));
+
+  const blocks: KnownBlock[] = [];
+  if (channelId) {
+    blocks.push(row(`Configuring <#${channelId}>`));
+  } else {
+    blocks.push({
+      type: "input",
+      block_id: "channel",
+      label: plain("Channel"),
+      element: { type: "conversations_select", action_id: "value", filter: { include: ["public", "private"] } },
+    } as KnownBlock);
+  }
+  blocks.push({
+    type: "input",
+    block_id: "repo",
+    label: plain("Repo"),
+    element: {
+      type: "static_select",
+      action_id: "value",
+      options: repoOptions,
+      initial_option: repoOptions.find((o) => o.value === currentRepo) ?? defaultOption,
+    },
+  } as KnownBlock);
+  if (toolOptions.length > 0) {
+    const initial = toolOptions.filter((o) => currentTools.includes(o.value!));
+    blocks.push({
+      type: "input",
+      block_id: "tools",
+      optional: true,
+      label: plain("Tools"),
+      element: {
+        type: "multi_static_select",
+        action_id: "value",
+        options: toolOptions,
+        ...(initial.length > 0 && { initial_options: initial }),
+      },
+    } as KnownBlock);
+  }
+  blocks.push({
+    type: "input",
+    block_id: "agent",
+    optional: true,
+    label: plain("Agent override"),
+    hint: plain("Leave blank to use the default agent for the channel's tools."),
+    element: { type: "plain_text_input", action_id: "value", initial_value: currentAgent },
+  } as KnownBlock);
+
+  await client.views.open({
+    trigger_id: triggerId,
+    view: {
+      type: "modal",
+      callback_id: HOME_CHANNEL_MODAL_CALLBACK,
+      private_metadata: channelId ?? "",
+      title: plain("Channel settings"),
+      submit: plain("Save"),
+      close: plain("Cancel"),
+      blocks,
+    },
+  });
+}
+
+async function resolveChannelName(client: WebClient, channelId: string): Promise<string> {
+  const known = listChannelBindings().find((b) => b.channelId === channelId);
+  if (known) return known.channelName;
+  try {
+    const info = await client.conversations.info({ channel: channelId });
+    return info.channel?.name ?? channelId;
+  } catch {
+    return channelId;
+  }
+}
+
+export async function submitChannelModal(
+  view: ViewOutput, userId: string, client: WebClient,
+): Promise<Record<string, string> | null> {
+  if (!hasRole(userId, "admin")) return { repo: "Only admins can configure channels." };
+  const v = view.state.values;
+  const channelId = view.private_metadata || v.channel?.value.selected_conversation;
+  if (!channelId) return { channel: "Pick a channel." };
+  const channelName = await resolveChannelName(client, channelId);
+
+  const repo = v.repo.value.selected_option?.value;
+  if (!repo || repo === DEFAULT_REPO_OPTION) clearChannelRepo(channelId);
+  else setChannelRepo(channelId, channelName, repo);
+
+  const tools = (v.tools?.value.selected_options ?? []).map((o) => o.value).sort();
+  if (tools.length > 0) setChannelTools(channelId, channelName, tools);
+  else clearChannelTools(channelId);
+
+  const agent = v.agent.value.value?.trim();
+  if (agent) setChannelAgent(channelId, channelName, agent);
+  else clearChannelAgent(channelId);
+
+  return null;
+}
+
+// ── Coding sessions ──
+
+export async function handleHomeSessionCancel(client: WebClient, userId: string, threadKey: string): Promise<void> {
+  if (!hasRole(userId, "admin")) return;
+  const session = getActiveCodingSessions().find((s) => s.thread_key === threadKey);
+  if (session) {
+    const reply = await handleCancel(threadKey, userId);
+    try {
+      await client.chat.postMessage({
+        channel: session.channel_id,
+        thread_ts: threadKey,
+        text: `${reply} _(cancelled by <@${userId}> from the admin console)_`,
+      });
+    } catch (err) {
+      console.warn("[home] Failed to notify coding thread:", err);
+    }
+  }
+  await publishHome(client, userId);
+}
+
+// ── Memory conflicts ──
+
+export async function handleHomeMemoryConflictMenu(client: WebClient, userId: string, value: string): Promise<void> {
+  if (!hasRole(userId, "admin")) return;
+  const { verb, target } = parseMenuValue(value);
+  const conflict = getMemoryConflict(Number(target));
+  if (!conflict || conflict.status !== "open") return;
+
+  if (verb === "keep") {
+    keepConflictingMemories(conflict.id, userId);
+  } else if (verb === "supersede") {
+    const newer = getMemory(conflict.memory_id);
+    if (newer && newer.superseded_by === null) {
+      supersedeMemories([conflict.other_id], conflict.memory_id, userId);
+      await removeMemoryFromIndex(conflict.other_id).catch((err) =>
+        console.warn(`[home] Failed to remove memory #${conflict.other_id} from the vector index:`, err),
+      );
+    } else {
+      keepConflictingMemories(conflict.id, userId);
+    }
+  }
+  await publishHome(client, userId);
+}
@@ -2,11 +2,21 @@
  * Knowledge commands for Slack:
  *   knowledge list [--global|--repo|--channel]  → list entries (open to all)
  *   knowledge view <title-or-id>                → show full content (open to all)
+ *   knowledge view #<id>@<offset>               → show the section at a search result's offset (open to all)
  *   knowledge add [--global|--channel|--repo <name>] <title>: <content>  → admin only
  *   knowledge update <title-or-id>: <new content>                        → admin only
  *   knowledge remove <title-or-id>                                       → admin only
+ *   knowledge history <title-or-id>             → list revisions (open to all)
+ *   knowledge diff <title-or-id> <rev> [<rev>]  → diff a revision against another or the current one (open to all)
+ *   knowledge revert <title-or-id> <rev>        → restore a revision, even of a removed entry (admin only)
  *   knowledge import [--global|--channel|--repo <name>]                  → admin only (with attached .md file)
+ *   knowledge sync --repo <name> --path <dir>   → mirror a docs directory (admin only)
+ *   knowledge sync                              → re-sync every docs directory (admin only)
+ *   knowledge sync list                         → list synced docs directories (admin only)
+ *   knowledge sync remove <id>                  → stop syncing and delete its entries (admin only)
  */
+import { existsSync } from "node:fs";
+import path from "node:path";
 import {
   addKnowledge,
   getKnowledgeById,
@@ -16,13 +26,54 @@ import {
   listKnowledge,
   getChannelRepo,
   getDefaultRepo,
+  getRepo,
+  addKnowledgeSource,
+  getKnowledgeSource,
+  listKnowledgeSources,
+  removeKnowledgeSource,
+  listKnowledgeForSource,
+  getKnowledgeRevisions,
+  getKnowledgeRevision,
+  revertKnowledge,
   type KnowledgeRow,
+  type KnowledgeSourceRow,
+  type KnowledgeRevisionRow,
 } from "../sessions.js";
+import {
+  syncKnowledgeSource, describeKnowledgeSync, normalizeDocsPath, DOC_EXTENSIONS,
+  type KnowledgeSyncResult,
+} from "../knowledge-sync.js";
+import { formatDiff } from "../utils/diff.js";
+import { findSection, sectionLabel } from "../mcp/chunker.js";
+
+/** Keep diffs inside one Slack message. */
+const MAX_DIFF_CHARS = 3500;
 
 function formatEntry(k: KnowledgeRow): string {
   const scope = k.scope_key ? `${k.scope}:${k.scope_key}` : k.scope;
   const date = new Date(k.updated_at * 1000).toLocaleDateString();
-  return `\`#${k.id}\` *${k.title}* (${scope}, ${date})`;
+  return `\`#${k.id}\` *${k.title}* (${scope}, ${date}${k.source_id !== null ? ", synced" : ""})`;
+}
+
+function sourceLabel(source: KnowledgeSourceRow): string {
+  return `\`${source.repo_name}:${source.path || "."}\``;
+}
+
+/** Sync a source now; returns its summary line, or an error line if the repo is unavailable. */
+function runSync(source: KnowledgeSourceRow): { line: string; result?: KnowledgeSyncResult } {
+  const repo = getRepo(source.repo_name);
+  if (!repo || !existsSync(path.join(repo.dir, ".git"))) {
+    return { line: `${sourceLabel(source)}: repo \`${source.repo_name}\` is not cloned — skipped.` };
+  }
+  try {
+    const result = syncKnowledgeSource(source, repo, true);
+    const skipped = result.skipped.length > 0
+      ? `\n${result.skipped.map((s) => `  • skipped ${s}`).join("\n")}`
+      : "";
+    return { line: `${sourceLabel(source)} @ \`${result.sha.slice(0, 7)}\`: ${describeKnowledgeSync(result)}${skipped}`, result };
+  } catch (err) {
+    return { line: `${sourceLabel(source)}: sync failed — ${err instanceof Error ? err.message : String(err)}` };
+  }
 }
 
 function resolveRepoName(channelId: string): string | undefined {
@@ -68,6 +119,19 @@ function findEntry(idOrTitle: string): KnowledgeRow | undefined {
   return getKnowledgeByTitle(idOrTitle.trim());
 }
 
+/** Entry id for history commands — `#id` also finds removed entries, which only exist as revisions. */
+function resolveKnowledgeId(idOrTitle: string): number | undefined {
+  const idMatch = idOrTitle.match(/^#?(\d+)$/);
+  if (idMatch) return Number(idMatch[1]);
+  return getKnowledgeByTitle(idOrTitle.trim())?.id;
+}
+
+function formatRevision(r: KnowledgeRevisionRow): string {
+  const when = new Date(r.created_at * 1000).toISOString().slice(0, 16).replace("T", " ");
+  const what = r.action === "revert" ? `reverted to r${r.reverted_to}` : r.action === "add" ? "added" : `${r.action}d`;
+  return `\`r${r.rev}\` ${what} by <@${r.author}>, ${when} UTC`;
+}
+
 export interface KnowledgeImportFile {
   filename: string;
   content: string;
@@ -79,6 +143,59 @@ export function handleKnowledgeCommand(
   userId: string,
   importFiles?: KnowledgeImportFile[],
 ): string | null {
+  // knowledge sync list
+  if (/^knowledge\s+sync\s+list$/i.test(command)) {
+    const sources = listKnowledgeSources();
+    if (sources.length === 0) return "No docs directories are synced. Use `knowledge sync --repo <name> --path <dir>` to add one.";
+    const lines = sources.map((s) => {
+      const entries = listKnowledgeForSource(s.id).length;
+      const synced = s.last_synced_at
+        ? `last synced ${new Date(s.last_synced_at * 1000).toLocaleDateString()} @ \`${(s.last_sha ?? "").slice(0, 7)}\``
+        : "never synced";
+      return `\`#${s.id}\` ${sourceLabel(s)} — ${entries} entr${entries === 1 ? "y" : "ies"}, ${synced}`;
+    });
+    return `*Synced docs directories:*\n${lines.join("\n")}`;
+  }
+
+  // knowledge sync remove <id>
+  const syncRemoveMatch = command.match(/^knowledge\s+sync\s+remove\s+#?(\d+)$/i);
+  if (syncRemoveMatch) {
+    const source = getKnowledgeSource(Number(syncRemoveMatch[1]));
+    if (!source) return `Synced docs directory \`#${syncRemoveMatch[1]}\` not found. Use \`knowledge sync list\` to see them.`;
+    const removed = removeKnowledgeSource(source.id, userId);
+    return `Stopped syncing ${sourceLabel(source)} and removed ${removed} knowledge entr${removed === 1 ? "y" : "ies"}.`;
+  }
+
+  // knowledge sync --repo <name> --path <dir>
+  const syncAddMatch = command.match(/^knowledge\s+sync\s+--repo\s+(\S+)\s+--path\s+(\S+)$/i);
+  if (syncAddMatch) {
+    const repo = getRepo(syncAddMatch[1]);
+    if (!repo) return `Repo \`${syncAddMatch[1]}\` is not registered. Use \`repo list\` to see registered repos.`;
+    const dir = normalizeDocsPath(syncAddMatch[2]);
+    if (dir === null) return "The path must be inside the repo.";
+
+    const isNew = !listKnowledgeSources(repo.name).some((s) => s.path === dir);
+    const source = addKnowledgeSource(repo.name, dir, userId);
+    const { line, result } = runSync(source);
+    const found = result ? result.added + result.updated + result.unchanged + result.skipped.length : 0;
+    if (isNew && result && found === 0) {
+      removeKnowledgeSource(source.id, userId);
+      return `No ${DOC_EXTENSIONS.join("/")} files under \`${dir || "."}\` in \`${repo.name}\` — nothing to sync.`;
+    }
+    const verb = isNew ? "Now syncing" : "Re-synced";
+    return `${verb} \`#${source.id}\` ${line}\n_It re-syncs every time the repos are pulled._`;
+  }
+
+  // knowledge sync
+  if (/^knowledge\s+sync$/i.test(command)) {
+    const sources = listKnowledgeSources();
+    if (sources.length === 0) return "No docs directories are synced. Use `knowledge sync --repo <name> --path <dir>` to add one.";
+    return `*Knowledge sync:*\n${sources.map((s) => runSync(s).line).join("\n")}`;
+  }
+  if (/^knowledge\s+sync\b/i.test(command)) {
+    return "Usage: `knowledge sync --repo <name> --path <dir>`, `knowledge sync`, `knowledge sync list` or `knowledge sync remove <id>`.";
+  }
+
   // knowledge list [--global|--repo|--channel]
   const listMatch = command.match(/^knowledge\s+list(?:\s+(--\S+(?:\s+\S+)?))?$/i);
   if (listMatch) {
@@ -113,14 +230,80 @@ export function handleKnowledgeCommand(
     return sections.join("\n\n");
   }
 
-  // knowledge view <title-or-id>
+  // knowledge view <title-or-id> | #<id>@<offset>
   const viewMatch = command.match(/^knowledge\s+view\s+(.+)$/i);
   if (viewMatch) {
-    const entry = findEntry(viewMatch[1].trim());
+    // Section links from search results point at a character offset in the entry
+    const sectionMatch = viewMatch[1].trim().match(/^#?(\d+)@(\d+)$/);
+    const entry = sectionMatch ? getKnowledgeById(Number(sectionMatch[1])) : findEntry(viewMatch[1].trim());
     if (!entry) return `Knowledge entry "${viewMatch[1].trim()}" not found.`;
     const scope = entry.scope_key ? `${entry.scope}:${entry.scope_key}` : entry.scope;
     const date = new Date(entry.updated_at * 1000).toLocaleDateString();
-    return `*${entry.title}* (\`#${entry.id}\`, ${scope}, updated ${date})\n\n${entry.content}`;
+    const origin = entry.origin_path
+      ? `\n_Synced from \`${entry.scope_key}:${entry.origin_path}\` @ \`${(entry.origin_sha ?? "").slice(0, 7)}\`_`
+      : "";
+
+    const section = sectionMatch ? findSection(entry.content, Number(sectionMatch[2])) : undefined;
+    const sectionText = section ? entry.content.slice(section.start, section.end).trim() : "";
+    if (section && sectionText && sectionText !== entry.content.trim()) {
+      return `*${sectionLabel(entry.title, section.path) || entry.title}* (\`#${entry.id}\`, ${scope}, updated ${date})${origin}\n\n` +
+        `${sectionText}\n\n_Full entry: \`knowledge view #${entry.id}\`_`;
+    }
+    return `*${entry.title}* (\`#${entry.id}\`, ${scope}, updated ${date})${origin}\n\n${entry.content}`;
+  }
+
+  // knowledge history <title-or-id>
+  const historyMatch = command.match(/^knowledge\s+history\s+(.+)$/i);
+  if (historyMatch) {
+    const id = resolveKnowledgeId(historyMatch[1].trim());
+    const revisions = id !== undefined ? getKnowledgeRevisions(id) : [];
+    if (revisions.length === 0) return `Knowledge entry "${historyMatch[1].trim()}" not found.`;
+    const latest = revisions[revisions.length - 1];
+    const status = latest.action === "remove"
+      ? `_Removed — restore it with \`knowledge revert #${id} r${latest.rev - 1}\`._`
+      : `_Use \`knowledge diff #${id} <rev>\` to compare a revision with the current version._`;
+    return `*History of \`#${id}\` ${latest.title}* (${revisions.length} revision${revisions.length === 1 ? "" : "s"}):\n` +
+      `${revisions.map(formatRevision).join("\n")}\n${status}`;
+  }
+
+  // knowledge diff <title-or-id> <rev> [<rev>]
+  const diffMatch = command.match(/^knowledge\s+diff\s+(.+?)\s+r?(\d+)(?:\s+r?(\d+))?$/i);
+  if (diffMatch) {
+    const id = resolveKnowledgeId(diffMatch[1].trim());
+    const revisions = id !== undefined ? getKnowledgeRevisions(id) : [];
+    if (id === undefined || revisions.length === 0) return `Knowledge entry "${diffMatch[1].trim()}" not found.`;
+    const from = getKnowledgeRevision(id, Number(diffMatch[2]));
+    const to = diffMatch[3] ? getKnowledgeRevision(id, Number(diffMatch[3])) : revisions[revisions.length - 1];
+    if (!from) return `\`#${id}\` has no revision r${diffMatch[2]}. Use \`knowledge history #${id}\` to list them.`;
+    if (!to) return `\`#${id}\` has no revision r${diffMatch[3]}. Use \`knowledge history #${id}\` to list them.`;
+
+    const header = `*\`#${id}\` ${to.title}: r${from.rev} → r${to.rev}${diffMatch[3] ? "" : " (current)"}*`;
+    const diff = formatDiff(from.content, to.content);
+    if (!diff) return `${header}\n_No changes._`;
+    const shown = diff.length > MAX_DIFF_CHARS ? `${diff.slice(0, MAX_DIFF_CHARS)}\n… (truncated)` : diff;
+    return `${header}\n\`\`\`\n${shown}\n\`\`\``;
+  }
+
+  // knowledge revert <title-or-id> <rev>
+  const revertMatch = command.match(/^knowledge\s+revert\s+(.+?)\s+r?(\d+)$/i);
+  if (revertMatch) {
+    const id = resolveKnowledgeId(revertMatch[1].trim());
+    if (id === undefined || getKnowledgeRevisions(id).length === 0) return `Knowledge entry "${revertMatch[1].trim()}" not found.`;
+    const target = getKnowledgeRevision(id, Number(revertMatch[2]));
+    if (!target) return `\`#${id}\` has no revision r${revertMatch[2]}. Use \`knowledge history #${id}\` to list them.`;
+
+    const current = getKnowledgeById(id);
+    if (current && current.content === target.content) return `\`#${id}\` already matches r${target.rev}.`;
+    if (!current) {
+      const clash = getKnowledgeByTitle(target.title, target.scope, target.scope_key ?? undefined);
+      if (clash) return `Can't restore \`#${id}\`: \`#${clash.id}\` now uses the title "${target.title}" in that scope.`;
+    }
+    revertKnowledge(id, target.rev, userId);
+    const note = current && current.source_id !== null
+      ? `\n_This entry is synced from \`${current.origin_path}\` — the next sync overwrites it._`
+      : "";
+    return `Knowledge \`#${id}\` (*${target.title}*) ${current ? "reverted" : "restored"} to r${target.rev}. ` +
+      `Search picks up the change on the next index pass.${note}`;
   }
 
   // knowledge add [--global|--channel|--repo <name>] <title>: <content>
@@ -148,7 +331,10 @@ export function handleKnowledgeCommand(
     const content = updateMatch[2].trim();
     if (!content) return "Please provide new content.";
     updateKnowledge(entry.id, content, userId);
-    return `Knowledge \`#${entry.id}\` (*${entry.title}*) updated.`;
+    const note = entry.source_id !== null
+      ? `\n_This entry is synced from \`${entry.origin_path}\` — the next sync overwrites it._`
+      : "";
+    return `Knowledge \`#${entry.id}\` (*${entry.title}*) updated.${note}`;
   }
 
   // knowledge remove <title-or-id>
@@ -156,8 +342,11 @@ export function handleKnowledgeCommand(
   if (removeMatch) {
     const entry = findEntry(removeMatch[1].trim());
     if (!entry) return `Knowledge entry "${removeMatch[1].trim()}" not found.`;
-    removeKnowledge(entry.id);
-    return `Knowledge \`#${entry.id}\` (*${entry.title}*) removed.`;
+    removeKnowledge(entry.id, userId);
+    const note = entry.source_id !== null
+      ? `\n_This entry is synced from \`${entry.origin_path}\` and comes back on the next sync — use \`knowledge sync remove ${entry.source_id}\` to stop syncing its directory._`
+      : "";
+    return `Knowledge \`#${entry.id}\` (*${entry.title}*) removed.${note}`;
   }
 
   // knowledge import [--global|--channel|--repo <name>]
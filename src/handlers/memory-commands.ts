@@ -3,25 +3,117 @@
  *   remember: <content>           → save to repo scope
  *   remember --global: <content>  → save to global scope
  *   remember --channel: <content> → save to channel scope
- *   recall: <query>               → search memories
+ *   remember --ttl 14d: <content> → forget it after 14 days (h/d/w; combines with the above)
+ *   recall: <query>               → search memories (keyword + semantic)
+ *   recall --keyword: <query>     → exact-term search (also --semantic, --hybrid)
+ *   memory edit #<id>: <content>  → replace a memory's text (only if you created it)
+ *   memory history #<id>          → the versions a memory replaced and was replaced by
  *   forget: <id>                  → delete by ID (only if you created it)
  *   memories                      → list for current scope
+ *
+ * Listings link each memory to the Slack thread it was saved from, if any.
+ *
+ * Admin-only (gated in the command registry):
+ *   memories conflicts            → memories flagged as possibly contradicting each other
+ *   memories resolve #<n> supersede|keep
+ *   memories consolidate          → merge overlapping memories now
+ *   memory pin|unpin #<id>        → always inject a memory into new sessions' prompts
+ *   memories stale                → memories unused for a long time
+ *   memories review [here|off|now] → monthly stale-memory review in this channel
  */
+import type { WebClient } from "@slack/web-api";
 import {
   addMemory,
   deleteMemory,
+  updateMemory,
+  getMemory,
+  getMemoryHistory,
+  supersedeMemories,
+  listOpenMemoryConflicts,
+  getMemoryConflict,
+  keepConflictingMemories,
   getMemoriesForContext,
   getChannelRepo,
   getDefaultRepo,
+  setMemoryPinned,
+  recordMemoryRecalls,
+  getMemoryReviewSchedule,
+  setMemoryReviewSchedule,
+  clearMemoryReviewSchedule,
   type MemoryRow,
+  type MemoryProvenance,
 } from "../sessions.js";
-import { searchMemories as vectorSearchMemories } from "../mcp/vector-store.js";
+import {
+  searchMemories as vectorSearchMemories, indexSingleMemory, removeMemoryFromIndex, findSimilarMemories,
+  DUPLICATE_MEMORY_SIMILARITY, type SearchMode,
+} from "../mcp/vector-store.js";
+import { consolidateMemories } from "../memory-consolidation.js";
+import { findStaleMemories, describeStaleMemory, postMemoryReview, REVIEW_INTERVAL_DAYS } from "../memory-review.js";
+import { getThreadPermalink } from "../utils/slack-context.js";
 
-function formatMemory(m: MemoryRow): string {
+function formatMemory(m: MemoryRow, source = ""): string {
   const scope = m.scope_key ? `${m.scope}:${m.scope_key}` : m.scope;
   const tags = m.tags ? ` [${m.tags}]` : "";
   const date = new Date(m.created_at * 1000).toLocaleDateString();
-  return `\`#${m.id}\` (${scope}${tags}, ${date}) ${m.content}`;
+  const pinned = m.pinned ? ", pinned" : "";
+  const expires = m.expires_at ? `, expires ${new Date(m.expires_at * 1000).toLocaleDateString()}` : "";
+  return `\`#${m.id}\` (${scope}${tags}, ${date}${pinned}${expires}) ${m.content}${source}`;
+}
+
+const TTL_UNITS: Record<string, number> = { h: 3600, d: 86400, w: 7 * 86400 };
+
+/** "14d" → seconds; null if it isn't <n>h, <n>d or <n>w. */
+function parseTtl(text: string): number | null {
+  const m = text.match(/^(\d+)([hdw])$/i);
+  if (!m || parseInt(m[1], 10) === 0) return null;
+  return parseInt(m[1], 10) * TTL_UNITS[m[2].toLowerCase()];
+}
+
+/**
+ * Where a memory came from, e.g. " — <permalink|thread>, via @user".
+ * Empty for memories saved before provenance was recorded.
+ */
+async function memorySource(client: WebClient, m: MemoryRow): Promise<string> {
+  const parts: string[] = [];
+  if (m.thread_key && m.channel_id) {
+    const link = await getThreadPermalink(client, m.channel_id, m.thread_key);
+    if (link) parts.push(`<${link}|thread>`);
+  }
+  // For `remember`, the creator is the user; only tool-saved memories need the extra credit
+  if (m.source_user_id && m.source_user_id !== m.created_by) parts.push(`via <@${m.source_user_id}>`);
+  return parts.length > 0 ? ` — ${parts.join(", ")}` : "";
+}
+
+async function formatMemories(client: WebClient, memories: MemoryRow[]): Promise<string> {
+  const lines = await Promise.all(memories.map(async (m) => formatMemory(m, await memorySource(client, m))));
+  return lines.join("\n");
+}
+
+/**
+ * Save a memory unless the scope already has a near-identical one.
+ * Returns the reply for the user.
+ */
+async function saveMemory(
+  content: string,
+  scope: "global" | "repo" | "channel",
+  scopeKey: string | null,
+  userId: string,
+  label: string,
+  provenance: MemoryProvenance,
+  expiresAt: number | null,
+): Promise<string> {
+  try {
+    const [closest] = await findSimilarMemories(content, scope, scopeKey, 1);
+    if (closest && closest.score >= DUPLICATE_MEMORY_SIMILARITY) {
+      return `Already saved as ${label} memory \`#${closest.id}\`: ${closest.content}\n` +
+        `_Use \`memory edit #${closest.id}: <content>\` to change it._`;
+    }
+  } catch (err) {
+    console.warn("[memory] Duplicate check failed — saving anyway:", err);
+  }
+  const id = addMemory(content, scope, scopeKey, null, userId, provenance, expiresAt);
+  const expiry = expiresAt ? ` _(expires <!date^${expiresAt}^{date_short_pretty} at {time}|later>)_` : "";
+  return `Saved ${label} memory \`#${id}\`: ${content}${expiry}`;
 }
 
 function resolveRepoName(channelId: string): string | undefined {
@@ -35,50 +127,60 @@ export async function handleMemoryCommand(
   command: string,
   channelId: string,
   userId: string,
+  threadTs: string | undefined,
+  client: WebClient,
 ): Promise<string | null> {
-  // remember --global: <content>
-  const rememberGlobal = command.match(/^remember\s+--global[:\s]\s*(.+)$/is);
-  if (rememberGlobal) {
-    const content = rememberGlobal[1].trim();
-    if (!content) return "Please provide content to remember.";
-    const id = addMemory(content, "global", null, null, userId);
-    return `Saved global memory \`#${id}\`: ${content}`;
-  }
+  const provenance: MemoryProvenance = { threadKey: threadTs, channelId, userId };
 
-  // remember --channel: <content>
-  const rememberChannel = command.match(/^remember\s+--channel[:\s]\s*(.+)$/is);
-  if (rememberChannel) {
-    const content = rememberChannel[1].trim();
-    if (!content) return "Please provide content to remember.";
-    const id = addMemory(content, "channel", channelId, null, userId);
-    return `Saved channel memory \`#${id}\`: ${content}`;
-  }
-
-  // remember: <content> (default: repo scope)
-  const remember = command.match(/^remember[:\s]\s*(.+)$/is);
+  // remember [--global|--channel] [--ttl <n>h|d|w]: <content> (default: repo scope)
+  const remember = command.match(/^remember((?:\s+--(?:global|channel|ttl\s+[^\s:]+))*)[:\s]\s*(.+)$/is);
   if (remember) {
-    const content = remember[1].trim();
+    const flags = remember[1].toLowerCase();
+    const content = remember[2].trim();
     if (!content) return "Please provide content to remember.";
+    if (content.startsWith("--")) return "Usage: `remember [--global|--channel] [--ttl <n>h|d|w]: <content>`";
+    if (flags.includes("--global") && flags.includes("--channel")) return "Pick one of `--global` or `--channel`.";
+
+    let expiresAt: number | null = null;
+    const ttlMatch = flags.match(/--ttl\s+([^\s:]+)/);
+    if (ttlMatch) {
+      const ttl = parseTtl(ttlMatch[1]);
+      if (!ttl) return `Invalid TTL \`${ttlMatch[1]}\` — use hours, days or weeks, e.g. \`--ttl 12h\`, \`--ttl 14d\`, \`--ttl 2w\`.`;
+      expiresAt = Math.floor(Date.now() / 1000) + ttl;
+    }
+
+    if (flags.includes("--global")) {
+      return saveMemory(content, "global", null, userId, "global", provenance, expiresAt);
+    }
+    if (flags.includes("--channel")) {
+      return saveMemory(content, "channel", channelId, userId, "channel", provenance, expiresAt);
+    }
     const repoName = resolveRepoName(channelId);
-    const id = addMemory(content, repoName ? "repo" : "global", repoName ?? null, null, userId);
-    const scope = repoName ? `repo:${repoName}` : "global";
-    return `Saved ${scope} memory \`#${id}\`: ${content}`;
+    return saveMemory(
+      content, repoName ? "repo" : "global", repoName ?? null, userId, repoName ? `repo:${repoName}` : "global",
+      provenance, expiresAt,
+    );
   }
 
-  // recall: <query>
-  const recall = command.match(/^recall[:\s]\s*(.+)$/is);
+  // recall [--hybrid|--keyword|--semantic]: <query>
+  const recall = command.match(/^recall(?:\s+--(hybrid|keyword|semantic))?[:\s]\s*(.+)$/is);
   if (recall) {
-    const query = recall[1].trim();
+    const mode = (recall[1]?.toLowerCase() ?? "hybrid") as SearchMode;
+    const query = recall[2].trim();
     if (!query) return "Please provide a search query.";
-    const results = await vectorSearchMemories(query);
+    const results = await vectorSearchMemories(query, undefined, undefined, undefined, mode);
     if (results.length === 0) return `No memories found matching "${query}".`;
-    const lines = results.map((m) => {
+    recordMemoryRecalls(results.map((m) => m.id));
+    const lines = await Promise.all(results.map(async (m) => {
       const scope = m.scope_key ? `${m.scope}:${m.scope_key}` : m.scope;
       const tags = m.tags ? ` [${m.tags}]` : "";
       const date = new Date(m.created_at * 1000).toLocaleDateString();
       const pct = (m.score * 100).toFixed(0);
-      return `\`#${m.id}\` (${scope}${tags}, ${date}, ${pct}%) ${m.content}`;
-    });
+      // Provenance lives in SQLite, not the vector index
+      const row = getMemory(m.id);
+      const source = row ? await memorySource(client, row) : "";
+      return `\`#${m.id}\` (${scope}${tags}, ${date}, ${pct}%) ${m.content}${source}`;
+    }));
     return `*Memories matching "${query}":*\n${lines.join("\n")}`;
   }
 
@@ -87,8 +189,41 @@ export async function handleMemoryCommand(
   if (forget) {
     const id = Number(forget[1]);
     const removed = deleteMemory(id, userId);
-    if (removed) return `Memory \`#${id}\` deleted.`;
-    return `Memory \`#${id}\` not found or you didn't create it.`;
+    if (!removed) return `Memory \`#${id}\` not found or you didn't create it.`;
+    // Non-fatal — the next search reconciles the index anyway
+    await removeMemoryFromIndex(id).catch((err) =>
+      console.warn(`[memory] Failed to remove #${id} from the vector index:`, err),
+    );
+    return `Memory \`#${id}\` deleted.`;
+  }
+
+  // memory edit #<id>: <content>
+  const edit = command.match(/^memory\s+edit\s+#?(\d+)[:\s]\s*(.*)$/is);
+  if (edit) {
+    const id = Number(edit[1]);
+    const content = edit[2].trim();
+    if (!content) return "Please provide the new content: `memory edit #<id>: <content>`.";
+    if (!updateMemory(id, content, userId)) return `Memory \`#${id}\` not found or you didn't create it.`;
+    const m = getMemory(id)!;
+    await indexSingleMemory(m.id, m.content, m.scope, m.scope_key, m.tags, m.created_by, m.created_at).catch((err) =>
+      console.warn(`[memory] Failed to re-index #${id}:`, err),
+    );
+    return `Updated memory \`#${id}\`: ${content}`;
+  }
+
+  // memory history #<id>
+  const history = command.match(/^memory\s+history\s+#?(\d+)$/i);
+  if (history) {
+    const versions = getMemoryHistory(Number(history[1]));
+    if (versions.length === 0) return `Memory \`#${history[1]}\` not found.`;
+    if (versions.length === 1) {
+      return `${formatMemory(versions[0], await memorySource(client, versions[0]))}\n_No earlier or later versions._`;
+    }
+    const lines = await Promise.all(versions.map(async (m) => {
+      const status = m.superseded_by !== null ? ` _(replaced by \`#${m.superseded_by}\`)_` : " _(current)_";
+      return `${formatMemory(m, await memorySource(client, m))}${status}`;
+    }));
+    return `*History of memory \`#${history[1]}\`* (oldest first):\n${lines.join("\n")}`;
   }
 
   // memories
@@ -101,19 +236,19 @@ export async function handleMemoryCommand(
 
     const global = all.filter((m) => m.scope === "global");
     if (global.length > 0) {
-      sections.push("*Global:*\n" + global.map(formatMemory).join("\n"));
+      sections.push("*Global:*\n" + await formatMemories(client, global));
     }
 
     if (repoName) {
       const repo = all.filter((m) => m.scope === "repo" && m.scope_key === repoName);
       if (repo.length > 0) {
-        sections.push(`*Repo (${repoName}):*\n` + repo.map(formatMemory).join("\n"));
+        sections.push(`*Repo (${repoName}):*\n` + await formatMemories(client, repo));
       }
     }
 
     const channel = all.filter((m) => m.scope === "channel" && m.scope_key === channelId);
     if (channel.length > 0) {
-      sections.push("*Channel:*\n" + channel.map(formatMemory).join("\n"));
+      sections.push("*Channel:*\n" + await formatMemories(client, channel));
     }
 
     if (sections.length === 0) return "No memories for this context. Use `remember: <content>` to save one.";
@@ -122,3 +257,125 @@ export async function handleMemoryCommand(
 
   return null;
 }
+
+function formatConflictSide(id: number): string {
+  const m = getMemory(id);
+  if (!m) return `\`#${id}\` _(deleted)_`;
+  return m.superseded_by !== null
+    ? `${formatMemory(m)} _(replaced by \`#${m.superseded_by}\`)_`
+    : formatMemory(m);
+}
+
+/**
+ * Handle the admin-only memory commands: `memories conflicts|resolve|consolidate|stale|review`
+ * and `memory pin|unpin`. Returns a reply string, or null if not one of them.
+ */
+export async function handleMemoryAdminCommand(
+  command: string,
+  userId: string,
+  channelId: string,
+  client: WebClient,
+): Promise<string | null> {
+  const trimmed = command.trim();
+
+  // memory pin|unpin #<id>
+  const pin = trimmed.match(/^memory\s+(pin|unpin)\s+#?(\d+)$/i);
+  if (pin) {
+    const id = Number(pin[2]);
+    const m = getMemory(id);
+    if (!m) return `Memory \`#${id}\` not found.`;
+    if (m.superseded_by !== null) return `Memory \`#${id}\` was replaced by \`#${m.superseded_by}\` — pin that one instead.`;
+    const pinned = pin[1].toLowerCase() === "pin";
+    setMemoryPinned(id, pinned);
+    return pinned
+      ? `Pinned \`#${id}\`. New conversations in its scope (${m.scope_key ? `${m.scope}:${m.scope_key}` : m.scope}) always see it.`
+      : `Unpinned \`#${id}\`. It's recalled by search again like any other memory.`;
+  }
+
+  // memories stale
+  if (/^memories\s+stale$/i.test(trimmed)) {
+    const stale = findStaleMemories();
+    if (stale.length === 0) return "No stale memories — everything has been used recently.";
+    const lines = stale.slice(0, 30).map((s) =>
+      `\`#${s.memory.id}\` ${s.memory.content}\n    _${describeStaleMemory(s.memory)} — staleness ${s.score.toFixed(1)}_`,
+    );
+    const more = stale.length > lines.length ? `\n_…and ${stale.length - lines.length} more._` : "";
+    return `*Stale memories* (stalest first):\n${lines.join("\n")}${more}\n\n` +
+      "Delete with `forget <id>`, or `memories review now` to review them with buttons.";
+  }
+
+  // memories review [here|off|now]
+  const review = trimmed.match(/^memories\s+review(?:\s+(here|off|now))?$/i);
+  if (review) {
+    const sub = review[1]?.toLowerCase();
+    const schedule = getMemoryReviewSchedule();
+    if (sub === "here") {
+      if (!(REVIEW_INTERVAL_DAYS > 0)) return "Memory reviews are disabled (`MEMORY_REVIEW_INTERVAL_DAYS=0`).";
+      const nextRunAt = Math.floor(Date.now() / 1000) + REVIEW_INTERVAL_DAYS * 86400;
+      setMemoryReviewSchedule(channelId, userId, nextRunAt);
+      return `Stale memories will be posted here for review every ${REVIEW_INTERVAL_DAYS} days. ` +
+        `First one: <!date^${nextRunAt}^{date_short_pretty}|later> — or run \`memories review now\`.`;
+    }
+    if (sub === "off") {
+      return clearMemoryReviewSchedule() ? "Memory reviews turned off." : "Memory reviews weren't scheduled.";
+    }
+    if (sub === "now") {
+      const target = schedule?.channel_id ?? channelId;
+      const posted = await postMemoryReview(client, target);
+      if (posted === 0) return "No stale memories to review.";
+      return target === channelId ? "" : `Posted ${posted} stale memor${posted === 1 ? "y" : "ies"} for review in <#${target}>.`;
+    }
+    if (!schedule) return "Memory reviews aren't scheduled. Run `memories review here` in the admin channel to set them up.";
+    return `Memory reviews are posted in <#${schedule.channel_id}> every ${REVIEW_INTERVAL_DAYS} days (set by <@${schedule.configured_by}>). ` +
+      `Next: <!date^${schedule.next_run_at}^{date_short_pretty}|soon>.`;
+  }
+
+  // memories conflicts
+  if (/^memories\s+conflicts$/i.test(trimmed)) {
+    const conflicts = listOpenMemoryConflicts();
+    if (conflicts.length === 0) return "No open memory conflicts.";
+    const blocks = conflicts.map((c) =>
+      `*Conflict \`${c.id}\`* — ${(c.similarity * 100).toFixed(0)}% similar\n` +
+      `• newer: ${formatConflictSide(c.memory_id)}\n• older: ${formatConflictSide(c.other_id)}`,
+    );
+    return `*Memories that may contradict each other:*\n\n${blocks.join("\n\n")}\n\n` +
+      "Resolve with `memories resolve <conflict> supersede` (the newer replaces the older) or `memories resolve <conflict> keep` (both stay).";
+  }
+
+  // memories resolve #<n> supersede|keep
+  const resolve = trimmed.match(/^memories\s+resolve\s+#?(\d+)\s+(supersede|keep)$/i);
+  if (resolve) {
+    const conflict = getMemoryConflict(Number(resolve[1]));
+    if (!conflict) return `Conflict \`${resolve[1]}\` not found.`;
+    if (conflict.status !== "open") return `Conflict \`${conflict.id}\` is already resolved (${conflict.status}).`;
+
+    if (resolve[2].toLowerCase() === "keep") {
+      keepConflictingMemories(conflict.id, userId);
+      return `Kept both \`#${conflict.memory_id}\` and \`#${conflict.other_id}\`.`;
+    }
+    const newer = getMemory(conflict.memory_id);
+    if (!newer || newer.superseded_by !== null) {
+      return `Memory \`#${conflict.memory_id}\` is gone or already replaced — use \`memories resolve ${conflict.id} keep\` to close this.`;
+    }
+    supersedeMemories([conflict.other_id], conflict.memory_id, userId);
+    await removeMemoryFromIndex(conflict.other_id).catch((err) =>
+      console.warn(`[memory] Failed to remove #${conflict.other_id} from the vector index:`, err),
+    );
+    return `Memory \`#${conflict.memory_id}\` now replaces \`#${conflict.other_id}\` (kept as history — see \`memory history #${conflict.memory_id}\`).`;
+  }
+
+  // memories consolidate
+  if (/^memories\s+consolidate$/i.test(trimmed)) {
+    const result = await consolidateMemories(userId);
+    if (result.clusters === 0) return "No overlapping memories found — nothing to consolidate.";
+    const lines = result.merged.map((m) =>
+      `• \`#${m.newId}\` replaces ${m.replaced.map((id) => `\`#${id}\``).join(", ")}: ${m.content}`,
+    );
+    const skipped = result.skipped > 0 ? `\n_${result.skipped} group(s) were left as they are._` : "";
+    return lines.length > 0
+      ? `*Consolidated ${lines.length} group(s) of overlapping memories:*\n${lines.join("\n")}${skipped}`
+      : `Found ${result.clusters} group(s) of similar memories, but none needed merging.${skipped}`;
+  }
+
+  return null;
+}
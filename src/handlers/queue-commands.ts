@@ -0,0 +1,129 @@
+import type { WebClient } from "@slack/web-api";
+import {
+  hasRole, listCodingQueue, getQueuedCodingRequest, getQueuedCodingRequestForThread,
+  removeQueuedCodingRequest, setCodingQueuePriority, listCodingUserLimits, setCodingUserLimit,
+  type CodingQueueRow,
+} from "../sessions.js";
+import { codingSessionLimitFor, codingSlotUsage } from "../coding-session.js";
+import { kickCodingQueue } from "./coding-handler.js";
+
+function waitedFor(row: CodingQueueRow): string {
+  const minutes = Math.max(0, Math.round((Date.now() / 1000 - row.created_at) / 60));
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Handle `code queue [cancel|priority|limit|limits]`.
+ * Returns a reply string, or null if not a queue command.
+ * Developers can list the queue and cancel their own requests; priority and
+ * per-user limits are admin-only (the command registry enforces that).
+ */
+export async function handleQueueCommand(
+  command: string,
+  userId: string,
+  threadTs: string | undefined,
+  client: WebClient,
+): Promise<string | null> {
+  const match = command.match(/^code\s+queue(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+
+  const sub = match[1]?.trim() ?? "";
+
+  // ── code queue ──
+  if (sub === "" || /^list$/i.test(sub)) {
+    const { active, max } = codingSlotUsage();
+    const queue = listCodingQueue();
+    const header = `*Coding sessions:* ${active} of ${max} slots in use.`;
+    if (queue.length === 0) return `${header}\nThe queue is empty.`;
+    const lines = queue.map((r, i) => {
+      const priority = r.priority !== 0 ? `, priority ${r.priority}` : "";
+      const mine = r.user_id === userId ? " ← you" : "";
+      return `${i + 1}. \`#${r.id}\` <@${r.user_id}> — waiting ${waitedFor(r)}${priority}${mine}`;
+    });
+    return `${header}\n*Queue:*\n${lines.join("\n")}`;
+  }
+
+  // ── code queue cancel [#id] ──
+  const cancelMatch = sub.match(/^cancel(?:\s+#?(\d+))?$/i);
+  if (cancelMatch) {
+    let row: CodingQueueRow | undefined;
+    if (cancelMatch[1]) {
+      row = getQueuedCodingRequest(parseInt(cancelMatch[1], 10));
+      if (!row) return `No queued request \`#${cancelMatch[1]}\`.`;
+    } else {
+      // This thread's request, else the user's only one
+      row = threadTs ? getQueuedCodingRequestForThread(threadTs) : undefined;
+      if (!row) {
+        const mine = listCodingQueue().filter((r) => r.user_id === userId);
+        if (mine.length === 0) return "You have no queued coding requests.";
+        if (mine.length > 1) {
+          return `You have ${mine.length} queued requests (${mine.map((r) => `\`#${r.id}\``).join(", ")}). ` +
+            "Use `code queue cancel #<id>`.";
+        }
+        row = mine[0];
+      }
+    }
+    if (row.user_id !== userId && !hasRole(userId, "admin")) {
+      return `Only <@${row.user_id}> or an admin can cancel \`#${row.id}\`.`;
+    }
+    removeQueuedCodingRequest(row.id);
+    if (row.thread_key !== threadTs) {
+      await client.chat.postMessage({
+        channel: row.channel_id,
+        thread_ts: row.thread_key,
+        text: `_This coding request was removed from the queue by <@${userId}>._`,
+      }).catch(() => {});
+    }
+    return `Removed \`#${row.id}\` from the coding queue.`;
+  }
+
+  // ── code queue priority #id <n> ──
+  const priorityMatch = sub.match(/^priority\s+#?(\d+)\s+(-?\d+)$/i);
+  if (priorityMatch) {
+    const id = parseInt(priorityMatch[1], 10);
+    const priority = parseInt(priorityMatch[2], 10);
+    if (!setCodingQueuePriority(id, priority)) return `No queued request \`#${id}\`.`;
+    const position = listCodingQueue().findIndex((r) => r.id === id) + 1;
+    return `Priority of \`#${id}\` set to ${priority} — now *#${position}* in line.`;
+  }
+
+  // ── code queue limits ──
+  if (/^limits$/i.test(sub)) {
+    const rows = listCodingUserLimits();
+    if (rows.length === 0) return "No per-user session limits set. Set one with `code queue limit @user <n>`.";
+    const lines = rows.map((r) => `• <@${r.user_id}> — ${r.max_sessions === 0 ? "no limit" : r.max_sessions} (set by <@${r.set_by}>)`);
+    return `*Per-user coding session limits:*\n${lines.join("\n")}`;
+  }
+
+  // ── code queue limit <@user> [<n>|default] ──
+  const limitMatch = sub.match(/^limit\s+<@(U[A-Z0-9]+)(?:\|[^>]*)?>(?:\s+(\d+|default))?$/i);
+  if (limitMatch) {
+    const targetId = limitMatch[1];
+    const value = limitMatch[2]?.toLowerCase();
+    if (!value) {
+      const limit = codingSessionLimitFor(targetId);
+      return `<@${targetId}> can run ${limit === 0 ? "any number of" : limit} coding session${limit === 1 ? "" : "s"} at once.`;
+    }
+    if (value === "default") {
+      setCodingUserLimit(targetId, null, userId);
+      kickCodingQueue();
+      const limit = codingSessionLimitFor(targetId);
+      return `<@${targetId}> is back on the default limit (${limit === 0 ? "none" : limit}).`;
+    }
+    const limit = parseInt(value, 10);
+    setCodingUserLimit(targetId, limit, userId);
+    kickCodingQueue();
+    return limit === 0
+      ? `<@${targetId}> can now run any number of coding sessions at once.`
+      : `<@${targetId}> can now run ${limit} coding session${limit === 1 ? "" : "s"} at once; more are queued.`;
+  }
+
+  return [
+    "Unrecognized queue command. Available commands:",
+    "• `code queue` — show waiting coding requests",
+    "• `code queue cancel [#id]` — leave the queue",
+    "• `code queue priority #<id> <n>` — (admin) move a request up (higher first) or down",
+    "• `code queue limit @user <n|default>` — (admin) set a user's concurrent session limit (0 = none)",
+    "• `code queue limits` — (admin) list per-user limits",
+  ].join("\n");
+}
@@ -1,22 +1,37 @@
-import type { WebClient } from "@slack/web-api";
 import { existsSync, rmSync } from "node:fs";
 import {
   getRepo, getAllRepos, getDefaultRepo, removeRepo as dbRemoveRepo,
-  setDefaultRepo as dbSetDefaultRepo, setRepoAllowSkills,
+  setDefaultRepo as dbSetDefaultRepo, setRepoAllowSkills, setRepoVerifyCommand, setRepoForge, setRepoIdleTimeout,
+  VERIFY_STEPS, type VerifyStep,
 } from "../sessions.js";
 import { addRepo, pullAllRepos, nameFromUrl } from "../repo-manager.js";
 import { writeSkillManifest } from "../skill-manifest.js";
+import { getVerifyProfile } from "../verify.js";
+import { resolveForgeRepo, isForgeKind, FORGE_KINDS } from "../forge.js";
+
+/** Undo Slack's escaping of `&`, `<` and `>` so shell commands survive intact. */
+function unescapeSlackText(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+/** e.g. "forge:gitlab (auto)"; "forge:unknown" if it can't be detected. */
+function forgeBadge(repo: Parameters<typeof resolveForgeRepo>[0]): string {
+  try {
+    const forgeRepo = resolveForgeRepo(repo);
+    return `forge:${forgeRepo.kind}${repo.forge ? "" : " (auto)"}`;
+  } catch {
+    return "forge:unknown";
+  }
+}
 
 /**
  * Handle `repo <subcommand>` commands from Slack.
  * Returns a reply string, or null if not a repo command.
+ * `notify` posts interim status messages for slow operations (clone, pull).
  */
 export async function handleRepoCommand(
   command: string,
-  channelId: string,
-  userId: string,
-  threadTs: string,
-  client: WebClient,
+  notify: (text: string) => Promise<void>,
 ): Promise<string | null> {
   const match = command.match(/^repo\s+(.+)$/i);
   if (!match) return null;
@@ -34,6 +49,8 @@ export async function handleRepoCommand(
         r.is_default ? "default" : "",
         r.enabled ? "enabled" : "disabled",
         r.allow_skills ? "skills:on" : "skills:off",
+        forgeBadge(r),
+        r.idle_timeout_minutes ? `idle:${r.idle_timeout_minutes}m` : "",
       ].filter(Boolean).join(", ");
       return `\u2022 \`${r.name}\` \u2014 ${r.url} [${badges}]`;
     });
@@ -60,11 +77,7 @@ export async function handleRepoCommand(
       return `Repo \`${name}\` already exists. Use \`repo remove ${name}\` first to re-register.`;
     }
 
-    await client.chat.postMessage({
-      channel: channelId,
-      thread_ts: threadTs,
-      text: `Cloning \`${name}\` from ${url}... this may take a moment.`,
-    });
+    await notify(`Cloning \`${name}\` from ${url}... this may take a moment.`);
 
     try {
       await addRepo(name, url);
@@ -124,13 +137,78 @@ export async function handleRepoCommand(
     return `Skills for \`${name}\` are now \`${allow ? "on" : "off"}\`. Active sessions will pick this up after their next restart.`;
   }
 
+  // ── repo forge <name> <github|gitlab|bitbucket|gitea|auto> ──
+  const forgeMatch = sub.match(/^forge\s+(\S+)\s+(\S+)$/i);
+  if (forgeMatch) {
+    const name = forgeMatch[1];
+    const kind = forgeMatch[2].toLowerCase();
+    const repo = getRepo(name);
+    if (!repo) return `Repo \`${name}\` not found.`;
+    if (kind !== "auto" && !isForgeKind(kind)) {
+      return `Unknown forge \`${kind}\`. Use ${FORGE_KINDS.map((k) => `\`${k}\``).join(", ")}, or \`auto\` to detect it from the URL.`;
+    }
+    setRepoForge(name, kind === "auto" ? null : kind);
+    return `Forge for \`${name}\` is now ${forgeBadge({ ...repo, forge: kind === "auto" ? null : kind })}.`;
+  }
+
+  // ── repo idle-timeout <name> <minutes|default> ──
+  const idleMatch = sub.match(/^idle-timeout\s+(\S+)\s+(\d+|default)$/i);
+  if (idleMatch) {
+    const name = idleMatch[1];
+    const repo = getRepo(name);
+    if (!repo) return `Repo \`${name}\` not found.`;
+    if (idleMatch[2].toLowerCase() === "default") {
+      setRepoIdleTimeout(name, null);
+      return `Coding sessions on \`${name}\` now use the default idle timeout.`;
+    }
+    const minutes = parseInt(idleMatch[2], 10);
+    if (minutes < 5) return "The idle timeout must be at least 5 minutes.";
+    setRepoIdleTimeout(name, minutes);
+    return `Coding sessions on \`${name}\` now close after ${minutes} idle minutes. A channel's \`config set idle-timeout\` still takes precedence.`;
+  }
+
+  // ── repo verify <name> [set <step> <command> | clear <step|all>] ──
+  const verifyMatch = sub.match(/^verify\s+(\S+)(?:\s+(set|clear)\s+(\S+)(?:\s+([\s\S]+))?)?$/i);
+  if (verifyMatch) {
+    const [, name, action, stepArg, commandArg] = verifyMatch;
+    const repo = getRepo(name);
+    if (!repo) return `Repo \`${name}\` not found.`;
+
+    if (!action) {
+      const profile = getVerifyProfile(repo);
+      if (profile.length === 0) {
+        return `No verification profile for \`${name}\`. Add one with \`repo verify ${name} set <${VERIFY_STEPS.join("|")}> <command>\`.`;
+      }
+      const lines = profile.map((c) => `\u2022 *${c.step}* \u2014 \`${c.command}\``);
+      return `*Verification profile for \`${name}\`* _(runs after each coding turn)_:\n${lines.join("\n")}`;
+    }
+
+    const step = stepArg.toLowerCase();
+    if (action.toLowerCase() === "clear") {
+      if (commandArg) return `Usage: \`repo verify ${name} clear <${VERIFY_STEPS.join("|")}|all>\``;
+      if (step === "all") {
+        for (const s of VERIFY_STEPS) setRepoVerifyCommand(name, s, null);
+        return `Verification profile for \`${name}\` cleared.`;
+      }
+      if (!(VERIFY_STEPS as readonly string[]).includes(step)) {
+        return `Unknown step \`${step}\`. Steps: ${VERIFY_STEPS.map((s) => `\`${s}\``).join(", ")}, or \`all\`.`;
+      }
+      setRepoVerifyCommand(name, step as VerifyStep, null);
+      return `Removed the *${step}* step from \`${name}\`'s verification profile.`;
+    }
+
+    if (!(VERIFY_STEPS as readonly string[]).includes(step)) {
+      return `Unknown step \`${step}\`. Steps: ${VERIFY_STEPS.map((s) => `\`${s}\``).join(", ")}.`;
+    }
+    const command = unescapeSlackText((commandArg ?? "").trim()).replace(/^`+|`+$/g, "").trim();
+    if (!command) return `Usage: \`repo verify ${name} set ${step} <command>\``;
+    setRepoVerifyCommand(name, step as VerifyStep, command);
+    return `Set the *${step}* step for \`${name}\` to \`${command}\`. It runs in the session worktree after each coding turn.`;
+  }
+
   // ── repo sync ──
   if (/^sync$/i.test(sub)) {
-    await client.chat.postMessage({
-      channel: channelId,
-      thread_ts: threadTs,
-      text: "_Pulling latest for all repos..._",
-    });
+    await notify("_Pulling latest for all repos..._");
     pullAllRepos();
     return "All repos synced.";
   }
@@ -142,6 +220,11 @@ export async function handleRepoCommand(
     "\u2022 `repo remove <name>` \u2014 unregister a repo",
     "\u2022 `repo set-default <name>` \u2014 set the default repo",
     "\u2022 `repo allow-skills <name> on|off` \u2014 toggle whether the repo's `.claude/skills/` and `.opencode/skill[s]/` are surfaced to the agent",
+    "\u2022 `repo forge <name> <github|gitlab|bitbucket|gitea|auto>` \u2014 set which forge hosts the repo (PR/MR creation)",
+    "\u2022 `repo idle-timeout <name> <minutes|default>` \u2014 close idle coding sessions on this repo after this long",
+    "\u2022 `repo verify <name>` \u2014 show the repo's verification profile",
+    "\u2022 `repo verify <name> set <install|lint|typecheck|test> <command>` \u2014 set a check to run after each coding turn",
+    "\u2022 `repo verify <name> clear <step|all>` \u2014 remove checks",
     "\u2022 `repo sync` \u2014 pull latest for all repos",
   ].join("\n");
 }
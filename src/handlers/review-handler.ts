@@ -0,0 +1,285 @@
+/**
+ * PR review mode: `review <PR URL or number>` checks the PR head out into a
+ * worktree (same machinery as coding sessions, but with the read-only agent),
+ * has the agent review the diff against the repo's context, knowledge and
+ * memories, and posts the review in the thread. A "Post to PR" button submits
+ * it to the forge as a comment with the requester's connected account.
+ */
+import type { WebClient } from "@slack/web-api";
+import type { KnownBlock } from "@slack/types";
+import {
+  getRepo, getEnabledRepos, getUserForgeCredential, getChannelConfig,
+  savePrReview, getPrReview, markPrReviewPosted,
+  type RepoRow,
+} from "../sessions.js";
+import {
+  createCodingSession, askCodingQuestion, destroyCodingSession,
+  getActiveCodingSession, getBranchDiffstat, codingUsage, codingSlotBlocker,
+} from "../coding-session.js";
+import {
+  getForgeProvider, resolveForgeRepo, parsePullRequestUrl,
+  type ForgeRepo, type PullRequestInfo,
+} from "../forge.js";
+import { resolveRepoForChannel } from "../repo-manager.js";
+import { createProgressUpdater } from "../utils/progress.js";
+import type { SlackContext } from "../utils/slack-context.js";
+import { safePostResponse } from "./shared.js";
+import { Action, BlockPrefix, HOSTNAME } from "../constants.js";
+
+/** PR descriptions longer than this are truncated in the review prompt. */
+const MAX_PR_BODY_CHARS = 4000;
+
+export function reviewButtons(reviewId: number, requestNoun: string): KnownBlock {
+  return {
+    type: "actions",
+    block_id: `${BlockPrefix.REVIEW}${reviewId}`,
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: `Post to ${requestNoun}` },
+        action_id: Action.REVIEW_POST,
+        value: String(reviewId),
+        style: "primary",
+        confirm: {
+          title: { type: "plain_text", text: `Post review to ${requestNoun}?` },
+          text: { type: "plain_text", text: "The review will be posted as a comment from your connected account." },
+          confirm: { type: "plain_text", text: "Post" },
+          deny: { type: "plain_text", text: "Cancel" },
+        },
+      },
+    ],
+  } as KnownBlock;
+}
+
+export interface PullRequestTarget {
+  repo: RepoRow;
+  forgeRepo: ForgeRepo;
+  number: number;
+}
+
+/**
+ * Work out which registered repo and PR number a `review` (or `code --pr`)
+ * target refers to. A URL is matched against the enabled repos' forge
+ * locations; a bare number uses the channel's repo. Throws with a
+ * user-facing message.
+ */
+export function resolvePullRequestTarget(target: string, channelId: string): PullRequestTarget {
+  const cleaned = target.replace(/^<([^|>]+)(?:\|[^>]*)?>$/, "$1");
+
+  const numberMatch = cleaned.match(/^#?(\d+)$/);
+  if (numberMatch) {
+    const channelRepo = resolveRepoForChannel(channelId);
+    const repo = channelRepo ? getRepo(channelRepo.name) : undefined;
+    if (!repo) throw new Error("No repository configured for this channel. Pass the full PR URL instead.");
+    return { repo, forgeRepo: resolveForgeRepo(repo), number: parseInt(numberMatch[1], 10) };
+  }
+
+  const parsed = parsePullRequestUrl(cleaned);
+  if (!parsed) {
+    throw new Error(`\`${cleaned}\` isn't a PR URL or number — e.g. \`https://github.com/org/repo/pull/42\` or \`42\`.`);
+  }
+  for (const repo of getEnabledRepos()) {
+    let forgeRepo: ForgeRepo;
+    try {
+      forgeRepo = resolveForgeRepo(repo);
+    } catch {
+      continue;
+    }
+    if (forgeRepo.host === parsed.host && forgeRepo.path.toLowerCase() === parsed.path.toLowerCase()) {
+      return { repo, forgeRepo, number: parsed.number };
+    }
+  }
+  throw new Error(`\`${parsed.host}/${parsed.path}\` isn't a registered repo. An admin can add it with \`repo add\`.`);
+}
+
+function buildReviewPrompt(pr: PullRequestInfo, diffstat: string | null): string {
+  const body = pr.body.length > MAX_PR_BODY_CHARS
+    ? `${pr.body.slice(0, MAX_PR_BODY_CHARS)}\n…(truncated)`
+    : pr.body;
+  return [
+    `Review pull request #${pr.number}: "${pr.title}" by ${pr.author} (${pr.url}).`,
+    `It is checked out in your working directory and targets \`${pr.baseBranch}\` — diff it with \`git diff origin/${pr.baseBranch}...HEAD\`.`,
+    "",
+    "PR description:",
+    body.trim() || "(none)",
+    "",
+    "Files changed:",
+    diffstat || "(diffstat unavailable — run the diff yourself)",
+  ].join("\n");
+}
+
+export interface ReviewStartOpts {
+  target: string;
+  channelId: string;
+  userId: string;
+  threadTs: string;
+  client: WebClient;
+  slackCtx: SlackContext;
+}
+
+/**
+ * Run a review for `review <PR URL or number>` and post it in the thread.
+ * The review session is torn down as soon as the review is posted.
+ */
+export async function handleReviewStart(opts: ReviewStartOpts): Promise<void> {
+  const { target, channelId, userId, threadTs, client, slackCtx } = opts;
+
+  let repo: RepoRow;
+  let forgeRepo: ForgeRepo;
+  let number: number;
+  try {
+    ({ repo, forgeRepo, number } = resolvePullRequestTarget(target, channelId));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: msg });
+    return;
+  }
+
+  // Reviews take a coding slot but aren't queued — ask to retry instead
+  const blocker = codingSlotBlocker(userId);
+  if (blocker) {
+    await client.chat.postMessage({
+      channel: channelId,
+      thread_ts: threadTs,
+      text: `_Can't start the review right now — ${blocker}. Try again when a coding session ends._`,
+    });
+    return;
+  }
+
+  const provider = getForgeProvider(forgeRepo.kind);
+  const placeholder = await client.chat.postMessage({
+    channel: channelId,
+    thread_ts: threadTs,
+    text: `_Checking out ${provider.requestNoun} #${number} from \`${repo.name}\`... This may take 10-15 seconds._`,
+  });
+  const placeholderTs = placeholder.ts!;
+
+  let sessionCreated = false;
+  try {
+    // Public repos don't need a token to read the PR; private ones use the requester's
+    const credential = getUserForgeCredential(userId, forgeRepo.kind, forgeRepo.host);
+    let pr: PullRequestInfo;
+    try {
+      pr = await provider.getPullRequest(forgeRepo, credential?.token ?? null, number);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const hint = credential ? "" : ` If the repo is private, connect your ${provider.label} account with \`forge connect\` first.`;
+      throw new Error(`Couldn't load ${provider.requestNoun} #${number}: ${msg}${hint}`);
+    }
+
+    const shortTs = threadTs.replace(".", "-").slice(-6);
+    const session = await createCodingSession(threadTs, userId, channelId, "build", undefined, repo.name, {
+      review: { fetchRef: pr.headRef, branch: `review/${provider.requestNoun.toLowerCase()}-${pr.number}-${shortTs}` },
+    });
+    sessionCreated = true;
+
+    const channelConfig = getChannelConfig(channelId);
+    if (channelConfig) slackCtx.customPrompt = channelConfig.customPrompt;
+
+    await client.chat.update({
+      channel: channelId,
+      ts: placeholderTs,
+      text: `_Reviewing ${provider.requestNoun} #${pr.number}: ${pr.title}..._`,
+    });
+    const progress = createProgressUpdater(client, channelId, placeholderTs);
+
+    const result = await askCodingQuestion({
+      session,
+      question: buildReviewPrompt(pr, getBranchDiffstat(threadTs, pr.baseBranch)),
+      ctx: slackCtx,
+      onProgress: (status: string) => { progress.update(status); },
+    });
+    progress.stop();
+
+    // Cancelled while the agent was working — the cancel reply already told the user
+    const stillActive = getActiveCodingSession(threadTs);
+    if (!stillActive) {
+      await client.chat.delete({ channel: channelId, ts: placeholderTs }).catch(() => {});
+      return;
+    }
+
+    const reviewId = savePrReview({
+      threadKey: threadTs,
+      channelId,
+      userId,
+      repoName: repo.name,
+      prNumber: pr.number,
+      prUrl: pr.url,
+      body: result.text,
+    });
+
+    await safePostResponse({
+      client, channel: channelId, threadTs, placeholderTs,
+      rawMarkdown: `**Review of [${provider.requestNoun} #${pr.number}: ${pr.title}](${pr.url})**\n\n${result.text}`,
+      sessionId: stillActive.opencodeSessionId ?? undefined,
+      customClient: stillActive.client,
+      customBaseUrl: `http://${HOSTNAME}:${stillActive.port}`,
+      actionButtons: reviewButtons(reviewId, provider.requestNoun),
+      usage: codingUsage(stillActive),
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (err.message === "Session aborted") {
+      console.log(`[review] Review ${threadTs} aborted — cleaning up placeholder.`);
+      await client.chat.delete({ channel: channelId, ts: placeholderTs }).catch(() => {});
+      return;
+    }
+    console.error("[review] Error:", err.message);
+    await client.chat.update({
+      channel: channelId,
+      ts: placeholderTs,
+      text: `_Review failed: ${err.message}_`,
+    });
+  } finally {
+    if (sessionCreated) {
+      await destroyCodingSession(threadTs).catch((err) => {
+        console.error(`[review] Failed to clean up review session ${threadTs}:`, err);
+      });
+    }
+  }
+}
+
+/**
+ * Submit a saved review to its PR/MR as a comment, using the requester's
+ * forge account. Only the requester can post it.
+ */
+export async function postReviewToForge(
+  reviewId: number,
+  userId: string,
+): Promise<{ posted: boolean; text: string }> {
+  const review = getPrReview(reviewId);
+  if (!review) return { posted: false, text: "_That review is no longer tracked._" };
+  if (review.posted_url) {
+    return { posted: false, text: `_This review was already posted: ${review.posted_url}_` };
+  }
+  if (review.user_id !== userId) {
+    return { posted: false, text: `_Only <@${review.user_id}>, who requested the review, can post it — it's posted from their account._` };
+  }
+
+  const repo = getRepo(review.repo_name);
+  if (!repo) return { posted: false, text: `_Repository \`${review.repo_name}\` is no longer registered._` };
+
+  let forgeRepo: ForgeRepo;
+  try {
+    forgeRepo = resolveForgeRepo(repo);
+  } catch (err) {
+    return { posted: false, text: err instanceof Error ? err.message : String(err) };
+  }
+  const provider = getForgeProvider(forgeRepo.kind);
+  const credential = getUserForgeCredential(userId, forgeRepo.kind, forgeRepo.host);
+  if (!credential) {
+    return {
+      posted: false,
+      text: `_Connect your ${provider.label} account (\`${forgeRepo.host}\`) first — DM me \`forge connect ${forgeRepo.kind} <token>\`, then click the button again._`,
+    };
+  }
+
+  try {
+    const url = await provider.postReview(forgeRepo, credential.token, review.pr_number, review.body);
+    markPrReviewPosted(reviewId, url);
+    return { posted: true, text: `Review posted to ${provider.requestNoun} #${review.pr_number} by <@${userId}>: ${url}` };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { posted: false, text: `_Failed to post the review: ${msg}_` };
+  }
+}
@@ -1,17 +1,14 @@
-import type { WebClient } from "@slack/web-api";
-import { hasRole, setRole, removeRole, listPermissions, type Role } from "../sessions.js";
+import { setRole, removeRole, listPermissions } from "../sessions.js";
 
 /**
  * Handle `role <subcommand>` commands.
  * Returns a reply string, or null if not a role command.
+ * Everything except `role list` is admin-only; the command registry enforces that.
  */
-export async function handleRoleCommand(
+export function handleRoleCommand(
   command: string,
-  channelId: string,
   userId: string,
-  threadTs: string,
-  client: WebClient,
-): Promise<string | null> {
+): string | null {
   const match = command.match(/^role\s+(.*)/i);
   if (!match) return null;
 
@@ -30,17 +27,6 @@ export async function handleRoleCommand(
     return `*Assigned roles:*\n${lines.join("\n")}`;
   }
 
-  // Everything below requires admin
-  if (!hasRole(userId, "admin")) {
-    await client.chat.postEphemeral({
-      channel: channelId,
-      user: userId,
-      thread_ts: threadTs,
-      text: "This command requires *admin* permissions. Ask an admin to run `role add @you admin`.",
-    });
-    return "";  // handled, but no public reply
-  }
-
   // role add <@user> <admin|developer>
   const addMatch = sub.match(/^add\s+<@(U[A-Z0-9]+)(?:\|[^>]*)?>\s+(admin|developer)$/i);
   if (addMatch) {
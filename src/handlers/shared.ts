@@ -5,8 +5,8 @@ import {
   getOrCreateSession,
   getChannelConfig,
   getChannelAgent, getChannelTools, resolveAgent,
-  isSessionCompacted, setSessionCompacted,
-  hasRole,
+  isSessionCompacted, setSessionCompacted, setSessionUser,
+  hasRole, saveQaAnswer, getCodingSession, SessionStatus,
 } from "../sessions.js";
 import { askQuestion, askForShorterResponse } from "../opencode.js";
 import type { RepoInfo } from "../context-prefix.js";
@@ -17,16 +17,13 @@ import { formatResponse } from "../utils/formatting.js";
 import { getSlackContext, fetchThreadContext, fetchLinkedThreads, type SlackContext } from "../utils/slack-context.js";
 import { downloadFiles, TEXT_MIMES, type SlackFile, type ConvertedFile } from "../utils/slack-files.js";
 import { createProgressUpdater } from "../utils/progress.js";
-import { handleConfigCommand } from "./config-commands.js";
-import { handleToolCommand, advanceToolAdd } from "./tool-commands.js";
-import { handleRepoCommand } from "./repo-commands.js";
-import { handleRoleCommand } from "./role-commands.js";
-import { handleGithubCommand } from "./github-commands.js";
 import { handleCodeCommand } from "./code-commands.js";
-import { handleCodingMessage, handleCodeStart } from "./coding-handler.js";
-import { handleMemoryCommand } from "./memory-commands.js";
+import { handleCodingMessage, handleCodeStart, resumePausedSession } from "./coding-handler.js";
+import { handleReviewStart } from "./review-handler.js";
 import { handleKnowledgeCommand, type KnowledgeImportFile } from "./knowledge-commands.js";
-import { handleHelpCommand } from "./help-commands.js";
+import { feedbackButtons } from "./feedback-commands.js";
+import { dispatchCommand, accessDeniedText } from "./commands.js";
+import { checkUsageBudget, type UsageAttribution } from "../usage.js";
 
 /** Send an ephemeral denial message visible only to the requesting user. */
 async function denyAccess(
@@ -36,7 +33,7 @@ async function denyAccess(
     channel: channelId,
     user: userId,
     thread_ts: threadTs,
-    text: `This command requires *${requiredRole}* permissions. Ask an admin to run \`role add @you ${requiredRole}\`.`,
+    text: accessDeniedText(requiredRole),
   });
 }
 
@@ -106,98 +103,41 @@ export async function processIncoming(opts: IncomingOpts): Promise<void> {
   }
 
   if (!hasFiles && question) {
-    // ── Help (open to all) ──
-    const helpReply = handleHelpCommand(question, userId);
-    if (helpReply) {
-      await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: helpReply });
-      return;
-    }
-
-    // ── Admin-only: tool commands (except "tool list") ──
-    if (/^tool\s+/i.test(question) && !/^tool\s+list$/i.test(question)) {
-      if (!hasRole(userId, "admin")) {
-        await denyAccess(client, channelId, userId, threadTs, "admin");
-        return;
-      }
-    }
-    const toolReply = await handleToolCommand(question, channelId, userId, threadTs, client);
-    if (toolReply) {
-      await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: toolReply });
-      return;
-    }
-
-    // ── Admin-only: tool add conversation flow ──
-    if (hasRole(userId, "admin")) {
-      const addReply = advanceToolAdd(channelId, userId, question);
-      if (addReply) {
-        await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: addReply });
-        return;
-      }
-    }
-
-    // ── Open to all: channel-scoped config ──
-    const configReply = await handleConfigCommand(
-      question, channelId, channelName ?? slackCtx.channelName, userId,
-    );
-    if (configReply) {
-      await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: configReply });
-      return;
-    }
-
-    // ── Admin-only: repo commands ──
-    if (/^repo\s+/i.test(question)) {
-      if (!hasRole(userId, "admin")) {
-        await denyAccess(client, channelId, userId, threadTs, "admin");
-        return;
-      }
-    }
-    const repoReply = await handleRepoCommand(question, channelId, userId, threadTs, client);
-    if (repoReply) {
-      await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: repoReply });
+    const result = await dispatchCommand({
+      text: question,
+      channelId,
+      channelName: channelName ?? slackCtx.channelName,
+      userId,
+      isPrivate: channelType === "dm",
+      threadTs,
+      eventTs,
+      client,
+      notify: async (text) => {
+        await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text });
+      },
+    });
+    if (result?.kind === "denied") {
+      await client.chat.postEphemeral({ channel: channelId, user: userId, thread_ts: threadTs, text: result.text });
       return;
     }
-
-    // ── Role management (admin-only for add/remove, list open to all) ──
-    const roleReply = await handleRoleCommand(question, channelId, userId, threadTs, client);
-    if (roleReply) {
-      if (roleReply.length > 0) {
-        await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: roleReply });
+    if (result) {
+      if (result.text.length > 0) {
+        await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: result.text });
       }
       return;
     }
+  }
 
-    // ── GitHub PAT management (connect/disconnect/status) ──
-    if (/^github\s+/i.test(question)) {
-      const githubReply = await handleGithubCommand(question, channelId, channelType, userId, threadTs, client, eventTs);
-      if (githubReply !== undefined) {
-        if (githubReply.length > 0) {
-          await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: githubReply });
-        }
-        return;
-      }
-    }
-
-    const memoryReply = await handleMemoryCommand(question, channelId, userId);
-    if (memoryReply) {
-      await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: memoryReply });
+  // ── Coding session routing (developer+ only) ──
+  // 0. A paused session wakes up on the next message in its thread
+  if (getCodingSession(threadTs)?.status === SessionStatus.PAUSED) {
+    if (!hasRole(userId, "developer")) {
+      await denyAccess(client, channelId, userId, threadTs, "developer");
       return;
     }
-
-    // ── Knowledge commands (admin-only for mutations, open for list/view) ──
-    if (/^knowledge\s+/i.test(question)) {
-      if (!/^knowledge\s+(list|view)\b/i.test(question) && !hasRole(userId, "admin")) {
-        await denyAccess(client, channelId, userId, threadTs, "admin");
-        return;
-      }
-      const knowledgeReply = handleKnowledgeCommand(question, channelId, userId);
-      if (knowledgeReply) {
-        await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: knowledgeReply });
-        return;
-      }
-    }
+    if (!(await resumePausedSession(threadTs, channelId, client))) return;
   }
 
-  // ── Coding session routing (developer+ only) ──
   // 1. Check if this thread has an active coding session
   const existingCodingSession = getActiveCodingSession(threadTs);
   if (existingCodingSession) {
@@ -205,11 +145,11 @@ export async function processIncoming(opts: IncomingOpts): Promise<void> {
       await denyAccess(client, channelId, userId, threadTs, "developer");
       return;
     }
-    // Check for code-thread commands (status, pr, done, cancel)
+    // Check for code-thread commands (status, diff, pr, done, cancel, ...)
     if (question) {
       const codeReply = await handleCodeCommand(question, threadTs, userId, client, channelId);
-      if (codeReply) {
-        await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: codeReply });
+      if (codeReply !== null) {
+        if (codeReply) await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: codeReply });
         return;
       }
     }
@@ -231,7 +171,7 @@ export async function processIncoming(opts: IncomingOpts): Promise<void> {
   }
 
   // 2. Check if message starts with "code" command to start a new coding session
-  //    Syntax: code [--agent <name>] <description>
+  //    Syntax: code [--agent <name>] [--branch <name> | --pr <url|number>] <description>
   if (question) {
     const codeMatch = question.match(/^code\s+([\s\S]+)/i);
     if (codeMatch) {
@@ -239,16 +179,21 @@ export async function processIncoming(opts: IncomingOpts): Promise<void> {
         await denyAccess(client, channelId, userId, threadTs, "developer");
         return;
       }
+      const budgetReply = checkUsageBudget(channelId, userId);
+      if (budgetReply) {
+        await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: budgetReply });
+        return;
+      }
       let rest = codeMatch[1].trim();
-      let agent: string | undefined;
-      const agentMatch = rest.match(/^--agent\s+(\S+)\s*([\s\S]*)/i);
-      if (agentMatch) {
-        agent = agentMatch[1];
-        rest = agentMatch[2].trim();
+      const flags: { agent?: string; branch?: string; pr?: string } = {};
+      let flagMatch: RegExpMatchArray | null;
+      while ((flagMatch = rest.match(/^--(agent|branch|pr)\s+(\S+)\s*([\s\S]*)/i))) {
+        flags[flagMatch[1].toLowerCase() as keyof typeof flags] = flagMatch[2];
+        rest = flagMatch[3].trim();
       }
       await handleCodeStart({
         description: rest || "Help me with this codebase.",
-        agent,
+        ...flags,
         channelId,
         userId,
         threadTs,
@@ -260,6 +205,29 @@ export async function processIncoming(opts: IncomingOpts): Promise<void> {
       });
       return;
     }
+
+    // 3. "review <PR URL or number>" runs a read-only review of an existing PR
+    const reviewMatch = question.match(/^review\s+(<[^>]+>|#?\d+|https?:\/\/\S+)\s*$/i);
+    if (reviewMatch) {
+      if (!hasRole(userId, "developer")) {
+        await denyAccess(client, channelId, userId, threadTs, "developer");
+        return;
+      }
+      const budgetReply = checkUsageBudget(channelId, userId);
+      if (budgetReply) {
+        await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: budgetReply });
+        return;
+      }
+      await handleReviewStart({ target: reviewMatch[1], channelId, userId, threadTs, client, slackCtx });
+      return;
+    }
+  }
+
+  // ── Usage budgets (Q&A) ──
+  const budgetReply = checkUsageBudget(channelId, userId);
+  if (budgetReply) {
+    await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: budgetReply });
+    return;
   }
 
   // ── Post placeholder ──
@@ -399,6 +367,7 @@ export async function handleQuestion(opts: HandleQuestionOpts): Promise<void> {
   }
 
   const { sessionId, isNew } = await getOrCreateSession(threadTs, channel);
+  setSessionUser(threadTs, slackCtx.userId);
 
   // If a previous response triggered compaction, re-send full instructions
   // so the agent recovers its behavioral constraints, then clear the flag.
@@ -420,6 +389,13 @@ export async function handleQuestion(opts: HandleQuestionOpts): Promise<void> {
     tools,
     files,
     repo,
+    usage: {
+      kind: "qa" as const,
+      threadKey: threadTs,
+      channelId: channel,
+      userId: slackCtx.userId,
+      repoName: repo?.name,
+    },
   };
 
   let result;
@@ -445,10 +421,23 @@ export async function handleQuestion(opts: HandleQuestionOpts): Promise<void> {
 
   progress.stop();
 
+  // Track the answer so feedback buttons can reference it
+  let actionButtons: KnownBlock | undefined;
+  try {
+    const answerId = saveQaAnswer({
+      threadKey: threadTs, channelId: channel, sessionId, agent, repoName: repo?.name, question,
+    });
+    actionButtons = feedbackButtons(answerId);
+  } catch (err) {
+    console.warn("[feedback] Failed to save answer:", err);
+  }
+
   await safePostResponse({
     client, channel, threadTs, placeholderTs,
     rawMarkdown: result.text,
     sessionId,
+    actionButtons,
+    usage: askOpts.usage,
   });
 }
 
@@ -468,10 +457,12 @@ export interface SafePostOpts {
   customBaseUrl?: string;
   /** Append action buttons to the last message. */
   actionButtons?: KnownBlock;
+  /** Usage-ledger attribution for the shorten-and-retry prompt. */
+  usage?: UsageAttribution;
 }
 
 export async function safePostResponse(opts: SafePostOpts): Promise<void> {
-  const { client, channel, threadTs, placeholderTs, rawMarkdown, sessionId, customClient, customBaseUrl, actionButtons } = opts;
+  const { client, channel, threadTs, placeholderTs, rawMarkdown, sessionId, customClient, customBaseUrl, actionButtons, usage } = opts;
 
   const tryPost = async (markdown: string) => {
     const messages = formatResponse(markdown);
@@ -516,7 +507,7 @@ export async function safePostResponse(opts: SafePostOpts): Promise<void> {
     });
 
     if (sessionId) {
-      const shorter = await askForShorterResponse({ sessionId, customClient, customBaseUrl });
+      const shorter = await askForShorterResponse({ sessionId, customClient, customBaseUrl, usage });
       await tryPost(shorter);
     } else {
       // No session to retry with — hard fallback
@@ -0,0 +1,67 @@
+import type { AllMiddlewareArgs, SlackCommandMiddlewareArgs } from "@slack/bolt";
+import { dispatchCommand } from "./commands.js";
+import { handleHelpCommand, commandHints } from "./help-commands.js";
+
+type SlashArgs = SlackCommandMiddlewareArgs & AllMiddlewareArgs;
+
+/**
+ * `/slackode <command>` — runs the same commands as @mentions and DMs.
+ * Replies are ephemeral unless the command is prefixed with `--public`.
+ * Questions and coding sessions still go through @mentions and DMs.
+ */
+export async function handleSlashCommand({ command, ack, respond, client }: SlashArgs): Promise<void> {
+  await ack();
+
+  let text = command.text.trim();
+  let responseType: "ephemeral" | "in_channel" = "ephemeral";
+  const publicMatch = text.match(/^--public(?:\s+([\s\S]*))?$/i);
+  if (publicMatch) {
+    responseType = "in_channel";
+    text = (publicMatch[1] ?? "").trim();
+  }
+
+  const userId = command.user_id;
+  if (!text) {
+    await respond({ response_type: "ephemeral", text: handleHelpCommand("help", userId)! });
+    return;
+  }
+
+  try {
+    const result = await dispatchCommand({
+      text,
+      channelId: command.channel_id,
+      channelName: command.channel_name === "directmessage" ? "DM" : command.channel_name,
+      userId,
+      isPrivate: true,
+      client,
+      notify: async (status) => {
+        await respond({ response_type: "ephemeral", text: status });
+      },
+    });
+
+    if (result?.kind === "denied") {
+      await respond({ response_type: "ephemeral", text: result.text });
+      return;
+    }
+    if (result) {
+      if (result.text.length > 0) {
+        await respond({ response_type: responseType, text: result.text });
+      }
+      return;
+    }
+
+    const hints = commandHints(text, userId);
+    await respond({
+      response_type: "ephemeral",
+      text: hints ??
+        `Unknown command \`${text}\`. Try \`/slackode help\`.\n` +
+        "_To ask a question or start a coding session, @mention me or send me a DM._",
+    });
+  } catch (err) {
+    console.error("[slash] Command failed:", err);
+    await respond({
+      response_type: "ephemeral",
+      text: "_Sorry, that command failed. Please try again._",
+    });
+  }
+}
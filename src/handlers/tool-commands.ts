@@ -1,4 +1,3 @@
-import type { WebClient } from "@slack/web-api";
 import {
   getToolFromDb, getAllTools, upsertTool, removeTool,
   setToolKey, setToolEnabled, getToolKey,
@@ -7,7 +6,7 @@ import {
 import { restartServer } from "../opencode-server.js";
 
 /** Would this tool be included in the generated config? */
-function isToolActive(tool: { enabled: number; mcp_type: string }, key: string | undefined): boolean {
+export function isToolActive(tool: { enabled: number; mcp_type: string }, key: string | undefined): boolean {
   if (!tool.enabled) return false;
   // Remote tools require a key; local tools work without one.
   return tool.mcp_type === "local" || !!key;
@@ -144,14 +143,13 @@ export function advanceToolAdd(
  * Handle `tool <subcommand>` commands from Slack.
  * Returns a reply string (possibly async due to restart), or null if not a tool command.
  *
- * Pass the WebClient + channel so we can post restart status messages.
+ * `notify` posts interim status messages (e.g. while OpenCode restarts).
  */
 export async function handleToolCommand(
   command: string,
   channelId: string,
   userId: string,
-  threadTs: string,
-  client: WebClient,
+  notify: (text: string) => Promise<void>,
 ): Promise<string | null> {
   const match = command.match(/^tool\s+(.+)$/i);
   if (!match) return null;
@@ -203,11 +201,7 @@ export async function handleToolCommand(
     removeTool(name);
 
     if (wasActive) {
-      await client.chat.postMessage({
-        channel: channelId,
-        thread_ts: threadTs,
-        text: `Tool \`${name}\` removed. _Reconfiguring... this takes a few seconds._`,
-      });
+      await notify(`Tool \`${name}\` removed. _Reconfiguring... this takes a few seconds._`);
       const elapsed = await restartServer();
       return `Tools updated. OpenCode restarted. _(took ${elapsed.toFixed(1)}s)_`;
     }
@@ -226,11 +220,7 @@ export async function handleToolCommand(
     setToolKey(name, apiKey);
 
     if (tool.enabled) {
-      await client.chat.postMessage({
-        channel: channelId,
-        thread_ts: threadTs,
-        text: `API key stored for \`${name}\`. _Reconfiguring... this takes a few seconds._\n:warning: *Delete your message containing the API key for security.*`,
-      });
+      await notify(`API key stored for \`${name}\`. _Reconfiguring... this takes a few seconds._\n:warning: *Delete your message containing the API key for security.*`);
       const elapsed = await restartServer();
       return `Tools updated. OpenCode restarted. _(took ${elapsed.toFixed(1)}s)_`;
     }
@@ -249,11 +239,7 @@ export async function handleToolCommand(
     setToolEnabled(name, true);
 
     if (isToolActive({ ...tool, enabled: 1 }, getToolKey(tool))) {
-      await client.chat.postMessage({
-        channel: channelId,
-        thread_ts: threadTs,
-        text: `Tool \`${name}\` enabled. _Reconfiguring... this takes a few seconds._`,
-      });
+      await notify(`Tool \`${name}\` enabled. _Reconfiguring... this takes a few seconds._`);
       const elapsed = await restartServer();
       return `Tools updated. OpenCode restarted. _(took ${elapsed.toFixed(1)}s)_`;
     }
@@ -272,11 +258,7 @@ export async function handleToolCommand(
     setToolEnabled(name, false);
 
     if (isToolActive(tool, getToolKey(tool))) {
-      await client.chat.postMessage({
-        channel: channelId,
-        thread_ts: threadTs,
-        text: `Tool \`${name}\` disabled. _Reconfiguring... this takes a few seconds._`,
-      });
+      await notify(`Tool \`${name}\` disabled. _Reconfiguring... this takes a few seconds._`);
       const elapsed = await restartServer();
       return `Tools updated. OpenCode restarted. _(took ${elapsed.toFixed(1)}s)_`;
     }
@@ -0,0 +1,151 @@
+/**
+ * Usage commands for Slack (admin-only):
+ *   usage report [--channel|--user|--repo] [--since 7d]   → token/cost breakdown
+ *   usage budget list                                     → show configured budgets
+ *   usage budget set <scope> daily|monthly <limit> [tokens|usd]
+ *   usage budget clear <scope> daily|monthly
+ *
+ * <scope> is one of: --global, --channel [#channel], --user <@user>.
+ * --channel without an argument means the current channel.
+ */
+import {
+  getUsageReport, getUsageTotals, setUsageBudget, clearUsageBudget, listUsageBudgets,
+  type UsageGroupBy, type UsageReportRow, type BudgetScope, type BudgetPeriod, type BudgetMetric,
+} from "../sessions.js";
+import { periodStart, formatBudgetLimit, describeBudgetScope } from "../usage.js";
+import { parseDuration } from "../utils/duration.js";
+
+const USAGE_HELP = [
+  "*Usage commands:*",
+  "• `usage report [--channel|--user|--repo] [--since 7d]` — token and cost breakdown",
+  "• `usage budget list` — show configured budgets",
+  "• `usage budget set --global|--channel [#channel]|--user @user daily|monthly <limit> [tokens|usd]`",
+  "• `usage budget clear --global|--channel [#channel]|--user @user daily|monthly`",
+].join("\n");
+
+function formatGroupKey(groupBy: UsageGroupBy, key: string | null): string {
+  if (!key) return groupBy === "repo" ? "_(no repo)_" : "_(unknown)_";
+  if (groupBy === "channel") return `<#${key}>`;
+  if (groupBy === "user") return `<@${key}>`;
+  return `\`${key}\``;
+}
+
+function formatReportRow(groupBy: UsageGroupBy, r: UsageReportRow): string {
+  const tokens = r.input_tokens + r.output_tokens + r.reasoning_tokens;
+  const latency = (r.avg_latency_ms / 1000).toFixed(1);
+  return `• ${formatGroupKey(groupBy, r.group_key)} — ${r.requests} requests, ` +
+    `${tokens.toLocaleString("en-US")} tokens ` +
+    `(${r.input_tokens.toLocaleString("en-US")} in / ${r.output_tokens.toLocaleString("en-US")} out), ` +
+    `$${r.cost.toFixed(2)}, avg ${latency}s`;
+}
+
+/**
+ * Parse a budget scope prefix. Returns the scope, its key, and the remaining text,
+ * or an error message if the scope is missing or malformed.
+ */
+function parseScope(
+  text: string,
+  channelId: string,
+): { scope: BudgetScope; scopeKey: string; rest: string } | string {
+  const globalMatch = text.match(/^--global\s+(.*)$/is);
+  if (globalMatch) return { scope: "global", scopeKey: "", rest: globalMatch[1].trim() };
+
+  const channelMatch = text.match(/^--channel(?:\s+<#(C[A-Z0-9]+)(?:\|[^>]*)?>)?\s+(.*)$/is);
+  if (channelMatch) {
+    return { scope: "channel", scopeKey: channelMatch[1] ?? channelId, rest: channelMatch[2].trim() };
+  }
+
+  const userMatch = text.match(/^--user\s+<@(U[A-Z0-9]+)(?:\|[^>]*)?>\s+(.*)$/is);
+  if (userMatch) return { scope: "user", scopeKey: userMatch[1], rest: userMatch[2].trim() };
+
+  return "Specify a scope: `--global`, `--channel [#channel]`, or `--user @user`.";
+}
+
+function handleBudgetCommand(sub: string, channelId: string, userId: string): string {
+  if (/^list$/i.test(sub)) {
+    const budgets = listUsageBudgets();
+    if (budgets.length === 0) return "No usage budgets configured.";
+    const lines = budgets.map((b) => {
+      const spent = getUsageTotals(
+        periodStart(b.period),
+        b.scope === "channel" ? { channelId: b.scope_key }
+          : b.scope === "user" ? { userId: b.scope_key }
+          : undefined,
+      );
+      const used = b.metric === "usd" ? `$${spent.cost.toFixed(2)}` : `${spent.tokens.toLocaleString("en-US")} tokens`;
+      return `• ${describeBudgetScope(b)} — ${b.period}: ${formatBudgetLimit(b)} (used ${used}, set by <@${b.set_by}>)`;
+    });
+    return `*Usage budgets:*\n${lines.join("\n")}`;
+  }
+
+  const setMatch = sub.match(/^set\s+(.*)$/is);
+  if (setMatch) {
+    const parsed = parseScope(setMatch[1].trim(), channelId);
+    if (typeof parsed === "string") return parsed;
+    const m = parsed.rest.match(/^(daily|monthly)\s+\$?([\d.,]+)\s*(tokens|usd)?$/i);
+    if (!m) return "Usage: `usage budget set <scope> daily|monthly <limit> [tokens|usd]`";
+    const period = m[1].toLowerCase() as BudgetPeriod;
+    const limit = parseFloat(m[2].replace(/,/g, ""));
+    const metric = (m[3]?.toLowerCase() ?? (parsed.rest.includes("$") ? "usd" : "tokens")) as BudgetMetric;
+    if (!Number.isFinite(limit) || limit <= 0) return "Budget limit must be a positive number.";
+    setUsageBudget(parsed.scope, parsed.scopeKey, period, metric, limit, userId);
+    const budget = { scope: parsed.scope, scope_key: parsed.scopeKey, metric, limit_value: limit };
+    return `Set ${period} budget for ${describeBudgetScope(budget)} to ${formatBudgetLimit(budget)}.`;
+  }
+
+  const clearMatch = sub.match(/^clear\s+(.*)$/is);
+  if (clearMatch) {
+    const parsed = parseScope(clearMatch[1].trim(), channelId);
+    if (typeof parsed === "string") return parsed;
+    const m = parsed.rest.match(/^(daily|monthly)$/i);
+    if (!m) return "Usage: `usage budget clear <scope> daily|monthly`";
+    const period = m[1].toLowerCase() as BudgetPeriod;
+    const label = describeBudgetScope({ scope: parsed.scope, scope_key: parsed.scopeKey });
+    return clearUsageBudget(parsed.scope, parsed.scopeKey, period)
+      ? `Cleared ${period} budget for ${label}.`
+      : `No ${period} budget set for ${label}.`;
+  }
+
+  return USAGE_HELP;
+}
+
+export function handleUsageCommand(
+  command: string,
+  channelId: string,
+  userId: string,
+): string | null {
+  const match = command.match(/^usage(?:\s+(.*))?$/is);
+  if (!match) return null;
+
+  const sub = (match[1] ?? "").trim();
+
+  const budgetMatch = sub.match(/^budgets?(?:\s+(.*))?$/is);
+  if (budgetMatch) return handleBudgetCommand((budgetMatch[1] ?? "list").trim(), channelId, userId);
+
+  const reportMatch = sub.match(/^report(?:\s+(.*))?$/is);
+  if (!reportMatch) return USAGE_HELP;
+
+  const args = (reportMatch[1] ?? "").trim();
+  let groupBy: UsageGroupBy = "channel";
+  if (/(^|\s)--user\b/i.test(args)) groupBy = "user";
+  else if (/(^|\s)--repo\b/i.test(args)) groupBy = "repo";
+
+  const sinceLabel = (args.match(/--since\s+(\S+)/i)?.[1] ?? "7d").toLowerCase();
+  const window = parseDuration(sinceLabel);
+  if (window === null) return "Invalid `--since` value. Use a duration like `24h`, `7d`, or `4w`.";
+  const since = Math.floor(Date.now() / 1000) - window;
+
+  const rows = getUsageReport(groupBy, since);
+  if (rows.length === 0) return `No usage recorded in the last ${sinceLabel}.`;
+
+  const totalCost = rows.reduce((sum, r) => sum + r.cost, 0);
+  const totalTokens = rows.reduce((sum, r) => sum + r.input_tokens + r.output_tokens + r.reasoning_tokens, 0);
+  const totalRequests = rows.reduce((sum, r) => sum + r.requests, 0);
+
+  return [
+    `*Usage by ${groupBy} (last ${sinceLabel}):*`,
+    ...rows.map((r) => formatReportRow(groupBy, r)),
+    "",
+    `_Total: ${totalRequests} requests, ${totalTokens.toLocaleString("en-US")} tokens, $${totalCost.toFixed(2)}_`,
+  ].join("\n");
+}
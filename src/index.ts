@@ -1,19 +1,40 @@
 import bolt from "@slack/bolt";
 const { App } = bolt;
+import type { KnownBlock } from "@slack/types";
 import { initOpencode } from "./opencode.js";
 import { closeDb, seedToolsFromFile, bootstrapAdmins, hasRole } from "./sessions.js";
 import { writeOpencodeConfig } from "./opencode-config.js";
 import { setRepoDir, startServer, stopServer } from "./opencode-server.js";
 import { initRepos, generateContextForAllRepos } from "./repo-manager.js";
+import { startDigestScheduler } from "./digest.js";
+import { startMemoryConsolidation } from "./memory-consolidation.js";
+import { startMemoryReview, resolveMemoryReview, markReviewItem } from "./memory-review.js";
 import {
-  startSessionReaper, destroyAllCodingSessions, cleanupOrphanedSessions,
+  startSessionReaper, suspendAllCodingSessions, restoreCodingSessions,
 } from "./coding-session.js";
 import { handleMention } from "./handlers/mention.js";
 import { handleDm } from "./handlers/dm.js";
-import { handleStatus, handlePR, handleCancel } from "./handlers/code-commands.js";
-import { resumeCodingWithAgent, resumeCodingWithRepo, handleApprove, handleRevise, resumeCodingAfterPATConnect } from "./handlers/coding-handler.js";
-import { validateAndStoreGithubPAT } from "./handlers/github-commands.js";
-import { Action, MAX_AGENT_BUTTONS, MAX_REPO_BUTTONS, GITHUB_CONNECT_MODAL_CALLBACK } from "./constants.js";
+import { handleSlashCommand } from "./handlers/slash.js";
+import { handleStatus, handlePR, handleCancel, handleKeepAlive } from "./handlers/code-commands.js";
+import {
+  resumeCodingWithAgent, resumeCodingWithRepo, handleApprove, handleRevise, resumeCodingAfterForgeConnect,
+  announceRestoredSessions, startCodingQueue, idleSessionNotifier,
+} from "./handlers/coding-handler.js";
+import { validateAndStoreForgeToken, forgeConnectedText } from "./handlers/forge-commands.js";
+import { getForgeProvider, isForgeKind } from "./forge.js";
+import { recordAnswerRating, saveAnswerCorrection } from "./handlers/feedback-commands.js";
+import { postReviewToForge } from "./handlers/review-handler.js";
+import {
+  publishHome, openToolModal, openRoleModal, openChannelModal,
+  handleHomeToolMenu, handleHomeRepoMenu, handleHomeRoleMenu, handleHomeSessionCancel,
+  handleHomeMemoryConflictMenu,
+  submitToolModal, submitRoleModal, submitChannelModal,
+} from "./handlers/home.js";
+import {
+  Action, MAX_AGENT_BUTTONS, MAX_REPO_BUTTONS,
+  FORGE_CONNECT_MODAL_CALLBACK, FEEDBACK_CORRECTION_MODAL_CALLBACK,
+  HOME_TOOL_MODAL_CALLBACK, HOME_ROLE_MODAL_CALLBACK, HOME_CHANNEL_MODAL_CALLBACK,
+} from "./constants.js";
 
 const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN;
 const SLACK_APP_TOKEN = process.env.SLACK_APP_TOKEN;
@@ -39,6 +60,11 @@ const app = new App({
 // Register event handlers
 app.event("app_mention", handleMention);
 app.event("message", handleDm);
+app.command("/slackode", handleSlashCommand);
+app.event("app_home_opened", async ({ event, client }) => {
+  if (event.tab !== "home") return;
+  await publishHome(client, event.user);
+});
 
 // Helper: check developer permission for button actions
 async function requireDeveloper(
@@ -59,7 +85,7 @@ app.action(Action.CODING_STATUS, async ({ action, ack, body, client }) => {
   const channel = (body as { channel?: { id: string } }).channel?.id;
   if (!channel) return;
   if (!(await requireDeveloper(body.user.id, channel, threadTs, client))) return;
-  const reply = await handleStatus(threadTs);
+  const reply = await handleStatus(threadTs, { client, channelId: channel });
   await client.chat.postMessage({ channel, thread_ts: threadTs, text: reply });
 });
 
@@ -83,6 +109,16 @@ app.action(Action.CODING_DONE, async ({ action, ack, body, client }) => {
   await client.chat.postMessage({ channel, thread_ts: threadTs, text: reply });
 });
 
+app.action(Action.CODING_KEEP_ALIVE, async ({ action, ack, body, client }) => {
+  await ack();
+  const threadTs = (action as { value: string }).value;
+  const channel = (body as { channel?: { id: string } }).channel?.id;
+  if (!channel) return;
+  if (!(await requireDeveloper(body.user.id, channel, threadTs, client))) return;
+  const reply = handleKeepAlive(threadTs);
+  await client.chat.postMessage({ channel, thread_ts: threadTs, text: reply });
+});
+
 // Repo selection buttons (select_repo_0 through select_repo_N)
 for (let i = 0; i < MAX_REPO_BUTTONS; i++) {
   app.action(`${Action.SELECT_REPO_PREFIX}${i}`, async ({ action, ack, body, client }) => {
@@ -135,20 +171,21 @@ app.action(Action.CODING_CANCEL, async ({ action, ack, body, client }) => {
   await client.chat.postMessage({ channel, thread_ts: threadTs, text: reply });
 });
 
-// GitHub Connect button → open modal
-app.action(Action.GITHUB_CONNECT, async ({ action, ack, body, client }) => {
+// Forge Connect button → open modal
+app.action(Action.FORGE_CONNECT, async ({ action, ack, body, client }) => {
   await ack();
-  const { threadTs, channelId } = JSON.parse((action as { value: string }).value);
+  const { threadTs, channelId, forge, host } = JSON.parse((action as { value: string }).value);
   const triggerId = (body as { trigger_id?: string }).trigger_id;
-  if (!triggerId) return;
+  if (!triggerId || !isForgeKind(forge)) return;
+  const provider = getForgeProvider(forge);
 
   await client.views.open({
     trigger_id: triggerId,
     view: {
       type: "modal",
-      callback_id: GITHUB_CONNECT_MODAL_CALLBACK,
-      private_metadata: JSON.stringify({ threadTs, channelId }),
-      title: { type: "plain_text", text: "Connect GitHub" },
+      callback_id: FORGE_CONNECT_MODAL_CALLBACK,
+      private_metadata: JSON.stringify({ threadTs, channelId, forge, host }),
+      title: { type: "plain_text", text: `Connect ${provider.label}` },
       submit: { type: "plain_text", text: "Connect" },
       close: { type: "plain_text", text: "Cancel" },
       blocks: [
@@ -156,18 +193,16 @@ app.action(Action.GITHUB_CONNECT, async ({ action, ack, body, client }) => {
           type: "section",
           text: {
             type: "mrkdwn",
-            text: "Enter a GitHub Personal Access Token with `repo` scope.\n" +
-              "Create one at <https://github.com/settings/tokens>.",
+            text: `Enter a ${provider.label} token for \`${host}\`.\n${provider.tokenHelp(host)}`,
           },
         },
         {
           type: "input",
           block_id: "pat_block",
-          label: { type: "plain_text", text: "Personal Access Token" },
+          label: { type: "plain_text", text: "Access token" },
           element: {
             type: "plain_text_input",
             action_id: "pat_input",
-            placeholder: { type: "plain_text", text: "ghp_... or github_pat_..." },
           },
         },
       ],
@@ -175,11 +210,11 @@ app.action(Action.GITHUB_CONNECT, async ({ action, ack, body, client }) => {
   });
 });
 
-// GitHub Connect modal submission
-app.view(GITHUB_CONNECT_MODAL_CALLBACK, async ({ ack, view, body, client }) => {
+// Forge Connect modal submission
+app.view(FORGE_CONNECT_MODAL_CALLBACK, async ({ ack, view, body, client }) => {
   const pat = view.state.values.pat_block.pat_input.value?.trim();
   const userId = body.user.id;
-  const { threadTs, channelId } = JSON.parse(view.private_metadata);
+  const { threadTs, channelId, forge, host } = JSON.parse(view.private_metadata);
 
   if (!pat) {
     await ack({
@@ -190,18 +225,18 @@ app.view(GITHUB_CONNECT_MODAL_CALLBACK, async ({ ack, view, body, client }) => {
   }
 
   try {
-    const info = await validateAndStoreGithubPAT(userId, pat);
+    const identity = await validateAndStoreForgeToken(userId, forge, host, pat);
     await ack();
 
     // Post confirmation in thread
     await client.chat.postMessage({
       channel: channelId,
       thread_ts: threadTs,
-      text: `GitHub connected! Commits and PRs will be attributed to *${info.name}* (${info.username}, ${info.email}).`,
+      text: forgeConnectedText(forge, host, identity),
     });
 
     // Resume the pending coding session
-    await resumeCodingAfterPATConnect(threadTs, client, channelId);
+    await resumeCodingAfterForgeConnect(threadTs, client, channelId);
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     await ack({
@@ -211,6 +246,244 @@ app.view(GITHUB_CONNECT_MODAL_CALLBACK, async ({ ack, view, body, client }) => {
   }
 });
 
+// "Post to PR" button on a review — posts with the requester's forge account
+app.action(Action.REVIEW_POST, async ({ action, ack, body, client }) => {
+  await ack();
+  const reviewId = parseInt((action as { value: string }).value, 10);
+  const channel = (body as { channel?: { id: string } }).channel?.id;
+  const threadTs = (body as { message?: { thread_ts?: string } }).message?.thread_ts;
+  if (!channel || !threadTs) return;
+  if (!(await requireDeveloper(body.user.id, channel, threadTs, client))) return;
+  const { posted, text } = await postReviewToForge(reviewId, body.user.id);
+  if (posted) {
+    await client.chat.postMessage({ channel, thread_ts: threadTs, text });
+  } else {
+    await client.chat.postEphemeral({ channel, user: body.user.id, thread_ts: threadTs, text });
+  }
+});
+
+// Answer feedback buttons (open to all)
+for (const [actionId, rating] of [[Action.FEEDBACK_UP, "up"], [Action.FEEDBACK_DOWN, "down"]] as const) {
+  app.action(actionId, async ({ action, ack, body, client }) => {
+    await ack();
+    const answerId = parseInt((action as { value: string }).value, 10);
+    const channel = (body as { channel?: { id: string } }).channel?.id;
+    const threadTs = (body as { message?: { thread_ts?: string } }).message?.thread_ts;
+    if (!channel) return;
+    const reply = recordAnswerRating(answerId, body.user.id, rating);
+    await client.chat.postEphemeral({ channel, user: body.user.id, thread_ts: threadTs, text: reply });
+  });
+}
+
+// "Wrong answer" button → open correction modal
+app.action(Action.FEEDBACK_WRONG, async ({ action, ack, body, client }) => {
+  await ack();
+  const answerId = (action as { value: string }).value;
+  const channelId = (body as { channel?: { id: string } }).channel?.id;
+  const threadTs = (body as { message?: { thread_ts?: string } }).message?.thread_ts;
+  const triggerId = (body as { trigger_id?: string }).trigger_id;
+  if (!triggerId || !channelId) return;
+
+  await client.views.open({
+    trigger_id: triggerId,
+    view: {
+      type: "modal",
+      callback_id: FEEDBACK_CORRECTION_MODAL_CALLBACK,
+      private_metadata: JSON.stringify({ answerId, channelId, threadTs }),
+      title: { type: "plain_text", text: "Correct this answer" },
+      submit: { type: "plain_text", text: "Save correction" },
+      close: { type: "plain_text", text: "Cancel" },
+      blocks: [
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: "What's the correct answer? It will be saved as a memory so future answers get it right.",
+          },
+        },
+        {
+          type: "input",
+          block_id: "correction_block",
+          label: { type: "plain_text", text: "Correction" },
+          element: {
+            type: "plain_text_input",
+            action_id: "correction_input",
+            multiline: true,
+            max_length: 2000,
+          },
+        },
+      ],
+    },
+  });
+});
+
+// Correction modal submission
+app.view(FEEDBACK_CORRECTION_MODAL_CALLBACK, async ({ ack, view, body, client }) => {
+  const correction = view.state.values.correction_block.correction_input.value?.trim();
+  const userId = body.user.id;
+  const { answerId, channelId, threadTs } = JSON.parse(view.private_metadata);
+
+  if (!correction) {
+    await ack({
+      response_action: "errors",
+      errors: { correction_block: "Please enter the correct answer." },
+    });
+    return;
+  }
+
+  let memoryId: number;
+  try {
+    memoryId = saveAnswerCorrection(parseInt(answerId, 10), userId, correction);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    await ack({
+      response_action: "errors",
+      errors: { correction_block: msg },
+    });
+    return;
+  }
+  await ack();
+
+  // The modal is already closed — a failed confirmation is only logged
+  try {
+    await client.chat.postEphemeral({
+      channel: channelId,
+      user: userId,
+      thread_ts: threadTs,
+      text: `_Thanks — saved your correction as memory \`#${memoryId}\`._`,
+    });
+  } catch (err) {
+    console.error("[feedback] Failed to confirm the correction:", err);
+  }
+});
+
+// Keep/Delete buttons on a memory review (admin only)
+for (const [actionId, decision] of [[Action.MEMORY_REVIEW_KEEP, "keep"], [Action.MEMORY_REVIEW_DELETE, "delete"]] as const) {
+  app.action(actionId, async ({ action, ack, body, client }) => {
+    await ack();
+    const memoryId = parseInt((action as { value: string }).value, 10);
+    const channel = (body as { channel?: { id: string } }).channel?.id;
+    const message = (body as { message?: { ts: string; text?: string; blocks?: KnownBlock[] } }).message;
+    if (!channel || !message) return;
+    if (!hasRole(body.user.id, "admin")) {
+      await client.chat.postEphemeral({
+        channel, user: body.user.id,
+        text: "Only admins can review memories. Ask an admin to run `role add @you admin`.",
+      });
+      return;
+    }
+    const status = await resolveMemoryReview(memoryId, decision, body.user.id);
+    await client.chat.update({
+      channel,
+      ts: message.ts,
+      text: message.text ?? "Memory review",
+      blocks: markReviewItem(message.blocks ?? [], memoryId, status),
+    });
+  });
+}
+
+// ── App Home admin console ──
+// Each handler re-checks the admin role; the Home tab only renders controls for admins.
+
+app.action(Action.HOME_REFRESH, async ({ ack, body, client }) => {
+  await ack();
+  await publishHome(client, body.user.id);
+});
+
+app.action(Action.HOME_TOOL_ADD, async ({ ack, body, client }) => {
+  await ack();
+  const triggerId = (body as { trigger_id?: string }).trigger_id;
+  if (!triggerId || !hasRole(body.user.id, "admin")) return;
+  await openToolModal(client, triggerId);
+});
+
+app.action(Action.HOME_TOOL_MENU, async ({ action, ack, body, client }) => {
+  await ack();
+  const value = (action as { selected_option?: { value: string } }).selected_option?.value;
+  const triggerId = (body as { trigger_id?: string }).trigger_id;
+  if (!value || !triggerId) return;
+  await handleHomeToolMenu(client, body.user.id, triggerId, value);
+});
+
+app.action(Action.HOME_REPO_MENU, async ({ action, ack, body, client }) => {
+  await ack();
+  const value = (action as { selected_option?: { value: string } }).selected_option?.value;
+  if (!value) return;
+  await handleHomeRepoMenu(client, body.user.id, value);
+});
+
+app.action(Action.HOME_MEMORY_CONFLICT_MENU, async ({ action, ack, body, client }) => {
+  await ack();
+  const value = (action as { selected_option?: { value: string } }).selected_option?.value;
+  if (!value) return;
+  await handleHomeMemoryConflictMenu(client, body.user.id, value);
+});
+
+app.action(Action.HOME_ROLE_ADD, async ({ ack, body, client }) => {
+  await ack();
+  const triggerId = (body as { trigger_id?: string }).trigger_id;
+  if (!triggerId || !hasRole(body.user.id, "admin")) return;
+  await openRoleModal(client, triggerId);
+});
+
+app.action(Action.HOME_ROLE_MENU, async ({ action, ack, body, client }) => {
+  await ack();
+  const value = (action as { selected_option?: { value: string } }).selected_option?.value;
+  if (!value) return;
+  await handleHomeRoleMenu(client, body.user.id, value);
+});
+
+app.action(Action.HOME_CHANNEL_ADD, async ({ ack, body, client }) => {
+  await ack();
+  const triggerId = (body as { trigger_id?: string }).trigger_id;
+  if (!triggerId || !hasRole(body.user.id, "admin")) return;
+  await openChannelModal(client, triggerId);
+});
+
+app.action(Action.HOME_CHANNEL_EDIT, async ({ action, ack, body, client }) => {
+  await ack();
+  const channelId = (action as { value: string }).value;
+  const triggerId = (body as { trigger_id?: string }).trigger_id;
+  if (!triggerId || !hasRole(body.user.id, "admin")) return;
+  await openChannelModal(client, triggerId, channelId);
+});
+
+app.action(Action.HOME_SESSION_CANCEL, async ({ action, ack, body, client }) => {
+  await ack();
+  const threadKey = (action as { value: string }).value;
+  await handleHomeSessionCancel(client, body.user.id, threadKey);
+});
+
+app.view(HOME_TOOL_MODAL_CALLBACK, async ({ ack, view, body, client }) => {
+  const errors = submitToolModal(view, body.user.id);
+  if (errors) {
+    await ack({ response_action: "errors", errors });
+    return;
+  }
+  await ack();
+  await publishHome(client, body.user.id);
+});
+
+app.view(HOME_ROLE_MODAL_CALLBACK, async ({ ack, view, body, client }) => {
+  const errors = submitRoleModal(view, body.user.id);
+  if (errors) {
+    await ack({ response_action: "errors", errors });
+    return;
+  }
+  await ack();
+  await publishHome(client, body.user.id);
+});
+
+app.view(HOME_CHANNEL_MODAL_CALLBACK, async ({ ack, view, body, client }) => {
+  const errors = await submitChannelModal(view, body.user.id, client);
+  if (errors) {
+    await ack({ response_action: "errors", errors });
+    return;
+  }
+  await ack();
+  await publishHome(client, body.user.id);
+});
+
 /**
  * Run context generation for all repos, logging errors but never crashing the bot.
  */
@@ -222,6 +495,9 @@ async function runContextGeneration(): Promise<void> {
   }
 }
 
+/** Background schedulers, cleared on shutdown so none fires mid-teardown. */
+const schedulerTimers: Array<ReturnType<typeof setInterval>> = [];
+
 // Start the app
 async function start(): Promise<void> {
   // 1a. Seed tools from tools.json on first boot (getDb() is called lazily inside)
@@ -248,15 +524,28 @@ async function start(): Promise<void> {
   // 5. Initialize repo manager (seeds default repo from env if needed)
   await initRepos();
 
-  // 6. Clean up any orphaned coding sessions from a prior crash
-  cleanupOrphanedSessions();
+  // 6. Restore coding sessions that were live before the restart
+  const restoredSessions = await restoreCodingSessions();
 
-  // 7. Start Slack bot
+  // 7. Start Slack bot and let restored coding threads know they're back
   await app.start();
   console.log(`Slack bot is running (OpenCode server: ${OPENCODE_URL})`);
+  await announceRestoredSessions(app.client, restoredSessions);
+  // Start queued `code` requests now that restored sessions hold their slots
+  startCodingQueue(app.client);
+
+  // 8. Start coding session idle reaper (every minute)
+  schedulerTimers.push(startSessionReaper(idleSessionNotifier(app.client)));
+
+  // 9. Start channel digest scheduler (every minute)
+  schedulerTimers.push(startDigestScheduler(app.client));
+
+  // 10. Start memory consolidation (checks hourly, runs every MEMORY_CONSOLIDATE_INTERVAL_HOURS)
+  const consolidationTimer = startMemoryConsolidation();
+  if (consolidationTimer) schedulerTimers.push(consolidationTimer);
 
-  // 8. Start coding session idle reaper (every 5 min)
-  const reaperInterval = startSessionReaper();
+  // 11. Start memory expiry + review (checks hourly, reviews every MEMORY_REVIEW_INTERVAL_DAYS)
+  schedulerTimers.push(startMemoryReview(app.client));
 
   // Generate context files after a delay so startup Q&A isn't rate-limited
   const CONTEXT_GEN_STARTUP_DELAY_MS = 5 * 60 * 1000; // 5 minutes
@@ -270,7 +559,8 @@ async function start(): Promise<void> {
 // Graceful shutdown
 async function shutdown(): Promise<void> {
   console.log("Shutting down...");
-  await destroyAllCodingSessions();
+  for (const timer of schedulerTimers) clearInterval(timer);
+  await suspendAllCodingSessions();
   await stopServer();
   closeDb();
   process.exit(0);
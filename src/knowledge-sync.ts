@@ -0,0 +1,216 @@
+/**
+ * Knowledge mirrored from repo docs directories.
+ *
+ * `knowledge sync --repo <name> --path docs/` registers a directory of
+ * Markdown, AsciiDoc or reStructuredText files. Each file becomes one
+ * repo-scoped knowledge entry, titled with its repo-relative path and tagged
+ * with the commit that last changed it. A sync reads the files at the tip of
+ * the default branch: changed files update their entry, new files add one,
+ * and entries whose file is gone are deleted. Sources are re-synced after
+ * every `pullAllRepos`.
+ */
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+import {
+  getKnowledgeByTitle, removeKnowledge, listKnowledgeForSource, listKnowledgeSources,
+  addSyncedKnowledge, updateSyncedKnowledge, recordKnowledgeSourceSync,
+  type KnowledgeSourceRow, type RepoRow,
+} from "./sessions.js";
+import { resolveTipSha } from "./context-gen.js";
+
+/** File types mirrored into knowledge. */
+export const DOC_EXTENSIONS = [".md", ".markdown", ".adoc", ".asciidoc", ".rst"];
+/** Larger files are skipped — they'd dominate search results. */
+const MAX_DOC_BYTES = 256 * 1024;
+
+export interface KnowledgeSyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  /** Files that weren't mirrored, with the reason. */
+  skipped: string[];
+  sha: string;
+}
+
+interface DocFile {
+  path: string;
+  size: number;
+}
+
+function git(repoDir: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd: repoDir, encoding: "utf-8", timeout: 30_000, maxBuffer: 16 * 1024 * 1024,
+  });
+}
+
+/**
+ * Normalize a user-supplied docs path: "docs/" → "docs", "." → "" (the whole
+ * repo). Returns null for paths that leave the repo.
+ */
+export function normalizeDocsPath(input: string): string | null {
+  const cleaned = path.posix.normalize(input.trim().replace(/^`+|`+$/g, "").replace(/^\/+/, "")).replace(/\/+$/, "");
+  if (cleaned === "." || cleaned === "") return "";
+  if (cleaned === ".." || cleaned.startsWith("../")) return null;
+  return cleaned;
+}
+
+/** Doc files under `dir` at commit `sha`, with their sizes. */
+function listDocFiles(repoDir: string, sha: string, dir: string): DocFile[] {
+  const out = git(repoDir, ["ls-tree", "-r", "-l", "-z", sha, ...(dir ? ["--", dir] : [])]);
+  const files: DocFile[] = [];
+  for (const record of out.split("\0")) {
+    // "<mode> <type> <object> <size>\t<path>"
+    const tab = record.indexOf("\t");
+    if (tab < 0) continue;
+    const [, type, , size] = record.slice(0, tab).trim().split(/\s+/);
+    const filePath = record.slice(tab + 1);
+    if (type !== "blob" || !DOC_EXTENSIONS.includes(path.posix.extname(filePath).toLowerCase())) continue;
+    files.push({ path: filePath, size: Number(size) });
+  }
+  return files;
+}
+
+/**
+ * The last commit at or before `sha` that changed each file under `dir`, from
+ * one pass over the log rather than a `git log -1` per file.
+ */
+function lastCommitsUnder(repoDir: string, sha: string, dir: string): Map<string, string> {
+  // "\0<commit>\0\n<file>\0<file>\0..." per commit, newest first
+  const out = git(repoDir, ["log", "--format=%x00%H", "--name-only", "-z", sha, ...(dir ? ["--", dir] : [])]);
+  const commits = new Map<string, string>();
+  let commit = "";
+  let prev: string | null = null;
+  for (const token of out.split("\0")) {
+    if (prev === "" && /^[0-9a-f]{40,64}$/.test(token)) {
+      commit = token;
+    } else if (token && commit) {
+      const file = token.replace(/^\n/, "");
+      if (!commits.has(file)) commits.set(file, commit);
+    }
+    prev = token;
+  }
+  return commits;
+}
+
+/** File contents at commit `sha`, read through one `git cat-file --batch`. */
+function readFilesAt(repoDir: string, sha: string, files: string[]): Map<string, string> {
+  const contents = new Map<string, string>();
+  if (files.length === 0) return contents;
+  const out = execFileSync("git", ["cat-file", "--batch"], {
+    cwd: repoDir, input: files.map((f) => `${sha}:${f}\n`).join(""),
+    timeout: 30_000, maxBuffer: 64 * 1024 * 1024,
+  });
+  let pos = 0;
+  for (const file of files) {
+    // "<object> blob <size>\n<content>\n", or "<name> missing\n"
+    const eol = out.indexOf(0x0a, pos);
+    if (eol < 0) break;
+    const header = out.toString("utf-8", pos, eol).split(" ");
+    pos = eol + 1;
+    if (header.length !== 3) continue;
+    const size = Number(header[2]);
+    contents.set(file, out.toString("utf-8", pos, pos + size));
+    pos += size + 1;
+  }
+  return contents;
+}
+
+/**
+ * Mirror one source's files into knowledge. Skips the work when the branch tip
+ * hasn't moved since the last sync, unless `force` is set.
+ */
+export function syncKnowledgeSource(
+  source: KnowledgeSourceRow,
+  repo: RepoRow,
+  force = false,
+): KnowledgeSyncResult {
+  const sha = resolveTipSha(repo.dir);
+  const existing = new Map(listKnowledgeForSource(source.id).map((k) => [k.origin_path ?? "", k]));
+  const result: KnowledgeSyncResult = { added: 0, updated: 0, removed: 0, unchanged: 0, skipped: [], sha };
+  if (!force && source.last_sha === sha) {
+    result.unchanged = existing.size;
+    return result;
+  }
+
+  const files = listDocFiles(repo.dir, sha, source.path).filter((file) => {
+    if (file.size <= MAX_DOC_BYTES) return true;
+    result.skipped.push(`${file.path} (over ${MAX_DOC_BYTES / 1024} KB)`);
+    return false;
+  });
+  const contents = readFilesAt(repo.dir, sha, files.map((f) => f.path));
+  // Only walked when something was added or changed
+  let lastCommits: Map<string, string> | null = null;
+  const lastCommitFor = (file: string) => {
+    lastCommits ??= lastCommitsUnder(repo.dir, sha, source.path);
+    return lastCommits.get(file) ?? sha;
+  };
+
+  const kept = new Set<string>();
+  for (const file of files) {
+    const content = (contents.get(file.path) ?? "").trim();
+    if (!content) {
+      result.skipped.push(`${file.path} (empty)`);
+      continue;
+    }
+
+    const entry = existing.get(file.path);
+    if (entry) {
+      kept.add(file.path);
+      if (entry.content === content) {
+        result.unchanged++;
+      } else {
+        updateSyncedKnowledge(entry.id, content, lastCommitFor(file.path), source.created_by);
+        result.updated++;
+      }
+      continue;
+    }
+
+    // Manually added entries own their titles
+    const clash = getKnowledgeByTitle(file.path, "repo", repo.name);
+    if (clash) {
+      result.skipped.push(`${file.path} (an entry with that title already exists: #${clash.id})`);
+      continue;
+    }
+    addSyncedKnowledge(file.path, content, repo.name, {
+      sourceId: source.id, originPath: file.path, originSha: lastCommitFor(file.path),
+    }, source.created_by);
+    kept.add(file.path);
+    result.added++;
+  }
+
+  for (const [originPath, entry] of existing) {
+    if (kept.has(originPath)) continue;
+    removeKnowledge(entry.id, source.created_by);
+    result.removed++;
+  }
+
+  recordKnowledgeSourceSync(source.id, sha);
+  return result;
+}
+
+/** e.g. "3 added, 1 updated, 12 unchanged". */
+export function describeKnowledgeSync(result: KnowledgeSyncResult): string {
+  const parts = [
+    result.added ? `${result.added} added` : "",
+    result.updated ? `${result.updated} updated` : "",
+    result.removed ? `${result.removed} removed` : "",
+    result.unchanged ? `${result.unchanged} unchanged` : "",
+    result.skipped.length ? `${result.skipped.length} skipped` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "no doc files found";
+}
+
+/** Re-sync every docs directory registered for a repo (called after a pull). */
+export function syncKnowledgeSourcesForRepo(repo: RepoRow): void {
+  for (const source of listKnowledgeSources(repo.name)) {
+    try {
+      const result = syncKnowledgeSource(source, repo);
+      if (result.added || result.updated || result.removed) {
+        console.log(`[knowledge-sync] ${repo.name}:${source.path || "."} — ${describeKnowledgeSync(result)}`);
+      }
+    } catch (err) {
+      console.warn(`[knowledge-sync] Failed to sync ${repo.name}:${source.path || "."}:`, err);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Structure-aware chunking for the knowledge index.
+ *
+ * Entries are split into sections at their headings (Markdown `#` and setext
+ * underlines, AsciiDoc `=`), and each section's blocks are packed into chunks
+ * of up to ~500 characters. Chunks never cross a heading, and fenced code
+ * blocks and tables are never split. Every chunk carries its heading path
+ * ("API Guidelines > Pagination") and its character offsets in the entry, so
+ * search results can point back to the section they came from
+ * (`knowledge view #<id>@<offset>`).
+ */
+
+export interface KnowledgeSection {
+  /** Headings from the top of the entry down to this section; empty before the first heading. */
+  path: string[];
+  /** Heading level (1–6), or 0 for the text before the first heading. */
+  level: number;
+  /** Character offsets of the section in the content, heading line included. */
+  start: number;
+  end: number;
+  /** Where the section's body starts, after its heading. */
+  bodyStart: number;
+}
+
+export interface KnowledgeChunk {
+  /** Heading path, rooted at the entry title: "API Guidelines > Pagination". */
+  section: string;
+  text: string;
+  /** Character offsets of `text` in the content. */
+  start: number;
+  end: number;
+}
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Heading {
+  level: number;
+  title: string;
+  start: number;
+  bodyStart: number;
+}
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const ASCIIDOC_HEADING = /^(={1,6})[ \t]+(\S.*?)[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+
+function splitLines(content: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const text of content.split("\n")) {
+    lines.push({ text, start, end: start + text.length });
+    start += text.length + 1;
+  }
+  return lines;
+}
+
+function closesFence(text: string, fence: string): boolean {
+  const match = text.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+  return !!match && match[1][0] === fence[0] && match[1].length >= fence.length;
+}
+
+/** Find the headings outside fenced code blocks, and mark which lines are fenced. */
+function scanLines(lines: Line[], contentLength: number): { headings: Heading[]; fenced: boolean[] } {
+  const headings: Heading[] = [];
+  const fenced = lines.map(() => false);
+  const bodyAfter = (i: number) => Math.min(lines[i].end + 1, contentLength);
+  let fence: string | null = null;
+  let lastHeadingLine = -1;
+
+  lines.forEach((line, i) => {
+    if (fence) {
+      fenced[i] = true;
+      if (closesFence(line.text, fence)) fence = null;
+      return;
+    }
+    const open = line.text.match(FENCE_OPEN);
+    if (open) {
+      fence = open[1];
+      fenced[i] = true;
+      return;
+    }
+
+    const atx = line.text.match(ATX_HEADING) ?? line.text.match(ASCIIDOC_HEADING);
+    if (atx) {
+      headings.push({ level: atx[1].length, title: atx[2].trim(), start: line.start, bodyStart: bodyAfter(i) });
+      lastHeadingLine = i;
+      return;
+    }
+
+    // Setext: a one-line paragraph underlined with === (level 1) or --- (level 2)
+    const underline = line.text.match(SETEXT_UNDERLINE);
+    const prev = lines[i - 1];
+    if (
+      underline && prev && prev.text.trim() && !fenced[i - 1] && lastHeadingLine !== i - 1 &&
+      (i < 2 || !lines[i - 2].text.trim() || lastHeadingLine === i - 2)
+    ) {
+      headings.push({
+        level: underline[1][0] === "=" ? 1 : 2,
+        title: prev.text.trim(),
+        start: prev.start,
+        bodyStart: bodyAfter(i),
+      });
+      lastHeadingLine = i;
+    }
+  });
+  return { headings, fenced };
+}
+
+function buildSections(headings: Heading[], contentLength: number): KnowledgeSection[] {
+  const sections: KnowledgeSection[] = [
+    { path: [], level: 0, start: 0, bodyStart: 0, end: headings[0]?.start ?? contentLength },
+  ];
+  const stack: Heading[] = [];
+  headings.forEach((h, n) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= h.level) stack.pop();
+    stack.push(h);
+    sections.push({
+      path: stack.map((s) => s.title),
+      level: h.level,
+      start: h.start,
+      bodyStart: h.bodyStart,
+      end: headings[n + 1]?.start ?? contentLength,
+    });
+  });
+  return sections;
+}
+
+/** Split content into its heading sections, in order. The first is the text before any heading. */
+export function parseSections(content: string): KnowledgeSection[] {
+  const { headings } = scanLines(splitLines(content), content.length);
+  return buildSections(headings, content.length);
+}
+
+/** The section containing a character offset (the last one for offsets past the end). */
+export function findSection(content: string, offset: number): KnowledgeSection | undefined {
+  const sections = parseSections(content);
+  return sections.find((s) => offset >= s.start && offset < s.end) ?? sections[sections.length - 1];
+}
+
+/** "Title > Heading > Subheading"; the title is left out when the top heading repeats it. */
+export function sectionLabel(title: string, path: string[]): string {
+  const parts = title && path[0]?.toLowerCase() !== title.toLowerCase() ? [title, ...path] : path;
+  return parts.join(" > ");
+}
+
+/**
+ * Chunk an entry for embedding. Blocks (paragraphs, lists, tables, fenced
+ * code) are packed into chunks of up to `maxChunkLen` characters within a
+ * section; a single block longer than that becomes its own chunk.
+ */
+export function chunkMarkdown(content: string, title = "", maxChunkLen = 500): KnowledgeChunk[] {
+  const lines = splitLines(content);
+  const { headings, fenced } = scanLines(lines, content.length);
+  const chunks: KnowledgeChunk[] = [];
+
+  for (const section of buildSections(headings, content.length)) {
+    const label = sectionLabel(title, section.path);
+    const blocks: Array<{ start: number; end: number }> = [];
+    let block: { start: number; end: number } | null = null;
+    lines.forEach((line, i) => {
+      if (line.start < section.bodyStart || line.start >= section.end) return;
+      // Blank lines end a block — except inside a code fence
+      if (!fenced[i] && !line.text.trim()) {
+        if (block) blocks.push(block);
+        block = null;
+        return;
+      }
+      if (block) block.end = line.end;
+      else block = { start: line.start, end: line.end };
+    });
+    if (block) blocks.push(block);
+
+    let current: { start: number; end: number } | null = null;
+    const flush = () => {
+      if (!current) return;
+      const text = content.slice(current.start, current.end).trimEnd();
+      if (text.trim()) chunks.push({ section: label, text, start: current.start, end: current.start + text.length });
+    };
+    for (const b of blocks) {
+      if (current && b.end - current.start > maxChunkLen) {
+        flush();
+        current = { ...b };
+      } else if (current) {
+        current.end = b.end;
+      } else {
+        current = { ...b };
+      }
+    }
+    flush();
+  }
+
+  // Nothing but headings — index the whole text
+  if (chunks.length === 0 && content.trim()) {
+    chunks.push({ section: title, text: content.trim(), start: 0, end: content.length });
+  }
+  return chunks;
+}
@@ -0,0 +1,132 @@
+/**
+ * Embedding backends for the vector store, picked with EMBEDDING_PROVIDER:
+ *
+ *   local  (default) — a transformers.js feature-extraction model run
+ *          in-process: EMBEDDING_MODEL, default Xenova/all-MiniLM-L6-v2.
+ *          e5, bge and nomic models get their query/passage prefixes and
+ *          pooling automatically.
+ *   openai — an OpenAI-compatible `/embeddings` endpoint at
+ *          EMBEDDING_API_URL (OpenAI itself, or a local server such as
+ *          Ollama, LM Studio, vLLM or text-embeddings-inference), with
+ *          EMBEDDING_API_KEY. EMBEDDING_MODEL is required.
+ *
+ * Each backend has an id like "local:Xenova/all-MiniLM-L6-v2". The vector
+ * store records it per table and re-embeds a table when it changes.
+ */
+import { pipeline, env as txEnv, type FeatureExtractionPipeline } from "@huggingface/transformers";
+
+// Point the model cache at a writable location (Docker has read-only node_modules)
+if (process.env.HF_CACHE_DIR) {
+  txEnv.cacheDir = process.env.HF_CACHE_DIR;
+}
+
+const DEFAULT_LOCAL_MODEL = "Xenova/all-MiniLM-L6-v2";
+const DEFAULT_API_URL = "https://api.openai.com/v1";
+/** Texts embedded per call — big enough to amortize overhead, small enough to bound memory. */
+const EMBED_BATCH_SIZE = Number(process.env.EMBED_BATCH_SIZE) || 32;
+const API_TIMEOUT_MS = 60_000;
+
+export interface EmbeddingBackend {
+  /** Identifies the vector space: "<provider>:<model>", plus "@<dims>" when dimensions are requested. */
+  id: string;
+  /** Embed stored texts (knowledge chunks, memories). */
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  /** Embed a search query. */
+  embedQuery(text: string): Promise<number[]>;
+}
+
+interface Prefixes {
+  query: string;
+  document: string;
+}
+
+/** Instruction prefixes the model was trained with; EMBEDDING_QUERY_PREFIX / EMBEDDING_DOCUMENT_PREFIX override them. */
+function resolvePrefixes(model: string): Prefixes {
+  let prefixes: Prefixes = { query: "", document: "" };
+  if (/e5/i.test(model)) {
+    prefixes = { query: "query: ", document: "passage: " };
+  } else if (/bge-(small|base|large)-en/i.test(model)) {
+    prefixes = { query: "Represent this sentence for searching relevant passages: ", document: "" };
+  } else if (/nomic-embed-text/i.test(model)) {
+    prefixes = { query: "search_query: ", document: "search_document: " };
+  }
+  return {
+    query: process.env.EMBEDDING_QUERY_PREFIX ?? prefixes.query,
+    document: process.env.EMBEDDING_DOCUMENT_PREFIX ?? prefixes.document,
+  };
+}
+
+function withPrefixes(
+  id: string,
+  prefixes: Prefixes,
+  embedBatch: (texts: string[]) => Promise<number[][]>,
+): EmbeddingBackend {
+  const embedAll = async (texts: string[]): Promise<number[][]> => {
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      results.push(...(await embedBatch(texts.slice(i, i + EMBED_BATCH_SIZE))));
+    }
+    return results;
+  };
+  return {
+    id,
+    embedDocuments: (texts) => embedAll(texts.map((t) => prefixes.document + t)),
+    embedQuery: async (text) => (await embedAll([prefixes.query + text]))[0],
+  };
+}
+
+function createLocalBackend(model: string): EmbeddingBackend {
+  // bge models are trained with CLS pooling; most others with mean pooling
+  const pooling = (process.env.EMBEDDING_POOLING ?? (/bge/i.test(model) ? "cls" : "mean")) as "mean" | "cls";
+  let embedderPromise: Promise<FeatureExtractionPipeline> | null = null;
+  const getEmbedder = () => {
+    if (!embedderPromise) {
+      embedderPromise = pipeline("feature-extraction", model).then((p) => p as FeatureExtractionPipeline);
+    }
+    return embedderPromise;
+  };
+
+  return withPrefixes(`local:${model}`, resolvePrefixes(model), async (texts) => {
+    const embedder = await getEmbedder();
+    const output = await embedder(texts, { pooling, normalize: true });
+    return output.tolist() as number[][];
+  });
+}
+
+function createOpenAiBackend(model: string): EmbeddingBackend {
+  const baseUrl = (process.env.EMBEDDING_API_URL ?? DEFAULT_API_URL).replace(/\/+$/, "");
+  const apiKey = process.env.EMBEDDING_API_KEY;
+  const dimensions = Number(process.env.EMBEDDING_DIMENSIONS) || undefined;
+
+  return withPrefixes(`openai:${model}${dimensions ? `@${dimensions}` : ""}`, resolvePrefixes(model), async (texts) => {
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, input: texts, ...(dimensions ? { dimensions } : {}) }),
+      signal: AbortSignal.timeout(API_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => "")).slice(0, 200);
+      throw new Error(`Embedding request failed: HTTP ${response.status} from ${baseUrl}/embeddings ${detail}`);
+    }
+    const body = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+    return [...body.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+  });
+}
+
+/** Build the backend configured by the EMBEDDING_* environment variables. */
+export function createEmbeddingBackend(): EmbeddingBackend {
+  const provider = (process.env.EMBEDDING_PROVIDER ?? "local").toLowerCase();
+  const model = process.env.EMBEDDING_MODEL;
+  if (provider === "openai") {
+    if (!model) throw new Error("EMBEDDING_MODEL is required when EMBEDDING_PROVIDER=openai");
+    return createOpenAiBackend(model);
+  }
+  if (provider !== "local") {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}" (expected "local" or "openai")`);
+  }
+  return createLocalBackend(model ?? DEFAULT_LOCAL_MODEL);
+}
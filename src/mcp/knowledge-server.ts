@@ -2,13 +2,16 @@
 /**
  * Local MCP server for knowledge and memory search.
  *
- * Exposes three tools the OpenCode agent can call on demand:
- *   - search_knowledge: semantic search across DB-backed knowledge entries
- *   - recall_memories: semantic search across saved memories
- *   - save_memory: save new memories (conventions, corrections, decisions)
+ * Exposes four tools the OpenCode agent can call on demand:
+ *   - search_knowledge: hybrid search across DB-backed knowledge entries
+ *   - recall_memories: hybrid search across saved memories
+ *   - save_memory: save new memories (conventions, corrections, decisions),
+ *     merging near-duplicates and flagging possible contradictions
+ *   - update_memory: rewrite a memory that is outdated or wrong
  *
- * Uses LanceDB for vector search and a local embedding model
- * (all-MiniLM-L6-v2) so no external API calls are needed.
+ * Uses LanceDB for vector and full-text search, with a local embedding model
+ * (all-MiniLM-L6-v2) by default so no external API calls are needed. See
+ * embeddings.ts for the other backends.
  *
  * Runs as a stdio-based MCP server spawned by OpenCode.
  */
@@ -22,11 +25,73 @@ import {
   searchMemories,
   getRecentMemories,
   indexSingleMemory,
+  removeMemoryFromIndex,
+  findSimilarMemories,
   startKnowledgeIndexSync,
+  SEARCH_MODES,
+  DUPLICATE_MEMORY_SIMILARITY,
+  RELATED_MEMORY_SIMILARITY,
+  type SimilarMemory,
 } from "./vector-store.js";
 
 const DB_PATH = process.env.SESSIONS_DB_PATH ?? path.join(process.cwd(), "sessions.db");
 
+const searchModeParam = z.enum(SEARCH_MODES).optional().describe(
+  "How to match: 'hybrid' (default) combines keyword and semantic ranking; 'keyword' for exact identifiers " +
+  "such as error codes, ticket IDs or function names; 'semantic' for loosely worded questions",
+);
+
+/** Union of two comma-separated tag lists. */
+function mergeTags(existing: string | null, added: string | null): string | null {
+  const tags = new Set(
+    [...(existing ?? "").split(","), ...(added ?? "").split(",")].map((t) => t.trim()).filter(Boolean),
+  );
+  return tags.size > 0 ? [...tags].join(",") : null;
+}
+
+interface Provenance {
+  thread_key: string | null;
+  channel_id: string | null;
+  session_id: string | null;
+  user_id: string | null;
+}
+
+/**
+ * Work out which Slack thread a memory is being saved from. Coding servers
+ * serve a single thread (CODING_THREAD_KEY); Q&A calls carry the OpenCode
+ * session ID, filled in by the memory-provenance plugin.
+ */
+function resolveProvenance(db: Database.Database, sessionId: string | undefined): Provenance | null {
+  const codingThread = process.env.CODING_THREAD_KEY;
+  if (codingThread) {
+    const row = db.prepare(
+      "SELECT thread_key, channel_id, opencode_session_id AS session_id, user_id FROM coding_sessions WHERE thread_key = ?"
+    ).get(codingThread) as Provenance | undefined;
+    return row ?? { thread_key: codingThread, channel_id: null, session_id: sessionId ?? null, user_id: null };
+  }
+  if (!sessionId) return null;
+  const row = db.prepare(
+    "SELECT thread_key, channel_id, session_id, last_user_id AS user_id FROM sessions WHERE session_id = ?"
+  ).get(sessionId) as Provenance | undefined;
+  return row ?? { thread_key: null, channel_id: null, session_id: sessionId, user_id: null };
+}
+
+/** Count a recall of these memories; rarely recalled ones surface in the staleness review. */
+function recordRecalls(ids: number[]): void {
+  if (ids.length === 0) return;
+  try {
+    const db = new Database(DB_PATH);
+    try {
+      db.prepare(`UPDATE memories SET recall_count = recall_count + 1, last_recalled_at = unixepoch() WHERE id IN (${ids.map(() => "?").join(",")})`)
+        .run(...ids);
+    } finally {
+      db.close();
+    }
+  } catch (err) {
+    console.error("[knowledge-mcp] Failed to record memory recalls:", err);
+  }
+}
+
 // ── MCP Server setup ──
 
 const server = new McpServer({
@@ -36,14 +101,15 @@ const server = new McpServer({
 
 server.tool(
   "search_knowledge",
-  "Semantic search across corporate knowledge files (company guidelines, coding standards, repo-specific docs, channel context). Use this when you need institutional knowledge about how the company works, coding conventions, or project-specific context.",
+  "Search corporate knowledge files (company guidelines, coding standards, repo-specific docs, channel context) by keyword and meaning. Use this when you need institutional knowledge about how the company works, coding conventions, or project-specific context.",
   {
     query: z.string().describe("Search query — describe what you're looking for in natural language"),
     scope: z.enum(["global", "repo", "channel"]).optional().describe("Limit search to a specific scope"),
     scope_key: z.string().optional().describe("Scope key — repo name (for repo scope) or channel ID (for channel scope). Required when scope is 'repo' or 'channel'."),
+    mode: searchModeParam,
   },
-  async ({ query, scope, scope_key }) => {
-    console.error(`[knowledge-mcp] search_knowledge: query="${query}" scope=${scope ?? "all"} scope_key=${scope_key ?? "none"}`);
+  async ({ query, scope, scope_key, mode }) => {
+    console.error(`[knowledge-mcp] search_knowledge: query="${query}" scope=${scope ?? "all"} scope_key=${scope_key ?? "none"} mode=${mode ?? "hybrid"}`);
     // Translate scope + scope_key to the composite scope used in LanceDB (e.g. "repo:my-app")
     let compositeScope: string | undefined;
     if (scope && scope_key) {
@@ -51,7 +117,7 @@ server.tool(
     } else if (scope === "global") {
       compositeScope = "global";
     }
-    const results = await searchKnowledge(query, compositeScope);
+    const results = await searchKnowledge(query, compositeScope, undefined, mode);
 
     console.error(`[knowledge-mcp] search_knowledge: ${results.length} results`);
 
@@ -62,7 +128,8 @@ server.tool(
     }
 
     const formatted = results.map((r) =>
-      `## ${r.file} (${r.scope}) [relevance: ${(r.score * 100).toFixed(0)}%]\n${r.chunk}`
+      `## ${r.section || r.file} (${r.scope}) [relevance: ${(r.score * 100).toFixed(0)}%]\n` +
+      `Section link: \`knowledge view #${r.entryId}@${r.start}\`\n${r.chunk}`
     ).join("\n\n---\n\n");
 
     return {
@@ -73,21 +140,23 @@ server.tool(
 
 server.tool(
   "recall_memories",
-  "Semantic search across saved team memories — conventions, decisions, corrections, and institutional knowledge accumulated from Slack conversations. Use this when the user asks about past decisions, team conventions, or when you need context about how things are done.",
+  "Search saved team memories by keyword and meaning — conventions, decisions, corrections, and institutional knowledge accumulated from Slack conversations. Use this when the user asks about past decisions, team conventions, or when you need context about how things are done.",
   {
     query: z.string().optional().describe("Search query — describe what you're looking for. Omit to list recent memories."),
     scope: z.enum(["global", "repo", "channel"]).optional().describe("Limit to a specific scope"),
     scope_key: z.string().optional().describe("Scope key — repo name or channel ID"),
+    mode: searchModeParam,
   },
-  async ({ query, scope, scope_key }) => {
+  async ({ query, scope, scope_key, mode }) => {
     if (query) {
-      const results = await searchMemories(query, scope, scope_key);
+      const results = await searchMemories(query, scope, scope_key, undefined, mode);
 
       if (results.length === 0) {
         return {
           content: [{ type: "text" as const, text: `No memories found matching "${query}".` }],
         };
       }
+      recordRecalls(results.map((m) => m.id));
 
       const formatted = results.map((m) => {
         const scopeLabel = m.scope_key ? `${m.scope}:${m.scope_key}` : m.scope;
@@ -125,14 +194,17 @@ server.tool(
 
 server.tool(
   "save_memory",
-  "Save important information as a team memory — corrections, conventions, decisions, or institutional knowledge worth preserving. Use this proactively when a user corrects you, states a convention, or shares knowledge that future conversations should know about. Do NOT ask for permission first — just save it.",
+  "Save important information as a team memory — corrections, conventions, decisions, or institutional knowledge worth preserving. Use this proactively when a user corrects you, states a convention, or shares knowledge that future conversations should know about. Do NOT ask for permission first — just save it. Restatements of an existing memory are merged into it. When the new memory replaces an older one (e.g. \"we switched from Zod to Valibot\"), pass that memory's id as `supersedes` so the old one is retired but kept as history.",
   {
     content: z.string().describe("The memory to save — a clear, self-contained statement of the convention, decision, or fact"),
     scope: z.enum(["global", "repo", "channel"]).describe("Scope: 'global' for company-wide, 'repo' for repo-specific, 'channel' for channel-specific"),
     scope_key: z.string().optional().describe("Scope key — repo name (for repo scope) or channel ID (for channel scope). Omit for global."),
     tags: z.string().optional().describe("Comma-separated keywords for easier recall later"),
+    supersedes: z.number().int().optional().describe("Id of an existing memory this one replaces (the number after # in recall_memories results)"),
+    expires_in_days: z.number().int().positive().optional().describe("For temporary facts (\"staging is down this week\"): forget the memory after this many days"),
+    session_id: z.string().optional().describe("Set by the bot; any value passed here is replaced"),
   },
-  async ({ content, scope, scope_key, tags }) => {
+  async ({ content, scope, scope_key, tags, supersedes, expires_in_days, session_id }) => {
     let db: Database.Database;
     try {
       db = new Database(DB_PATH);
@@ -145,25 +217,151 @@ server.tool(
     }
 
     try {
+      const scopeKey = scope_key ?? null;
+      const scopeLabel = scope_key ? `${scope}:${scope_key}` : scope;
+
+      if (supersedes !== undefined) {
+        const old = db.prepare("SELECT scope, scope_key FROM memories WHERE id = ? AND superseded_by IS NULL").get(supersedes) as
+          { scope: string; scope_key: string | null } | undefined;
+        if (!old) {
+          return {
+            content: [{ type: "text" as const, text: `Memory #${supersedes} not found (or already superseded) — nothing saved.` }],
+            isError: true,
+          };
+        }
+        // Only a memory in the same scope can be retired this way
+        if (old.scope !== scope || old.scope_key !== scopeKey) {
+          const oldLabel = old.scope_key ? `${old.scope}:${old.scope_key}` : old.scope;
+          return {
+            content: [{ type: "text" as const, text: `Memory #${supersedes} is in ${oldLabel}, not ${scopeLabel} — it can only be superseded by a memory in the same scope. Nothing saved.` }],
+            isError: true,
+          };
+        }
+      }
+
+      // Compare against what's already saved in this scope
+      let similar: SimilarMemory[] = [];
+      try {
+        similar = (await findSimilarMemories(content, scope, scopeKey))
+          .filter((m) => m.id !== supersedes && m.score >= RELATED_MEMORY_SIMILARITY);
+      } catch (err) {
+        console.error("[knowledge-mcp] Similarity check failed — saving without it:", err);
+      }
+
+      const duplicate = supersedes === undefined && similar[0]?.score >= DUPLICATE_MEMORY_SIMILARITY ? similar[0] : undefined;
+      if (duplicate) {
+        const mergedTags = mergeTags(duplicate.tags, tags ?? null);
+        db.prepare("UPDATE memories SET tags = ?, updated_at = unixepoch() WHERE id = ?").run(mergedTags, duplicate.id);
+        console.error(`[knowledge-mcp] save_memory: merged into near-duplicate #${duplicate.id} (${(duplicate.score * 100).toFixed(0)}%)`);
+        return {
+          content: [{ type: "text" as const, text: `Already saved as memory #${duplicate.id} (${scopeLabel}): ${duplicate.content}${tags ? " — tags merged." : ""}` }],
+        };
+      }
+
+      let provenance: Provenance | null = null;
+      try {
+        provenance = resolveProvenance(db, session_id);
+      } catch (err) {
+        console.error("[knowledge-mcp] Failed to resolve memory provenance:", err);
+      }
+
       const result = db
-        .prepare(
-          "INSERT INTO memories (content, scope, scope_key, tags, created_by) VALUES (?, ?, ?, ?, ?)"
-        )
-        .run(content, scope, scope_key ?? null, tags ?? null, "agent");
+        .prepare(`
+          INSERT INTO memories (content, scope, scope_key, tags, created_by, thread_key, channel_id, session_id, source_user_id, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .run(
+          content, scope, scopeKey, tags ?? null, "agent",
+          provenance?.thread_key ?? null, provenance?.channel_id ?? null, provenance?.session_id ?? null, provenance?.user_id ?? null,
+          expires_in_days ? Math.floor(Date.now() / 1000) + expires_in_days * 86400 : null,
+        );
 
       const id = Number(result.lastInsertRowid);
 
+      if (supersedes !== undefined) {
+        db.prepare("UPDATE memories SET superseded_by = ?, superseded_at = unixepoch() WHERE id = ?").run(id, supersedes);
+        // A pinned memory stays pinned in its new version
+        db.prepare("UPDATE memories SET pinned = (SELECT pinned FROM memories WHERE id = ?) WHERE id = ?").run(supersedes, id);
+        db.prepare(`
+          UPDATE memory_conflicts SET status = 'superseded', resolved_by = 'agent', resolved_at = unixepoch()
+          WHERE status = 'open' AND (memory_id = ? OR other_id = ?)
+        `).run(supersedes, supersedes);
+      }
+      // Close-but-not-identical memories in the same scope may contradict this one — flag them for an admin
+      const flag = db.prepare("INSERT OR IGNORE INTO memory_conflicts (memory_id, other_id, similarity) VALUES (?, ?, ?)");
+      for (const m of similar) flag.run(id, m.id, m.score);
+
       // Index into vector store for future semantic search
       try {
-        await indexSingleMemory(id, content, scope, scope_key ?? null, tags ?? null, "agent");
+        await indexSingleMemory(id, content, scope, scopeKey, tags ?? null, "agent");
+        if (supersedes !== undefined) await removeMemoryFromIndex(supersedes);
       } catch (err) {
         // Non-fatal — memory is saved in SQLite, just won't be in vector index until next sync
         console.error("[knowledge-mcp] Failed to index memory in vector store:", err);
       }
 
-      const scopeLabel = scope_key ? `${scope}:${scope_key}` : scope;
+      const lines = [`Memory #${id} saved (${scopeLabel}): ${content}`];
+      if (expires_in_days) lines.push(`It expires in ${expires_in_days} day${expires_in_days === 1 ? "" : "s"}.`);
+      if (supersedes !== undefined) lines.push(`It replaces memory #${supersedes}, which is kept as history.`);
+      if (similar.length > 0) {
+        lines.push(
+          "Similar memories exist in this scope and were flagged for an admin to check for contradictions:",
+          ...similar.map((m) => `- #${m.id}: ${m.content}`),
+          "If the new memory replaces one of them, say so to the user; next time pass `supersedes`.",
+        );
+      }
+      return {
+        content: [{ type: "text" as const, text: lines.join("\n") }],
+      };
+    } finally {
+      db.close();
+    }
+  },
+);
+
+server.tool(
+  "update_memory",
+  "Rewrite an existing team memory in place — to fix a mistake or sharpen its wording. Use the memory's #id from recall_memories. When a decision or convention has actually changed, use save_memory with `supersedes` instead so the old version is kept as history.",
+  {
+    id: z.number().int().describe("The memory's id (the number after # in recall_memories results)"),
+    content: z.string().describe("The full replacement text — a clear, self-contained statement"),
+    tags: z.string().optional().describe("Replacement comma-separated keywords; omit to keep the current tags"),
+  },
+  async ({ id, content, tags }) => {
+    let db: Database.Database;
+    try {
+      db = new Database(DB_PATH);
+      db.pragma("journal_mode = WAL");
+    } catch {
+      return {
+        content: [{ type: "text" as const, text: "Failed to update memory: database unavailable." }],
+        isError: true,
+      };
+    }
+
+    try {
+      const existing = db.prepare("SELECT * FROM memories WHERE id = ?").get(id) as
+        { scope: string; scope_key: string | null; tags: string | null; created_by: string; created_at: number } | undefined;
+      if (!existing) {
+        return {
+          content: [{ type: "text" as const, text: `Memory #${id} not found.` }],
+          isError: true,
+        };
+      }
+
+      const newTags = tags ?? existing.tags;
+      db.prepare("UPDATE memories SET content = ?, tags = ?, updated_at = unixepoch() WHERE id = ?")
+        .run(content, newTags, id);
+
+      try {
+        await indexSingleMemory(id, content, existing.scope, existing.scope_key, newTags, existing.created_by, existing.created_at);
+      } catch (err) {
+        // Non-fatal — the next search reconciles the vector index with SQLite
+        console.error("[knowledge-mcp] Failed to re-index memory in vector store:", err);
+      }
+
       return {
-        content: [{ type: "text" as const, text: `Memory #${id} saved (${scopeLabel}): ${content}` }],
+        content: [{ type: "text" as const, text: `Memory #${id} updated: ${content}` }],
       };
     } finally {
       db.close();
@@ -1,51 +1,116 @@
 /**
  * Vector store for semantic search over knowledge files and memories.
  *
- * Uses LanceDB (embedded, on-disk) for vector storage and
- * @huggingface/transformers with all-MiniLM-L6-v2 for local embeddings.
+ * Uses LanceDB (embedded, on-disk) for vector storage and a configurable
+ * embedding backend (see embeddings.ts; local all-MiniLM-L6-v2 by default).
+ * Each table also has a LanceDB full-text (BM25) index, so searches can match
+ * exact identifiers — error codes, ticket IDs, function names — that
+ * embeddings blur. Hybrid searches fuse both rankings with reciprocal rank
+ * fusion.
  */
 import * as lancedb from "@lancedb/lancedb";
-import { pipeline, env as txEnv, type FeatureExtractionPipeline } from "@huggingface/transformers";
 import Database from "better-sqlite3";
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
 import path from "node:path";
-
-// Point the model cache at a writable location (Docker has read-only node_modules)
-if (process.env.HF_CACHE_DIR) {
-  txEnv.cacheDir = process.env.HF_CACHE_DIR;
-}
+import { chunkMarkdown } from "./chunker.js";
+import { createEmbeddingBackend } from "./embeddings.js";
 
 const DB_PATH = process.env.SESSIONS_DB_PATH ?? path.join(process.cwd(), "sessions.db");
 const LANCE_DIR = process.env.LANCE_DIR ?? path.join(path.dirname(DB_PATH), ".lancedb");
 
-const EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
-const EMBEDDING_DIMS = 384;
+// ── Embeddings ──
 
-// ── Embedding pipeline (lazy singleton) ──
+const embeddings = createEmbeddingBackend();
+
+export async function embed(text: string): Promise<number[]> {
+  return embeddings.embedQuery(text);
+}
 
-let embedderPromise: Promise<FeatureExtractionPipeline> | null = null;
+async function embedBatch(texts: string[]): Promise<number[][]> {
+  return embeddings.embedDocuments(texts);
+}
 
-async function getEmbedder(): Promise<FeatureExtractionPipeline> {
-  if (!embedderPromise) {
-    embedderPromise = pipeline("feature-extraction", EMBEDDING_MODEL).then(
-      (p) => p as FeatureExtractionPipeline,
-    );
+/** Which backend and dimension each table's vectors were made with. */
+const EMBEDDING_META_PATH = path.join(LANCE_DIR, "embeddings.json");
+
+interface TableEmbedding {
+  model: string;
+  dims: number;
+  embedded_at: number;
+}
+
+/** Tables from before the backend was configurable were all embedded with this. */
+const LEGACY_EMBEDDING: TableEmbedding = { model: "local:Xenova/all-MiniLM-L6-v2", dims: 384, embedded_at: 0 };
+
+/** Re-read on every call: the bot and each MCP server process share the file. */
+function readEmbeddingMeta(): Record<string, TableEmbedding> {
+  try {
+    return JSON.parse(readFileSync(EMBEDDING_META_PATH, "utf-8")) as Record<string, TableEmbedding>;
+  } catch {
+    return {};
   }
-  return embedderPromise;
 }
 
-export async function embed(text: string): Promise<number[]> {
-  const model = await getEmbedder();
-  const result = await model(text, { pooling: "mean", normalize: true });
-  return Array.from(result.data as Float32Array);
+function tableEmbedding(table: string): TableEmbedding {
+  return readEmbeddingMeta()[table] ?? LEGACY_EMBEDDING;
 }
 
-async function embedBatch(texts: string[]): Promise<number[][]> {
-  const results: number[][] = [];
-  // Process sequentially to avoid OOM on large batches
-  for (const text of texts) {
-    results.push(await embed(text));
+function recordTableEmbedding(table: string, dims: number): void {
+  const meta = readEmbeddingMeta();
+  meta[table] = { model: embeddings.id, dims, embedded_at: Math.floor(Date.now() / 1000) };
+  mkdirSync(LANCE_DIR, { recursive: true });
+  const tmp = `${EMBEDDING_META_PATH}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(meta, null, 2));
+  renameSync(tmp, EMBEDDING_META_PATH);
+}
+
+/** Whether an existing table's vectors come from the configured backend. */
+function isTableCurrent(table: string): boolean {
+  return tableEmbedding(table).model === embeddings.id;
+}
+
+const staleTablesWarned = new Set<string>();
+
+/**
+ * Take the cross-process lock for re-embedding a table, so only one of the
+ * bot and the MCP servers pays for it; the rest keep falling back to keyword
+ * search until the metadata says the table is current. Returns a release
+ * function, or null if another live process holds the lock.
+ */
+function acquireReembedLock(table: string): (() => void) | null {
+  const lockPath = path.join(LANCE_DIR, `reembed-${table}.lock`);
+  mkdirSync(LANCE_DIR, { recursive: true });
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+      return () => {
+        try { unlinkSync(lockPath); } catch { /* already gone */ }
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+    // Take over a lock left behind by a process that died mid-re-embed
+    let holder: number;
+    try {
+      holder = Number(readFileSync(lockPath, "utf-8").trim());
+    } catch {
+      continue; // Released in the meantime
+    }
+    // An empty file is a lock still being written
+    if (!holder || isProcessAlive(holder)) return null;
+    try { unlinkSync(lockPath); } catch { /* raced with another taker */ }
+  }
+  return null;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
   }
-  return results;
 }
 
 // ── LanceDB connection (lazy singleton) ──
@@ -59,43 +124,155 @@ async function getDb(): Promise<lancedb.Connection> {
   return db;
 }
 
+// ── Search modes and rank fusion ──
+
+export const SEARCH_MODES = ["hybrid", "semantic", "keyword"] as const;
+/** hybrid = BM25 + vector fused with RRF; semantic = vector only; keyword = BM25 only. */
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export function isSearchMode(value: string): value is SearchMode {
+  return (SEARCH_MODES as readonly string[]).includes(value);
+}
+
+/** RRF damping constant — the usual 60 keeps one list's top hit from dominating. */
+const RRF_K = 60;
+/** Each ranking fetches this many times the requested results before fusing. */
+const FUSION_CANDIDATE_FACTOR = 3;
+
+/** Tables whose full-text indexes are known to exist in this process. */
+const ftsIndexedTables = new Set<string>();
+
+/**
+ * Create the BM25 indexes on `columns` if the table doesn't have them yet
+ * (tables created before hybrid search have only vectors). Rows added after
+ * the index was built are still searched, just without the index.
+ */
+async function ensureFtsIndex(table: lancedb.Table, columns: string[]): Promise<void> {
+  const name = table.name;
+  if (ftsIndexedTables.has(name)) return;
+  const existing = new Set(
+    (await table.listIndices()).filter((i) => i.indexType === "FTS").flatMap((i) => i.columns),
+  );
+  for (const column of columns) {
+    if (!existing.has(column)) {
+      await table.createIndex(column, { config: lancedb.Index.fts(), replace: true });
+      console.error(`[vector] Built full-text index on ${name}.${column}`);
+    }
+  }
+  ftsIndexedTables.add(name);
+}
+
+/**
+ * Run a BM25 search, or return [] if the table can't be full-text searched
+ * (so a missing index degrades to semantic-only results instead of failing).
+ */
+async function keywordSearch(
+  table: lancedb.Table,
+  query: string,
+  columns: string[],
+  where: string | undefined,
+  limit: number,
+): Promise<Record<string, unknown>[]> {
+  try {
+    await ensureFtsIndex(table, columns);
+    let search = table.query().fullTextSearch(query, { columns }).limit(limit);
+    if (where) search = search.where(where);
+    return await search.toArray();
+  } catch (err) {
+    console.error(`[vector] Full-text search on ${table.name} failed:`, err);
+    return [];
+  }
+}
+
+async function semanticSearch(
+  table: lancedb.Table,
+  query: string,
+  where: string | undefined,
+  limit: number,
+): Promise<Record<string, unknown>[]> {
+  // Vectors from another model can't be compared with the query's — keyword results carry the search until the re-embed finishes
+  if (!isTableCurrent(table.name)) {
+    if (!staleTablesWarned.has(table.name)) {
+      staleTablesWarned.add(table.name);
+      console.error(`[vector] ${table.name} is still embedded with ${tableEmbedding(table.name).model} — semantic search is off until it is re-embedded.`);
+    }
+    return [];
+  }
+  const queryVec = await embed(query);
+  const vectorSearch = table.search(queryVec) as lancedb.VectorQuery;
+  let search = vectorSearch.distanceType("cosine").limit(limit);
+  if (where) search = search.where(where);
+  return search.toArray();
+}
+
+/**
+ * Search a table in the given mode and return rows with a 0–1 `score`:
+ * cosine similarity for semantic, BM25 relative to the best hit for keyword,
+ * and for hybrid the RRF score relative to a row ranked first by both.
+ */
+async function rankedSearch(
+  table: lancedb.Table,
+  opts: { query: string; mode: SearchMode; ftsColumns: string[]; where?: string; limit: number },
+): Promise<Array<{ row: Record<string, unknown>; score: number }>> {
+  const { query, mode, ftsColumns, where, limit } = opts;
+
+  if (mode === "semantic") {
+    const rows = await semanticSearch(table, query, where, limit);
+    return rows.map((row) => ({ row, score: 1 - (row._distance as number) })); // cosine distance → similarity
+  }
+
+  if (mode === "keyword") {
+    const rows = await keywordSearch(table, query, ftsColumns, where, limit);
+    const top = (rows[0]?._score as number | undefined) || 1;
+    return rows.map((row) => ({ row, score: (row._score as number) / top }));
+  }
+
+  const candidates = limit * FUSION_CANDIDATE_FACTOR;
+  const [semantic, keyword] = await Promise.all([
+    semanticSearch(table, query, where, candidates),
+    keywordSearch(table, query, ftsColumns, where, candidates),
+  ]);
+
+  // Reciprocal rank fusion: sum 1/(k + rank) over the rankings a row appears in
+  const fused = new Map<string, { row: Record<string, unknown>; rrf: number }>();
+  for (const ranking of [semantic, keyword]) {
+    ranking.forEach((row, index) => {
+      const key = String(row.id);
+      const entry = fused.get(key) ?? { row, rrf: 0 };
+      entry.rrf += 1 / (RRF_K + index + 1);
+      fused.set(key, entry);
+    });
+  }
+  const best = 2 / (RRF_K + 1);
+  return [...fused.values()]
+    .sort((a, b) => b.rrf - a.rrf)
+    .slice(0, limit)
+    .map(({ row, rrf }) => ({ row, score: rrf / best }));
+}
+
 // ── Knowledge indexing ──
 
 type KnowledgeRecord = Record<string, unknown> & {
   id: string;
+  /** Row id of the knowledge entry this chunk came from. */
+  entry_id: number;
+  /** Content hash of the entry when it was embedded; a mismatch means re-embed. */
+  hash: string;
   scope: string;
   file: string;
+  /** Heading path of the chunk's section, e.g. "API Guidelines > Pagination". */
+  section: string;
   chunk: string;
+  /** Character offsets of the chunk in the entry's content. */
+  start_offset: number;
+  end_offset: number;
   vector: number[];
 };
 
-/**
- * Chunk a markdown file into smaller pieces for embedding.
- * Splits on double newlines (paragraphs), merging small chunks.
- */
-function chunkText(text: string, maxChunkLen = 500): string[] {
-  const paragraphs = text.split(/\n{2,}/);
-  const chunks: string[] = [];
-  let current = "";
-
-  for (const para of paragraphs) {
-    const trimmed = para.trim();
-    if (!trimmed) continue;
-
-    if (current.length + trimmed.length + 2 > maxChunkLen && current) {
-      chunks.push(current.trim());
-      current = trimmed;
-    } else {
-      current += (current ? "\n\n" : "") + trimmed;
-    }
-  }
-  if (current.trim()) chunks.push(current.trim());
-
-  // If the whole text is shorter than maxChunkLen, return it as one chunk
-  if (chunks.length === 0 && text.trim()) chunks.push(text.trim());
+/** Columns the knowledge table needs; older tables without them are rebuilt once. */
+const KNOWLEDGE_TRACKING_COLUMNS = ["entry_id", "hash", "section", "start_offset", "end_offset"];
 
-  return chunks;
-}
+const KNOWLEDGE_FTS_COLUMNS = ["chunk", "section"];
 
 interface KnowledgeDbRow {
   id: number;
@@ -103,32 +280,46 @@ interface KnowledgeDbRow {
   content: string;
   scope: string;
   scope_key: string | null;
-  updated_at: number;
 }
 
-/** Scan knowledge entries from SQLite. */
-function scanKnowledgeFromDb(): Array<{ scope: string; file: string; content: string; mtime: number }> {
+interface KnowledgeEntry {
+  id: number;
+  scope: string;
+  file: string;
+  content: string;
+  hash: string;
+}
+
+/** Hash everything that ends up in an entry's indexed chunks. */
+function knowledgeHash(scope: string, file: string, content: string): string {
+  return createHash("sha256").update(`${scope}\0${file}\0${content}`).digest("hex");
+}
+
+/** Scan knowledge entries from SQLite, or null if the DB can't be opened. */
+function scanKnowledgeFromDb(): KnowledgeEntry[] | null {
   let sqliteDb: Database.Database;
   try {
     sqliteDb = new Database(DB_PATH, { readonly: true });
   } catch {
-    return [];
+    return null;
   }
 
   try {
     const rows = sqliteDb
-      .prepare("SELECT id, title, content, scope, scope_key, updated_at FROM knowledge")
+      .prepare("SELECT id, title, content, scope, scope_key FROM knowledge")
       .all() as KnowledgeDbRow[];
 
     return rows
       .filter((r) => r.content.trim())
       .map((r) => {
         const compositeScope = r.scope_key ? `${r.scope}:${r.scope_key}` : r.scope;
+        // Untrimmed, so chunk offsets line up with the stored content
         return {
+          id: r.id,
           scope: compositeScope,
           file: r.title,
-          content: r.content.trim(),
-          mtime: r.updated_at,
+          content: r.content,
+          hash: knowledgeHash(compositeScope, r.title, r.content),
         };
       });
   } finally {
@@ -136,73 +327,151 @@ function scanKnowledgeFromDb(): Array<{ scope: string; file: string; content: st
   }
 }
 
-/** Get the latest updated_at watermark from the knowledge table. */
-function getKnowledgeWatermark(): number {
-  let sqliteDb: Database.Database;
-  try {
-    sqliteDb = new Database(DB_PATH, { readonly: true });
-  } catch {
-    return 0;
-  }
-  try {
-    const row = sqliteDb
-      .prepare("SELECT MAX(updated_at) as max_ts FROM knowledge")
-      .get() as { max_ts: number | null } | undefined;
-    return row?.max_ts ?? 0;
-  } finally {
-    sqliteDb.close();
-  }
+async function buildKnowledgeRecords(entries: KnowledgeEntry[]): Promise<KnowledgeRecord[]> {
+  const pending = entries.flatMap((entry) =>
+    chunkMarkdown(entry.content, entry.file).map((chunk, i) => ({ entry, chunk, i })),
+  );
+  // Embed the heading path with the text, so a chunk matches questions about its section
+  const vectors = await embedBatch(pending.map(({ chunk }) => `${chunk.section}\n\n${chunk.text}`));
+  return pending.map(({ entry, chunk, i }, n) => ({
+    id: `${entry.scope}/${entry.file}#${i}`,
+    entry_id: entry.id,
+    hash: entry.hash,
+    scope: entry.scope,
+    file: entry.file,
+    section: chunk.section,
+    chunk: chunk.text,
+    start_offset: chunk.start,
+    end_offset: chunk.end,
+    vector: vectors[n],
+  }));
 }
 
-let lastKnowledgeIndexTime = 0;
+/**
+ * Entry id → content hash of what's in the LanceDB table, or null if the
+ * table is missing or predates per-entry tracking or section chunking.
+ */
+async function loadIndexedKnowledgeHashes(conn: lancedb.Connection): Promise<Map<number, string> | null> {
+  if (!(await conn.tableNames()).includes("knowledge")) return null;
+  const table = await conn.openTable("knowledge");
+  const fields = new Set((await table.schema()).fields.map((f) => f.name));
+  if (!KNOWLEDGE_TRACKING_COLUMNS.every((c) => fields.has(c))) return null;
 
-export async function indexKnowledgeFiles(): Promise<void> {
-  // Check watermark — only re-index if data has changed
-  const watermark = getKnowledgeWatermark();
-  if (watermark <= lastKnowledgeIndexTime) return;
+  const hashes = new Map<number, string>();
+  const rows = await table.query().select(["entry_id", "hash"]).toArray();
+  for (const r of rows) hashes.set(Number(r.entry_id), r.hash as string);
+  return hashes;
+}
 
-  const files = scanKnowledgeFromDb();
-  if (files.length === 0) {
-    // All entries deleted — drop the LanceDB table if it exists
-    lastKnowledgeIndexTime = watermark || Date.now();
-    const conn = await getDb();
-    const tableNames = await conn.tableNames();
-    if (tableNames.includes("knowledge")) {
+/** What's in the LanceDB knowledge table (entry id → hash); null until loaded. */
+let indexedKnowledgeHashes: Map<number, string> | null = null;
+let knowledgeIndexRun: Promise<void> | null = null;
+
+/**
+ * Bring the LanceDB knowledge table in line with SQLite. Only entries whose
+ * content hash changed are re-embedded; edited and deleted entries have their
+ * old chunks removed with a targeted delete. Concurrent calls share one run.
+ */
+export function indexKnowledgeFiles(): Promise<void> {
+  if (!knowledgeIndexRun) {
+    knowledgeIndexRun = syncKnowledgeIndex().finally(() => {
+      knowledgeIndexRun = null;
+    });
+  }
+  return knowledgeIndexRun;
+}
+
+async function syncKnowledgeIndex(): Promise<void> {
+  const entries = scanKnowledgeFromDb();
+  if (!entries) return;
+
+  const conn = await getDb();
+  if ((await conn.tableNames()).includes("knowledge") && !isTableCurrent("knowledge")) {
+    await reembedKnowledge(conn, entries);
+    return;
+  }
+  if (!indexedKnowledgeHashes) {
+    const loaded = await loadIndexedKnowledgeHashes(conn);
+    if (!loaded && (await conn.tableNames()).includes("knowledge")) {
+      console.error("[vector] Knowledge table predates the current chunk schema — rebuilding it.");
       await conn.dropTable("knowledge");
     }
+    indexedKnowledgeHashes = loaded ?? new Map();
+  }
+  const indexed = indexedKnowledgeHashes;
+
+  const current = new Set(entries.map((e) => e.id));
+  const changed = entries.filter((e) => indexed.get(e.id) !== e.hash);
+  const removed = [...indexed.keys()].filter((id) => !current.has(id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const started = Date.now();
+  if (entries.length === 0) {
+    // All entries deleted — drop the LanceDB table
+    if ((await conn.tableNames()).includes("knowledge")) await conn.dropTable("knowledge");
+    indexed.clear();
+    console.error("[vector] Knowledge base is empty — dropped the index.");
     return;
   }
 
-  console.error(`[vector] Indexing ${files.length} knowledge entries from DB...`);
-
-  const records: KnowledgeRecord[] = [];
-  for (const file of files) {
-    const chunks = chunkText(file.content);
-    const vectors = await embedBatch(chunks);
+  const records = await buildKnowledgeRecords(changed);
+  const stale = [...removed, ...changed.filter((e) => indexed.has(e.id)).map((e) => e.id)];
 
-    for (let i = 0; i < chunks.length; i++) {
-      records.push({
-        id: `${file.scope}/${file.file}#${i}`,
-        scope: file.scope,
-        file: file.file,
-        chunk: chunks[i],
-        vector: vectors[i],
-      });
-    }
+  if (!(await conn.tableNames()).includes("knowledge")) {
+    const table = await conn.createTable("knowledge", records);
+    recordTableEmbedding("knowledge", records[0]?.vector.length ?? 0);
+    ftsIndexedTables.delete("knowledge");
+    await ensureFtsIndex(table, KNOWLEDGE_FTS_COLUMNS).catch((err) =>
+      console.error("[vector] Failed to build knowledge full-text index:", err),
+    );
+  } else {
+    const table = await conn.openTable("knowledge");
+    if (stale.length > 0) await table.delete(`entry_id IN (${stale.join(",")})`);
+    if (records.length > 0) await table.add(records);
+    // Fold the new rows into the vector and full-text indexes, and compact
+    await table.optimize().catch((err) =>
+      console.error("[vector] Knowledge table optimize failed:", err),
+    );
   }
 
-  if (records.length === 0) return;
+  for (const id of removed) indexed.delete(id);
+  for (const e of changed) indexed.set(e.id, e.hash);
+  console.error(
+    `[vector] Knowledge index: ${changed.length} entries re-embedded (${records.length} chunks), ` +
+    `${removed.length} removed in ${Date.now() - started}ms.`,
+  );
+}
 
-  const conn = await getDb();
-  const tableNames = await conn.tableNames();
+/**
+ * Re-embed every entry with the configured backend after the embedding model
+ * changed. The old table keeps serving keyword searches until the new one is
+ * ready, then it is swapped in.
+ */
+async function reembedKnowledge(conn: lancedb.Connection, entries: KnowledgeEntry[]): Promise<void> {
+  const release = acquireReembedLock("knowledge");
+  if (!release) return; // Another process is re-embedding
+  try {
+    // It may have finished between our staleness check and taking the lock
+    if (isTableCurrent("knowledge")) return;
+    const from = tableEmbedding("knowledge");
+    console.error(`[vector] Knowledge was embedded with ${from.model} — re-embedding ${entries.length} entries with ${embeddings.id}...`);
+    const started = Date.now();
+    const records = await buildKnowledgeRecords(entries);
 
-  if (tableNames.includes("knowledge")) {
     await conn.dropTable("knowledge");
+    ftsIndexedTables.delete("knowledge");
+    indexedKnowledgeHashes = new Map(entries.map((e) => [e.id, e.hash]));
+    if (records.length === 0) return;
+    const table = await conn.createTable("knowledge", records);
+    recordTableEmbedding("knowledge", records[0].vector.length);
+    staleTablesWarned.delete("knowledge");
+    await ensureFtsIndex(table, KNOWLEDGE_FTS_COLUMNS).catch((err) =>
+      console.error("[vector] Failed to build knowledge full-text index:", err),
+    );
+    console.error(`[vector] Knowledge re-embedded: ${records.length} chunks in ${Date.now() - started}ms.`);
+  } finally {
+    release();
   }
-  await conn.createTable("knowledge", records);
-
-  lastKnowledgeIndexTime = watermark;
-  console.error(`[vector] Indexed ${records.length} knowledge chunks.`);
 }
 
 const KNOWLEDGE_INDEX_INTERVAL_MS = Number(process.env.KNOWLEDGE_INDEX_INTERVAL_MS) || 60_000;
@@ -223,31 +492,45 @@ export function startKnowledgeIndexSync(): NodeJS.Timeout {
   }, KNOWLEDGE_INDEX_INTERVAL_MS);
 }
 
+export interface KnowledgeSearchResult {
+  entryId: number;
+  scope: string;
+  file: string;
+  /** Heading path of the matching chunk's section. */
+  section: string;
+  chunk: string;
+  /** Where the chunk starts in the entry — `knowledge view #<entryId>@<start>` opens its section. */
+  start: number;
+  score: number;
+}
+
 export async function searchKnowledge(
   query: string,
   scope?: string,
   limit = 10,
-): Promise<Array<{ scope: string; file: string; chunk: string; score: number }>> {
+  mode: SearchMode = "hybrid",
+): Promise<KnowledgeSearchResult[]> {
   const conn = await getDb();
   const tableNames = await conn.tableNames();
   if (!tableNames.includes("knowledge")) return [];
 
   const table = await conn.openTable("knowledge");
-  const queryVec = await embed(query);
-
-  const vectorSearch = table.search(queryVec) as lancedb.VectorQuery;
-  let search = vectorSearch.distanceType("cosine").limit(limit);
-  if (scope) {
-    const esc = (s: string) => s.replace(/'/g, "''");
-    search = search.where(`scope = '${esc(scope)}'`);
-  }
-
-  const results = await search.toArray();
-  return results.map((r: Record<string, unknown>) => ({
+  const esc = (s: string) => s.replace(/'/g, "''");
+  const results = await rankedSearch(table, {
+    query,
+    mode,
+    ftsColumns: KNOWLEDGE_FTS_COLUMNS,
+    where: scope ? `scope = '${esc(scope)}'` : undefined,
+    limit,
+  });
+  return results.map(({ row: r, score }) => ({
+    entryId: Number(r.entry_id),
     scope: r.scope as string,
     file: r.file as string,
+    section: r.section as string,
     chunk: r.chunk as string,
-    score: 1 - (r._distance as number), // cosine distance → cosine similarity
+    start: Number(r.start_offset),
+    score,
   }));
 }
 
@@ -261,6 +544,8 @@ type MemoryRecord = Record<string, unknown> & {
   tags: string;
   created_by: string;
   created_at: number;
+  /** Hash of the fields that were embedded; a mismatch means the memory was edited. */
+  hash: string;
   vector: number[];
 };
 
@@ -274,81 +559,152 @@ interface SqliteMemoryRow {
   created_at: number;
 }
 
-let lastIndexedMemoryId = 0;
-let memoryWatermarkInitialized = false;
+const MEMORY_FTS_COLUMNS = ["content", "tags"];
+/** Memories still in effect: not replaced by a newer one and not past their TTL. */
+const LIVE_MEMORY = "superseded_by IS NULL AND (expires_at IS NULL OR expires_at > unixepoch())";
 
-/** Sync any new memories from SQLite into LanceDB. */
-async function syncMemoryIndex(): Promise<void> {
-  // On first call, initialize watermark from existing LanceDB data to avoid duplicates
-  if (!memoryWatermarkInitialized) {
-    memoryWatermarkInitialized = true;
-    try {
-      const conn = await getDb();
-      const tableNames = await conn.tableNames();
-      if (tableNames.includes("memories")) {
-        const table = await conn.openTable("memories");
-        // Query all rows, get max id
-        const rows = await table.query().select(["id"]).toArray();
-        if (rows.length > 0) {
-          const maxId = Math.max(...rows.map((r: Record<string, unknown>) => r.id as number));
-          lastIndexedMemoryId = maxId;
-          console.log(`[vector] Initialized memory watermark at #${lastIndexedMemoryId}`);
-        }
-      }
-    } catch (err) {
-      console.warn("[vector] Failed to initialize memory watermark:", err);
+function memoryHash(m: SqliteMemoryRow): string {
+  return createHash("sha256")
+    .update(`${m.scope}\0${m.scope_key ?? ""}\0${m.tags ?? ""}\0${m.content}`)
+    .digest("hex");
+}
+
+async function buildMemoryRecords(memories: SqliteMemoryRow[]): Promise<MemoryRecord[]> {
+  const vectors = await embedBatch(memories.map((m) => (m.tags ? `${m.content} ${m.tags}` : m.content)));
+  return memories.map((m, i) => ({
+    id: m.id,
+    content: m.content,
+    scope: m.scope,
+    scope_key: m.scope_key ?? "",
+    tags: m.tags ?? "",
+    created_by: m.created_by,
+    created_at: m.created_at,
+    hash: memoryHash(m),
+    vector: vectors[i],
+  }));
+}
+
+/**
+ * Replace the LanceDB rows for these memories (and drop `removedIds`) in one
+ * pass. Creates the table if needed.
+ */
+async function writeMemoryRecords(records: MemoryRecord[], removedIds: number[] = []): Promise<void> {
+  const conn = await getDb();
+  if (!(await conn.tableNames()).includes("memories")) {
+    if (records.length > 0) {
+      await conn.createTable("memories", records);
+      recordTableEmbedding("memories", records[0].vector.length);
     }
+    return;
   }
+  // Mid re-embed the table holds another model's vectors; the re-embed and the next reconcile pick these up
+  if (!isTableCurrent("memories")) records = [];
+  const table = await conn.openTable("memories");
+  const stale = [...removedIds, ...records.map((r) => r.id)];
+  if (stale.length > 0) await table.delete(`id IN (${stale.join(",")})`);
+  if (records.length > 0) await table.add(records);
+}
+
+let memorySync: Promise<void> | null = null;
 
+/**
+ * Reconcile the LanceDB memories table with SQLite: embed new and edited
+ * memories, and delete rows for memories that were forgotten or superseded. The indexed
+ * hashes are re-read each time because the bot and the MCP server both write
+ * to the table. Concurrent calls share one run.
+ */
+function syncMemoryIndex(): Promise<void> {
+  if (!memorySync) {
+    memorySync = reconcileMemoryIndex().finally(() => {
+      memorySync = null;
+    });
+  }
+  return memorySync;
+}
+
+async function reconcileMemoryIndex(): Promise<void> {
   let sqliteDb: Database.Database;
   try {
     sqliteDb = new Database(DB_PATH, { readonly: true });
   } catch {
     return;
   }
-
+  let memories: SqliteMemoryRow[];
   try {
-    const newMemories = sqliteDb
-      .prepare("SELECT * FROM memories WHERE id > ? ORDER BY id")
-      .all(lastIndexedMemoryId) as SqliteMemoryRow[];
+    memories = sqliteDb
+      .prepare(`SELECT id, content, scope, scope_key, tags, created_by, created_at FROM memories WHERE ${LIVE_MEMORY} ORDER BY id`)
+      .all() as SqliteMemoryRow[];
+  } finally {
+    sqliteDb.close();
+  }
 
-    if (newMemories.length === 0) return;
+  const conn = await getDb();
+  if ((await conn.tableNames()).includes("memories") && !isTableCurrent("memories")) {
+    startMemoryReembed(memories);
+    return;
+  }
+  const indexed = new Map<number, string | null>(); // id -> hash (null = duplicated or untracked)
+  if ((await conn.tableNames()).includes("memories")) {
+    const table = await conn.openTable("memories");
+    const fields = new Set((await table.schema()).fields.map((f) => f.name));
+    if (!fields.has("hash")) {
+      console.error("[vector] Memories table predates edit tracking — rebuilding it.");
+      await conn.dropTable("memories");
+      ftsIndexedTables.delete("memories");
+    } else {
+      const rows = await table.query().select(["id", "hash"]).toArray();
+      for (const r of rows) {
+        const id = Number(r.id);
+        indexed.set(id, indexed.has(id) ? null : (r.hash as string));
+      }
+    }
+  }
 
-    console.log(`[vector] Indexing ${newMemories.length} new memories...`);
+  const current = new Set(memories.map((m) => m.id));
+  const changed = memories.filter((m) => indexed.get(m.id) !== memoryHash(m));
+  const removed = [...indexed.keys()].filter((id) => !current.has(id));
+  if (changed.length === 0 && removed.length === 0) return;
 
-    const texts = newMemories.map((m) => {
-      const parts = [m.content];
-      if (m.tags) parts.push(m.tags);
-      return parts.join(" ");
-    });
-    const vectors = await embedBatch(texts);
-
-    const records: MemoryRecord[] = newMemories.map((m, i) => ({
-      id: m.id,
-      content: m.content,
-      scope: m.scope,
-      scope_key: m.scope_key ?? "",
-      tags: m.tags ?? "",
-      created_by: m.created_by,
-      created_at: m.created_at,
-      vector: vectors[i],
-    }));
+  const records = await buildMemoryRecords(changed);
+  await writeMemoryRecords(records, removed);
+  console.error(`[vector] Memory index: ${changed.length} indexed, ${removed.length} removed.`);
+}
 
-    const conn = await getDb();
-    const tableNames = await conn.tableNames();
+let memoryReembed: Promise<void> | null = null;
 
-    if (tableNames.includes("memories")) {
-      const table = await conn.openTable("memories");
-      await table.add(records);
-    } else {
+/**
+ * Re-embed all live memories with the configured backend after the embedding
+ * model changed. Runs in the background — searches fall back to keyword
+ * matching until the new table is swapped in.
+ */
+function startMemoryReembed(memories: SqliteMemoryRow[]): void {
+  if (memoryReembed) return;
+  const release = acquireReembedLock("memories");
+  if (!release) return; // Another process is re-embedding
+  if (isTableCurrent("memories")) {
+    release();
+    return;
+  }
+  const from = tableEmbedding("memories");
+  console.error(`[vector] Memories were embedded with ${from.model} — re-embedding ${memories.length} with ${embeddings.id}...`);
+  memoryReembed = (async () => {
+    const started = Date.now();
+    const records = await buildMemoryRecords(memories);
+    const conn = await getDb();
+    await conn.dropTable("memories");
+    ftsIndexedTables.delete("memories");
+    if (records.length > 0) {
       await conn.createTable("memories", records);
+      recordTableEmbedding("memories", records[0].vector.length);
     }
-
-    lastIndexedMemoryId = newMemories[newMemories.length - 1].id;
-    console.log(`[vector] Indexed memories up to #${lastIndexedMemoryId}.`);
-  } finally {
-    sqliteDb.close();
-  }
+    staleTablesWarned.delete("memories");
+    console.error(`[vector] Memories re-embedded: ${records.length} in ${Date.now() - started}ms.`);
+  })()
+    .catch((err) => console.error("[vector] Memory re-embed failed:", err))
+    .finally(() => {
+      release();
+      memoryReembed = null;
+    });
 }
 
 export async function searchMemories(
@@ -356,6 +712,7 @@ export async function searchMemories(
   scope?: string,
   scopeKey?: string,
   limit = 15,
+  mode: SearchMode = "hybrid",
 ): Promise<Array<{ id: number; content: string; scope: string; scope_key: string; tags: string; created_at: number; score: number }>> {
   await syncMemoryIndex();
 
@@ -364,33 +721,111 @@ export async function searchMemories(
   if (!tableNames.includes("memories")) return [];
 
   const table = await conn.openTable("memories");
-  const queryVec = await embed(query);
 
   const esc = (s: string) => s.replace(/'/g, "''");
   const filters: string[] = [];
   if (scope) filters.push(`scope = '${esc(scope)}'`);
   if (scopeKey) filters.push(`scope_key = '${esc(scopeKey)}'`);
 
-  const vectorSearch = table.search(queryVec) as lancedb.VectorQuery;
-  let search = vectorSearch.distanceType("cosine").limit(limit);
-  if (filters.length > 0) {
-    search = search.where(filters.join(" AND "));
-  }
-
-  const results = await search.toArray();
-  return results.map((r: Record<string, unknown>) => ({
+  const results = await rankedSearch(table, {
+    query,
+    mode,
+    ftsColumns: MEMORY_FTS_COLUMNS,
+    where: filters.length > 0 ? filters.join(" AND ") : undefined,
+    limit,
+  });
+  return results.map(({ row: r, score }) => ({
     id: r.id as number,
     content: r.content as string,
     scope: r.scope as string,
     scope_key: r.scope_key as string,
     tags: r.tags as string,
     created_at: r.created_at as number,
-    score: 1 - (r._distance as number), // cosine distance → cosine similarity
+    score,
   }));
 }
 
+// ── Duplicate and overlap detection ──
+
+/** At or above this cosine similarity a new memory is treated as a restatement of an existing one. */
+export const DUPLICATE_MEMORY_SIMILARITY = 0.92;
+/** At or above this (but below the duplicate bar) two memories in a scope may contradict each other. */
+export const RELATED_MEMORY_SIMILARITY = 0.8;
+
+export interface SimilarMemory {
+  id: number;
+  content: string;
+  tags: string;
+  created_at: number;
+  score: number;
+}
+
+/**
+ * Existing memories in the same scope that read like `content`, most similar
+ * first, with cosine similarity scores. Used before saving to catch
+ * restatements and possible contradictions.
+ */
+export async function findSimilarMemories(
+  content: string,
+  scope: string,
+  scopeKey: string | null,
+  limit = 5,
+): Promise<SimilarMemory[]> {
+  const results = await searchMemories(content, scope, scopeKey ?? undefined, limit, "semantic");
+  // searchMemories ignores an empty scope key, so filter global/keyless scopes exactly here
+  return results
+    .filter((m) => (m.scope_key || null) === (scopeKey || null))
+    .map((m) => ({ id: m.id, content: m.content, tags: m.tags, created_at: m.created_at, score: m.score }));
+}
+
 /**
- * Index a single memory immediately after save (called from save_memory tool).
+ * Group indexed memories whose vectors are at least `minSimilarity` alike
+ * (single-linkage, within one scope). Returns clusters of two or more ids.
+ */
+export async function findMemoryClusters(minSimilarity: number, neighbours = 8): Promise<number[][]> {
+  await syncMemoryIndex();
+  const conn = await getDb();
+  if (!(await conn.tableNames()).includes("memories") || !isTableCurrent("memories")) return [];
+  const table = await conn.openTable("memories");
+  const rows = await table.query().select(["id", "scope", "scope_key", "vector"]).toArray();
+
+  // Union-find over the memory ids
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  for (const r of rows) parent.set(Number(r.id), Number(r.id));
+
+  const esc = (s: string) => s.replace(/'/g, "''");
+  for (const r of rows) {
+    const id = Number(r.id);
+    const vectorSearch = table.search(Array.from(r.vector as ArrayLike<number>)) as lancedb.VectorQuery;
+    const matches = await vectorSearch
+      .distanceType("cosine")
+      .where(`scope = '${esc(r.scope as string)}' AND scope_key = '${esc(r.scope_key as string)}'`)
+      .limit(neighbours + 1)
+      .toArray();
+    for (const m of matches) {
+      const other = Number(m.id);
+      if (other === id || 1 - (m._distance as number) < minSimilarity || !parent.has(other)) continue;
+      parent.set(find(other), find(id));
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) ?? []), id]);
+  }
+  return [...clusters.values()].filter((c) => c.length > 1).map((c) => c.sort((a, b) => a - b));
+}
+
+/**
+ * Index a single memory immediately after it is saved or edited (called from
+ * the save_memory and update_memory tools), replacing any earlier version.
  */
 export async function indexSingleMemory(
   id: number,
@@ -399,32 +834,17 @@ export async function indexSingleMemory(
   scopeKey: string | null,
   tags: string | null,
   createdBy: string,
+  createdAt = Math.floor(Date.now() / 1000),
 ): Promise<void> {
-  const vector = await embed(content + (tags ? " " + tags : ""));
-
-  const record: MemoryRecord = {
-    id,
-    content,
-    scope,
-    scope_key: scopeKey ?? "",
-    tags: tags ?? "",
-    created_by: createdBy,
-    created_at: Math.floor(Date.now() / 1000),
-    vector,
-  };
-
-  const conn = await getDb();
-  const tableNames = await conn.tableNames();
-
-  if (tableNames.includes("memories")) {
-    const table = await conn.openTable("memories");
-    await table.add([record]);
-  } else {
-    await conn.createTable("memories", [record]);
-  }
+  const records = await buildMemoryRecords([
+    { id, content, scope, scope_key: scopeKey, tags, created_by: createdBy, created_at: createdAt },
+  ]);
+  await writeMemoryRecords(records);
+}
 
-  // Update watermark so syncMemoryIndex doesn't re-index this
-  if (id > lastIndexedMemoryId) lastIndexedMemoryId = id;
+/** Drop a forgotten memory from the vector index right away. */
+export async function removeMemoryFromIndex(id: number): Promise<void> {
+  await writeMemoryRecords([], [id]);
 }
 
 export async function getRecentMemories(
@@ -443,16 +863,16 @@ export async function getRecentMemories(
   try {
     if (scope && scopeKey) {
       return sqliteDb
-        .prepare("SELECT id, content, scope, scope_key, tags, created_at FROM memories WHERE scope = ? AND scope_key = ? ORDER BY updated_at DESC LIMIT ?")
+        .prepare(`SELECT id, content, scope, scope_key, tags, created_at FROM memories WHERE scope = ? AND scope_key = ? AND ${LIVE_MEMORY} ORDER BY updated_at DESC LIMIT ?`)
         .all(scope, scopeKey, limit) as Array<{ id: number; content: string; scope: string; scope_key: string; tags: string; created_at: number }>;
     }
     if (scope) {
       return sqliteDb
-        .prepare("SELECT id, content, scope, scope_key, tags, created_at FROM memories WHERE scope = ? ORDER BY updated_at DESC LIMIT ?")
+        .prepare(`SELECT id, content, scope, scope_key, tags, created_at FROM memories WHERE scope = ? AND ${LIVE_MEMORY} ORDER BY updated_at DESC LIMIT ?`)
         .all(scope, limit) as Array<{ id: number; content: string; scope: string; scope_key: string; tags: string; created_at: number }>;
     }
     return sqliteDb
-      .prepare("SELECT id, content, scope, scope_key, tags, created_at FROM memories ORDER BY updated_at DESC LIMIT ?")
+      .prepare(`SELECT id, content, scope, scope_key, tags, created_at FROM memories WHERE ${LIVE_MEMORY} ORDER BY updated_at DESC LIMIT ?`)
       .all(limit) as Array<{ id: number; content: string; scope: string; scope_key: string; tags: string; created_at: number }>;
   } finally {
     sqliteDb.close();
@@ -0,0 +1,143 @@
+/**
+ * Memory consolidation: merge memories that say overlapping things.
+ *
+ * Memories in the same scope whose embeddings are close are clustered, and the
+ * Q&A agent rewrites each cluster as one memory (newer statements win where
+ * they disagree). The new memory supersedes the cluster's members, which stay
+ * in SQLite as history. Runs on a fixed interval and on `memories consolidate`.
+ */
+import {
+  getMemory, addMemory, supersedeMemories,
+  getLastMemoryConsolidation, startMemoryConsolidationRun, finishMemoryConsolidationRun,
+  type MemoryRow,
+} from "./sessions.js";
+import { askQuestion, createSession } from "./opencode.js";
+import { findMemoryClusters, indexSingleMemory, removeMemoryFromIndex } from "./mcp/vector-store.js";
+
+/** Cosine similarity at which two memories are considered to overlap. */
+const CLUSTER_SIMILARITY = 0.85;
+/** Cap agent calls per run; the rest wait for the next run. */
+const MAX_CLUSTERS_PER_RUN = 20;
+/** Hours between automatic runs (0 disables them). */
+const CONSOLIDATE_INTERVAL_HOURS = Number(process.env.MEMORY_CONSOLIDATE_INTERVAL_HOURS ?? 168);
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // check hourly
+/** The agent answers this when a cluster's memories shouldn't be merged. */
+const KEEP_SEPARATE = "KEEP_SEPARATE";
+
+export interface ConsolidationResult {
+  clusters: number;
+  merged: Array<{ newId: number; replaced: number[]; content: string }>;
+  skipped: number;
+}
+
+function buildConsolidationPrompt(memories: MemoryRow[]): string {
+  const lines = memories.map((m) =>
+    `- (#${m.id}, saved ${new Date(m.created_at * 1000).toISOString().slice(0, 10)}${m.tags ? `, tags: ${m.tags}` : ""}) ${m.content}`,
+  );
+  return [
+    "These team memories overlap. Rewrite them as ONE memory that keeps every distinct fact.",
+    "",
+    "Rules:",
+    "- Where they disagree, the most recently saved statement wins; drop the outdated claim.",
+    "- Keep it a clear, self-contained statement — no preamble, no bullet list unless the facts need it.",
+    "- Don't add anything that isn't in the memories.",
+    `- If they are actually about different things and shouldn't be merged, reply with exactly ${KEEP_SEPARATE}.`,
+    "",
+    "Reply with only the merged memory text.",
+    "",
+    "Memories (oldest first):",
+    ...lines,
+  ].join("\n");
+}
+
+function unionTags(memories: MemoryRow[]): string | null {
+  const tags = new Set(memories.flatMap((m) => (m.tags ?? "").split(",")).map((t) => t.trim()).filter(Boolean));
+  return tags.size > 0 ? [...tags].join(",") : null;
+}
+
+/**
+ * Cluster overlapping memories and merge each cluster into one.
+ * `triggeredBy` is a user id, or "schedule" for automatic runs.
+ */
+export async function consolidateMemories(triggeredBy: string): Promise<ConsolidationResult> {
+  const runId = startMemoryConsolidationRun(triggeredBy);
+  const result: ConsolidationResult = { clusters: 0, merged: [], skipped: 0 };
+
+  try {
+    const clusters = await findMemoryClusters(CLUSTER_SIMILARITY);
+    result.clusters = clusters.length;
+    if (clusters.length === 0) return result;
+
+    console.log(`[memory] Consolidating ${Math.min(clusters.length, MAX_CLUSTERS_PER_RUN)} of ${clusters.length} memory cluster(s)...`);
+    const sessionId = await createSession("Memory consolidation");
+
+    for (const ids of clusters.slice(0, MAX_CLUSTERS_PER_RUN)) {
+      const memories = ids
+        .map((id) => getMemory(id))
+        // Temporary memories lapse on their own — merging would make them permanent
+        .filter((m): m is MemoryRow => !!m && m.superseded_by === null && m.expires_at === null)
+        .sort((a, b) => a.created_at - b.created_at || a.id - b.id);
+      if (memories.length < 2) continue;
+
+      try {
+        const answer = await askQuestion({
+          sessionId,
+          question: buildConsolidationPrompt(memories),
+          isNewSession: result.merged.length + result.skipped === 0,
+          usage: { kind: "memory", ...(triggeredBy !== "schedule" && { userId: triggeredBy }) },
+        });
+        const content = answer.text.trim();
+        if (!content || content.includes(KEEP_SEPARATE)) {
+          result.skipped++;
+          continue;
+        }
+
+        const { scope, scope_key } = memories[0];
+        const tags = unionTags(memories);
+        const newId = addMemory(content, scope as "global" | "repo" | "channel", scope_key, tags, "agent");
+        const replaced = memories.map((m) => m.id);
+        supersedeMemories(replaced, newId, triggeredBy);
+
+        try {
+          await indexSingleMemory(newId, content, scope, scope_key, tags, "agent");
+          for (const id of replaced) await removeMemoryFromIndex(id);
+        } catch (err) {
+          // Non-fatal — the next search reconciles the vector index with SQLite
+          console.warn("[memory] Failed to update the vector index after consolidation:", err);
+        }
+        result.merged.push({ newId, replaced, content });
+      } catch (err) {
+        console.error(`[memory] Failed to consolidate memories ${ids.join(", ")}:`, err);
+        result.skipped++;
+      }
+    }
+    return result;
+  } finally {
+    finishMemoryConsolidationRun(runId, result.clusters, result.merged.length);
+    console.log(`[memory] Consolidation done: ${result.merged.length} merged, ${result.skipped} kept separate.`);
+  }
+}
+
+/**
+ * Start the consolidation scheduler. Checks hourly and runs when the last run
+ * (recorded in SQLite, so restarts don't reset the clock) is older than
+ * MEMORY_CONSOLIDATE_INTERVAL_HOURS. Returns null when disabled.
+ */
+export function startMemoryConsolidation(): ReturnType<typeof setInterval> | null {
+  if (!(CONSOLIDATE_INTERVAL_HOURS > 0)) return null;
+  let running = false;
+  return setInterval(async () => {
+    if (running) return;
+    const last = getLastMemoryConsolidation();
+    const now = Math.floor(Date.now() / 1000);
+    if (last && now - last.started_at < CONSOLIDATE_INTERVAL_HOURS * 3600) return;
+    running = true;
+    try {
+      await consolidateMemories("schedule");
+    } catch (err) {
+      console.error("[memory] Scheduled consolidation failed:", err);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,176 @@
+/**
+ * Memory lifecycle: expire temporary memories and review stale ones.
+ *
+ * Memories saved with a TTL (`remember --ttl 14d:`, or the agent's
+ * `expires_in_days`) are purged once it passes. Every other unpinned memory
+ * gets a staleness score from how long it has gone unused and how often it
+ * has been recalled. Every MEMORY_REVIEW_INTERVAL_DAYS the stale ones are
+ * posted to the admin channel set with `memories review here`, each with
+ * Keep/Delete buttons.
+ */
+import type { WebClient } from "@slack/web-api";
+import type { KnownBlock } from "@slack/types";
+import {
+  getReviewableMemories, getMemory, markMemoryReviewed, deleteMemoryAsAdmin, purgeExpiredMemories,
+  getMemoryReviewSchedule, recordMemoryReviewRun,
+  type MemoryRow,
+} from "./sessions.js";
+import { removeMemoryFromIndex } from "./mcp/vector-store.js";
+import { Action, BlockPrefix } from "./constants.js";
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // check hourly
+/** Days between review posts (0 disables them; expired memories are still purged). */
+export const REVIEW_INTERVAL_DAYS = Number(process.env.MEMORY_REVIEW_INTERVAL_DAYS ?? 30);
+/** Days a never-recalled memory can go unused before it counts as stale. */
+const STALE_AFTER_DAYS = Number(process.env.MEMORY_STALE_AFTER_DAYS ?? 90);
+/** Slack allows 50 blocks per message; each memory takes two. */
+const MAX_REVIEW_ITEMS = 20;
+
+export interface StaleMemory {
+  memory: MemoryRow;
+  score: number;
+}
+
+/**
+ * Staleness of a memory; 1 or more means stale. Grows with the days since it
+ * was last edited, recalled or kept in a review, and is damped by how often
+ * it has been recalled — a memory recalled 3 times takes three times as long
+ * to go stale as one that was never recalled.
+ */
+export function stalenessScore(m: MemoryRow, now = Math.floor(Date.now() / 1000)): number {
+  const lastUsed = Math.max(m.updated_at, m.last_recalled_at ?? 0, m.reviewed_at ?? 0);
+  const idleDays = Math.max(0, now - lastUsed) / 86400;
+  return idleDays / STALE_AFTER_DAYS / (1 + Math.log2(1 + m.recall_count));
+}
+
+/** Stale memories, stalest first. Pinned memories and ones with a TTL are never stale. */
+export function findStaleMemories(): StaleMemory[] {
+  const now = Math.floor(Date.now() / 1000);
+  return getReviewableMemories()
+    .map((memory) => ({ memory, score: stalenessScore(memory, now) }))
+    .filter((s) => s.score >= 1)
+    .sort((a, b) => b.score - a.score);
+}
+
+/** e.g. "repo:my-app, saved 2024-01-05, recalled 2×, last used 2024-03-01" */
+export function describeStaleMemory(m: MemoryRow): string {
+  const day = (ts: number) => new Date(ts * 1000).toISOString().slice(0, 10);
+  const scope = m.scope_key ? `${m.scope}:${m.scope_key}` : m.scope;
+  const lastUsed = Math.max(m.updated_at, m.last_recalled_at ?? 0, m.reviewed_at ?? 0);
+  const recalled = m.recall_count > 0 ? `recalled ${m.recall_count}×` : "never recalled";
+  return `${scope}, saved ${day(m.created_at)}, ${recalled}, last used ${day(lastUsed)}`;
+}
+
+function reviewItemBlocks(m: MemoryRow): KnownBlock[] {
+  return [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: `*\`#${m.id}\`* ${m.content}\n_${describeStaleMemory(m)}_` },
+    } as KnownBlock,
+    {
+      type: "actions",
+      block_id: `${BlockPrefix.MEMORY_REVIEW}${m.id}`,
+      elements: [
+        {
+          type: "button",
+          text: { type: "plain_text", text: "Keep" },
+          action_id: Action.MEMORY_REVIEW_KEEP,
+          value: String(m.id),
+        },
+        {
+          type: "button",
+          text: { type: "plain_text", text: "Delete" },
+          action_id: Action.MEMORY_REVIEW_DELETE,
+          value: String(m.id),
+          style: "danger",
+          confirm: {
+            title: { type: "plain_text", text: `Delete memory #${m.id}?` },
+            text: { type: "plain_text", text: "The bot will no longer know this." },
+            confirm: { type: "plain_text", text: "Delete" },
+            deny: { type: "plain_text", text: "Cancel" },
+          },
+        },
+      ],
+    } as KnownBlock,
+  ];
+}
+
+/**
+ * Post the stale memories to a channel for review.
+ * Returns how many were listed (nothing is posted when none are stale).
+ */
+export async function postMemoryReview(client: WebClient, channelId: string): Promise<number> {
+  const stale = findStaleMemories();
+  if (stale.length === 0) return 0;
+
+  const shown = stale.slice(0, MAX_REVIEW_ITEMS);
+  const more = stale.length > shown.length ? ` Showing the ${shown.length} stalest; the rest come up next time.` : "";
+  const header = `*Memory review* — ${stale.length} memor${stale.length === 1 ? "y hasn't" : "ies haven't"} been used in a while.${more}\n` +
+    "_Keep the ones that are still true; delete the rest._";
+  await client.chat.postMessage({
+    channel: channelId,
+    text: `Memory review: ${stale.length} stale memories`,
+    blocks: [
+      { type: "section", text: { type: "mrkdwn", text: header } } as KnownBlock,
+      ...shown.flatMap((s) => reviewItemBlocks(s.memory)),
+    ],
+  });
+  return shown.length;
+}
+
+/**
+ * Apply a Keep/Delete decision from a review message.
+ * Returns the status line that replaces the memory's buttons.
+ */
+export async function resolveMemoryReview(memoryId: number, decision: "keep" | "delete", userId: string): Promise<string> {
+  if (!getMemory(memoryId)) return `_\`#${memoryId}\` was already deleted._`;
+  if (decision === "keep") {
+    markMemoryReviewed(memoryId);
+    return `Kept by <@${userId}>.`;
+  }
+  deleteMemoryAsAdmin(memoryId);
+  await removeMemoryFromIndex(memoryId).catch((err) =>
+    console.warn(`[memory-review] Failed to remove #${memoryId} from the vector index:`, err),
+  );
+  return `Deleted by <@${userId}>.`;
+}
+
+/** Replace a reviewed memory's buttons with its status line. */
+export function markReviewItem(blocks: KnownBlock[], memoryId: number, status: string): KnownBlock[] {
+  return blocks.map((b) =>
+    b.block_id === `${BlockPrefix.MEMORY_REVIEW}${memoryId}`
+      ? { type: "context", elements: [{ type: "mrkdwn", text: status }] } as KnownBlock
+      : b,
+  );
+}
+
+/**
+ * Start the hourly lifecycle tick: purge expired memories, then post the
+ * review when the configured channel's next run is due (tracked in SQLite,
+ * so restarts don't reset the clock).
+ */
+export function startMemoryReview(client: WebClient): ReturnType<typeof setInterval> {
+  let running = false;
+  return setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const expired = purgeExpiredMemories();
+      if (expired.length > 0) {
+        console.log(`[memory-review] Purged ${expired.length} expired memor${expired.length === 1 ? "y" : "ies"}.`);
+        for (const id of expired) await removeMemoryFromIndex(id).catch(() => {});
+      }
+
+      const schedule = getMemoryReviewSchedule();
+      const now = Math.floor(Date.now() / 1000);
+      if (!schedule || !(REVIEW_INTERVAL_DAYS > 0) || schedule.next_run_at > now) return;
+      const posted = await postMemoryReview(client, schedule.channel_id);
+      console.log(`[memory-review] Review posted to ${schedule.channel_id}: ${posted} stale memor${posted === 1 ? "y" : "ies"}.`);
+      recordMemoryReviewRun(now + REVIEW_INTERVAL_DAYS * 86400);
+    } catch (err) {
+      console.error("[memory-review] Scheduled run failed:", err);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_INTERVAL_MS);
+}
@@ -13,10 +13,11 @@ export type ConfigMode = "qa" | "code";
  * (with keys available), and writes the result to the repo dir.
  *
  * @param mode - "qa" (default): read-only build agent. "code": write-enabled code agent.
+ * @param threadKey - the coding session's thread, so memories its agent saves link back to it.
  *
  * Always starts from the base config so restarts don't accumulate entries.
  */
-export function writeOpencodeConfig(repoDir: string, mode: ConfigMode = "qa"): void {
+export function writeOpencodeConfig(repoDir: string, mode: ConfigMode = "qa", threadKey?: string): void {
   const config = JSON.parse(readFileSync(BASE_CONFIG_PATH, "utf-8"));
 
   // Apply provider/model from env (same as the sed in entrypoint.sh)
@@ -80,6 +81,12 @@ export function writeOpencodeConfig(repoDir: string, mode: ConfigMode = "qa"): v
       ...(process.env.SESSIONS_DB_PATH ? { SESSIONS_DB_PATH: process.env.SESSIONS_DB_PATH } : {}),
       ...(process.env.KNOWLEDGE_DIR ? { KNOWLEDGE_DIR: process.env.KNOWLEDGE_DIR } : {}),
       ...(process.env.LANCE_DIR ? { LANCE_DIR: process.env.LANCE_DIR } : {}),
+      // Embedding backend settings — the server must embed with the same model as the bot
+      ...Object.fromEntries(
+        Object.entries(process.env).filter(([key, value]) => /^EMBED(DING)?_/.test(key) && value !== undefined),
+      ),
+      // Q&A sessions are identified by the memory-provenance plugin; coding servers serve one thread
+      ...(threadKey ? { CODING_THREAD_KEY: threadKey } : {}),
       // Model cache needs a writable dir — must match Dockerfile pre-cache path
       HF_CACHE_DIR: "/home/appuser/.local/share/opencode/huggingface",
     },
@@ -8,6 +8,7 @@ import type { RepoInfo } from "./context-prefix.js";
 import type { SlackContext } from "./utils/slack-context.js";
 import type { ConvertedFile } from "./utils/slack-files.js";
 import { REQUEST_TIMEOUT_MS } from "./constants.js";
+import { createUsageAccumulator, recordAccumulatedUsage, type UsageAttribution } from "./usage.js";
 
 let client: OpencodeClient;
 let baseUrl: string;
@@ -110,7 +111,7 @@ export function buildPlanningContextPrefix(
  * Used when the original response triggers Slack's msg_too_long error.
  */
 export async function askForShorterResponse(
-  opts: Pick<AskQuestionOpts, "sessionId" | "customClient" | "customBaseUrl">,
+  opts: Pick<AskQuestionOpts, "sessionId" | "customClient" | "customBaseUrl" | "usage">,
 ): Promise<string> {
   try {
     const result = await askQuestion({
@@ -133,7 +134,10 @@ export async function askForShorterResponse(
  * in a coding task description. Returns the description with any
  * fetched context prepended.
  */
-export async function enrichContextForCoding(description: string): Promise<string> {
+export async function enrichContextForCoding(
+  description: string,
+  attribution?: Omit<UsageAttribution, "kind">,
+): Promise<string> {
   const hasReference = /[A-Z]+-\d+|linear|sentry|jira|github\.com\/.*\/(issues|pull)|https?:\/\//i.test(description);
   if (!hasReference) return description;
 
@@ -153,6 +157,7 @@ export async function enrichContextForCoding(description: string): Promise<strin
         description,
       isNewSession: true,
       agent: "enrich",
+      ...(attribution ? { usage: { ...attribution, kind: "enrich" as const } } : {}),
     });
     return result.text.trim();
   })();
@@ -202,6 +207,8 @@ export interface AskQuestionOpts {
   customBaseUrl?: string;
   customContextPrefix?: string;
   abortSignal?: AbortSignal;
+  /** Attribute token usage to a channel/user/repo in the usage ledger. */
+  usage?: UsageAttribution;
 }
 
 function getToolStateType(part: { state?: unknown }): string | undefined {
@@ -213,7 +220,7 @@ function getToolStateType(part: { state?: unknown }): string | undefined {
 export async function askQuestion(opts: AskQuestionOpts): Promise<AskResult> {
   const {
     sessionId, question, ctx, onProgress, isNewSession, agent, tools, files, repo,
-    customClient, customBaseUrl, customContextPrefix, abortSignal,
+    customClient, customBaseUrl, customContextPrefix, abortSignal, usage,
   } = opts;
 
   const activeClient = customClient ?? getClient();
@@ -237,6 +244,9 @@ export async function askQuestion(opts: AskQuestionOpts): Promise<AskResult> {
     }
   }
 
+  const startedAt = Date.now();
+  const usageAcc = createUsageAccumulator();
+
   await activeClient.session.promptAsync({
     path: { id: sessionId },
     body: {
@@ -308,6 +318,7 @@ export async function askQuestion(opts: AskQuestionOpts): Promise<AskResult> {
           latestText = "";
           activeTools.clear();
         } else if (part.type === "step-finish") {
+          usageAcc.addStep(part);
           const reason = (part as { reason?: string }).reason;
           if (reason === "stop") {
             if (skipNextStop) {
@@ -325,6 +336,11 @@ export async function askQuestion(opts: AskQuestionOpts): Promise<AskResult> {
             skipNextStop = false;
           }
         }
+      } else if (evt.type === "message.updated") {
+        const { info } = evt.properties;
+        if (info.sessionID === sessionId && info.role === "assistant") {
+          usageAcc.setModel(info.providerID, info.modelID);
+        }
       } else if (evt.type === "permission.updated") {
         const perm = evt.properties;
         if (perm.sessionID === sessionId) {
@@ -343,6 +359,10 @@ export async function askQuestion(opts: AskQuestionOpts): Promise<AskResult> {
     stream.return(undefined);
   }
 
+  if (usage) {
+    recordAccumulatedUsage(usageAcc, usage, { sessionId, agent, latencyMs: Date.now() - startedAt });
+  }
+
   if (abortSignal?.aborted) {
     throw new Error("Session aborted");
   }
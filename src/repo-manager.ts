@@ -8,6 +8,7 @@ import {
 } from "./sessions.js";
 import { generateContext } from "./context-gen.js";
 import { writeSkillManifest } from "./skill-manifest.js";
+import { syncKnowledgeSourcesForRepo } from "./knowledge-sync.js";
 import type { RepoInfo } from "./context-prefix.js";
 
 /** Base directory for dynamically added repos. */
@@ -52,7 +53,7 @@ function cloneRepo(url: string, dir: string): void {
  * If the repo has active worktrees, only fetch (don't update the working tree)
  * to avoid conflicts with coding sessions.
  */
-function pullRepo(dir: string): void {
+export function pullRepo(dir: string): void {
   try {
     // Check for active worktrees (beyond the main working tree)
     const worktreeList = execFileSync("git", ["worktree", "list", "--porcelain"], {
@@ -222,7 +223,7 @@ export async function addRepo(name: string, url: string): Promise<void> {
 }
 
 /**
- * Pull all enabled repos.
+ * Pull all enabled repos and re-sync their `knowledge sync` docs directories.
  */
 export function pullAllRepos(): void {
   for (const repo of getEnabledRepos()) {
@@ -233,6 +234,7 @@ export function pullAllRepos(): void {
       } catch (err) {
         console.warn(`[repo-manager] Skill manifest refresh failed for ${repo.name}:`, err);
       }
+      syncKnowledgeSourcesForRepo(repo);
     }
   }
 }
@@ -32,6 +32,11 @@ function getDb(): Database.Database {
     } catch {
       // Column already exists — ignore.
     }
+    try {
+      db.exec(`ALTER TABLE sessions ADD COLUMN last_user_id TEXT`);
+    } catch {
+      // Column already exists — ignore.
+    }
     db.exec(`
       CREATE TABLE IF NOT EXISTS channel_agents (
         channel_id TEXT PRIMARY KEY,
@@ -92,6 +97,26 @@ function getDb(): Database.Database {
     } catch {
       // Column already exists — ignore.
     }
+    try {
+      // Explicit forge (github/gitlab/bitbucket/gitea); NULL = detect from the URL
+      db.exec(`ALTER TABLE repos ADD COLUMN forge TEXT`);
+    } catch {
+      // Column already exists — ignore.
+    }
+    try {
+      // Minutes a coding session may sit idle before it's reaped; NULL = default
+      db.exec(`ALTER TABLE repos ADD COLUMN idle_timeout_minutes INTEGER`);
+    } catch {
+      // Column already exists — ignore.
+    }
+    // Verification profile: commands run in coding worktrees after each turn
+    for (const step of VERIFY_STEPS) {
+      try {
+        db.exec(`ALTER TABLE repos ADD COLUMN verify_${step} TEXT`);
+      } catch {
+        // Column already exists — ignore.
+      }
+    }
     db.exec(`
       CREATE TABLE IF NOT EXISTS channel_repos (
         channel_id TEXT PRIMARY KEY,
@@ -116,6 +141,21 @@ function getDb(): Database.Database {
         last_activity_at INTEGER NOT NULL DEFAULT (unixepoch())
       )
     `);
+    try {
+      db.exec(`ALTER TABLE coding_sessions ADD COLUMN verify_summary TEXT`);
+    } catch {
+      // Column already exists — ignore.
+    }
+    for (const column of [
+      "base_branch TEXT", "pr_number INTEGER", "pr_url TEXT", "start_sha TEXT", "pushed_sha TEXT",
+      "idle_warned_at INTEGER", "paused_status TEXT",
+    ]) {
+      try {
+        db.exec(`ALTER TABLE coding_sessions ADD COLUMN ${column}`);
+      } catch {
+        // Column already exists — ignore.
+      }
+    }
     db.exec(`
       CREATE TABLE IF NOT EXISTS permissions (
         user_id TEXT PRIMARY KEY,
@@ -137,6 +177,33 @@ function getDb(): Database.Database {
         updated_at INTEGER NOT NULL DEFAULT (unixepoch())
       )
     `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS user_forge_tokens (
+        user_id TEXT NOT NULL,
+        forge TEXT NOT NULL,
+        host TEXT NOT NULL,
+        encrypted_token TEXT NOT NULL,
+        token_iv TEXT NOT NULL,
+        token_tag TEXT NOT NULL,
+        username TEXT NOT NULL,
+        name TEXT NOT NULL,
+        email TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        PRIMARY KEY (user_id, forge, host)
+      )
+    `);
+    // Move GitHub-only tokens (pre forge support) into user_forge_tokens
+    db.transaction(() => {
+      db.exec(`
+        INSERT OR IGNORE INTO user_forge_tokens
+          (user_id, forge, host, encrypted_token, token_iv, token_tag, username, name, email, created_at, updated_at)
+        SELECT user_id, 'github', 'github.com', encrypted_token, token_iv, token_tag,
+               github_username, github_name, github_email, created_at, updated_at
+        FROM user_github_tokens
+      `);
+      db.exec(`DELETE FROM user_github_tokens`);
+    })();
     db.exec(`
       CREATE TABLE IF NOT EXISTS memories (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -152,6 +219,51 @@ function getDb(): Database.Database {
     db.exec(`
       CREATE INDEX IF NOT EXISTS idx_memories_scope ON memories(scope, scope_key)
     `);
+    for (const column of [
+      "superseded_by INTEGER", "superseded_at INTEGER",
+      "thread_key TEXT", "channel_id TEXT", "session_id TEXT", "source_user_id TEXT",
+      "expires_at INTEGER", "pinned INTEGER NOT NULL DEFAULT 0",
+      "recall_count INTEGER NOT NULL DEFAULT 0", "last_recalled_at INTEGER", "reviewed_at INTEGER",
+    ]) {
+      try {
+        db.exec(`ALTER TABLE memories ADD COLUMN ${column}`);
+      } catch {
+        // Column already exists — ignore.
+      }
+    }
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        memory_id INTEGER NOT NULL,
+        other_id INTEGER NOT NULL,
+        similarity REAL NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        resolved_by TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        resolved_at INTEGER,
+        UNIQUE(memory_id, other_id)
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_consolidation_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        triggered_by TEXT NOT NULL,
+        clusters INTEGER NOT NULL DEFAULT 0,
+        merged INTEGER NOT NULL DEFAULT 0,
+        started_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        finished_at INTEGER
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_review_schedule (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        channel_id TEXT NOT NULL,
+        configured_by TEXT NOT NULL,
+        last_run_at INTEGER,
+        next_run_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+      )
+    `);
     db.exec(`
       CREATE TABLE IF NOT EXISTS knowledge (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -168,6 +280,169 @@ function getDb(): Database.Database {
     db.exec(`
       CREATE UNIQUE INDEX IF NOT EXISTS idx_knowledge_scope_title ON knowledge(scope, scope_key, title)
     `);
+    for (const column of ["source_id INTEGER", "origin_path TEXT", "origin_sha TEXT"]) {
+      try {
+        db.exec(`ALTER TABLE knowledge ADD COLUMN ${column}`);
+      } catch {
+        // Column already exists — ignore.
+      }
+    }
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS knowledge_sources (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        repo_name TEXT NOT NULL,
+        path TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        last_sha TEXT,
+        last_synced_at INTEGER,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        UNIQUE(repo_name, path)
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS knowledge_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        knowledge_id INTEGER NOT NULL,
+        rev INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        scope_key TEXT,
+        author TEXT NOT NULL,
+        reverted_to INTEGER,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        UNIQUE(knowledge_id, rev)
+      )
+    `);
+    // Entries that predate revision tracking start with their current content as r1
+    db.exec(`
+      INSERT INTO knowledge_revisions (knowledge_id, rev, action, title, content, scope, scope_key, author, created_at)
+      SELECT id, 1, 'add', title, content, scope, scope_key, updated_by, updated_at FROM knowledge k
+      WHERE NOT EXISTS (SELECT 1 FROM knowledge_revisions r WHERE r.knowledge_id = k.id)
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS usage_ledger (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        session_id TEXT,
+        thread_key TEXT,
+        channel_id TEXT,
+        user_id TEXT,
+        repo_name TEXT,
+        agent TEXT,
+        model TEXT,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+        cost REAL NOT NULL DEFAULT 0,
+        latency_ms INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch())
+      )
+    `);
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_usage_ledger_created ON usage_ledger(created_at)
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS usage_budgets (
+        scope TEXT NOT NULL CHECK (scope IN ('global', 'channel', 'user')),
+        scope_key TEXT NOT NULL DEFAULT '',
+        period TEXT NOT NULL CHECK (period IN ('daily', 'monthly')),
+        metric TEXT NOT NULL CHECK (metric IN ('tokens', 'usd')),
+        limit_value REAL NOT NULL,
+        set_by TEXT NOT NULL,
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        PRIMARY KEY (scope, scope_key, period)
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS qa_answers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        thread_key TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        agent TEXT,
+        repo_name TEXT,
+        question TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch())
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS answer_feedback (
+        answer_id INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        rating TEXT NOT NULL CHECK (rating IN ('up', 'down', 'wrong')),
+        correction TEXT,
+        memory_id INTEGER,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        PRIMARY KEY (answer_id, user_id)
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS channel_digests (
+        channel_id TEXT PRIMARY KEY,
+        channel_name TEXT NOT NULL,
+        frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+        day_of_week INTEGER,
+        time_of_day TEXT NOT NULL,
+        repo_name TEXT,
+        last_sha TEXT,
+        last_run_at INTEGER,
+        next_run_at INTEGER NOT NULL,
+        configured_by TEXT NOT NULL,
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+      )
+    `);
+    try {
+      // IANA zone the schedule is in; NULL = DIGEST_TIMEZONE or the server's zone
+      db.exec(`ALTER TABLE channel_digests ADD COLUMN timezone TEXT`);
+    } catch {
+      // Column already exists — ignore.
+    }
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS pr_reviews (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        thread_key TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        repo_name TEXT NOT NULL,
+        pr_number INTEGER NOT NULL,
+        pr_url TEXT NOT NULL,
+        body TEXT NOT NULL,
+        posted_url TEXT,
+        posted_at INTEGER,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch())
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS channel_idle_timeouts (
+        channel_id TEXT PRIMARY KEY,
+        minutes INTEGER NOT NULL,
+        configured_by TEXT NOT NULL,
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS coding_queue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        thread_key TEXT NOT NULL UNIQUE,
+        channel_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        request TEXT NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch())
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS coding_user_limits (
+        user_id TEXT PRIMARY KEY,
+        max_sessions INTEGER NOT NULL,
+        set_by TEXT NOT NULL,
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+      )
+    `);
   }
   return db;
 }
@@ -187,6 +462,13 @@ export function saveSession(threadKey: string, sessionId: string, channelId?: st
     .run(threadKey, sessionId, channelId ?? null);
 }
 
+/** Record who asked the latest question in a thread (memory provenance). */
+export function setSessionUser(threadKey: string, userId: string): void {
+  getDb()
+    .prepare("UPDATE sessions SET last_user_id = ? WHERE thread_key = ?")
+    .run(userId, threadKey);
+}
+
 export function isSessionCompacted(threadKey: string): boolean {
   const row = getDb()
     .prepare("SELECT compacted FROM sessions WHERE thread_key = ?")
@@ -462,10 +744,22 @@ export interface RepoRow {
   is_default: number;
   enabled: number;
   allow_skills: number;
+  /** Explicit forge kind; null means detect it from `url`. */
+  forge: string | null;
+  verify_install: string | null;
+  verify_lint: string | null;
+  verify_typecheck: string | null;
+  verify_test: string | null;
+  /** Idle minutes before coding sessions are reaped; null = the default. */
+  idle_timeout_minutes: number | null;
   created_at: number;
   updated_at: number;
 }
 
+/** Verification profile steps, in the order they run. */
+export const VERIFY_STEPS = ["install", "lint", "typecheck", "test"] as const;
+export type VerifyStep = (typeof VERIFY_STEPS)[number];
+
 export function getRepo(name: string): RepoRow | undefined {
   return getDb()
     .prepare("SELECT * FROM repos WHERE name = ?")
@@ -540,6 +834,24 @@ export function setRepoAllowSkills(name: string, allow: boolean): void {
     .run(allow ? 1 : 0, name);
 }
 
+export function setRepoForge(name: string, forge: string | null): void {
+  getDb()
+    .prepare("UPDATE repos SET forge = ?, updated_at = unixepoch() WHERE name = ?")
+    .run(forge, name);
+}
+
+export function setRepoIdleTimeout(name: string, minutes: number | null): void {
+  getDb()
+    .prepare("UPDATE repos SET idle_timeout_minutes = ?, updated_at = unixepoch() WHERE name = ?")
+    .run(minutes, name);
+}
+
+export function setRepoVerifyCommand(name: string, step: VerifyStep, command: string | null): void {
+  getDb()
+    .prepare(`UPDATE repos SET verify_${step} = ?, updated_at = unixepoch() WHERE name = ?`)
+    .run(command, name);
+}
+
 // ── Channel-to-repo mapping ──
 
 export function getChannelRepo(channelId: string): string | undefined {
@@ -583,6 +895,10 @@ export const SessionStatus = {
   PLANNING: "planning",
   AWAITING_APPROVAL: "awaiting_approval",
   ACTIVE: "active",
+  /** Read-only PR review in progress; the session is destroyed when it finishes. */
+  REVIEWING: "reviewing",
+  /** Server stopped by `pause`; the worktree is kept and the next message resumes it. */
+  PAUSED: "paused",
 } as const;
 
 export type SessionStatusType = (typeof SessionStatus)[keyof typeof SessionStatus];
@@ -593,9 +909,14 @@ export const LIVE_STATUSES = [
   SessionStatus.PLANNING,
   SessionStatus.AWAITING_APPROVAL,
   SessionStatus.ACTIVE,
+  SessionStatus.REVIEWING,
 ] as const;
 
-/** Statuses that should be reaped after idle timeout. */
+/**
+ * Statuses that should be reaped after idle timeout.
+ * PAUSED sessions hold no server or slot, so they're neither live nor reaped
+ * on the idle timeout; they expire separately (getExpiredPausedCodingSessions).
+ */
 export const REAPABLE_STATUSES = [
   SessionStatus.ACTIVE,
   SessionStatus.PLANNING,
@@ -615,6 +936,21 @@ export interface CodingSessionRow {
   agent: string;
   opencode_session_id: string | null;
   status: string;
+  /** Markdown summary of the last verification run, included in the PR body. */
+  verify_summary: string | null;
+  /** Branch PRs target; null means the repo's default branch. */
+  base_branch: string | null;
+  /** The PR/MR this session pushes to, once one exists (opened by `pr` or passed with `code --pr`). */
+  pr_number: number | null;
+  pr_url: string | null;
+  /** Commit the session branch started from; turn checkpoints are the commits after it. */
+  start_sha: string | null;
+  /** Last commit pushed to origin; `undo` can't go past it. */
+  pushed_sha: string | null;
+  /** When the idle warning was posted; cleared by any activity. */
+  idle_warned_at: number | null;
+  /** Status to go back to when a PAUSED session resumes. */
+  paused_status: string | null;
   created_at: number;
   last_activity_at: number;
 }
@@ -646,13 +982,23 @@ export function saveCodingSession(opts: {
   worktreePath: string;
   port: number;
   agent?: string;
+  baseBranch?: string;
+  prNumber?: number;
+  prUrl?: string;
+  startSha?: string;
 }): void {
   getDb()
     .prepare(`
-      INSERT INTO coding_sessions (thread_key, user_id, channel_id, repo_name, branch, worktree_path, port, agent, status)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'starting')
+      INSERT INTO coding_sessions (
+        thread_key, user_id, channel_id, repo_name, branch, worktree_path, port, agent,
+        base_branch, pr_number, pr_url, start_sha, status
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'starting')
     `)
-    .run(opts.threadKey, opts.userId, opts.channelId, opts.repoName, opts.branch, opts.worktreePath, opts.port, opts.agent ?? "code");
+    .run(
+      opts.threadKey, opts.userId, opts.channelId, opts.repoName, opts.branch, opts.worktreePath, opts.port,
+      opts.agent ?? "code", opts.baseBranch ?? null, opts.prNumber ?? null, opts.prUrl ?? null, opts.startSha ?? null,
+    );
 }
 
 export function updateCodingSessionAgent(threadKey: string, agent: string): void {
@@ -667,18 +1013,60 @@ export function updateCodingSessionStatus(threadKey: string, status: string): vo
     .run(status, threadKey);
 }
 
-export function updateCodingSessionOpencode(threadKey: string, sessionId: string): void {
+export function updateCodingSessionOpencode(threadKey: string, sessionId: string | null): void {
   getDb()
     .prepare("UPDATE coding_sessions SET opencode_session_id = ?, last_activity_at = unixepoch() WHERE thread_key = ?")
     .run(sessionId, threadKey);
 }
 
+export function updateCodingSessionVerify(threadKey: string, summary: string | null): void {
+  getDb()
+    .prepare("UPDATE coding_sessions SET verify_summary = ? WHERE thread_key = ?")
+    .run(summary, threadKey);
+}
+
+export function updateCodingSessionPR(threadKey: string, prNumber: number, prUrl: string): void {
+  getDb()
+    .prepare("UPDATE coding_sessions SET pr_number = ?, pr_url = ? WHERE thread_key = ?")
+    .run(prNumber, prUrl, threadKey);
+}
+
+export function updateCodingSessionPushed(threadKey: string, sha: string): void {
+  getDb()
+    .prepare("UPDATE coding_sessions SET pushed_sha = ? WHERE thread_key = ?")
+    .run(sha, threadKey);
+}
+
 export function touchCodingSession(threadKey: string): void {
   getDb()
-    .prepare("UPDATE coding_sessions SET last_activity_at = unixepoch() WHERE thread_key = ?")
+    .prepare("UPDATE coding_sessions SET last_activity_at = unixepoch(), idle_warned_at = NULL WHERE thread_key = ?")
+    .run(threadKey);
+}
+
+export function markCodingSessionIdleWarned(threadKey: string): void {
+  getDb()
+    .prepare("UPDATE coding_sessions SET idle_warned_at = unixepoch() WHERE thread_key = ?")
     .run(threadKey);
 }
 
+/** Mark a session paused, remembering the status to resume into. Starts the paused-expiry clock. */
+export function pauseCodingSessionRow(threadKey: string, resumeStatus: string): void {
+  getDb()
+    .prepare("UPDATE coding_sessions SET status = ?, paused_status = ?, last_activity_at = unixepoch() WHERE thread_key = ?")
+    .run(SessionStatus.PAUSED, resumeStatus, threadKey);
+}
+
+/** Bring a paused session back on a (possibly new) port. */
+export function resumeCodingSessionRow(threadKey: string, port: number): void {
+  getDb()
+    .prepare(`
+      UPDATE coding_sessions
+      SET status = COALESCE(paused_status, ?), paused_status = NULL, port = ?, last_activity_at = unixepoch(), idle_warned_at = NULL
+      WHERE thread_key = ?
+    `)
+    .run(SessionStatus.ACTIVE, port, threadKey);
+}
+
 export function deleteCodingSession(threadKey: string): boolean {
   const result = getDb()
     .prepare("DELETE FROM coding_sessions WHERE thread_key = ?")
@@ -694,6 +1082,13 @@ export function getIdleCodingSessions(maxIdleSeconds: number): CodingSessionRow[
     .all(maxIdleSeconds) as CodingSessionRow[];
 }
 
+/** Sessions paused for longer than `maxPausedSeconds`. */
+export function getExpiredPausedCodingSessions(maxPausedSeconds: number): CodingSessionRow[] {
+  return getDb()
+    .prepare("SELECT * FROM coding_sessions WHERE status = ? AND (unixepoch() - last_activity_at) > ?")
+    .all(SessionStatus.PAUSED, maxPausedSeconds) as CodingSessionRow[];
+}
+
 // ── Permissions ──
 
 const ROLE_RANK: Record<string, number> = { admin: 2, developer: 1, user: 0 };
@@ -764,6 +1159,33 @@ export interface MemoryRow {
   created_by: string;
   created_at: number;
   updated_at: number;
+  /** The memory that replaced this one; superseded memories are kept as history but not recalled. */
+  superseded_by: number | null;
+  superseded_at: number | null;
+  /** Where the memory came from: the Slack thread, the agent session and the user who prompted it. */
+  thread_key: string | null;
+  channel_id: string | null;
+  session_id: string | null;
+  source_user_id: string | null;
+  /** Unix time after which the memory is no longer recalled (and is then purged); null = never. */
+  expires_at: number | null;
+  /** Pinned memories are injected into every new session's prompt. */
+  pinned: number;
+  /** How often the memory was returned by a recall, for the staleness score. */
+  recall_count: number;
+  last_recalled_at: number | null;
+  /** Last time an admin chose to keep it in a memory review. */
+  reviewed_at: number | null;
+}
+
+/** SQL condition for memories that are still in effect (not replaced, not expired). */
+const LIVE_MEMORY = "superseded_by IS NULL AND (expires_at IS NULL OR expires_at > unixepoch())";
+
+export interface MemoryProvenance {
+  threadKey?: string | null;
+  channelId?: string | null;
+  sessionId?: string | null;
+  userId?: string | null;
 }
 
 export function addMemory(
@@ -772,24 +1194,23 @@ export function addMemory(
   scopeKey: string | null,
   tags: string | null,
   createdBy: string,
+  provenance: MemoryProvenance = {},
+  expiresAt: number | null = null,
 ): number {
   const result = getDb()
-    .prepare(
-      "INSERT INTO memories (content, scope, scope_key, tags, created_by) VALUES (?, ?, ?, ?, ?)"
-    )
-    .run(content, scope, scopeKey, tags, createdBy);
+    .prepare(`
+      INSERT INTO memories (content, scope, scope_key, tags, created_by, thread_key, channel_id, session_id, source_user_id, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      content, scope, scopeKey, tags, createdBy,
+      provenance.threadKey ?? null, provenance.channelId ?? null, provenance.sessionId ?? null, provenance.userId ?? null,
+      expiresAt,
+    );
   return Number(result.lastInsertRowid);
 }
 
-/**
- * Get memories relevant to a given context (repo + channel).
- * Returns global + matching repo + matching channel memories, ordered by recency.
- */
-export function getMemoriesForContext(
-  repoName?: string,
-  channelId?: string,
-  limit = 20,
-): MemoryRow[] {
+function contextScopeFilter(repoName?: string, channelId?: string): { where: string; params: unknown[] } {
   const conditions: string[] = ["scope = 'global'"];
   const params: unknown[] = [];
 
@@ -801,13 +1222,84 @@ export function getMemoriesForContext(
     conditions.push("(scope = 'channel' AND scope_key = ?)");
     params.push(channelId);
   }
+  return { where: conditions.join(" OR "), params };
+}
+
+/**
+ * Get memories relevant to a given context (repo + channel).
+ * Returns global + matching repo + matching channel memories, ordered by recency.
+ */
+export function getMemoriesForContext(
+  repoName?: string,
+  channelId?: string,
+  limit = 20,
+): MemoryRow[] {
+  const { where, params } = contextScopeFilter(repoName, channelId);
+  return getDb()
+    .prepare(`SELECT * FROM memories WHERE (${where}) AND ${LIVE_MEMORY} ORDER BY updated_at DESC LIMIT ?`)
+    .all(...params, limit) as MemoryRow[];
+}
 
-  const where = conditions.join(" OR ");
+/** Pinned memories for a context, oldest first (injected into new sessions' prompts). */
+export function getPinnedMemories(repoName?: string, channelId?: string, limit = 20): MemoryRow[] {
+  const { where, params } = contextScopeFilter(repoName, channelId);
   return getDb()
-    .prepare(`SELECT * FROM memories WHERE ${where} ORDER BY updated_at DESC LIMIT ?`)
+    .prepare(`SELECT * FROM memories WHERE (${where}) AND pinned = 1 AND ${LIVE_MEMORY} ORDER BY created_at ASC LIMIT ?`)
     .all(...params, limit) as MemoryRow[];
 }
 
+export function setMemoryPinned(id: number, pinned: boolean): boolean {
+  return getDb()
+    .prepare("UPDATE memories SET pinned = ? WHERE id = ?")
+    .run(pinned ? 1 : 0, id).changes > 0;
+}
+
+/** Count a recall of these memories (staleness tracking). */
+export function recordMemoryRecalls(ids: number[]): void {
+  if (ids.length === 0) return;
+  getDb()
+    .prepare(`UPDATE memories SET recall_count = recall_count + 1, last_recalled_at = unixepoch() WHERE id IN (${ids.map(() => "?").join(",")})`)
+    .run(...ids);
+}
+
+/** Memories the staleness review applies to: in effect, not pinned, no expiry of their own. */
+export function getReviewableMemories(): MemoryRow[] {
+  return getDb()
+    .prepare(`SELECT * FROM memories WHERE pinned = 0 AND expires_at IS NULL AND ${LIVE_MEMORY} ORDER BY id`)
+    .all() as MemoryRow[];
+}
+
+/** "Keep" in a memory review: resets the staleness clock. */
+export function markMemoryReviewed(id: number): boolean {
+  return getDb()
+    .prepare("UPDATE memories SET reviewed_at = unixepoch() WHERE id = ?")
+    .run(id).changes > 0;
+}
+
+/** Delete memories whose TTL has passed. Returns their ids. */
+export function purgeExpiredMemories(): number[] {
+  const d = getDb();
+  const rows = d
+    .prepare("SELECT id FROM memories WHERE expires_at IS NOT NULL AND expires_at <= unixepoch()")
+    .all() as Array<{ id: number }>;
+  if (rows.length === 0) return [];
+  const ids = rows.map((r) => r.id);
+  d.prepare(`DELETE FROM memories WHERE id IN (${ids.map(() => "?").join(",")})`).run(...ids);
+  return ids;
+}
+
+export function getMemory(id: number): MemoryRow | undefined {
+  return getDb().prepare("SELECT * FROM memories WHERE id = ?").get(id) as MemoryRow | undefined;
+}
+
+/** Replace a memory's content (same permission rule as deleteMemory). */
+export function updateMemory(id: number, content: string, userId: string): boolean {
+  const result = getDb()
+    .prepare("UPDATE memories SET content = ?, updated_at = unixepoch() WHERE id = ? AND (created_by = ? OR created_by = 'agent')")
+    .run(content, id, userId);
+  return result.changes > 0;
+}
+
 export function deleteMemory(id: number, userId: string): boolean {
   // Allow deletion if the user created it OR if it was created by 'agent'
   const result = getDb()
@@ -816,48 +1308,200 @@ export function deleteMemory(id: number, userId: string): boolean {
   return result.changes > 0;
 }
 
+/** Delete any memory regardless of who created it (admin memory review). */
+export function deleteMemoryAsAdmin(id: number): boolean {
+  return getDb().prepare("DELETE FROM memories WHERE id = ?").run(id).changes > 0;
+}
+
 /**
- * Seed tools from a tools.json file when the tools table is empty (first boot).
- * Does nothing if tools already exist in the DB.
+ * Mark `oldIds` as replaced by `newId`. They stay in the table as history
+ * (see getMemoryHistory) but are no longer recalled or injected into prompts.
+ * Open conflicts between them are resolved, and a pin carries over to `newId`.
  */
-export function seedToolsFromFile(filePath: string): void {
-  const existing = getDb()
-    .prepare("SELECT COUNT(*) as count FROM tools")
-    .get() as { count: number };
+export function supersedeMemories(oldIds: number[], newId: number, resolvedBy: string): void {
+  const d = getDb();
+  d.transaction(() => {
+    for (const oldId of oldIds) {
+      if (oldId === newId) continue;
+      d.prepare("UPDATE memories SET superseded_by = ?, superseded_at = unixepoch() WHERE id = ? AND superseded_by IS NULL")
+        .run(newId, oldId);
+      d.prepare(`
+        UPDATE memory_conflicts SET status = 'superseded', resolved_by = ?, resolved_at = unixepoch()
+        WHERE status = 'open' AND (memory_id = ? OR other_id = ?)
+      `).run(resolvedBy, oldId, oldId);
+      d.prepare("UPDATE memories SET pinned = 1 WHERE id = ? AND (SELECT pinned FROM memories WHERE id = ?) = 1")
+        .run(newId, oldId);
+    }
+  })();
+}
 
-  if (existing.count > 0) {
-    console.log("[seed] Tools table already has entries, skipping seed.");
-    return;
+/**
+ * The versions of a memory, oldest first: everything it replaced (directly or
+ * transitively), the memory itself, and whatever replaced it since.
+ */
+export function getMemoryHistory(id: number): MemoryRow[] {
+  const d = getDb();
+  const start = getMemory(id);
+  if (!start) return [];
+
+  const older: MemoryRow[] = [];
+  let frontier = [start.id];
+  const seen = new Set<number>([start.id]);
+  while (frontier.length > 0) {
+    const rows = d
+      .prepare(`SELECT * FROM memories WHERE superseded_by IN (${frontier.map(() => "?").join(",")})`)
+      .all(...frontier) as MemoryRow[];
+    frontier = [];
+    for (const r of rows) {
+      if (seen.has(r.id)) continue;
+      seen.add(r.id);
+      older.push(r);
+      frontier.push(r.id);
+    }
   }
 
-  let raw: string;
-  try {
-    raw = readFileSync(filePath, "utf-8");
-  } catch {
-    console.log(`[seed] No seed file at ${filePath}, skipping.`);
-    return;
+  const newer: MemoryRow[] = [];
+  let current = start;
+  while (current.superseded_by !== null && !seen.has(current.superseded_by)) {
+    const next = getMemory(current.superseded_by);
+    if (!next) break;
+    seen.add(next.id);
+    newer.push(next);
+    current = next;
   }
 
-  const toolDefs: Record<string, {
-    description: string;
-    instruction: string;
-    env: string;
-    mcp: {
-      type: string;
-      url?: string;
-      headerAuth?: string;
-      command?: string[];
-      envPassthrough?: boolean;
-      oauth?: boolean;
-    };
-  }> = JSON.parse(raw);
+  return [...older.sort((a, b) => a.created_at - b.created_at || a.id - b.id), start, ...newer];
+}
 
-  const insert = getDb().prepare(`
-    INSERT INTO tools (name, description, instruction, mcp_type, mcp_url, mcp_header_auth, mcp_command, mcp_env_passthrough, env_var)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `);
+// ── Memory conflicts ──
 
-  const seedMany = getDb().transaction(() => {
+export interface MemoryConflictRow {
+  id: number;
+  memory_id: number;
+  other_id: number;
+  similarity: number;
+  status: "open" | "superseded" | "kept";
+  resolved_by: string | null;
+  created_at: number;
+  resolved_at: number | null;
+}
+
+export function listOpenMemoryConflicts(): MemoryConflictRow[] {
+  return getDb()
+    .prepare("SELECT * FROM memory_conflicts WHERE status = 'open' ORDER BY created_at ASC")
+    .all() as MemoryConflictRow[];
+}
+
+export function getMemoryConflict(id: number): MemoryConflictRow | undefined {
+  return getDb().prepare("SELECT * FROM memory_conflicts WHERE id = ?").get(id) as MemoryConflictRow | undefined;
+}
+
+/** Dismiss a flagged conflict: both memories stay. */
+export function keepConflictingMemories(id: number, resolvedBy: string): boolean {
+  return getDb()
+    .prepare("UPDATE memory_conflicts SET status = 'kept', resolved_by = ?, resolved_at = unixepoch() WHERE id = ? AND status = 'open'")
+    .run(resolvedBy, id).changes > 0;
+}
+
+// ── Memory review schedule ──
+
+export interface MemoryReviewScheduleRow {
+  id: number;
+  channel_id: string;
+  configured_by: string;
+  last_run_at: number | null;
+  next_run_at: number;
+  updated_at: number;
+}
+
+export function getMemoryReviewSchedule(): MemoryReviewScheduleRow | undefined {
+  return getDb().prepare("SELECT * FROM memory_review_schedule WHERE id = 1").get() as MemoryReviewScheduleRow | undefined;
+}
+
+export function setMemoryReviewSchedule(channelId: string, configuredBy: string, nextRunAt: number): void {
+  getDb()
+    .prepare(`
+      INSERT INTO memory_review_schedule (id, channel_id, configured_by, next_run_at, updated_at)
+      VALUES (1, ?, ?, ?, unixepoch())
+      ON CONFLICT(id) DO UPDATE SET
+        channel_id = excluded.channel_id, configured_by = excluded.configured_by,
+        next_run_at = excluded.next_run_at, updated_at = unixepoch()
+    `)
+    .run(channelId, configuredBy, nextRunAt);
+}
+
+export function clearMemoryReviewSchedule(): boolean {
+  return getDb().prepare("DELETE FROM memory_review_schedule WHERE id = 1").run().changes > 0;
+}
+
+export function recordMemoryReviewRun(nextRunAt: number): void {
+  getDb()
+    .prepare("UPDATE memory_review_schedule SET last_run_at = unixepoch(), next_run_at = ? WHERE id = 1")
+    .run(nextRunAt);
+}
+
+// ── Memory consolidation runs ──
+
+export function getLastMemoryConsolidation(): { started_at: number } | undefined {
+  return getDb()
+    .prepare("SELECT started_at FROM memory_consolidation_runs ORDER BY started_at DESC LIMIT 1")
+    .get() as { started_at: number } | undefined;
+}
+
+export function startMemoryConsolidationRun(triggeredBy: string): number {
+  return Number(getDb()
+    .prepare("INSERT INTO memory_consolidation_runs (triggered_by) VALUES (?)")
+    .run(triggeredBy).lastInsertRowid);
+}
+
+export function finishMemoryConsolidationRun(id: number, clusters: number, merged: number): void {
+  getDb()
+    .prepare("UPDATE memory_consolidation_runs SET clusters = ?, merged = ?, finished_at = unixepoch() WHERE id = ?")
+    .run(clusters, merged, id);
+}
+
+/**
+ * Seed tools from a tools.json file when the tools table is empty (first boot).
+ * Does nothing if tools already exist in the DB.
+ */
+export function seedToolsFromFile(filePath: string): void {
+  const existing = getDb()
+    .prepare("SELECT COUNT(*) as count FROM tools")
+    .get() as { count: number };
+
+  if (existing.count > 0) {
+    console.log("[seed] Tools table already has entries, skipping seed.");
+    return;
+  }
+
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, "utf-8");
+  } catch {
+    console.log(`[seed] No seed file at ${filePath}, skipping.`);
+    return;
+  }
+
+  const toolDefs: Record<string, {
+    description: string;
+    instruction: string;
+    env: string;
+    mcp: {
+      type: string;
+      url?: string;
+      headerAuth?: string;
+      command?: string[];
+      envPassthrough?: boolean;
+      oauth?: boolean;
+    };
+  }> = JSON.parse(raw);
+
+  const insert = getDb().prepare(`
+    INSERT INTO tools (name, description, instruction, mcp_type, mcp_url, mcp_header_auth, mcp_command, mcp_env_passthrough, env_var)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const seedMany = getDb().transaction(() => {
     for (const [name, def] of Object.entries(toolDefs)) {
       insert.run(
         name,
@@ -877,22 +1521,36 @@ export function seedToolsFromFile(filePath: string): void {
   seedMany();
 }
 
-// ── User GitHub tokens ──
+// ── User forge tokens ──
+// One token per user per forge host (github.com, gitlab.example.com, ...).
 
-export interface UserGithubTokenRow {
+export interface UserForgeTokenRow {
   user_id: string;
+  forge: string;
+  host: string;
   encrypted_token: string;
   token_iv: string;
   token_tag: string;
-  github_username: string;
-  github_name: string;
-  github_email: string;
+  username: string;
+  name: string;
+  email: string;
   created_at: number;
   updated_at: number;
 }
 
-export function saveUserGithubToken(
+export interface ForgeCredential {
+  forge: string;
+  host: string;
+  token: string;
+  username: string;
+  name: string;
+  email: string;
+}
+
+export function saveUserForgeToken(
   userId: string,
+  forge: string,
+  host: string,
   encToken: string,
   iv: string,
   tag: string,
@@ -902,41 +1560,50 @@ export function saveUserGithubToken(
 ): void {
   getDb()
     .prepare(`
-      INSERT OR REPLACE INTO user_github_tokens
-        (user_id, encrypted_token, token_iv, token_tag, github_username, github_name, github_email, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, unixepoch())
+      INSERT OR REPLACE INTO user_forge_tokens
+        (user_id, forge, host, encrypted_token, token_iv, token_tag, username, name, email, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
     `)
-    .run(userId, encToken, iv, tag, username, name, email);
+    .run(userId, forge, host, encToken, iv, tag, username, name, email);
 }
 
-export function getUserGithubToken(userId: string): UserGithubTokenRow | undefined {
+export function listUserForgeTokens(userId: string): UserForgeTokenRow[] {
   return getDb()
-    .prepare("SELECT * FROM user_github_tokens WHERE user_id = ?")
-    .get(userId) as UserGithubTokenRow | undefined;
+    .prepare("SELECT * FROM user_forge_tokens WHERE user_id = ? ORDER BY forge, host")
+    .all(userId) as UserForgeTokenRow[];
 }
 
-export function getUserGithubPAT(userId: string): {
-  token: string;
-  username: string;
-  name: string;
-  email: string;
-} | undefined {
-  const row = getUserGithubToken(userId);
+export function getUserForgeCredential(userId: string, forge: string, host: string): ForgeCredential | undefined {
+  const row = getDb()
+    .prepare("SELECT * FROM user_forge_tokens WHERE user_id = ? AND forge = ? AND host = ?")
+    .get(userId, forge, host) as UserForgeTokenRow | undefined;
   if (!row) return undefined;
-  const token = decrypt(row.encrypted_token, row.token_iv, row.token_tag);
   return {
-    token,
-    username: row.github_username,
-    name: row.github_name,
-    email: row.github_email,
+    forge: row.forge,
+    host: row.host,
+    token: decrypt(row.encrypted_token, row.token_iv, row.token_tag),
+    username: row.username,
+    name: row.name,
+    email: row.email,
   };
 }
 
-export function deleteUserGithubToken(userId: string): boolean {
-  const result = getDb()
-    .prepare("DELETE FROM user_github_tokens WHERE user_id = ?")
-    .run(userId);
-  return result.changes > 0;
+/**
+ * Delete a user's forge tokens. Narrow by forge and host, or omit both to
+ * remove every connection. Returns the number of tokens removed.
+ */
+export function deleteUserForgeTokens(userId: string, forge?: string, host?: string): number {
+  let sql = "DELETE FROM user_forge_tokens WHERE user_id = ?";
+  const params: string[] = [userId];
+  if (forge) {
+    sql += " AND forge = ?";
+    params.push(forge);
+  }
+  if (host) {
+    sql += " AND host = ?";
+    params.push(host);
+  }
+  return getDb().prepare(sql).run(...params).changes;
 }
 
 // ── Knowledge management ──
@@ -951,6 +1618,12 @@ export interface KnowledgeRow {
   updated_by: string;
   created_at: number;
   updated_at: number;
+  /** Set for entries mirrored from a repo docs directory (see knowledge-sync.ts). */
+  source_id: number | null;
+  /** Repo-relative path of the mirrored file. */
+  origin_path: string | null;
+  /** Last commit that changed the mirrored file. */
+  origin_sha: string | null;
 }
 
 export function addKnowledge(
@@ -960,12 +1633,17 @@ export function addKnowledge(
   scopeKey: string | null,
   createdBy: string,
 ): number {
-  const result = getDb()
-    .prepare(
-      "INSERT INTO knowledge (title, content, scope, scope_key, created_by, updated_by) VALUES (?, ?, ?, ?, ?, ?)"
-    )
-    .run(title, content, scope, scopeKey, createdBy, createdBy);
-  return Number(result.lastInsertRowid);
+  const d = getDb();
+  return d.transaction(() => {
+    const result = d
+      .prepare(
+        "INSERT INTO knowledge (title, content, scope, scope_key, created_by, updated_by) VALUES (?, ?, ?, ?, ?, ?)"
+      )
+      .run(title, content, scope, scopeKey, createdBy, createdBy);
+    const id = Number(result.lastInsertRowid);
+    recordKnowledgeRevision(id, "add", createdBy);
+    return id;
+  })();
 }
 
 export function getKnowledgeById(id: number): KnowledgeRow | undefined {
@@ -991,19 +1669,203 @@ export function getKnowledgeByTitle(
 }
 
 export function updateKnowledge(id: number, content: string, updatedBy: string): boolean {
-  const result = getDb()
-    .prepare("UPDATE knowledge SET content = ?, updated_by = ?, updated_at = unixepoch() WHERE id = ?")
-    .run(content, updatedBy, id);
-  return result.changes > 0;
+  const d = getDb();
+  return d.transaction(() => {
+    const result = d
+      .prepare("UPDATE knowledge SET content = ?, updated_by = ?, updated_at = unixepoch() WHERE id = ?")
+      .run(content, updatedBy, id);
+    if (result.changes === 0) return false;
+    recordKnowledgeRevision(id, "update", updatedBy);
+    return true;
+  })();
+}
+
+export function removeKnowledge(id: number, removedBy: string): boolean {
+  const d = getDb();
+  return d.transaction(() => {
+    // Snapshot first, so the entry can be restored with `knowledge revert`
+    if (!recordKnowledgeRevision(id, "remove", removedBy)) return false;
+    d.prepare("DELETE FROM knowledge WHERE id = ?").run(id);
+    return true;
+  })();
+}
+
+// ── Knowledge revisions ──
+
+export interface KnowledgeRevisionRow {
+  id: number;
+  knowledge_id: number;
+  /** 1-based revision number within the entry. */
+  rev: number;
+  action: "add" | "update" | "remove" | "revert";
+  title: string;
+  /** The entry's content after this revision (for removals, what was removed). */
+  content: string;
+  scope: string;
+  scope_key: string | null;
+  author: string;
+  /** For reverts, the revision that was restored. */
+  reverted_to: number | null;
+  created_at: number;
 }
 
-export function removeKnowledge(id: number): boolean {
+/**
+ * Snapshot an entry's current state as its next revision.
+ * Returns false if the entry doesn't exist. Callers run it in the same
+ * transaction as the change it records.
+ */
+function recordKnowledgeRevision(
+  knowledgeId: number,
+  action: KnowledgeRevisionRow["action"],
+  author: string,
+  revertedTo: number | null = null,
+): boolean {
   const result = getDb()
-    .prepare("DELETE FROM knowledge WHERE id = ?")
-    .run(id);
+    .prepare(`
+      INSERT INTO knowledge_revisions (knowledge_id, rev, action, title, content, scope, scope_key, author, reverted_to)
+      SELECT id,
+        (SELECT COALESCE(MAX(rev), 0) + 1 FROM knowledge_revisions WHERE knowledge_id = knowledge.id),
+        ?, title, content, scope, scope_key, ?, ?
+      FROM knowledge WHERE id = ?
+    `)
+    .run(action, author, revertedTo, knowledgeId);
   return result.changes > 0;
 }
 
+/** An entry's revisions, oldest first. Still available after the entry is removed. */
+export function getKnowledgeRevisions(knowledgeId: number): KnowledgeRevisionRow[] {
+  return getDb()
+    .prepare("SELECT * FROM knowledge_revisions WHERE knowledge_id = ? ORDER BY rev")
+    .all(knowledgeId) as KnowledgeRevisionRow[];
+}
+
+export function getKnowledgeRevision(knowledgeId: number, rev: number): KnowledgeRevisionRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM knowledge_revisions WHERE knowledge_id = ? AND rev = ?")
+    .get(knowledgeId, rev) as KnowledgeRevisionRow | undefined;
+}
+
+/**
+ * Restore an entry's content to a past revision, recording the revert as a
+ * new revision. A removed entry is recreated under its old id (as a manual
+ * entry — it is no longer tied to a synced docs directory). Returns the
+ * restored entry, or undefined if the revision doesn't exist.
+ * Throws if a removed entry's title has since been reused in its scope.
+ */
+export function revertKnowledge(knowledgeId: number, rev: number, revertedBy: string): KnowledgeRow | undefined {
+  const d = getDb();
+  return d.transaction(() => {
+    const target = getKnowledgeRevision(knowledgeId, rev);
+    if (!target) return undefined;
+    if (getKnowledgeById(knowledgeId)) {
+      d.prepare("UPDATE knowledge SET content = ?, updated_by = ?, updated_at = unixepoch() WHERE id = ?")
+        .run(target.content, revertedBy, knowledgeId);
+    } else {
+      const first = getKnowledgeRevision(knowledgeId, 1);
+      d.prepare(`
+        INSERT INTO knowledge (id, title, content, scope, scope_key, created_by, updated_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        knowledgeId, target.title, target.content, target.scope, target.scope_key,
+        first?.author ?? revertedBy, revertedBy, first?.created_at ?? Math.floor(Date.now() / 1000),
+      );
+    }
+    recordKnowledgeRevision(knowledgeId, "revert", revertedBy, rev);
+    return getKnowledgeById(knowledgeId);
+  })();
+}
+
+// ── Knowledge synced from repo docs ──
+
+export interface KnowledgeSourceRow {
+  id: number;
+  repo_name: string;
+  /** Repo-relative directory, without leading or trailing slashes. */
+  path: string;
+  created_by: string;
+  last_sha: string | null;
+  last_synced_at: number | null;
+  created_at: number;
+}
+
+/** Register a docs directory to mirror; returns the existing source if already registered. */
+export function addKnowledgeSource(repoName: string, dir: string, createdBy: string): KnowledgeSourceRow {
+  const d = getDb();
+  d.prepare("INSERT OR IGNORE INTO knowledge_sources (repo_name, path, created_by) VALUES (?, ?, ?)")
+    .run(repoName, dir, createdBy);
+  return d.prepare("SELECT * FROM knowledge_sources WHERE repo_name = ? AND path = ?")
+    .get(repoName, dir) as KnowledgeSourceRow;
+}
+
+export function getKnowledgeSource(id: number): KnowledgeSourceRow | undefined {
+  return getDb().prepare("SELECT * FROM knowledge_sources WHERE id = ?").get(id) as KnowledgeSourceRow | undefined;
+}
+
+export function listKnowledgeSources(repoName?: string): KnowledgeSourceRow[] {
+  if (repoName) {
+    return getDb()
+      .prepare("SELECT * FROM knowledge_sources WHERE repo_name = ? ORDER BY path")
+      .all(repoName) as KnowledgeSourceRow[];
+  }
+  return getDb().prepare("SELECT * FROM knowledge_sources ORDER BY repo_name, path").all() as KnowledgeSourceRow[];
+}
+
+/** Stop mirroring a docs directory and delete the entries it created. Returns how many were deleted. */
+export function removeKnowledgeSource(id: number, removedBy: string): number {
+  const d = getDb();
+  return d.transaction(() => {
+    let removed = 0;
+    for (const entry of listKnowledgeForSource(id)) {
+      if (removeKnowledge(entry.id, removedBy)) removed++;
+    }
+    d.prepare("DELETE FROM knowledge_sources WHERE id = ?").run(id);
+    return removed;
+  })();
+}
+
+export function recordKnowledgeSourceSync(id: number, sha: string): void {
+  getDb()
+    .prepare("UPDATE knowledge_sources SET last_sha = ?, last_synced_at = unixepoch() WHERE id = ?")
+    .run(sha, id);
+}
+
+export function listKnowledgeForSource(sourceId: number): KnowledgeRow[] {
+  return getDb()
+    .prepare("SELECT * FROM knowledge WHERE source_id = ? ORDER BY origin_path")
+    .all(sourceId) as KnowledgeRow[];
+}
+
+export function addSyncedKnowledge(
+  title: string,
+  content: string,
+  repoName: string,
+  source: { sourceId: number; originPath: string; originSha: string },
+  createdBy: string,
+): number {
+  const d = getDb();
+  return d.transaction(() => {
+    const result = d
+      .prepare(`
+        INSERT INTO knowledge (title, content, scope, scope_key, created_by, updated_by, source_id, origin_path, origin_sha)
+        VALUES (?, ?, 'repo', ?, ?, ?, ?, ?, ?)
+      `)
+      .run(title, content, repoName, createdBy, createdBy, source.sourceId, source.originPath, source.originSha);
+    const id = Number(result.lastInsertRowid);
+    recordKnowledgeRevision(id, "add", createdBy);
+    return id;
+  })();
+}
+
+export function updateSyncedKnowledge(id: number, content: string, originSha: string, updatedBy: string): void {
+  const d = getDb();
+  d.transaction(() => {
+    const result = d
+      .prepare("UPDATE knowledge SET content = ?, origin_sha = ?, updated_by = ?, updated_at = unixepoch() WHERE id = ?")
+      .run(content, originSha, updatedBy, id);
+    if (result.changes > 0) recordKnowledgeRevision(id, "update", updatedBy);
+  })();
+}
+
 export function listKnowledge(
   scope?: string,
   scopeKey?: string,
@@ -1057,3 +1919,562 @@ export function getKnowledgeContent(
 
   return parts.join("\n\n");
 }
+
+// ── Usage ledger ──
+
+export type UsageKind = "qa" | "coding" | "enrich" | "context" | "digest" | "memory";
+
+export interface UsageEntry {
+  kind: UsageKind;
+  sessionId?: string;
+  threadKey?: string;
+  channelId?: string;
+  userId?: string;
+  repoName?: string;
+  agent?: string;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number;
+  latencyMs: number;
+}
+
+export function recordUsage(entry: UsageEntry): void {
+  getDb()
+    .prepare(`
+      INSERT INTO usage_ledger
+        (kind, session_id, thread_key, channel_id, user_id, repo_name, agent, model,
+         input_tokens, output_tokens, reasoning_tokens, cache_read_tokens, cache_write_tokens, cost, latency_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      entry.kind,
+      entry.sessionId ?? null,
+      entry.threadKey ?? null,
+      entry.channelId ?? null,
+      entry.userId ?? null,
+      entry.repoName ?? null,
+      entry.agent ?? null,
+      entry.model ?? null,
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.reasoningTokens,
+      entry.cacheReadTokens,
+      entry.cacheWriteTokens,
+      entry.cost,
+      entry.latencyMs,
+    );
+}
+
+export type UsageGroupBy = "channel" | "user" | "repo";
+
+export interface UsageReportRow {
+  group_key: string | null;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cost: number;
+  avg_latency_ms: number;
+}
+
+const USAGE_GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  channel: "channel_id",
+  user: "user_id",
+  repo: "repo_name",
+};
+
+/**
+ * Aggregate the usage ledger since a unix timestamp, grouped by channel, user, or repo.
+ * Ordered by cost, then total tokens, so the heaviest consumers come first.
+ */
+export function getUsageReport(groupBy: UsageGroupBy, since: number): UsageReportRow[] {
+  const column = USAGE_GROUP_COLUMNS[groupBy];
+  return getDb()
+    .prepare(`
+      SELECT ${column} AS group_key,
+             COUNT(*) AS requests,
+             SUM(input_tokens) AS input_tokens,
+             SUM(output_tokens) AS output_tokens,
+             SUM(reasoning_tokens) AS reasoning_tokens,
+             SUM(cost) AS cost,
+             AVG(latency_ms) AS avg_latency_ms
+      FROM usage_ledger
+      WHERE created_at >= ?
+      GROUP BY ${column}
+      ORDER BY cost DESC, (input_tokens + output_tokens) DESC
+    `)
+    .all(since) as UsageReportRow[];
+}
+
+/**
+ * Total tokens (input + output + reasoning) and cost spent since a unix timestamp,
+ * optionally restricted to one channel or one user.
+ */
+export function getUsageTotals(
+  since: number,
+  filter?: { channelId?: string; userId?: string },
+): { tokens: number; cost: number } {
+  const conditions = ["created_at >= ?"];
+  const params: unknown[] = [since];
+  if (filter?.channelId) {
+    conditions.push("channel_id = ?");
+    params.push(filter.channelId);
+  }
+  if (filter?.userId) {
+    conditions.push("user_id = ?");
+    params.push(filter.userId);
+  }
+  const row = getDb()
+    .prepare(`
+      SELECT COALESCE(SUM(input_tokens + output_tokens + reasoning_tokens), 0) AS tokens,
+             COALESCE(SUM(cost), 0) AS cost
+      FROM usage_ledger
+      WHERE ${conditions.join(" AND ")}
+    `)
+    .get(...params) as { tokens: number; cost: number };
+  return row;
+}
+
+// ── Usage budgets ──
+
+export type BudgetScope = "global" | "channel" | "user";
+export type BudgetPeriod = "daily" | "monthly";
+export type BudgetMetric = "tokens" | "usd";
+
+export interface UsageBudgetRow {
+  scope: BudgetScope;
+  scope_key: string;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit_value: number;
+  set_by: string;
+  updated_at: number;
+}
+
+export function setUsageBudget(
+  scope: BudgetScope,
+  scopeKey: string,
+  period: BudgetPeriod,
+  metric: BudgetMetric,
+  limitValue: number,
+  setBy: string,
+): void {
+  getDb()
+    .prepare(`
+      INSERT OR REPLACE INTO usage_budgets (scope, scope_key, period, metric, limit_value, set_by, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, unixepoch())
+    `)
+    .run(scope, scopeKey, period, metric, limitValue, setBy);
+}
+
+export function clearUsageBudget(scope: BudgetScope, scopeKey: string, period: BudgetPeriod): boolean {
+  const result = getDb()
+    .prepare("DELETE FROM usage_budgets WHERE scope = ? AND scope_key = ? AND period = ?")
+    .run(scope, scopeKey, period);
+  return result.changes > 0;
+}
+
+export function listUsageBudgets(): UsageBudgetRow[] {
+  return getDb()
+    .prepare("SELECT * FROM usage_budgets ORDER BY scope, scope_key, period")
+    .all() as UsageBudgetRow[];
+}
+
+/** Budgets that apply to a request from this channel and user (global + channel + user). */
+export function getApplicableBudgets(channelId: string, userId: string): UsageBudgetRow[] {
+  return getDb()
+    .prepare(`
+      SELECT * FROM usage_budgets
+      WHERE scope = 'global'
+         OR (scope = 'channel' AND scope_key = ?)
+         OR (scope = 'user' AND scope_key = ?)
+    `)
+    .all(channelId, userId) as UsageBudgetRow[];
+}
+
+// ── Answer feedback ──
+
+export interface QaAnswerRow {
+  id: number;
+  thread_key: string;
+  channel_id: string;
+  session_id: string;
+  agent: string | null;
+  repo_name: string | null;
+  question: string;
+  created_at: number;
+}
+
+export type FeedbackRating = "up" | "down" | "wrong";
+
+/**
+ * Record a posted Q&A answer so feedback buttons can reference it by ID.
+ * Returns the new answer ID.
+ */
+export function saveQaAnswer(answer: {
+  threadKey: string;
+  channelId: string;
+  sessionId: string;
+  agent?: string;
+  repoName?: string;
+  question: string;
+}): number {
+  const result = getDb()
+    .prepare(`
+      INSERT INTO qa_answers (thread_key, channel_id, session_id, agent, repo_name, question)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      answer.threadKey, answer.channelId, answer.sessionId,
+      answer.agent ?? null, answer.repoName ?? null, answer.question,
+    );
+  return Number(result.lastInsertRowid);
+}
+
+export function getQaAnswer(id: number): QaAnswerRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM qa_answers WHERE id = ?")
+    .get(id) as QaAnswerRow | undefined;
+}
+
+/**
+ * Record a user's rating of an answer. A user has one rating per answer;
+ * rating again replaces the previous one.
+ */
+export function saveAnswerFeedback(
+  answerId: number,
+  userId: string,
+  rating: FeedbackRating,
+  correction?: string,
+  memoryId?: number,
+): void {
+  getDb()
+    .prepare(`
+      INSERT OR REPLACE INTO answer_feedback (answer_id, user_id, rating, correction, memory_id, created_at)
+      VALUES (?, ?, ?, ?, ?, unixepoch())
+    `)
+    .run(answerId, userId, rating, correction ?? null, memoryId ?? null);
+}
+
+export type FeedbackGroupBy = "channel" | "repo";
+
+export interface FeedbackReportRow {
+  group_key: string | null;
+  up: number;
+  down: number;
+  wrong: number;
+  total: number;
+}
+
+const FEEDBACK_GROUP_COLUMNS: Record<FeedbackGroupBy, string> = {
+  channel: "a.channel_id",
+  repo: "a.repo_name",
+};
+
+/**
+ * Count ratings given in [since, until), grouped by the answer's channel or repo.
+ */
+export function getFeedbackReport(
+  groupBy: FeedbackGroupBy,
+  since: number,
+  until: number,
+): FeedbackReportRow[] {
+  const column = FEEDBACK_GROUP_COLUMNS[groupBy];
+  return getDb()
+    .prepare(`
+      SELECT ${column} AS group_key,
+             SUM(f.rating = 'up') AS up,
+             SUM(f.rating = 'down') AS down,
+             SUM(f.rating = 'wrong') AS wrong,
+             COUNT(*) AS total
+      FROM answer_feedback f
+      JOIN qa_answers a ON a.id = f.answer_id
+      WHERE f.created_at >= ? AND f.created_at < ?
+      GROUP BY ${column}
+      ORDER BY total DESC
+    `)
+    .all(since, until) as FeedbackReportRow[];
+}
+
+// ── Channel digests ──
+
+export interface ChannelDigestRow {
+  channel_id: string;
+  channel_name: string;
+  frequency: "daily" | "weekly";
+  /** 0 = Sunday … 6 = Saturday; null for daily digests. */
+  day_of_week: number | null;
+  /** "HH:MM" in `timezone`. */
+  time_of_day: string;
+  /** IANA time zone; null = the default digest zone. */
+  timezone: string | null;
+  /** Repo the watermark belongs to — reset if the channel's repo changes. */
+  repo_name: string | null;
+  last_sha: string | null;
+  last_run_at: number | null;
+  next_run_at: number;
+  configured_by: string;
+  updated_at: number;
+}
+
+export function getChannelDigest(channelId: string): ChannelDigestRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM channel_digests WHERE channel_id = ?")
+    .get(channelId) as ChannelDigestRow | undefined;
+}
+
+/**
+ * Create or reschedule a channel's digest. Keeps the existing watermark so
+ * changing the schedule doesn't re-post commits that were already covered.
+ */
+export function setChannelDigest(opts: {
+  channelId: string;
+  channelName: string;
+  frequency: "daily" | "weekly";
+  dayOfWeek: number | null;
+  timeOfDay: string;
+  timezone: string | null;
+  nextRunAt: number;
+  configuredBy: string;
+}): void {
+  getDb()
+    .prepare(`
+      INSERT INTO channel_digests (channel_id, channel_name, frequency, day_of_week, time_of_day, timezone, next_run_at, configured_by, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
+      ON CONFLICT(channel_id) DO UPDATE SET
+        channel_name = excluded.channel_name,
+        frequency = excluded.frequency,
+        day_of_week = excluded.day_of_week,
+        time_of_day = excluded.time_of_day,
+        timezone = excluded.timezone,
+        next_run_at = excluded.next_run_at,
+        configured_by = excluded.configured_by,
+        updated_at = unixepoch()
+    `)
+    .run(
+      opts.channelId, opts.channelName, opts.frequency, opts.dayOfWeek,
+      opts.timeOfDay, opts.timezone, opts.nextRunAt, opts.configuredBy,
+    );
+}
+
+export function clearChannelDigest(channelId: string): boolean {
+  const result = getDb()
+    .prepare("DELETE FROM channel_digests WHERE channel_id = ?")
+    .run(channelId);
+  return result.changes > 0;
+}
+
+export function getDueDigests(now: number): ChannelDigestRow[] {
+  return getDb()
+    .prepare("SELECT * FROM channel_digests WHERE next_run_at <= ? ORDER BY next_run_at")
+    .all(now) as ChannelDigestRow[];
+}
+
+/**
+ * Record a digest run. Pass `lastSha` only when the watermark should advance
+ * (the digest was posted, or there was nothing new to post).
+ */
+export function recordDigestRun(
+  channelId: string,
+  nextRunAt: number,
+  watermark?: { repoName: string; lastSha: string },
+): void {
+  const database = getDb();
+  if (watermark) {
+    database
+      .prepare(`
+        UPDATE channel_digests
+        SET repo_name = ?, last_sha = ?, last_run_at = unixepoch(), next_run_at = ?
+        WHERE channel_id = ?
+      `)
+      .run(watermark.repoName, watermark.lastSha, nextRunAt, channelId);
+  } else {
+    database
+      .prepare("UPDATE channel_digests SET next_run_at = ? WHERE channel_id = ?")
+      .run(nextRunAt, channelId);
+  }
+}
+
+// ── PR reviews ──
+
+export interface PrReviewRow {
+  id: number;
+  thread_key: string;
+  channel_id: string;
+  user_id: string;
+  repo_name: string;
+  pr_number: number;
+  pr_url: string;
+  body: string;
+  posted_url: string | null;
+  posted_at: number | null;
+  created_at: number;
+}
+
+/**
+ * Record a finished review so the "Post to PR" button can reference it by ID.
+ * Returns the new review ID.
+ */
+export function savePrReview(review: {
+  threadKey: string;
+  channelId: string;
+  userId: string;
+  repoName: string;
+  prNumber: number;
+  prUrl: string;
+  body: string;
+}): number {
+  const result = getDb()
+    .prepare(`
+      INSERT INTO pr_reviews (thread_key, channel_id, user_id, repo_name, pr_number, pr_url, body)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(review.threadKey, review.channelId, review.userId, review.repoName, review.prNumber, review.prUrl, review.body);
+  return Number(result.lastInsertRowid);
+}
+
+export function getPrReview(id: number): PrReviewRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM pr_reviews WHERE id = ?")
+    .get(id) as PrReviewRow | undefined;
+}
+
+export function markPrReviewPosted(id: number, postedUrl: string): void {
+  getDb()
+    .prepare("UPDATE pr_reviews SET posted_url = ?, posted_at = unixepoch() WHERE id = ?")
+    .run(postedUrl, id);
+}
+
+// ── Coding session queue ──
+
+export interface CodingQueueRow {
+  id: number;
+  thread_key: string;
+  channel_id: string;
+  user_id: string;
+  /** JSON-encoded start request (description, agent, repo, branch, files...). */
+  request: string;
+  /** Higher runs first; ties run in arrival order. */
+  priority: number;
+  created_at: number;
+}
+
+const QUEUE_ORDER = "ORDER BY priority DESC, id ASC";
+
+/** Add a request to the queue. Returns its ID. */
+export function enqueueCodingRequest(entry: {
+  threadKey: string;
+  channelId: string;
+  userId: string;
+  request: string;
+}): number {
+  const result = getDb()
+    .prepare("INSERT INTO coding_queue (thread_key, channel_id, user_id, request) VALUES (?, ?, ?, ?)")
+    .run(entry.threadKey, entry.channelId, entry.userId, entry.request);
+  return Number(result.lastInsertRowid);
+}
+
+/** All queued requests, in the order they'll start. */
+export function listCodingQueue(): CodingQueueRow[] {
+  return getDb()
+    .prepare(`SELECT * FROM coding_queue ${QUEUE_ORDER}`)
+    .all() as CodingQueueRow[];
+}
+
+export function getQueuedCodingRequest(id: number): CodingQueueRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM coding_queue WHERE id = ?")
+    .get(id) as CodingQueueRow | undefined;
+}
+
+export function getQueuedCodingRequestForThread(threadKey: string): CodingQueueRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM coding_queue WHERE thread_key = ?")
+    .get(threadKey) as CodingQueueRow | undefined;
+}
+
+/** 1-based position of a queued request, or 0 if it isn't queued. */
+export function getCodingQueuePosition(id: number): number {
+  return listCodingQueue().findIndex((r) => r.id === id) + 1;
+}
+
+export function setCodingQueuePriority(id: number, priority: number): boolean {
+  return getDb()
+    .prepare("UPDATE coding_queue SET priority = ? WHERE id = ?")
+    .run(priority, id).changes > 0;
+}
+
+export function removeQueuedCodingRequest(id: number): boolean {
+  return getDb()
+    .prepare("DELETE FROM coding_queue WHERE id = ?")
+    .run(id).changes > 0;
+}
+
+// ── Per-user coding session limits ──
+
+export interface CodingUserLimitRow {
+  user_id: string;
+  max_sessions: number;
+  set_by: string;
+  updated_at: number;
+}
+
+export function getCodingUserLimit(userId: string): number | undefined {
+  const row = getDb()
+    .prepare("SELECT max_sessions FROM coding_user_limits WHERE user_id = ?")
+    .get(userId) as { max_sessions: number } | undefined;
+  return row?.max_sessions;
+}
+
+export function listCodingUserLimits(): CodingUserLimitRow[] {
+  return getDb()
+    .prepare("SELECT * FROM coding_user_limits ORDER BY user_id")
+    .all() as CodingUserLimitRow[];
+}
+
+/** Set a user's concurrent session limit; null removes the override. */
+export function setCodingUserLimit(userId: string, maxSessions: number | null, setBy: string): void {
+  if (maxSessions === null) {
+    getDb().prepare("DELETE FROM coding_user_limits WHERE user_id = ?").run(userId);
+    return;
+  }
+  getDb()
+    .prepare(`
+      INSERT INTO coding_user_limits (user_id, max_sessions, set_by, updated_at)
+      VALUES (?, ?, ?, unixepoch())
+      ON CONFLICT(user_id) DO UPDATE SET
+        max_sessions = excluded.max_sessions, set_by = excluded.set_by, updated_at = excluded.updated_at
+    `)
+    .run(userId, maxSessions, setBy);
+}
+
+// ── Channel idle timeouts ──
+
+/** A channel's coding session idle timeout in minutes, if one is set. */
+export function getChannelIdleTimeout(channelId: string): number | undefined {
+  const row = getDb()
+    .prepare("SELECT minutes FROM channel_idle_timeouts WHERE channel_id = ?")
+    .get(channelId) as { minutes: number } | undefined;
+  return row?.minutes;
+}
+
+export function setChannelIdleTimeout(channelId: string, minutes: number, configuredBy: string): void {
+  getDb()
+    .prepare(`
+      INSERT INTO channel_idle_timeouts (channel_id, minutes, configured_by, updated_at)
+      VALUES (?, ?, ?, unixepoch())
+      ON CONFLICT(channel_id) DO UPDATE SET
+        minutes = excluded.minutes, configured_by = excluded.configured_by, updated_at = excluded.updated_at
+    `)
+    .run(channelId, minutes, configuredBy);
+}
+
+export function clearChannelIdleTimeout(channelId: string): boolean {
+  return getDb()
+    .prepare("DELETE FROM channel_idle_timeouts WHERE channel_id = ?")
+    .run(channelId).changes > 0;
+}
@@ -0,0 +1,160 @@
+/**
+ * LLM usage metering and budget enforcement.
+ *
+ * Token counts and cost are read from the `step-finish` parts of the
+ * OpenCode SSE stream and written to the `usage_ledger` table. Budgets
+ * (global, per-channel, per-user) cap spend per day or per month.
+ */
+import {
+  recordUsage, getUsageTotals, getApplicableBudgets,
+  type UsageKind, type UsageBudgetRow, type BudgetPeriod,
+} from "./sessions.js";
+
+/** Who a metered request should be attributed to. */
+export interface UsageAttribution {
+  kind: UsageKind;
+  threadKey?: string;
+  channelId?: string;
+  userId?: string;
+  repoName?: string;
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number;
+}
+
+interface StepFinishLike {
+  id: string;
+  cost?: number;
+  tokens?: {
+    input?: number;
+    output?: number;
+    reasoning?: number;
+    cache?: { read?: number; write?: number };
+  };
+}
+
+/**
+ * Accumulates token counts across the step-finish parts of one prompt.
+ * Parts are keyed by ID because OpenCode may re-emit an updated part.
+ */
+export function createUsageAccumulator() {
+  const steps = new Map<string, StepFinishLike>();
+  let model: string | undefined;
+
+  return {
+    addStep(part: StepFinishLike) {
+      steps.set(part.id, part);
+    },
+    setModel(providerId: string, modelId: string) {
+      model = `${providerId}/${modelId}`;
+    },
+    get model(): string | undefined {
+      return model;
+    },
+    totals(): UsageTotals {
+      const totals: UsageTotals = {
+        inputTokens: 0, outputTokens: 0, reasoningTokens: 0,
+        cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0,
+      };
+      for (const step of steps.values()) {
+        totals.inputTokens += step.tokens?.input ?? 0;
+        totals.outputTokens += step.tokens?.output ?? 0;
+        totals.reasoningTokens += step.tokens?.reasoning ?? 0;
+        totals.cacheReadTokens += step.tokens?.cache?.read ?? 0;
+        totals.cacheWriteTokens += step.tokens?.cache?.write ?? 0;
+        totals.cost += step.cost ?? 0;
+      }
+      return totals;
+    },
+    get stepCount(): number {
+      return steps.size;
+    },
+  };
+}
+
+export type UsageAccumulator = ReturnType<typeof createUsageAccumulator>;
+
+/**
+ * Write an accumulated prompt to the ledger. Never throws — metering
+ * failures must not break the answer that was already produced.
+ */
+export function recordAccumulatedUsage(
+  acc: UsageAccumulator,
+  attribution: UsageAttribution,
+  extra: { sessionId: string; agent?: string; latencyMs: number },
+): void {
+  if (acc.stepCount === 0) return;
+  try {
+    recordUsage({
+      ...attribution,
+      ...acc.totals(),
+      sessionId: extra.sessionId,
+      agent: extra.agent,
+      model: acc.model,
+      latencyMs: extra.latencyMs,
+    });
+  } catch (err) {
+    console.warn("[usage] Failed to record usage:", err);
+  }
+}
+
+// ── Budgets ──
+
+/** Unix timestamp (seconds) for the start of the current UTC day or month. */
+export function periodStart(period: BudgetPeriod, now = new Date()): number {
+  const start = period === "daily"
+    ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    : Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  return Math.floor(start / 1000);
+}
+
+export function formatBudgetLimit(budget: Pick<UsageBudgetRow, "metric" | "limit_value">): string {
+  return budget.metric === "usd"
+    ? `$${budget.limit_value.toFixed(2)}`
+    : `${Math.round(budget.limit_value).toLocaleString("en-US")} tokens`;
+}
+
+export function describeBudgetScope(budget: Pick<UsageBudgetRow, "scope" | "scope_key">): string {
+  if (budget.scope === "channel") return `<#${budget.scope_key}>`;
+  if (budget.scope === "user") return `<@${budget.scope_key}>`;
+  return "global";
+}
+
+/**
+ * Check the global, channel, and user budgets that apply to a request.
+ * Returns a user-facing refusal message for the first exhausted budget,
+ * or null if the request may proceed.
+ */
+export function checkUsageBudget(channelId: string, userId: string): string | null {
+  let budgets: UsageBudgetRow[];
+  try {
+    budgets = getApplicableBudgets(channelId, userId);
+  } catch (err) {
+    console.warn("[usage] Failed to load budgets:", err);
+    return null;
+  }
+
+  for (const budget of budgets) {
+    const filter = budget.scope === "channel" ? { channelId }
+      : budget.scope === "user" ? { userId }
+      : undefined;
+    const spent = getUsageTotals(periodStart(budget.period), filter);
+    const used = budget.metric === "usd" ? spent.cost : spent.tokens;
+    if (used >= budget.limit_value) {
+      const scopeLabel = budget.scope === "global" ? "The workspace"
+        : budget.scope === "channel" ? "This channel"
+        : "You";
+      const periodLabel = budget.period === "daily" ? "daily" : "monthly";
+      const resets = budget.period === "daily" ? "midnight UTC" : "the start of next month (UTC)";
+      return `_${scopeLabel} ${budget.scope === "user" ? "have" : "has"} reached the ${periodLabel} usage budget ` +
+        `(${formatBudgetLimit(budget)}). New questions are paused until ${resets}. Ask an admin if you need more._`;
+    }
+  }
+  return null;
+}
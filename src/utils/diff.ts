@@ -0,0 +1,88 @@
+/** Above this many line pairs, the changed region is shown as a plain replacement. */
+const MAX_LCS_CELLS = 4_000_000;
+
+interface DiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+/** Line-level diff via longest common subsequence, after trimming the common prefix and suffix. */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map((text): DiffLine => ({ op: " ", text }));
+  const suffix = a.slice(endA).map((text): DiffLine => ({ op: " ", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map((text): DiffLine => ({ op: "-", text })),
+      ...midB.map((text): DiffLine => ({ op: "+", text })),
+      ...suffix,
+    ];
+  }
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..], flattened
+  const cols = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ op: " ", text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      middle.push({ op: "-", text: midA[i++] });
+    } else {
+      middle.push({ op: "+", text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ op: "-", text: midA[i++] });
+  while (j < midB.length) middle.push({ op: "+", text: midB[j++] });
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+/**
+ * Render a unified-style diff of two texts: changed lines prefixed with
+ * `-`/`+`, `context` unchanged lines around each change, and `…` between
+ * hunks. Returns an empty string when the texts are identical.
+ */
+export function formatDiff(before: string, after: string, context = 2): string {
+  const lines = diffLines(before.split("\n"), after.split("\n"));
+  const keep = new Set<number>();
+  lines.forEach((l, n) => {
+    if (l.op === " ") return;
+    for (let k = Math.max(0, n - context); k <= Math.min(lines.length - 1, n + context); k++) keep.add(k);
+  });
+  if (keep.size === 0) return "";
+
+  const out: string[] = [];
+  let last = -1;
+  for (let n = 0; n < lines.length; n++) {
+    if (!keep.has(n)) continue;
+    if (last !== -1 && n > last + 1) out.push("…");
+    out.push(`${lines[n].op} ${lines[n].text}`);
+    last = n;
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,11 @@
+const DURATION_UNITS: Record<string, number> = { h: 3600, d: 86400, w: 7 * 86400 };
+
+/**
+ * Parse a short duration like `24h`, `7d`, or `4w` into seconds.
+ * Returns null if the string isn't a valid duration.
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+)([hdw])$/i);
+  if (!match) return null;
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+}
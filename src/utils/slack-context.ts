@@ -70,6 +70,34 @@ export async function getSlackContext(
   return ctx;
 }
 
+// Workspace URL (e.g. https://acme.slack.com/) for building permalinks; resolved once
+let workspaceUrl: Promise<string | null> | undefined;
+
+/**
+ * Link to the parent message of a Slack thread, built from the workspace URL
+ * so listing many threads costs one API call. Returns null if the URL can't
+ * be resolved or the thread key isn't a message ts.
+ */
+export async function getThreadPermalink(
+  client: WebClient,
+  channelId: string,
+  threadTs: string
+): Promise<string | null> {
+  if (!/^\d+\.\d+$/.test(threadTs)) return null;
+  workspaceUrl ??= client.auth.test()
+    .then((res) => res.url ?? null)
+    .catch((err) => {
+      console.warn("Failed to resolve workspace URL:", err);
+      return null;
+    });
+  const base = await workspaceUrl;
+  if (!base) {
+    workspaceUrl = undefined; // retry on the next call
+    return null;
+  }
+  return `${base.replace(/\/?$/, "/")}archives/${channelId}/p${threadTs.replace(".", "")}`;
+}
+
 // Max characters of thread context to include in the prompt
 const MAX_THREAD_CONTEXT_CHARS = 3000;
 
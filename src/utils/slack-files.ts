@@ -1,6 +1,7 @@
 /**
- * Download Slack file attachments and convert to base64 data URIs
- * for passing to OpenCode as FilePartInput.
+ * Download Slack file attachments — as base64 data URIs for passing to
+ * OpenCode as FilePartInput, or as text for patches and source files —
+ * and upload text snippets (diffs, file contents) back to threads.
  */
 import type { WebClient } from "@slack/web-api";
 
@@ -154,3 +155,127 @@ export async function downloadFiles(
   return results;
 }
 
+
+// ── Text attachments ──
+
+export interface TextFile {
+  filename: string;
+  content: string;
+}
+
+/** Non-`text/*` MIME types that still carry source code or config. */
+const TEXT_APPLICATION_MIMES = new Set([
+  "application/json",
+  "application/javascript",
+  "application/typescript",
+  "application/xml",
+  "application/x-yaml",
+  "application/x-sh",
+  "application/x-patch",
+  "application/x-diff",
+  "application/sql",
+  "application/toml",
+]);
+
+/** Whether an attachment looks like a text/source file rather than a binary. */
+export function isTextFile(file: SlackFile): boolean {
+  return file.mimetype.startsWith("text/") || TEXT_APPLICATION_MIMES.has(file.mimetype);
+}
+
+/** Whether an attachment is a patch for `git apply`. */
+export function isPatchFile(file: SlackFile): boolean {
+  return /\.(patch|diff)$/i.test(file.name) || file.filetype === "diff";
+}
+
+/**
+ * Download text/source attachments (and patches) as UTF-8 strings.
+ * Files that turn out to be binary or exceed the size limit are skipped.
+ */
+export async function downloadTextFiles(files: SlackFile[], client: WebClient): Promise<TextFile[]> {
+  const candidates = files.filter((f) => {
+    if (!isTextFile(f) && !isPatchFile(f)) {
+      console.warn(`Skipping non-text file: ${f.name} (${f.mimetype})`);
+      return false;
+    }
+    return f.size <= MAX_FILE_SIZE_BYTES;
+  });
+
+  const results: TextFile[] = [];
+  for (const file of candidates) {
+    try {
+      const converted = await downloadAsDataUri(file, client);
+      const buffer = Buffer.from(converted.dataUri.split(",")[1], "base64");
+      if (buffer.includes(0)) {
+        console.warn(`Skipping binary file: ${file.name}`);
+        continue;
+      }
+      results.push({ filename: file.name, content: buffer.toString("utf-8") });
+    } catch (err) {
+      console.error(`Error downloading file ${file.name}:`, err);
+    }
+  }
+  return results;
+}
+
+// ── Snippet uploads ──
+
+export interface Snippet {
+  filename: string;
+  content: string;
+  title?: string;
+}
+
+/** Slack's limit on files shared in one upload. */
+const MAX_FILES_PER_UPLOAD = 10;
+
+/** Slack snippet types by file extension; anything else is uploaded as plain text. */
+const SNIPPET_TYPES: Record<string, string> = {
+  diff: "diff", patch: "diff",
+  ts: "typescript", tsx: "typescript", js: "javascript", jsx: "javascript", mjs: "javascript", cjs: "javascript",
+  py: "python", rb: "ruby", go: "go", rs: "rust", java: "java", kt: "kotlin", swift: "swift",
+  c: "c", h: "c", cpp: "cpp", cc: "cpp", hpp: "cpp", cs: "csharp", php: "php", scala: "scala",
+  sh: "shell", bash: "shell", zsh: "shell", sql: "sql", css: "css", scss: "css", html: "html",
+  xml: "xml", json: "json", yaml: "yaml", yml: "yaml", toml: "toml", md: "markdown", dockerfile: "dockerfile",
+};
+
+export function snippetType(filename: string): string {
+  const base = filename.split("/").pop()!.toLowerCase();
+  const ext = base.includes(".") ? base.split(".").pop()! : base;
+  return SNIPPET_TYPES[ext] ?? "text";
+}
+
+/**
+ * Upload text snippets to a thread, in batches of MAX_FILES_PER_UPLOAD.
+ * `comment` is posted with the first batch. Returns each snippet's
+ * permalink by filename (missing if Slack didn't return one).
+ */
+export async function uploadSnippets(
+  client: WebClient,
+  channel: string,
+  threadTs: string,
+  snippets: Snippet[],
+  comment?: string,
+): Promise<Map<string, string>> {
+  const permalinks = new Map<string, string>();
+  for (let i = 0; i < snippets.length; i += MAX_FILES_PER_UPLOAD) {
+    const batch = snippets.slice(i, i + MAX_FILES_PER_UPLOAD);
+    const result = await client.files.uploadV2({
+      channel_id: channel,
+      thread_ts: threadTs,
+      initial_comment: i === 0 ? comment : undefined,
+      file_uploads: batch.map((s) => ({
+        filename: s.filename,
+        title: s.title ?? s.filename,
+        content: s.content,
+        snippet_type: snippetType(s.filename),
+      })),
+    });
+    // uploadV2 returns one completeUploadExternal response per batch
+    const completed = (result as unknown as { files?: { files?: { name?: string; title?: string; permalink?: string }[] }[] }).files ?? [];
+    for (const file of completed.flatMap((c) => c.files ?? [])) {
+      const match = batch.find((s) => s.filename === file.name || (s.title ?? s.filename) === file.title);
+      if (match && file.permalink) permalinks.set(match.filename, file.permalink);
+    }
+  }
+  return permalinks;
+}
@@ -0,0 +1,217 @@
+/**
+ * Verification profiles: per-repo install / lint / typecheck / test commands
+ * that run in a coding session's worktree after the agent finishes a turn.
+ *
+ * Each command runs in its own process group under a wall-clock timeout and
+ * shell resource limits, with an allowlisted environment and the bot's
+ * generated config (which holds API keys) moved out of the worktree. This
+ * keeps secrets away from the commands but is not isolation: they still have
+ * the bot's filesystem and network access. Failures
+ * are fed back to the agent for a bounded number of fix attempts (see
+ * coding-handler), and the final summary goes into the Slack reply and PR body.
+ */
+import { spawn } from "node:child_process";
+import { existsSync, mkdtempSync, renameSync, rmSync } from "node:fs";
+import path from "node:path";
+import { getRepo, VERIFY_STEPS, type RepoRow, type VerifyStep } from "./sessions.js";
+import { BOT_MANAGED_PATHS } from "./constants.js";
+
+const STEP_TIMEOUT_MS = parseInt(process.env.VERIFY_STEP_TIMEOUT_MS ?? String(10 * 60 * 1000), 10);
+const CPU_LIMIT_SECONDS = parseInt(process.env.VERIFY_CPU_LIMIT_SECONDS ?? "900", 10);
+/** Virtual memory cap per step; 0 disables it (V8 reserves a lot of address space). */
+const MEMORY_LIMIT_MB = parseInt(process.env.VERIFY_MEMORY_LIMIT_MB ?? "0", 10);
+export const MAX_VERIFY_FIX_ATTEMPTS = parseInt(process.env.MAX_VERIFY_FIX_ATTEMPTS ?? "2", 10);
+
+/** Output kept per step (the tail, where failures usually are). */
+const MAX_OUTPUT_CHARS = 4000;
+/** The only environment variables passed to verification commands, plus VERIFY_ENV_PASSTHROUGH. */
+const ALLOWED_ENV = [
+  "PATH", "HOME", "USER", "SHELL", "LANG", "LANGUAGE", "LC_ALL", "LC_CTYPE", "TZ", "TERM", "TMPDIR",
+  ...(process.env.VERIFY_ENV_PASSTHROUGH ?? "").split(",").map((s) => s.trim()).filter(Boolean),
+];
+
+export interface VerifyCommand {
+  step: VerifyStep;
+  command: string;
+}
+
+export interface VerifyStepResult extends VerifyCommand {
+  passed: boolean;
+  timedOut: boolean;
+  durationMs: number;
+  /** Tail of combined stdout/stderr. */
+  output: string;
+}
+
+export interface VerifyReport {
+  passed: boolean;
+  steps: VerifyStepResult[];
+  /** Fix iterations the agent was given before this report. */
+  fixAttempts: number;
+}
+
+/**
+ * The repo's configured verification commands, in run order.
+ */
+export function getVerifyProfile(repo: RepoRow): VerifyCommand[] {
+  const commands: VerifyCommand[] = [];
+  for (const step of VERIFY_STEPS) {
+    const command = repo[`verify_${step}` as const];
+    if (command) commands.push({ step, command });
+  }
+  return commands;
+}
+
+export function hasVerifyProfile(repoName: string): boolean {
+  const repo = getRepo(repoName);
+  return !!repo && getVerifyProfile(repo).length > 0;
+}
+
+function verifyEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { CI: "true" };
+  for (const key of ALLOWED_ENV) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  return env;
+}
+
+/**
+ * Move the bot's generated config out of the worktree while the commands run.
+ * Returns a function that puts it back. The session's OpenCode server already
+ * loaded it, and a crash mid-run is recovered by prepareWorktree on restore.
+ */
+function hideBotManagedPaths(worktreeDir: string): () => void {
+  const present = BOT_MANAGED_PATHS.filter((p) => existsSync(path.join(worktreeDir, p)));
+  if (present.length === 0) return () => {};
+  const hiddenDir = mkdtempSync(path.join(path.dirname(worktreeDir), `.${path.basename(worktreeDir)}-verify-`));
+  for (const p of present) renameSync(path.join(worktreeDir, p), path.join(hiddenDir, p));
+  return () => {
+    for (const p of present) {
+      try {
+        // The commands may have created their own copy; the bot's wins
+        rmSync(path.join(worktreeDir, p), { recursive: true, force: true });
+        renameSync(path.join(hiddenDir, p), path.join(worktreeDir, p));
+      } catch (err) {
+        console.error(`[verify] Failed to restore ${p} in ${worktreeDir}:`, err);
+      }
+    }
+    rmSync(hiddenDir, { recursive: true, force: true });
+  };
+}
+
+function runStep(cwd: string, { step, command }: VerifyCommand): Promise<VerifyStepResult> {
+  const limits = [`ulimit -t ${CPU_LIMIT_SECONDS}`];
+  if (MEMORY_LIMIT_MB > 0) limits.push(`ulimit -v ${MEMORY_LIMIT_MB * 1024}`);
+  const started = Date.now();
+
+  return new Promise((resolve) => {
+    let output = "";
+    let timedOut = false;
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString("utf-8")).slice(-MAX_OUTPUT_CHARS);
+    };
+
+    const proc = spawn("sh", ["-c", `${limits.join("; ")}; ${command}`], {
+      cwd, env: verifyEnv(), detached: true, stdio: ["ignore", "pipe", "pipe"],
+    });
+    proc.stdout.on("data", append);
+    proc.stderr.on("data", append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try { if (proc.pid) process.kill(-proc.pid, "SIGKILL"); } catch { /* already dead */ }
+    }, STEP_TIMEOUT_MS);
+
+    const finish = (passed: boolean) => {
+      clearTimeout(timer);
+      resolve({
+        step, command, timedOut,
+        passed: passed && !timedOut,
+        durationMs: Date.now() - started,
+        output: output.trim(),
+      });
+    };
+
+    proc.on("error", (err) => {
+      append(Buffer.from(String(err)));
+      finish(false);
+    });
+    proc.on("close", (code) => finish(code === 0));
+  });
+}
+
+/**
+ * Run the repo's verification profile in a worktree.
+ * Returns null if the repo has no profile. A failed install stops the run,
+ * since the later steps can't work without it; other failures don't, so the
+ * agent sees every problem at once.
+ */
+export async function runVerification(
+  worktreeDir: string,
+  repoName: string,
+  opts: { skipInstall?: boolean; onStep?: (step: VerifyStep) => void } = {},
+): Promise<VerifyReport | null> {
+  const repo = getRepo(repoName);
+  if (!repo) return null;
+  const profile = getVerifyProfile(repo).filter((c) => !(opts.skipInstall && c.step === "install"));
+  if (profile.length === 0) return null;
+
+  const steps: VerifyStepResult[] = [];
+  const restore = hideBotManagedPaths(worktreeDir);
+  try {
+    for (const cmd of profile) {
+      opts.onStep?.(cmd.step);
+      console.log(`[verify] ${repoName}: running ${cmd.step} (${cmd.command})`);
+      const result = await runStep(worktreeDir, cmd);
+      steps.push(result);
+      if (!result.passed && cmd.step === "install") break;
+    }
+  } finally {
+    restore();
+  }
+
+  return { passed: steps.every((s) => s.passed), steps, fixAttempts: 0 };
+}
+
+/**
+ * Prompt asking the agent to fix the failing steps.
+ */
+export function buildVerifyFixPrompt(report: VerifyReport): string {
+  const failures = report.steps.filter((s) => !s.passed).map((s) => [
+    `## ${s.step} failed${s.timedOut ? " (timed out)" : ""}: \`${s.command}\``,
+    "```",
+    s.output || "(no output)",
+    "```",
+  ].join("\n"));
+
+  return [
+    "The repository's verification checks failed on your changes. Fix the problems below.",
+    "Do NOT run these commands yourself — the bot re-runs them after you finish.",
+    "Do NOT weaken, skip, or delete tests or lint rules to make them pass.",
+    "",
+    ...failures,
+  ].join("\n");
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * Markdown pass/fail summary, used in both the Slack reply and the PR body.
+ */
+export function formatVerifySummary(report: VerifyReport): string {
+  const lines = report.steps.map((s) => {
+    const status = s.passed ? "✅" : "❌";
+    const detail = s.timedOut ? `timed out after ${formatDuration(s.durationMs)}` : formatDuration(s.durationMs);
+    return `- ${status} **${s.step}** — \`${s.command}\` (${detail})`;
+  });
+
+  const attempts = report.fixAttempts === 1 ? "1 fix attempt" : `${report.fixAttempts} fix attempts`;
+  const verdict = report.passed
+    ? report.fixAttempts > 0 ? `All checks passed after ${attempts}.` : "All checks passed."
+    : report.fixAttempts > 0 ? `Checks still failing after ${attempts}.` : "Checks failed.";
+
+  return ["### Verification", ...lines, "", `_${verdict}_`].join("\n");
+}